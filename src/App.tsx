@@ -6,6 +6,8 @@ import { ConfirmationModal } from '@/components/common/ConfirmationModal';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { ProtectedRoute } from '@/router/ProtectedRoute';
 import { useLanguageStore, useThemeStore } from '@/stores';
+import { installAuditRecorder } from '@/services/audit';
+import { installQuerySync } from '@/services/query';
 
 function RootShell() {
   return (
@@ -53,6 +55,9 @@ function App() {
     document.documentElement.lang = language;
   }, [language]);
 
+  useEffect(() => installAuditRecorder(), []);
+  useEffect(() => installQuerySync(), []);
+
   return <RouterProvider router={router} />;
 }
 
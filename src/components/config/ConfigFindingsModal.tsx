@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { Modal } from '@/components/ui/Modal';
+import { IconExternalLink, IconInfo } from '@/components/ui/icons';
+import { authFilesApi } from '@/services/api';
+import { useConfigStore } from '@/stores';
+import { collectConfigFindings, type ConfigFinding } from '@/utils/configFindings';
+import styles from './ConfigFindingsModal.module.scss';
+
+type ConfigFindingsModalProps = {
+  open: boolean;
+  onClose: () => void;
+};
+
+/**
+ * 跨配置段的一致性检查结果，每条问题都可跳转到对应的修复页面
+ */
+export function ConfigFindingsModal({ open, onClose }: ConfigFindingsModalProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const fetchConfig = useConfigStore((state) => state.fetchConfig);
+
+  const [findings, setFindings] = useState<ConfigFinding[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const runChecks = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const config = await fetchConfig(undefined, true);
+      // 逐个提供商加载模型定义，接口不支持或失败时跳过该提供商的排除规则检查
+      const providers = Object.keys(config.oauthExcludedModels ?? {});
+      const definitions = await Promise.all(
+        providers.map(async (provider) => {
+          try {
+            const models = await authFilesApi.getModelDefinitions(provider);
+            return [provider, models.map((model) => model.id).filter(Boolean)] as const;
+          } catch {
+            return [provider, null] as const;
+          }
+        })
+      );
+      setFindings(
+        collectConfigFindings(config, { providerModels: Object.fromEntries(definitions) })
+      );
+    } catch (err: unknown) {
+      setFindings([]);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchConfig]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    queueMicrotask(() => {
+      if (cancelled) return;
+      void runChecks();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, runChecks]);
+
+  const handleOpenLink = (finding: ConfigFinding) => {
+    onClose();
+    navigate(finding.link);
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={t('config_findings.title')}
+      width={640}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            {t('common.close')}
+          </Button>
+          <Button onClick={() => void runChecks()} loading={loading}>
+            {t('config_findings.run_again')}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.body}>
+        <p className={styles.description}>{t('config_findings.description')}</p>
+
+        {loading && findings.length === 0 ? (
+          <div className={styles.loading}>
+            <LoadingSpinner size={16} />
+          </div>
+        ) : error ? (
+          <div className="error-box">{t('config_findings.load_failed', { message: error })}</div>
+        ) : findings.length === 0 ? (
+          <EmptyState
+            title={t('config_findings.empty_title')}
+            description={t('config_findings.empty_desc')}
+          />
+        ) : (
+          <ul className={styles.list}>
+            {findings.map((finding, index) => (
+              <li
+                key={`${finding.code}-${index}`}
+                className={`${styles.item} ${styles[finding.severity]}`}
+              >
+                <span className={styles.icon}>
+                  <IconInfo size={16} />
+                </span>
+                <div className={styles.content}>
+                  <div className={styles.title}>{t(`config_findings.${finding.code}_title`)}</div>
+                  <div className={styles.detail}>
+                    {t(`config_findings.${finding.code}`, finding.params)}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleOpenLink(finding)}>
+                  <IconExternalLink size={14} />
+                  {t('config_findings.open_fix')}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+}
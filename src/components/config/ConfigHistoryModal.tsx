@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { Modal } from '@/components/ui/Modal';
+import { SelectionCheckbox } from '@/components/ui/SelectionCheckbox';
+import { IconTrash2 } from '@/components/ui/icons';
+import {
+  MAX_CONFIG_SNAPSHOTS,
+  clearConfigSnapshots,
+  deleteConfigSnapshot,
+  isConfigHistorySupported,
+  listConfigSnapshots,
+} from '@/services/configHistory';
+import { getPassphraseSessionKey, useNotificationStore } from '@/stores';
+import type { ConfigSnapshot } from '@/types';
+import { formatDateTime, formatFileSize } from '@/utils/format';
+import styles from './ConfigHistoryModal.module.scss';
+
+export type ConfigHistoryCompareTarget = {
+  original: string;
+  modified: string;
+  label: string;
+};
+
+type ConfigHistoryModalProps = {
+  open: boolean;
+  apiBase: string;
+  // 服务端当前的 config.yaml，用于与快照对比
+  currentYaml: string;
+  restoreDisabled?: boolean;
+  onClose: () => void;
+  onCompare: (target: ConfigHistoryCompareTarget) => void;
+  onRestore: (snapshot: ConfigSnapshot) => void;
+};
+
+const snapshotKey = (snapshot: ConfigSnapshot) => snapshot.id ?? snapshot.createdAt;
+
+export function ConfigHistoryModal({
+  open,
+  apiBase,
+  currentYaml,
+  restoreDisabled = false,
+  onClose,
+  onCompare,
+  onRestore,
+}: ConfigHistoryModalProps) {
+  const { t, i18n } = useTranslation();
+  const showNotification = useNotificationStore((state) => state.showNotification);
+  const showConfirmation = useNotificationStore((state) => state.showConfirmation);
+
+  const [snapshots, setSnapshots] = useState<ConfigSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  // 最多选中两份快照进行对比，按选择顺序保存
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const supported = isConfigHistorySupported();
+
+  const loadSnapshots = useCallback(async () => {
+    setLoading(true);
+    try {
+      const next = await listConfigSnapshots(apiBase, getPassphraseSessionKey());
+      const keys = new Set(next.map(snapshotKey));
+      setSnapshots(next);
+      // 对比查看后重新打开时保留选择，只剔除已不存在的快照
+      setSelected((prev) => prev.filter((key) => keys.has(key)));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(
+        `${t('config_history.load_failed')}${message ? `: ${message}` : ''}`,
+        'error'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBase, showNotification, t]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    queueMicrotask(() => {
+      if (cancelled) return;
+      void loadSnapshots();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadSnapshots, open]);
+
+  const formatTime = (snapshot: ConfigSnapshot) =>
+    formatDateTime(new Date(snapshot.createdAt), i18n.language);
+
+  const toggleSelected = (key: number) => {
+    setSelected((prev) => {
+      if (prev.includes(key)) return prev.filter((item) => item !== key);
+      return [...prev, key].slice(-2);
+    });
+  };
+
+  const handleCompareSelected = () => {
+    const pair = snapshots
+      .filter((snapshot) => selected.includes(snapshotKey(snapshot)))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (pair.length !== 2) return;
+    const [older, newer] = pair;
+    onCompare({
+      original: older.yaml,
+      modified: newer.yaml,
+      label: `${formatTime(older)} → ${formatTime(newer)}`,
+    });
+  };
+
+  const handleCompareWithCurrent = (snapshot: ConfigSnapshot) => {
+    onCompare({
+      original: snapshot.yaml,
+      modified: currentYaml,
+      label: `${formatTime(snapshot)} → ${t('config_history.current_version')}`,
+    });
+  };
+
+  const handleDelete = async (snapshot: ConfigSnapshot) => {
+    if (snapshot.id === undefined) return;
+    try {
+      await deleteConfigSnapshot(snapshot.id);
+      await loadSnapshots();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(
+        `${t('config_history.delete_failed')}${message ? `: ${message}` : ''}`,
+        'error'
+      );
+    }
+  };
+
+  const handleClear = () => {
+    showConfirmation({
+      title: t('config_history.clear_title'),
+      message: t('config_history.clear_confirm'),
+      confirmText: t('config_history.clear'),
+      cancelText: t('common.cancel'),
+      variant: 'danger',
+      onConfirm: async () => {
+        try {
+          await clearConfigSnapshots(apiBase);
+          await loadSnapshots();
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : '';
+          showNotification(
+            `${t('config_history.delete_failed')}${message ? `: ${message}` : ''}`,
+            'error'
+          );
+        }
+      },
+    });
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={t('config_history.title')}
+      width={720}
+      footer={
+        <>
+          {snapshots.length > 0 && (
+            <Button variant="danger" onClick={handleClear} className={styles.clearButton}>
+              {t('config_history.clear')}
+            </Button>
+          )}
+          <Button variant="secondary" onClick={onClose}>
+            {t('common.close')}
+          </Button>
+          <Button onClick={handleCompareSelected} disabled={selected.length !== 2}>
+            {t('config_history.compare_selected')}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.body}>
+        <p className={styles.description}>
+          {t('config_history.description', { max: MAX_CONFIG_SNAPSHOTS })}
+        </p>
+
+        {!supported ? (
+          <EmptyState
+            title={t('config_history.unsupported_title')}
+            description={t('config_history.unsupported_desc')}
+          />
+        ) : loading && snapshots.length === 0 ? (
+          <div className={styles.loading}>
+            <LoadingSpinner size={16} />
+          </div>
+        ) : snapshots.length === 0 ? (
+          <EmptyState
+            title={t('config_history.empty_title')}
+            description={t('config_history.empty_desc')}
+          />
+        ) : (
+          <ul className={styles.list}>
+            {snapshots.map((snapshot) => {
+              const key = snapshotKey(snapshot);
+              const isSelected = selected.includes(key);
+              const locked = Boolean(snapshot.locked);
+              return (
+                <li key={key} className={`${styles.item} ${isSelected ? styles.itemSelected : ''}`}>
+                  <SelectionCheckbox
+                    checked={isSelected}
+                    disabled={locked}
+                    onChange={() => toggleSelected(key)}
+                    ariaLabel={t('config_history.select_snapshot')}
+                  />
+                  <div className={styles.itemInfo}>
+                    <div className={styles.itemTime}>{formatTime(snapshot)}</div>
+                    <div
+                      className={`${styles.itemMessage} ${
+                        snapshot.message ? '' : styles.itemMessageEmpty
+                      }`}
+                    >
+                      {snapshot.message || t('config_history.no_message')}
+                    </div>
+                    <div className={styles.itemMeta}>
+                      {locked ? (
+                        t('config_history.locked')
+                      ) : (
+                        <>
+                          {t('config_history.lines', { lines: snapshot.yaml.split('\n').length })}
+                          {' · '}
+                          {formatFileSize(new Blob([snapshot.yaml]).size)}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <div className={styles.itemActions}>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleCompareWithCurrent(snapshot)}
+                      disabled={locked}
+                    >
+                      {t('config_history.compare_current')}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => onRestore(snapshot)}
+                      disabled={restoreDisabled || locked}
+                    >
+                      {t('config_history.restore')}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => void handleDelete(snapshot)}
+                      title={t('config_history.delete')}
+                      aria-label={t('config_history.delete')}
+                    >
+                      <IconTrash2 size={14} />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+}
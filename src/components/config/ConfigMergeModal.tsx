@@ -0,0 +1,195 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { EditorState } from '@codemirror/state';
+import { EditorView, lineNumbers } from '@codemirror/view';
+import { MergeView } from '@codemirror/merge';
+import { yaml } from '@codemirror/lang-yaml';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import {
+  buildMergedText,
+  computeThreeWayMerge,
+  hasConflictMarkers,
+  type MergeChoice,
+} from '@/utils/threeWayMerge';
+import styles from './ConfigMergeModal.module.scss';
+
+type ConfigMergeModalProps = {
+  open: boolean;
+  // 打开编辑器时的版本
+  base: string;
+  // 本地修改后的版本
+  ours: string;
+  // 服务端当前版本
+  theirs: string;
+  theme: 'light' | 'dark';
+  onCancel: () => void;
+  onResolve: (merged: string) => void;
+};
+
+const CHOICES: MergeChoice[] = ['ours', 'theirs', 'both'];
+
+// 跟随面板主题的配色，避免额外引入编辑器主题包
+const buildEditorTheme = (theme: 'light' | 'dark') =>
+  EditorView.theme(
+    {
+      '&': { backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)' },
+      '.cm-gutters': {
+        backgroundColor: 'var(--bg-secondary)',
+        color: 'var(--text-tertiary)',
+        borderRight: '1px solid var(--border-color)',
+      },
+      '.cm-content': { caretColor: 'var(--text-primary)' },
+    },
+    { dark: theme === 'dark' }
+  );
+
+/**
+ * 三方合并：左侧为服务端当前版本，右侧为可编辑的合并结果
+ */
+export default function ConfigMergeModal({
+  open,
+  base,
+  ours,
+  theirs,
+  theme,
+  onCancel,
+  onResolve,
+}: ConfigMergeModalProps) {
+  const { t } = useTranslation();
+  const merge = useMemo(() => computeThreeWayMerge(base, ours, theirs), [base, ours, theirs]);
+  const [choices, setChoices] = useState<Record<number, MergeChoice>>({});
+  const labels = useMemo(
+    () => ({ ours: t('config_merge.label_ours'), theirs: t('config_merge.label_theirs') }),
+    [t]
+  );
+  const mergedText = useMemo(
+    () => buildMergedText(merge, choices, labels),
+    [choices, labels, merge]
+  );
+  const [result, setResult] = useState(mergedText);
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const viewRef = useRef<MergeView | null>(null);
+  const initialDocRef = useRef(mergedText);
+
+  useEffect(() => {
+    const parent = containerRef.current;
+    if (!open || !parent) return;
+
+    const sharedExtensions = [lineNumbers(), yaml(), buildEditorTheme(theme)];
+    const view = new MergeView({
+      a: {
+        doc: theirs,
+        extensions: [
+          ...sharedExtensions,
+          EditorState.readOnly.of(true),
+          EditorView.editable.of(false),
+        ],
+      },
+      b: {
+        doc: initialDocRef.current,
+        extensions: [
+          ...sharedExtensions,
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) setResult(update.state.doc.toString());
+          }),
+        ],
+      },
+      parent,
+      gutter: true,
+      collapseUnchanged: { margin: 3, minSize: 8 },
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [open, theirs, theme]);
+
+  // 选择变化时重新生成合并结果，覆盖结果编辑器中的手动修改
+  useEffect(() => {
+    initialDocRef.current = mergedText;
+    const editor = viewRef.current?.b;
+    if (!editor) return;
+    const current = editor.state.doc.toString();
+    if (current === mergedText) return;
+    editor.dispatch({ changes: { from: 0, to: editor.state.doc.length, insert: mergedText } });
+  }, [mergedText]);
+
+  const conflicts = merge.regions.filter((region) => region.type === 'conflict');
+  const unresolved = hasConflictMarkers(result);
+
+  const setChoice = (index: number, choice: MergeChoice) => {
+    setChoices((prev) => ({ ...prev, [index]: choice }));
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={t('config_merge.title')}
+      onClose={onCancel}
+      width="min(1200px, 94vw)"
+      className={styles.mergeModal}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onCancel}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={() => onResolve(result)} disabled={unresolved}>
+            {t('config_merge.continue')}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.content}>
+        <div className={styles.summary}>
+          {t('config_merge.summary', { auto: merge.autoMerged, conflicts: merge.conflicts })}
+        </div>
+
+        <div className={styles.conflicts}>
+          {conflicts.map((conflict, index) => (
+            <div key={`${conflict.baseLine}-${index}`} className={styles.conflict}>
+              <div className={styles.conflictHeader}>
+                <span className={styles.conflictTitle}>
+                  {t('config_merge.conflict_title', { index: index + 1, line: conflict.baseLine })}
+                </span>
+                <div className={styles.conflictActions}>
+                  {CHOICES.map((choice) => (
+                    <Button
+                      key={choice}
+                      size="sm"
+                      variant={choices[index] === choice ? 'primary' : 'secondary'}
+                      onClick={() => setChoice(index, choice)}
+                    >
+                      {t(`config_merge.choice_${choice}`)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className={styles.conflictColumns}>
+                {(['base', 'ours', 'theirs'] as const).map((side) => (
+                  <div key={side} className={styles.conflictColumn}>
+                    <div className={styles.columnLabel}>{t(`config_merge.column_${side}`)}</div>
+                    <pre className={styles.columnCode}>
+                      {conflict[side].join('\n') || t('config_merge.empty_side')}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className={styles.paneLabels}>
+          <span>{t('config_merge.pane_server')}</span>
+          <span>{t('config_merge.pane_result')}</span>
+        </div>
+        <div ref={containerRef} className={styles.mergeView} />
+
+        {unresolved && <div className={styles.hint}>{t('config_merge.unresolved_hint')}</div>}
+      </div>
+    </Modal>
+  );
+}
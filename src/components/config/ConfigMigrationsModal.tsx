@@ -0,0 +1,77 @@
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { Modal } from '@/components/ui/Modal';
+import type { ConfigMigrationFinding } from '@/utils/configMigrations';
+import styles from './ConfigMigrationsModal.module.scss';
+
+type ConfigMigrationsModalProps = {
+  open: boolean;
+  findings: ConfigMigrationFinding[];
+  disabled?: boolean;
+  applying?: boolean;
+  onClose: () => void;
+  onApply: () => void;
+};
+
+/**
+ * 已废弃配置键的迁移说明，确认后一次性生成迁移后的 YAML 并进入差异确认
+ */
+export function ConfigMigrationsModal({
+  open,
+  findings,
+  disabled = false,
+  applying = false,
+  onClose,
+  onApply,
+}: ConfigMigrationsModalProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={t('config_migrations.title')}
+      width={640}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            {t('common.close')}
+          </Button>
+          <Button onClick={onApply} loading={applying} disabled={disabled || findings.length === 0}>
+            {t('config_migrations.apply_all')}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.body}>
+        <p className={styles.description}>{t('config_migrations.description')}</p>
+
+        {findings.length === 0 ? (
+          <EmptyState
+            title={t('config_migrations.empty_title')}
+            description={t('config_migrations.empty_desc')}
+          />
+        ) : (
+          <ul className={styles.list}>
+            {findings.map((finding) => (
+              <li key={finding.id} className={styles.item}>
+                <div className={styles.title}>
+                  {t(`config_migrations.items.${finding.id}.title`)}
+                </div>
+                <div className={styles.detail}>
+                  {t(`config_migrations.items.${finding.id}.description`, finding.params)}
+                </div>
+                <div className={styles.keys}>
+                  <code className={styles.key}>{finding.from}</code>
+                  <span className={styles.arrow}>→</span>
+                  <code className={styles.key}>{finding.to}</code>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,331 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { Select } from '@/components/ui/Select';
+import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
+import { IconDownload, IconTrash2 } from '@/components/ui/icons';
+import { useConfigPresetStore, useNotificationStore } from '@/stores';
+import type { ConfigPreset, ConfigPresetParam } from '@/types';
+import { makeClientId } from '@/types/visualConfig';
+import {
+  BUILTIN_CONFIG_PRESETS,
+  CONFIG_PRESET_FILE_TYPE,
+  buildPresetOperationsFromYaml,
+  getDefaultPresetValues,
+  normalizeConfigPresets,
+  validatePresetValues,
+} from '@/utils/configPresets';
+import { downloadBlob } from '@/utils/download';
+import styles from './ConfigPresetsModal.module.scss';
+
+type ConfigPresetsModalProps = {
+  open: boolean;
+  // 禁止编辑时只能浏览预设
+  disabled?: boolean;
+  onClose: () => void;
+  onApply: (preset: ConfigPreset, values: Record<string, string>) => void;
+};
+
+const EMPTY_DRAFT = { name: '', description: '', yaml: '' };
+
+/**
+ * 配置预设库：内置常用场景与团队自定义预设，应用前统一走差异确认
+ */
+export function ConfigPresetsModal({
+  open,
+  disabled = false,
+  onClose,
+  onApply,
+}: ConfigPresetsModalProps) {
+  const { t } = useTranslation();
+  const showNotification = useNotificationStore((state) => state.showNotification);
+  const showConfirmation = useNotificationStore((state) => state.showConfirmation);
+  const customPresets = useConfigPresetStore((state) => state.presets);
+  const addPreset = useConfigPresetStore((state) => state.addPreset);
+  const removePreset = useConfigPresetStore((state) => state.removePreset);
+  const importPresets = useConfigPresetStore((state) => state.importPresets);
+
+  const [paramValues, setParamValues] = useState<Record<string, Record<string, string>>>({});
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [draftError, setDraftError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const presetTitle = (preset: ConfigPreset) =>
+    preset.titleKey ? t(preset.titleKey) : (preset.name ?? preset.id);
+  const presetDescription = (preset: ConfigPreset) =>
+    preset.descriptionKey ? t(preset.descriptionKey) : (preset.description ?? '');
+  const paramLabel = (param: ConfigPresetParam) =>
+    param.labelKey ? t(param.labelKey) : (param.label ?? param.key);
+
+  const valuesFor = (preset: ConfigPreset) => ({
+    ...getDefaultPresetValues(preset),
+    ...paramValues[preset.id],
+  });
+
+  const setParamValue = (preset: ConfigPreset, key: string, value: string) => {
+    setParamValues((prev) => ({ ...prev, [preset.id]: { ...prev[preset.id], [key]: value } }));
+  };
+
+  const handleSaveDraft = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      setDraftError(t('config_presets.name_required'));
+      return;
+    }
+    try {
+      const operations = buildPresetOperationsFromYaml(draft.yaml);
+      if (operations.length === 0) {
+        setDraftError(t('config_presets.yaml_empty'));
+        return;
+      }
+      addPreset({
+        id: `custom:${makeClientId()}`,
+        name,
+        description: draft.description.trim(),
+        params: [],
+        operations,
+        createdAt: Date.now(),
+      });
+      setCreating(false);
+      setDraft(EMPTY_DRAFT);
+      setDraftError('');
+      showNotification(t('config_presets.saved', { name }), 'success');
+    } catch (err: unknown) {
+      setDraftError(
+        t('config_presets.yaml_invalid', {
+          message: err instanceof Error ? err.message : String(err),
+        })
+      );
+    }
+  };
+
+  const handleDelete = (preset: ConfigPreset) => {
+    showConfirmation({
+      title: t('config_presets.delete_title'),
+      message: t('config_presets.delete_confirm', { name: presetTitle(preset) }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      variant: 'danger',
+      onConfirm: () => removePreset(preset.id),
+    });
+  };
+
+  const handleExport = () => {
+    const payload = { type: CONFIG_PRESET_FILE_TYPE, version: 1, presets: customPresets };
+    downloadBlob({
+      filename: 'config-presets.json',
+      blob: new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }),
+    });
+  };
+
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPresets(normalizeConfigPresets(JSON.parse(await file.text())));
+      if (imported === 0) {
+        showNotification(t('config_presets.import_empty'), 'warning');
+        return;
+      }
+      showNotification(t('config_presets.imported', { total: imported }), 'success');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      showNotification(t('config_presets.import_failed', { message }), 'error');
+    }
+  };
+
+  const renderParam = (preset: ConfigPreset, param: ConfigPresetParam, value: string) => {
+    if (param.type === 'boolean') {
+      return (
+        <ToggleSwitch
+          key={param.key}
+          checked={value === 'true'}
+          onChange={(checked) => setParamValue(preset, param.key, String(checked))}
+          label={paramLabel(param)}
+        />
+      );
+    }
+    if (param.type === 'select') {
+      return (
+        <div key={param.key} className="form-group">
+          <label>{paramLabel(param)}</label>
+          <Select
+            value={value}
+            options={(param.options ?? []).map((option) => ({ value: option, label: option }))}
+            onChange={(next) => setParamValue(preset, param.key, next)}
+            ariaLabel={paramLabel(param)}
+          />
+        </div>
+      );
+    }
+    return (
+      <Input
+        key={param.key}
+        label={paramLabel(param)}
+        value={value}
+        inputMode={param.type === 'integer' ? 'numeric' : undefined}
+        onChange={(e) => setParamValue(preset, param.key, e.target.value)}
+      />
+    );
+  };
+
+  const renderPreset = (preset: ConfigPreset) => {
+    const values = valuesFor(preset);
+    const errors = validatePresetValues(preset, values);
+    const firstError = Object.entries(errors)[0];
+    const errorParam = firstError && preset.params.find((item) => item.key === firstError[0]);
+
+    return (
+      <li key={preset.id} className={styles.card}>
+        <div className={styles.cardHeader}>
+          <div className={styles.cardTitle}>{presetTitle(preset)}</div>
+          {!preset.builtin && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(preset)}
+              title={t('common.delete')}
+              aria-label={t('common.delete')}
+            >
+              <IconTrash2 size={14} />
+            </Button>
+          )}
+        </div>
+        {presetDescription(preset) && (
+          <p className={styles.cardDescription}>{presetDescription(preset)}</p>
+        )}
+        <div className={styles.paths}>
+          {preset.operations.map((operation) => (
+            <code key={operation.path.join('.')} className={styles.path}>
+              {operation.path.join('.')}
+            </code>
+          ))}
+        </div>
+        {preset.params.length > 0 && (
+          <div className={styles.params}>
+            {preset.params.map((param) => renderParam(preset, param, values[param.key] ?? ''))}
+          </div>
+        )}
+        {errorParam && (
+          <div className="error-box">
+            {t(`config_presets.param_errors.${firstError[1]}`, { name: paramLabel(errorParam) })}
+          </div>
+        )}
+        <div className={styles.cardActions}>
+          <Button
+            size="sm"
+            onClick={() => onApply(preset, values)}
+            disabled={disabled || Boolean(firstError)}
+          >
+            {t('config_presets.preview')}
+          </Button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title={t('config_presets.title')} width={760}>
+      <div className={styles.body}>
+        <p className={styles.description}>{t('config_presets.description')}</p>
+
+        <div className={styles.sectionHeader}>
+          <h4 className={styles.sectionTitle}>{t('config_presets.builtin_section')}</h4>
+        </div>
+        <ul className={styles.grid}>{BUILTIN_CONFIG_PRESETS.map(renderPreset)}</ul>
+
+        <div className={styles.sectionHeader}>
+          <h4 className={styles.sectionTitle}>{t('config_presets.custom_section')}</h4>
+          <div className={styles.sectionActions}>
+            <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()}>
+              {t('config_presets.import')}
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleExport}
+              disabled={customPresets.length === 0}
+            >
+              <IconDownload size={14} />
+              {t('config_presets.export')}
+            </Button>
+            {!creating && (
+              <Button size="sm" onClick={() => setCreating(true)}>
+                {t('config_presets.create')}
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              style={{ display: 'none' }}
+              onChange={(event) => void handleImportFile(event)}
+            />
+          </div>
+        </div>
+
+        {creating && (
+          <div className={styles.form}>
+            <Input
+              label={t('config_presets.name_label')}
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              maxLength={80}
+            />
+            <Input
+              label={t('config_presets.description_label')}
+              value={draft.description}
+              onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+              maxLength={200}
+            />
+            <div className="form-group">
+              <label>{t('config_presets.yaml_label')}</label>
+              <textarea
+                className={`input ${styles.yamlInput}`}
+                value={draft.yaml}
+                placeholder={t('config_presets.yaml_placeholder')}
+                onChange={(e) => setDraft((prev) => ({ ...prev, yaml: e.target.value }))}
+                spellCheck={false}
+                aria-label={t('config_presets.yaml_label')}
+              />
+              <div className="hint">{t('config_presets.yaml_hint')}</div>
+            </div>
+            {draftError && <div className="error-box">{draftError}</div>}
+            <div className={styles.formActions}>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => {
+                  setCreating(false);
+                  setDraft(EMPTY_DRAFT);
+                  setDraftError('');
+                }}
+              >
+                {t('common.cancel')}
+              </Button>
+              <Button size="sm" onClick={handleSaveDraft}>
+                {t('common.save')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {customPresets.length > 0 ? (
+          <ul className={styles.grid}>{customPresets.map(renderPreset)}</ul>
+        ) : (
+          !creating && (
+            <EmptyState
+              title={t('config_presets.custom_empty_title')}
+              description={t('config_presets.custom_empty_desc')}
+            />
+          )
+        )}
+      </div>
+    </Modal>
+  );
+}
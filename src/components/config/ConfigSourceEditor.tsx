@@ -1,8 +1,17 @@
 import { useMemo, type Ref } from 'react';
+import { useTranslation } from 'react-i18next';
 import CodeMirror, { type ReactCodeMirrorRef } from '@uiw/react-codemirror';
+import { autocompletion } from '@codemirror/autocomplete';
 import { yaml } from '@codemirror/lang-yaml';
+import { linter, lintGutter, type Diagnostic } from '@codemirror/lint';
 import { search, searchKeymap, highlightSelectionMatches } from '@codemirror/search';
 import { keymap } from '@codemirror/view';
+import { formatConfigLintIssue, lintConfigYaml } from '@/utils/configLint';
+import {
+  configSourceAssistTheme,
+  createConfigCompletionSource,
+  createConfigHoverTooltip,
+} from './configSourceAssist';
 
 type ConfigSourceEditorProps = {
   value: string;
@@ -21,9 +30,33 @@ export default function ConfigSourceEditor({
   editable,
   placeholder,
 }: ConfigSourceEditorProps) {
+  const { t } = useTranslation();
   const extensions = useMemo(
-    () => [yaml(), search(), highlightSelectionMatches(), keymap.of(searchKeymap)],
-    []
+    () => [
+      yaml(),
+      search(),
+      highlightSelectionMatches(),
+      keymap.of(searchKeymap),
+      lintGutter(),
+      linter(
+        (view): Diagnostic[] => {
+          const docLength = view.state.doc.length;
+          return lintConfigYaml(view.state.doc.toString()).map((issue) => ({
+            from: Math.min(issue.from, docLength),
+            to: Math.min(issue.to, docLength),
+            severity: issue.severity,
+            message: formatConfigLintIssue(t, issue),
+          }));
+        },
+        { delay: 500 }
+      ),
+      autocompletion({
+        override: [createConfigCompletionSource(t)],
+      }),
+      createConfigHoverTooltip(t),
+      configSourceAssistTheme,
+    ],
+    [t]
   );
 
   return (
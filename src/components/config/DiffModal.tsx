@@ -1,18 +1,28 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Text } from '@codemirror/state';
 import { Chunk } from '@codemirror/merge';
 import { Modal } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { SelectionCheckbox } from '@/components/ui/SelectionCheckbox';
 import styles from './DiffModal.module.scss';
 
 type DiffModalProps = {
   open: boolean;
   original: string;
   modified: string;
-  onConfirm: () => void;
+  // 未提供时为只读对比，只显示关闭按钮；参数为仅保留已勾选差异块后重建的内容
+  onConfirm?: (content: string) => void;
   onCancel: () => void;
   loading?: boolean;
+  title?: string;
+  fileLabel?: string;
+  // 关闭后只能整体确认，用于各差异块必须一起生效的场景
+  hunkSelection?: boolean;
+  // 提供时在差异上方显示版本备注输入框
+  snapshotMessage?: string;
+  onSnapshotMessageChange?: (value: string) => void;
 };
 
 type UnifiedLineType = 'context' | 'addition' | 'deletion';
@@ -25,6 +35,11 @@ type UnifiedLine = {
 };
 
 type Hunk = {
+  // 对应 Chunk 的字符范围，按行对齐，结束位置可能超出文档末尾 1
+  fromA: number;
+  toA: number;
+  fromB: number;
+  toB: number;
   oldStart: number;
   oldCount: number;
   newStart: number;
@@ -32,6 +47,19 @@ type Hunk = {
   lines: UnifiedLine[];
 };
 
+type SplitCell = {
+  num: number;
+  text: string;
+  type: UnifiedLineType;
+} | null;
+
+type SplitRow = {
+  left: SplitCell;
+  right: SplitCell;
+};
+
+type DiffViewMode = 'unified' | 'split';
+
 type DiffResult = {
   hunks: Hunk[];
   additions: number;
@@ -39,6 +67,7 @@ type DiffResult = {
 };
 
 const DIFF_CONTEXT_LINES = 3;
+const DIFF_VIEW_STORAGE_KEY = 'config-management:diff-view';
 
 const clampPos = (doc: Text, pos: number) => Math.max(0, Math.min(pos, doc.length));
 
@@ -175,12 +204,87 @@ function computeUnifiedDiff(original: string, modified: string): DiffResult {
     const oldCount = lines.filter((l) => l.type !== 'addition').length;
     const newCount = lines.filter((l) => l.type !== 'deletion').length;
 
-    return { oldStart: firstOld, oldCount, newStart: firstNew, newCount, lines };
+    return {
+      fromA: chunk.fromA,
+      toA: chunk.toA,
+      fromB: chunk.fromB,
+      toB: chunk.toB,
+      oldStart: firstOld,
+      oldCount,
+      newStart: firstNew,
+      newCount,
+      lines
+    };
   });
 
   return { hunks, additions: totalAdditions, deletions: totalDeletions };
 }
 
+/**
+ * 以原文为基础，仅应用被勾选的差异块，得到最终要保存的内容
+ */
+function buildAcceptedText(
+  original: string,
+  modified: string,
+  hunks: Hunk[],
+  rejected: ReadonlySet<number>
+): string {
+  // Chunk 的范围包含行尾换行，末行可能超出文档长度 1，补一个换行后统一截取
+  const oldText = `${original}\n`;
+  const newText = `${modified}\n`;
+  let result = '';
+  let pos = 0;
+  hunks.forEach((hunk, index) => {
+    result += oldText.slice(pos, hunk.fromA);
+    result += rejected.has(index)
+      ? oldText.slice(hunk.fromA, hunk.toA)
+      : newText.slice(hunk.fromB, hunk.toB);
+    pos = hunk.toA;
+  });
+  result += oldText.slice(pos);
+  return result.slice(0, -1);
+}
+
+// 并排视图：上下文行两侧对齐，删除与新增行按顺序配对
+function buildSplitRows(lines: UnifiedLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let deletions: UnifiedLine[] = [];
+  let additions: UnifiedLine[] = [];
+
+  const flush = () => {
+    const size = Math.max(deletions.length, additions.length);
+    for (let i = 0; i < size; i++) {
+      const del = deletions[i];
+      const add = additions[i];
+      rows.push({
+        left: del ? { num: del.oldNum ?? 0, text: del.text, type: 'deletion' } : null,
+        right: add ? { num: add.newNum ?? 0, text: add.text, type: 'addition' } : null
+      });
+    }
+    deletions = [];
+    additions = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'deletion') {
+      deletions.push(line);
+    } else if (line.type === 'addition') {
+      additions.push(line);
+    } else {
+      flush();
+      rows.push({
+        left: { num: line.oldNum ?? 0, text: line.text, type: 'context' },
+        right: { num: line.newNum ?? 0, text: line.text, type: 'context' }
+      });
+    }
+  }
+  flush();
+  return rows;
+}
+
+const readStoredViewMode = (): DiffViewMode =>
+  localStorage.getItem(DIFF_VIEW_STORAGE_KEY) === 'split' ? 'split' : 'unified';
+
 const STAT_BLOCKS = 5;
 
 function StatBar({ additions, deletions }: { additions: number; deletions: number }) {
@@ -199,41 +303,134 @@ function StatBar({ additions, deletions }: { additions: number; deletions: numbe
   );
 }
 
+function SplitCellView({ cell }: { cell: SplitCell }) {
+  if (!cell) {
+    return (
+      <>
+        <span className={`${styles.lineNum} ${styles.lineNumEmpty} ${styles.splitEmpty}`} />
+        <span className={`${styles.splitText} ${styles.splitEmpty}`} />
+      </>
+    );
+  }
+  return (
+    <>
+      <span className={`${styles.lineNum} ${styles[cell.type]}`}>{cell.num}</span>
+      <span className={`${styles.splitText} ${styles[cell.type]}`}>
+        <span className={styles.linePrefix}>
+          {cell.type === 'deletion' ? '-' : cell.type === 'addition' ? '+' : ' '}
+        </span>
+        <code className={styles.lineText}>{cell.text || ' '}</code>
+      </span>
+    </>
+  );
+}
+
 export function DiffModal({
   open,
   original,
   modified,
   onConfirm,
   onCancel,
-  loading = false
+  loading = false,
+  title,
+  fileLabel = 'config.yaml',
+  hunkSelection = true,
+  snapshotMessage,
+  onSnapshotMessageChange
 }: DiffModalProps) {
   const { t } = useTranslation();
+  const [viewMode, setViewMode] = useState<DiffViewMode>(readStoredViewMode);
 
   const diff = useMemo<DiffResult>(
     () => computeUnifiedDiff(original, modified),
     [original, modified]
   );
 
+  // 未勾选的差异块；差异内容变化后自动清空
+  const [selection, setSelection] = useState<{ diff: DiffResult; rejected: Set<number> }>(() => ({
+    diff,
+    rejected: new Set()
+  }));
+  const rejected = selection.diff === diff ? selection.rejected : new Set<number>();
+  const selectable = hunkSelection && Boolean(onConfirm) && diff.hunks.length > 0;
+  const acceptedCount = diff.hunks.length - rejected.size;
+
+  const toggleHunk = (index: number, accepted: boolean) => {
+    const next = new Set(rejected);
+    if (accepted) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelection({ diff, rejected: next });
+  };
+
+  const setAllHunks = (accepted: boolean) => {
+    setSelection({
+      diff,
+      rejected: accepted ? new Set() : new Set(diff.hunks.map((_, index) => index))
+    });
+  };
+
+  const changeViewMode = (mode: DiffViewMode) => {
+    setViewMode(mode);
+    localStorage.setItem(DIFF_VIEW_STORAGE_KEY, mode);
+  };
+
+  const handleConfirm = () => {
+    if (!onConfirm) return;
+    onConfirm(
+      rejected.size === 0 ? modified : buildAcceptedText(original, modified, diff.hunks, rejected)
+    );
+  };
+
   return (
     <Modal
       open={open}
-      title={t('config_management.diff.title')}
+      title={title ?? t('config_management.diff.title')}
       onClose={onCancel}
       width="min(1200px, 90vw)"
       className={styles.diffModal}
       closeDisabled={loading}
       footer={
-        <>
-          <Button variant="secondary" onClick={onCancel} disabled={loading}>
-            {t('common.cancel')}
-          </Button>
-          <Button onClick={onConfirm} loading={loading} disabled={loading}>
-            {t('config_management.diff.confirm')}
+        onConfirm ? (
+          <>
+            <Button variant="secondary" onClick={onCancel} disabled={loading}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              loading={loading}
+              disabled={loading || (selectable && acceptedCount === 0)}
+            >
+              {rejected.size > 0
+                ? t('config_management.diff.confirm_selected', {
+                    selected: acceptedCount,
+                    total: diff.hunks.length
+                  })
+                : t('config_management.diff.confirm')}
+            </Button>
+          </>
+        ) : (
+          <Button variant="secondary" onClick={onCancel}>
+            {t('common.close')}
           </Button>
-        </>
+        )
       }
     >
       <div className={styles.content}>
+        {onSnapshotMessageChange && (
+          <div className={styles.messageField}>
+            <Input
+              label={t('config_history.message_label')}
+              placeholder={t('config_history.message_placeholder')}
+              value={snapshotMessage ?? ''}
+              onChange={(e) => onSnapshotMessageChange(e.target.value)}
+              disabled={loading}
+              maxLength={200}
+            />
+          </div>
+        )}
         {diff.hunks.length === 0 ? (
           <div className={styles.emptyState}>{t('config_management.diff.no_changes')}</div>
         ) : (
@@ -246,60 +443,117 @@ export function DiffModal({
                   fill="currentColor"
                 />
               </svg>
-              <span className={styles.fileName}>config.yaml</span>
+              <span className={styles.fileName}>{fileLabel}</span>
+              {selectable && (
+                <span className={styles.selectionSummary}>
+                  {t('config_management.diff.selected_summary', {
+                    selected: acceptedCount,
+                    total: diff.hunks.length
+                  })}
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => setAllHunks(rejected.size > 0)}
+                    disabled={loading}
+                  >
+                    {rejected.size > 0
+                      ? t('config_management.diff.select_all')
+                      : t('config_management.diff.select_none')}
+                  </button>
+                </span>
+              )}
               <span className={styles.fileStats}>
                 <span className={styles.statAdditions}>+{diff.additions}</span>
                 <span className={styles.statDeletions}>-{diff.deletions}</span>
                 <StatBar additions={diff.additions} deletions={diff.deletions} />
               </span>
+              <span className={styles.viewToggle} role="group">
+                {(['unified', 'split'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    className={`${styles.viewToggleButton} ${viewMode === mode ? styles.viewToggleActive : ''}`}
+                    onClick={() => changeViewMode(mode)}
+                    aria-pressed={viewMode === mode}
+                  >
+                    {t(`config_management.diff.view_${mode}`)}
+                  </button>
+                ))}
+              </span>
             </div>
 
             <div className={styles.diffBody}>
-              {diff.hunks.map((hunk, hunkIdx) => (
-                <div key={hunkIdx} className={styles.hunk}>
-                  <div className={styles.hunkHeader}>
-                    <span className={styles.hunkGutter}>
-                      <svg
-                        className={styles.hunkExpandIcon}
-                        viewBox="0 0 16 16"
-                        width="12"
-                        height="12"
-                      >
-                        <path
-                          d="M8.177 1.677l2.896 2.896a.25.25 0 01-.177.427H8.75v1.25a.75.75 0 01-1.5 0V5H5.104a.25.25 0 01-.177-.427l2.896-2.896a.25.25 0 01.354 0zM7.25 11.75a.75.75 0 011.5 0V13h2.146a.25.25 0 01.177.427l-2.896 2.896a.25.25 0 01-.354 0l-2.896-2.896A.25.25 0 015.104 13H7.25v-1.25z"
-                          fill="currentColor"
-                        />
-                      </svg>
-                    </span>
-                    <span className={styles.hunkGutter} />
-                    <span className={styles.hunkText}>
-                      @@ -{hunk.oldStart},{hunk.oldCount} +{hunk.newStart},{hunk.newCount} @@
-                    </span>
-                  </div>
-
-                  {hunk.lines.map((line, lineIdx) => (
-                    <div
-                      key={`${hunkIdx}-${lineIdx}`}
-                      className={`${styles.diffLine} ${styles[line.type]}`}
-                    >
-                      <span
-                        className={`${styles.lineNum} ${line.oldNum === null ? styles.lineNumEmpty : ''}`}
-                      >
-                        {line.oldNum ?? ''}
+              {diff.hunks.map((hunk, hunkIdx) => {
+                const accepted = !rejected.has(hunkIdx);
+                return (
+                  <div
+                    key={hunkIdx}
+                    className={`${styles.hunk} ${accepted ? '' : styles.hunkRejected}`}
+                  >
+                    <div className={styles.hunkHeader}>
+                      <span className={styles.hunkGutter}>
+                        <svg
+                          className={styles.hunkExpandIcon}
+                          viewBox="0 0 16 16"
+                          width="12"
+                          height="12"
+                        >
+                          <path
+                            d="M8.177 1.677l2.896 2.896a.25.25 0 01-.177.427H8.75v1.25a.75.75 0 01-1.5 0V5H5.104a.25.25 0 01-.177-.427l2.896-2.896a.25.25 0 01.354 0zM7.25 11.75a.75.75 0 011.5 0V13h2.146a.25.25 0 01.177.427l-2.896 2.896a.25.25 0 01-.354 0l-2.896-2.896A.25.25 0 015.104 13H7.25v-1.25z"
+                            fill="currentColor"
+                          />
+                        </svg>
                       </span>
-                      <span
-                        className={`${styles.lineNum} ${line.newNum === null ? styles.lineNumEmpty : ''}`}
-                      >
-                        {line.newNum ?? ''}
+                      <span className={styles.hunkGutter} />
+                      <span className={styles.hunkText}>
+                        @@ -{hunk.oldStart},{hunk.oldCount} +{hunk.newStart},{hunk.newCount} @@
                       </span>
-                      <span className={styles.linePrefix}>
-                        {line.type === 'deletion' ? '-' : line.type === 'addition' ? '+' : ' '}
-                      </span>
-                      <code className={styles.lineText}>{line.text || ' '}</code>
+                      {selectable && (
+                        <SelectionCheckbox
+                          className={styles.hunkToggle}
+                          checked={accepted}
+                          onChange={(value) => toggleHunk(hunkIdx, value)}
+                          disabled={loading}
+                          label={t('config_management.diff.include_hunk')}
+                        />
+                      )}
                     </div>
-                  ))}
-                </div>
-              ))}
+
+                    {viewMode === 'split'
+                      ? buildSplitRows(hunk.lines).map((row, rowIdx) => (
+                          <div key={`${hunkIdx}-${rowIdx}`} className={styles.splitRow}>
+                            <SplitCellView cell={row.left} />
+                            <SplitCellView cell={row.right} />
+                          </div>
+                        ))
+                      : hunk.lines.map((line, lineIdx) => (
+                          <div
+                            key={`${hunkIdx}-${lineIdx}`}
+                            className={`${styles.diffLine} ${styles[line.type]}`}
+                          >
+                            <span
+                              className={`${styles.lineNum} ${line.oldNum === null ? styles.lineNumEmpty : ''}`}
+                            >
+                              {line.oldNum ?? ''}
+                            </span>
+                            <span
+                              className={`${styles.lineNum} ${line.newNum === null ? styles.lineNumEmpty : ''}`}
+                            >
+                              {line.newNum ?? ''}
+                            </span>
+                            <span className={styles.linePrefix}>
+                              {line.type === 'deletion'
+                                ? '-'
+                                : line.type === 'addition'
+                                  ? '+'
+                                  : ' '}
+                            </span>
+                            <code className={styles.lineText}>{line.text || ' '}</code>
+                          </div>
+                        ))}
+                  </div>
+                );
+              })}
             </div>
           </div>
         )}
@@ -0,0 +1,218 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { VISUAL_CONFIG_PROTOCOL_OPTIONS } from '@/hooks/useVisualConfig';
+import type { VisualConfigValues } from '@/types/visualConfig';
+import {
+  simulatePayloadRules,
+  type PayloadRuleGroup,
+  type PayloadSimulationAction,
+} from '@/utils/payloadSimulator';
+import styles from './PayloadRuleSimulator.module.scss';
+
+const SAMPLE_BODY = `{
+  "model": "gemini-2.5-pro",
+  "contents": [{ "role": "user", "parts": [{ "text": "Hello" }] }]
+}`;
+
+const GROUP_TITLE_KEYS: Record<PayloadRuleGroup, string> = {
+  default: 'config_management.visual.sections.payload.default_rules',
+  defaultRaw: 'config_management.visual.sections.payload.default_raw_rules',
+  override: 'config_management.visual.sections.payload.override_rules',
+  overrideRaw: 'config_management.visual.sections.payload.override_raw_rules',
+  filter: 'config_management.visual.sections.payload.filter_rules',
+};
+
+const ACTION_SIGNS: Record<PayloadSimulationAction, string> = {
+  add: '+',
+  replace: '~',
+  remove: '−',
+};
+
+const MAX_VALUE_PREVIEW = 160;
+
+const previewValue = (value: unknown) => {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > MAX_VALUE_PREVIEW ? `${text.slice(0, MAX_VALUE_PREVIEW)}…` : text;
+};
+
+type PayloadRuleSimulatorProps = {
+  values: Pick<
+    VisualConfigValues,
+    | 'payloadDefaultRules'
+    | 'payloadDefaultRawRules'
+    | 'payloadOverrideRules'
+    | 'payloadOverrideRawRules'
+    | 'payloadFilterRules'
+  >;
+};
+
+/**
+ * payload 规则模拟：在示例请求体上执行当前编辑中的规则，逐条展示改动及其来源规则
+ */
+export function PayloadRuleSimulator({ values }: PayloadRuleSimulatorProps) {
+  const { t } = useTranslation();
+  const [bodyText, setBodyText] = useState(SAMPLE_BODY);
+  const [model, setModel] = useState('');
+  const [protocol, setProtocol] = useState('');
+
+  const protocolOptions = useMemo(
+    () =>
+      VISUAL_CONFIG_PROTOCOL_OPTIONS.map((option) => ({
+        value: option.value,
+        label: t(option.labelKey, { defaultValue: option.defaultLabel }),
+      })),
+    [t]
+  );
+
+  const parsed = useMemo(() => {
+    try {
+      const body: unknown = JSON.parse(bodyText);
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return { error: t('payload_simulator.body_not_object') };
+      }
+      return { body: body as Record<string, unknown> };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [bodyText, t]);
+
+  // 未填写模型时使用请求体中的 model 字段
+  const bodyModel = typeof parsed.body?.model === 'string' ? parsed.body.model : '';
+  const effectiveModel = model.trim() || bodyModel;
+
+  const result = useMemo(() => {
+    if (!parsed.body || !effectiveModel) return null;
+    return simulatePayloadRules({
+      body: parsed.body,
+      model: effectiveModel,
+      protocol,
+      defaultRules: values.payloadDefaultRules,
+      defaultRawRules: values.payloadDefaultRawRules,
+      overrideRules: values.payloadOverrideRules,
+      overrideRawRules: values.payloadOverrideRawRules,
+      filterRules: values.payloadFilterRules,
+    });
+  }, [
+    effectiveModel,
+    parsed.body,
+    protocol,
+    values.payloadDefaultRawRules,
+    values.payloadDefaultRules,
+    values.payloadFilterRules,
+    values.payloadOverrideRawRules,
+    values.payloadOverrideRules,
+  ]);
+
+  const ruleLabel = (group: PayloadRuleGroup, ruleIndex: number) =>
+    t('payload_simulator.rule_label', {
+      section: t(GROUP_TITLE_KEYS[group]),
+      index: ruleIndex + 1,
+    });
+
+  const matchedCount = result
+    ? Object.values(result.matched).reduce((total, indexes) => total + indexes.length, 0)
+    : 0;
+
+  // 模拟输入不属于配置值，撤销交给输入框自身
+  return (
+    <div className={styles.simulator} data-visual-history="off">
+      <div className={styles.inputs}>
+        <Input
+          label={t('payload_simulator.model_label')}
+          placeholder={bodyModel || t('payload_simulator.model_placeholder')}
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+        />
+        <div className="form-group">
+          <label>{t('payload_simulator.protocol_label')}</label>
+          <Select
+            value={protocol}
+            options={protocolOptions}
+            onChange={setProtocol}
+            ariaLabel={t('payload_simulator.protocol_label')}
+          />
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label>{t('payload_simulator.body_label')}</label>
+        <textarea
+          className={`input ${styles.bodyInput}`}
+          value={bodyText}
+          onChange={(e) => setBodyText(e.target.value)}
+          spellCheck={false}
+          aria-label={t('payload_simulator.body_label')}
+        />
+        {parsed.error && (
+          <div className="error-box">
+            {t('payload_simulator.body_invalid', { message: parsed.error })}
+          </div>
+        )}
+      </div>
+
+      {!parsed.error && !effectiveModel && (
+        <div className={styles.hint}>{t('payload_simulator.model_required')}</div>
+      )}
+
+      {result && (
+        <div className={styles.result}>
+          <div className={styles.summary}>
+            {t('payload_simulator.summary', {
+              rules: matchedCount,
+              changes: result.changes.length,
+              model: effectiveModel,
+            })}
+          </div>
+
+          {result.changes.length > 0 ? (
+            <ul className={styles.changes}>
+              {result.changes.map((change, index) => (
+                <li key={index} className={`${styles.change} ${styles[change.action]}`}>
+                  <span className={styles.sign}>{ACTION_SIGNS[change.action]}</span>
+                  <div className={styles.changeBody}>
+                    <div className={styles.changeHeader}>
+                      <code className={styles.path}>{change.path}</code>
+                      <span className={styles.rule}>
+                        {ruleLabel(change.group, change.ruleIndex)}
+                      </span>
+                    </div>
+                    <div className={styles.values}>
+                      {change.action !== 'add' && (
+                        <code className={styles.before}>{previewValue(change.before)}</code>
+                      )}
+                      {change.action !== 'remove' && (
+                        <code className={styles.after}>{previewValue(change.after)}</code>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className={styles.hint}>{t('payload_simulator.no_changes')}</div>
+          )}
+
+          {result.skipped.length > 0 && (
+            <ul className={styles.skipped}>
+              {result.skipped.map((skip, index) => (
+                <li key={index}>
+                  {t(`payload_simulator.skip_${skip.reason}`, {
+                    path: skip.path,
+                    rule: ruleLabel(skip.group, skip.ruleIndex),
+                  })}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="form-group">
+            <label>{t('payload_simulator.result_label')}</label>
+            <pre className={styles.output}>{JSON.stringify(result.body, null, 2)}</pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -42,6 +42,7 @@ import {
   PayloadFilterRulesEditor,
   PayloadRulesEditor,
 } from './VisualConfigEditorBlocks';
+import { PayloadRuleSimulator } from './PayloadRuleSimulator';
 import styles from './VisualConfigEditor.module.scss';
 
 type VisualSectionId =
@@ -519,7 +520,7 @@ export function VisualConfigEditor({
   );
 
   return (
-    <div className={styles.visualEditor}>
+    <div className={styles.visualEditor} data-visual-history="on">
       <div className={styles.overview}>
         <div className={styles.overviewHeader}>
           <div className={styles.overviewMeta}>
@@ -1124,6 +1125,13 @@ export function VisualConfigEditor({
                   onChange={handlePayloadFilterRulesChange}
                 />
               </SectionSubsection>
+
+              <SectionSubsection
+                title={t('payload_simulator.title')}
+                description={t('payload_simulator.description')}
+              >
+                <PayloadRuleSimulator values={values} />
+              </SectionSubsection>
             </SectionStack>
           </ConfigSection>
         </div>
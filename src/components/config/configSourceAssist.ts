@@ -0,0 +1,290 @@
+/**
+ * 源码编辑器的上下文补全与悬停说明
+ * 按缩进推断光标所在的键路径，再从 CONFIG_SCHEMA 中取可用的键与取值
+ */
+
+import type { TFunction } from 'i18next';
+import type { Completion, CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import type { Text } from '@codemirror/state';
+import { EditorView, hoverTooltip } from '@codemirror/view';
+import { useModelsStore } from '@/stores';
+import {
+  CONFIG_SCHEMA,
+  acceptsModelName,
+  listSchemaKeys,
+  listSchemaValues,
+  resolveSchemaAtPath,
+  type ConfigSchemaNode,
+  type ConfigSchemaPathSegment,
+} from '@/utils/configSchema';
+
+interface LineEntry {
+  kind: 'key' | 'dash';
+  indent: number;
+  key?: string;
+  // 键后是否已有行内取值（有值的键不会是下级键的父级）
+  hasValue?: boolean;
+}
+
+const LINE_PATTERN = /^( *)(- +)?(.*)$/;
+const KEY_PATTERN = /^("[^"]*"|'[^']*'|[^\s#:'"][^:#]*?):(?:\s+(.*))?$/;
+const KEY_INPUT_PATTERN = /^( *)(- +)?([\w.-]*)$/;
+const VALUE_INPUT_PATTERN = /^( *)(- +)?("[^"]*"|'[^']*'|[^\s#:'"][^:#]*?):\s+([^\s#]*)$/;
+
+const unquote = (key: string) => key.replace(/^(["'])(.*)\1$/, '$2');
+
+const parseLine = (text: string): LineEntry[] => {
+  const trimmed = text.trim();
+  if (!trimmed || trimmed.startsWith('#')) return [];
+  const match = LINE_PATTERN.exec(text);
+  if (!match) return [];
+
+  const entries: LineEntry[] = [];
+  const indent = match[1].length;
+  if (match[2]) entries.push({ kind: 'dash', indent });
+  const keyMatch = KEY_PATTERN.exec(match[3]);
+  if (keyMatch) {
+    const value = (keyMatch[2] ?? '').trim();
+    entries.push({
+      kind: 'key',
+      indent: indent + (match[2]?.length ?? 0),
+      key: unquote(keyMatch[1]),
+      hasValue: value !== '' && !value.startsWith('#'),
+    });
+  }
+  return entries;
+};
+
+/**
+ * 推断某一行中位于 current 处的条目的父级路径
+ * before 为同一行中位于 current 之前的条目（如列表项的短横线）
+ */
+const resolveParentPath = (
+  doc: Text,
+  lineNumber: number,
+  before: LineEntry[],
+  current: LineEntry
+): ConfigSchemaPathSegment[] => {
+  const segments: ConfigSchemaPathSegment[] = [];
+  let state = current;
+
+  const visit = (entry: LineEntry) => {
+    if (state.kind === 'key') {
+      if (entry.indent >= state.indent) return;
+      if (entry.kind === 'dash') {
+        segments.push(0);
+        state = entry;
+      } else if (!entry.hasValue && entry.key !== undefined) {
+        segments.push(entry.key);
+        state = entry;
+      }
+      return;
+    }
+    // 列表项的父级是缩进不大于短横线的键
+    if (entry.kind === 'key' && entry.indent <= state.indent) {
+      if (!entry.hasValue && entry.key !== undefined) {
+        segments.push(entry.key);
+        state = entry;
+      }
+    } else if (entry.kind === 'dash' && entry.indent < state.indent) {
+      segments.push(0);
+      state = entry;
+    }
+  };
+
+  [...before].reverse().forEach(visit);
+  for (let number = lineNumber - 1; number >= 1; number -= 1) {
+    if (state.kind === 'key' && state.indent === 0) break;
+    parseLine(doc.line(number).text).reverse().forEach(visit);
+  }
+
+  return segments.reverse();
+};
+
+const docKeyOf = (path: readonly ConfigSchemaPathSegment[]) =>
+  path.filter((segment): segment is string => typeof segment === 'string').join('/');
+
+/**
+ * 键的本地化说明：优先按完整路径查找，其次按通用字段名查找
+ */
+export const describeConfigKey = (t: TFunction, path: readonly ConfigSchemaPathSegment[]) => {
+  const docKey = docKeyOf(path);
+  const leaf = path.filter((segment) => typeof segment === 'string').pop();
+  if (!docKey || leaf === undefined) return '';
+  return (
+    t(`config_docs.${docKey}`, { defaultValue: '' }) ||
+    t(`config_docs.*/${leaf}`, { defaultValue: '' })
+  );
+};
+
+const describeType = (t: TFunction, node: ConfigSchemaNode): string =>
+  node.type === 'anyOf'
+    ? node.options.map((option) => describeType(t, option)).join(' / ')
+    : t(`config_lint.type_${node.type}`);
+
+/**
+ * 键名与取值补全：键位置提示当前层级可用的键，值位置提示枚举、布尔值与模型名
+ */
+export const createConfigCompletionSource =
+  (t: TFunction) =>
+  (context: CompletionContext): CompletionResult | null => {
+    const line = context.state.doc.lineAt(context.pos);
+    const before = line.text.slice(0, context.pos - line.from);
+
+    const valueOptions = (node: ConfigSchemaNode | null): Completion[] => {
+      const values: Completion[] = listSchemaValues(node).map((value) => ({
+        label: value,
+        type: 'enum',
+      }));
+      if (acceptsModelName(node)) {
+        // 每次补全时读取最新的模型列表，模型刷新后无需重建编辑器扩展
+        const { models } = useModelsStore.getState();
+        const names = new Set(models.flatMap((model) => [model.name, model.alias ?? '']));
+        names.forEach((name) => {
+          if (name)
+            values.push({ label: name, type: 'constant', detail: t('config_assist.model') });
+        });
+      }
+      return values;
+    };
+
+    const valueMatch = VALUE_INPUT_PATTERN.exec(before);
+    if (valueMatch) {
+      const keyIndent = valueMatch[1].length + (valueMatch[2]?.length ?? 0);
+      const dash: LineEntry[] = valueMatch[2]
+        ? [{ kind: 'dash', indent: valueMatch[1].length }]
+        : [];
+      const path = [
+        ...resolveParentPath(context.state.doc, line.number, dash, {
+          kind: 'key',
+          indent: keyIndent,
+        }),
+        unquote(valueMatch[3]),
+      ];
+      const options = valueOptions(resolveSchemaAtPath(CONFIG_SCHEMA, path));
+      if (options.length === 0) return null;
+      return {
+        from: context.pos - valueMatch[4].length,
+        options,
+        validFor: /^[\w.:/@-]*$/,
+      };
+    }
+
+    const keyMatch = KEY_INPUT_PATTERN.exec(before);
+    if (!keyMatch) return null;
+    const word = keyMatch[3];
+    // 空行上不自动弹出，仅在手动触发（Ctrl+Space）时提示
+    if (!word && !context.explicit) return null;
+
+    const keyIndent = keyMatch[1].length + (keyMatch[2]?.length ?? 0);
+    const dash: LineEntry[] = keyMatch[2] ? [{ kind: 'dash', indent: keyMatch[1].length }] : [];
+    const parentPath = resolveParentPath(context.state.doc, line.number, dash, {
+      kind: 'key',
+      indent: keyIndent,
+    });
+    const parent = resolveSchemaAtPath(CONFIG_SCHEMA, parentPath);
+
+    const options: Completion[] = listSchemaKeys(parent).map((key) => {
+      const path = [...parentPath, key];
+      const node = resolveSchemaAtPath(CONFIG_SCHEMA, path);
+      const info = describeConfigKey(t, path);
+      return {
+        label: key,
+        type: 'property',
+        apply: `${key}: `,
+        detail: node ? describeType(t, node) : undefined,
+        info: info || undefined,
+      };
+    });
+    // 列表项本身也可以是标量，如 excluded-models 中的模型名
+    if (keyMatch[2]) options.push(...valueOptions(parent));
+    if (options.length === 0) return null;
+
+    return { from: context.pos - word.length, options, validFor: /^[\w.-]*$/ };
+  };
+
+const buildTooltipDom = (
+  t: TFunction,
+  path: readonly ConfigSchemaPathSegment[],
+  node: ConfigSchemaNode | null,
+  description: string
+) => {
+  const dom = document.createElement('div');
+  dom.className = 'cm-config-doc';
+
+  const title = document.createElement('div');
+  title.className = 'cm-config-doc-path';
+  title.textContent = docKeyOf(path).replace(/\//g, '.');
+  dom.appendChild(title);
+
+  if (description) {
+    const body = document.createElement('div');
+    body.className = 'cm-config-doc-description';
+    body.textContent = description;
+    dom.appendChild(body);
+  }
+
+  if (node && node.type !== 'any') {
+    const meta: string[] = [t('config_assist.type', { type: describeType(t, node) })];
+    const values = listSchemaValues(node);
+    if (node.type === 'string' && values.length > 0) {
+      meta.push(t('config_assist.allowed_values', { values: values.join(', ') }));
+    }
+    if ((node.type === 'integer' || node.type === 'number') && node.min !== undefined) {
+      meta.push(t('config_assist.range', { min: node.min, max: node.max ?? '∞' }));
+    }
+    const footer = document.createElement('div');
+    footer.className = 'cm-config-doc-meta';
+    footer.textContent = meta.join(' · ');
+    dom.appendChild(footer);
+  }
+
+  return dom;
+};
+
+/**
+ * 悬停在键名上时显示说明、类型与取值范围
+ */
+export const createConfigHoverTooltip = (t: TFunction) =>
+  hoverTooltip((view, pos) => {
+    const line = view.state.doc.lineAt(pos);
+    const match = LINE_PATTERN.exec(line.text);
+    if (!match) return null;
+    const keyMatch = KEY_PATTERN.exec(match[3]);
+    if (!keyMatch) return null;
+
+    const keyIndent = match[1].length + (match[2]?.length ?? 0);
+    const from = line.from + keyIndent;
+    const to = from + keyMatch[1].length;
+    if (pos < from || pos > to) return null;
+
+    const dash: LineEntry[] = match[2] ? [{ kind: 'dash', indent: match[1].length }] : [];
+    const path = [
+      ...resolveParentPath(view.state.doc, line.number, dash, { kind: 'key', indent: keyIndent }),
+      unquote(keyMatch[1]),
+    ];
+    const node = resolveSchemaAtPath(CONFIG_SCHEMA, path);
+    const description = describeConfigKey(t, path);
+    if (!node && !description) return null;
+
+    return {
+      pos: from,
+      end: to,
+      above: true,
+      create: () => ({ dom: buildTooltipDom(t, path, node, description) }),
+    };
+  });
+
+export const configSourceAssistTheme = EditorView.baseTheme({
+  '.cm-config-doc': {
+    maxWidth: '420px',
+    padding: '8px 10px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    fontSize: '12px',
+    lineHeight: '1.5',
+  },
+  '.cm-config-doc-path': { fontFamily: 'monospace', fontWeight: '600' },
+  '.cm-config-doc-meta': { opacity: '0.7' },
+});
@@ -0,0 +1,297 @@
+import { useCallback, useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { SelectionCheckbox } from '@/components/ui/SelectionCheckbox';
+import { IconServer, IconX } from '@/components/ui/icons';
+import { useAuthStore, useNotificationStore } from '@/stores';
+import type { ConnectionProfile } from '@/types';
+
+const resolveProfileHost = (apiBase: string) => {
+  try {
+    return new URL(apiBase).host || apiBase;
+  } catch {
+    return apiBase;
+  }
+};
+
+export function ConnectionProfileMenu() {
+  const { t } = useTranslation();
+  const showNotification = useNotificationStore((state) => state.showNotification);
+  const showConfirmation = useNotificationStore((state) => state.showConfirmation);
+
+  const apiBase = useAuthStore((state) => state.apiBase);
+  const managementKey = useAuthStore((state) => state.managementKey);
+  const rememberPassword = useAuthStore((state) => state.rememberPassword);
+  const readOnly = useAuthStore((state) => state.readOnly);
+  const profiles = useAuthStore((state) => state.profiles);
+  const activeProfileId = useAuthStore((state) => state.activeProfileId);
+  const saveProfile = useAuthStore((state) => state.saveProfile);
+  const removeProfile = useAuthStore((state) => state.removeProfile);
+  const switchProfile = useAuthStore((state) => state.switchProfile);
+
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [saveModalOpen, setSaveModalOpen] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [storeKey, setStoreKey] = useState(false);
+  const [profileReadOnly, setProfileReadOnly] = useState(false);
+  const [keyPromptProfile, setKeyPromptProfile] = useState<ConnectionProfile | null>(null);
+  const [promptKey, setPromptKey] = useState('');
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement | null>(null);
+
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId) ?? null;
+
+  useEffect(() => {
+    if (!menuOpen) {
+      return;
+    }
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setMenuOpen(false);
+      }
+    };
+
+    const handleEscape = (event: globalThis.KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setMenuOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleEscape);
+
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [menuOpen]);
+
+  const runSwitch = useCallback(
+    async (profile: ConnectionProfile, key?: string) => {
+      setSwitchingId(profile.id);
+      try {
+        await switchProfile(profile.id, key);
+        setKeyPromptProfile(null);
+        setPromptKey('');
+        showNotification(
+          t('connection_profiles.switch_success', { name: profile.name }),
+          'success'
+        );
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : '';
+        showNotification(
+          `${t('connection_profiles.switch_failed')}${message ? `: ${message}` : ''}`,
+          'error'
+        );
+      } finally {
+        setSwitchingId(null);
+      }
+    },
+    [showNotification, switchProfile, t]
+  );
+
+  const handleSelectProfile = (profile: ConnectionProfile) => {
+    setMenuOpen(false);
+    if (profile.id === activeProfileId) return;
+    if (!profile.managementKey) {
+      setPromptKey('');
+      setKeyPromptProfile(profile);
+      return;
+    }
+    void runSwitch(profile);
+  };
+
+  const handleRemoveProfile = (profile: ConnectionProfile) => {
+    setMenuOpen(false);
+    showConfirmation({
+      title: t('connection_profiles.remove_title'),
+      message: t('connection_profiles.remove_confirm', { name: profile.name }),
+      variant: 'danger',
+      confirmText: t('common.delete'),
+      onConfirm: () => removeProfile(profile.id),
+    });
+  };
+
+  const openSaveModal = () => {
+    setMenuOpen(false);
+    setProfileName(activeProfile?.name ?? resolveProfileHost(apiBase));
+    setStoreKey(activeProfile?.rememberPassword ?? rememberPassword);
+    setProfileReadOnly(activeProfile?.readOnly ?? readOnly);
+    setSaveModalOpen(true);
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    saveProfile({
+      id: activeProfile?.apiBase === apiBase ? activeProfile.id : undefined,
+      name,
+      apiBase,
+      managementKey,
+      rememberPassword: storeKey,
+      readOnly: profileReadOnly,
+    });
+    setSaveModalOpen(false);
+    showNotification(t('connection_profiles.save_success', { name }), 'success');
+  };
+
+  const handleKeyPromptSubmit = () => {
+    if (!keyPromptProfile || !promptKey.trim()) return;
+    void runSwitch(keyPromptProfile, promptKey);
+  };
+
+  const menuLabel = activeProfile
+    ? t('connection_profiles.menu_active', { name: activeProfile.name })
+    : t('connection_profiles.menu');
+
+  return (
+    <>
+      <div className={`profile-menu ${menuOpen ? 'open' : ''}`} ref={menuRef}>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setMenuOpen((prev) => !prev)}
+          title={menuLabel}
+          aria-label={menuLabel}
+          aria-haspopup="menu"
+          aria-expanded={menuOpen}
+          loading={switchingId !== null}
+        >
+          {switchingId === null && <IconServer size={16} />}
+        </Button>
+        {menuOpen && (
+          <div
+            className="notification entering profile-menu-popover"
+            role="menu"
+            aria-label={t('connection_profiles.menu')}
+          >
+            <div className="profile-menu-title">{t('connection_profiles.title')}</div>
+            {profiles.length === 0 ? (
+              <div className="profile-menu-empty">{t('connection_profiles.empty')}</div>
+            ) : (
+              profiles.map((profile) => {
+                const isActive = profile.id === activeProfileId;
+                return (
+                  <div key={profile.id} className="profile-menu-row">
+                    <button
+                      type="button"
+                      className={`profile-menu-option ${isActive ? 'active' : ''}`}
+                      onClick={() => handleSelectProfile(profile)}
+                      role="menuitemradio"
+                      aria-checked={isActive}
+                    >
+                      <span className="profile-menu-name">
+                        {profile.name}
+                        {profile.readOnly && (
+                          <span className="profile-menu-tag">{t('read_only.badge')}</span>
+                        )}
+                      </span>
+                      <span className="profile-menu-base">{profile.apiBase}</span>
+                    </button>
+                    <button
+                      type="button"
+                      className="profile-menu-remove"
+                      onClick={() => handleRemoveProfile(profile)}
+                      title={t('connection_profiles.remove_title')}
+                      aria-label={t('connection_profiles.remove_title')}
+                    >
+                      <IconX size={14} />
+                    </button>
+                  </div>
+                );
+              })
+            )}
+            <button type="button" className="profile-menu-action" onClick={openSaveModal}>
+              {activeProfile
+                ? t('connection_profiles.update_current')
+                : t('connection_profiles.save_current')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <Modal
+        open={saveModalOpen}
+        onClose={() => setSaveModalOpen(false)}
+        title={t('connection_profiles.save_title')}
+        width={420}
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setSaveModalOpen(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSaveProfile} disabled={!profileName.trim()}>
+              {t('common.save')}
+            </Button>
+          </>
+        }
+      >
+        <Input
+          label={t('connection_profiles.name_label')}
+          placeholder={t('connection_profiles.name_placeholder')}
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
+            if (e.key === 'Enter') handleSaveProfile();
+          }}
+          hint={apiBase}
+          autoFocus
+        />
+        <SelectionCheckbox
+          checked={storeKey}
+          onChange={setStoreKey}
+          label={t('connection_profiles.store_key_label')}
+          ariaLabel={t('connection_profiles.store_key_label')}
+        />
+        <SelectionCheckbox
+          checked={profileReadOnly}
+          onChange={setProfileReadOnly}
+          label={t('connection_profiles.read_only_label')}
+          ariaLabel={t('connection_profiles.read_only_label')}
+        />
+      </Modal>
+
+      <Modal
+        open={keyPromptProfile !== null}
+        onClose={() => setKeyPromptProfile(null)}
+        title={t('connection_profiles.key_prompt_title', { name: keyPromptProfile?.name ?? '' })}
+        width={420}
+        closeDisabled={switchingId !== null}
+        footer={
+          <>
+            <Button
+              variant="secondary"
+              onClick={() => setKeyPromptProfile(null)}
+              disabled={switchingId !== null}
+            >
+              {t('common.cancel')}
+            </Button>
+            <Button
+              onClick={handleKeyPromptSubmit}
+              loading={switchingId !== null}
+              disabled={!promptKey.trim()}
+            >
+              {t('connection_profiles.switch_button')}
+            </Button>
+          </>
+        }
+      >
+        <Input
+          label={t('login.management_key_label')}
+          placeholder={t('login.management_key_placeholder')}
+          type="password"
+          value={promptKey}
+          onChange={(e) => setPromptKey(e.target.value)}
+          onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
+            if (e.key === 'Enter') handleKeyPromptSubmit();
+          }}
+          hint={keyPromptProfile?.apiBase}
+          autoFocus
+        />
+      </Modal>
+    </>
+  );
+}
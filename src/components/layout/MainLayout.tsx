@@ -12,6 +12,9 @@ import { useTranslation } from 'react-i18next';
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
 import { PageTransition } from '@/components/common/PageTransition';
+import { ConnectionProfileMenu } from '@/components/layout/ConnectionProfileMenu';
+import { SessionLockOverlay } from '@/components/layout/SessionLockOverlay';
+import { useProviderHealthScheduler } from '@/components/providers/hooks/useProviderHealthScheduler';
 import { MainRoutes } from '@/router/MainRoutes';
 import {
   IconSidebarAuthFiles,
@@ -22,23 +25,30 @@ import {
   IconSidebarProviders,
   IconSidebarQuota,
   IconSidebarSystem,
+  IconScrollText,
+  IconServer,
   IconSlidersHorizontal,
   IconZap,
 } from '@/components/ui/icons';
 import { INLINE_LOGO_JPEG } from '@/assets/logoInline';
 import {
   useAuthStore,
+  useCapabilityStore,
   useConfigStore,
   useLanguageStore,
   useNotificationStore,
+  useSessionLockStore,
   useThemeStore,
 } from '@/stores';
 import { versionApi } from '@/services/api';
 import { triggerHeaderRefresh } from '@/hooks/useHeaderRefresh';
+import { useIdleLock } from '@/hooks/useIdleLock';
 import { LANGUAGE_LABEL_KEYS, LANGUAGE_ORDER } from '@/utils/constants';
 import { isSupportedLanguage } from '@/utils/language';
 import type { Theme } from '@/types';
 import { copyToClipboard } from '@/utils/clipboard';
+import { isFileSystemAccessSupported } from '@/utils/fileSystemAccess';
+import { compareVersions } from '@/utils/version';
 
 const BREW_UPGRADE_COMMANDS = [
   'brew update',
@@ -58,6 +68,8 @@ const sidebarIcons: Record<string, ReactNode> = {
   system: <IconSidebarSystem size={18} />,
   endpoints: <IconZap size={18} />,
   agentSettings: <IconSlidersHorizontal size={18} />,
+  fleet: <IconServer size={18} />,
+  activity: <IconScrollText size={18} />,
 };
 
 // Header action icons - smaller size for header buttons
@@ -226,32 +238,6 @@ const THEME_CARDS: Array<{
   },
 ];
 
-const parseVersionSegments = (version?: string | null) => {
-  if (!version) return null;
-  const cleaned = version.trim().replace(/^v/i, '');
-  if (!cleaned) return null;
-  const parts = cleaned
-    .split(/[^0-9]+/)
-    .filter(Boolean)
-    .map((segment) => Number.parseInt(segment, 10))
-    .filter(Number.isFinite);
-  return parts.length ? parts : null;
-};
-
-const compareVersions = (latest?: string | null, current?: string | null) => {
-  const latestParts = parseVersionSegments(latest);
-  const currentParts = parseVersionSegments(current);
-  if (!latestParts || !currentParts) return null;
-  const length = Math.max(latestParts.length, currentParts.length);
-  for (let i = 0; i < length; i++) {
-    const l = latestParts[i] || 0;
-    const c = currentParts[i] || 0;
-    if (l > c) return 1;
-    if (l < c) return -1;
-  }
-  return 0;
-};
-
 export function MainLayout() {
   const { t } = useTranslation();
   const { showNotification } = useNotificationStore();
@@ -259,6 +245,18 @@ export function MainLayout() {
 
   const serverVersion = useAuthStore((state) => state.serverVersion);
   const logout = useAuthStore((state) => state.logout);
+  const apiBase = useAuthStore((state) => state.apiBase);
+  const activeProfileId = useAuthStore((state) => state.activeProfileId);
+  const sessionLocked = useSessionLockStore((state) => state.locked);
+  const readOnly = useAuthStore((state) => state.readOnly);
+  const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const detectCapabilities = useCapabilityStore((state) => state.detect);
+  const apiCallUnsupported = useCapabilityStore(
+    (state) => state.capabilities.apiCall === 'unsupported'
+  );
+  const agentSettingsUnsupported = useCapabilityStore(
+    (state) => state.capabilities.agentSettings === 'unsupported'
+  );
 
   const config = useConfigStore((state) => state.config);
   const fetchConfig = useConfigStore((state) => state.fetchConfig);
@@ -278,6 +276,9 @@ export function MainLayout() {
   const [languageMenuOpen, setLanguageMenuOpen] = useState(false);
   const [themeMenuOpen, setThemeMenuOpen] = useState(false);
   const contentRef = useRef<HTMLDivElement | null>(null);
+
+  useIdleLock();
+  useProviderHealthScheduler();
   const languageMenuRef = useRef<HTMLDivElement | null>(null);
   const themeMenuRef = useRef<HTMLDivElement | null>(null);
   const headerRef = useRef<HTMLElement | null>(null);
@@ -286,6 +287,8 @@ export function MainLayout() {
   const abbrBrandName = t('title.abbr');
   const isLogsPage = location.pathname.startsWith('/logs');
   const showSidebarLabels = !sidebarCollapsed || sidebarOpen;
+  // 切换连接配置档时重新挂载页面，避免页面内的本地状态残留上一个服务器的数据
+  const connectionKey = `${activeProfileId ?? ''}|${apiBase}`;
 
   // 将顶部悬浮控制区高度写入 CSS 变量，供移动端粘性元素和浮层避让。
   useLayoutEffect(() => {
@@ -435,19 +438,39 @@ export function MainLayout() {
     });
   }, [fetchConfig]);
 
+  // 每个连接检测一次后端能力；后端升级导致版本变化时重新检测
+  useEffect(() => {
+    if (connectionStatus !== 'connected' || sessionLocked) return;
+    void detectCapabilities(serverVersion);
+  }, [connectionStatus, detectCapabilities, serverVersion, sessionLocked]);
+
   const navItems = [
     { path: '/', label: t('nav.dashboard'), icon: sidebarIcons.dashboard },
     { path: '/config', label: t('nav.config_management'), icon: sidebarIcons.config },
     { path: '/ai-providers', label: t('nav.ai_providers'), icon: sidebarIcons.aiProviders },
     { path: '/auth-files', label: t('nav.auth_files'), icon: sidebarIcons.authFiles },
     { path: '/oauth', label: t('nav.oauth', { defaultValue: 'OAuth' }), icon: sidebarIcons.oauth },
-    { path: '/quota', label: t('nav.quota_management'), icon: sidebarIcons.quota },
+    // 额度查询依赖 /api-call，后端不支持时隐藏入口
+    ...(apiCallUnsupported
+      ? []
+      : [{ path: '/quota', label: t('nav.quota_management'), icon: sidebarIcons.quota }]),
     ...(config?.loggingToFile
       ? [{ path: '/logs', label: t('nav.logs'), icon: sidebarIcons.logs }]
       : []),
     { path: '/system', label: t('nav.system_info'), icon: sidebarIcons.system },
     { path: '/endpoints', label: t('nav.api_endpoints'), icon: sidebarIcons.endpoints },
-    { path: '/agent-settings', label: t('nav.agent_settings'), icon: sidebarIcons.agentSettings },
+    // 后端没有 Agent 设置接口且浏览器也无法打开本地文件时，该页面无法使用
+    ...(agentSettingsUnsupported && !isFileSystemAccessSupported()
+      ? []
+      : [
+          {
+            path: '/agent-settings',
+            label: t('nav.agent_settings'),
+            icon: sidebarIcons.agentSettings,
+          },
+        ]),
+    { path: '/fleet', label: t('nav.fleet'), icon: sidebarIcons.fleet },
+    { path: '/activity', label: t('nav.activity'), icon: sidebarIcons.activity },
   ];
   const navOrder = navItems.map((item) => item.path);
   const getRouteOrder = (pathname: string) => {
@@ -578,7 +601,7 @@ export function MainLayout() {
     <div className={`app-shell ${sidebarCollapsed ? 'sidebar-is-collapsed' : ''}`}>
       <div className="top-gradient-blur" aria-hidden="true" />
 
-      <header className="main-header" ref={headerRef}>
+      <header className="main-header" ref={headerRef} inert={sessionLocked}>
         <button
           type="button"
           className="sidebar-toggle-floating"
@@ -611,6 +634,12 @@ export function MainLayout() {
         </div>
 
         <div className="header-actions floating-actions">
+          {readOnly && (
+            <span className="read-only-badge" title={t('read_only.badge_hint')}>
+              {t('read_only.badge')}
+            </span>
+          )}
+          <ConnectionProfileMenu />
           <Button
             variant="ghost"
             size="sm"
@@ -743,7 +772,7 @@ export function MainLayout() {
         </div>
       </header>
 
-      <div className="main-body">
+      <div className="main-body" inert={sessionLocked}>
         <button
           type="button"
           className={`sidebar-backdrop ${sidebarOpen ? 'visible' : ''}`}
@@ -780,6 +809,7 @@ export function MainLayout() {
         <div className={`content${isLogsPage ? ' content-logs' : ''}`} ref={contentRef}>
           <main className={`main-content${isLogsPage ? ' main-content-logs' : ''}`}>
             <PageTransition
+              key={connectionKey}
               render={(location) => <MainRoutes location={location} />}
               getRouteOrder={getRouteOrder}
               getTransitionVariant={getTransitionVariant}
@@ -830,6 +860,8 @@ export function MainLayout() {
           <pre className="update-upgrade-commands">{BREW_UPGRADE_COMMAND_TEXT}</pre>
         </div>
       </Modal>
+
+      {sessionLocked && <SessionLockOverlay />}
     </div>
   );
 }
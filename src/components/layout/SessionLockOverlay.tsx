@@ -0,0 +1,90 @@
+import { useState, type KeyboardEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuthStore, useSessionLockStore } from '@/stores';
+import { getStatusFromError } from '@/utils/quota';
+
+export function SessionLockOverlay() {
+  const { t } = useTranslation();
+  const apiBase = useAuthStore((state) => state.apiBase);
+  const rememberPassword = useAuthStore((state) => state.rememberPassword);
+  const activeProfileId = useAuthStore((state) => state.activeProfileId);
+  const login = useAuthStore((state) => state.login);
+  const logout = useAuthStore((state) => state.logout);
+  const lock = useSessionLockStore((state) => state.lock);
+
+  const [managementKey, setManagementKey] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleUnlock = async () => {
+    if (!managementKey.trim()) {
+      setError(t('login.error_required'));
+      return;
+    }
+
+    setUnlocking(true);
+    setError('');
+    try {
+      // 重新登录会校验密钥并写回 apiClient，成功后自动解除锁定
+      await login({
+        apiBase,
+        managementKey,
+        rememberPassword,
+        profileId: activeProfileId,
+      });
+      setManagementKey('');
+    } catch (err: unknown) {
+      lock();
+      const status = getStatusFromError(err);
+      setError(
+        status === 401 || status === 403
+          ? t('session_lock.error_invalid_key')
+          : t('session_lock.error_unlock_failed')
+      );
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div
+      className="session-lock-overlay"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="session-lock-title"
+    >
+      <div className="session-lock-card">
+        <div className="session-lock-title" id="session-lock-title">
+          {t('session_lock.title')}
+        </div>
+        <p className="session-lock-desc">{t('session_lock.description')}</p>
+        <div className="session-lock-base">{apiBase}</div>
+        <Input
+          autoFocus
+          label={t('login.management_key_label')}
+          placeholder={t('login.management_key_placeholder')}
+          type="password"
+          value={managementKey}
+          onChange={(e) => setManagementKey(e.target.value)}
+          onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
+            if (e.key === 'Enter' && !unlocking) {
+              e.preventDefault();
+              void handleUnlock();
+            }
+          }}
+          error={error || undefined}
+        />
+        <div className="session-lock-actions">
+          <Button variant="secondary" onClick={logout} disabled={unlocking}>
+            {t('header.logout')}
+          </Button>
+          <Button onClick={() => void handleUnlock()} loading={unlocking}>
+            {t('session_lock.unlock_button')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
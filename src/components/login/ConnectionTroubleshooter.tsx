@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { Modal } from '@/components/ui/Modal';
+import { IconCheck, IconInfo, IconX } from '@/components/ui/icons';
+import { connectionDiagnosticsApi } from '@/services/api';
+import type { ConnectionDiagnosticStep, ConnectionDiagnosticStepId } from '@/types';
+import { DEFAULT_API_PORT } from '@/utils/constants';
+import styles from './ConnectionTroubleshooter.module.scss';
+
+const STEP_IDS: ConnectionDiagnosticStepId[] = [
+  'url',
+  'mixed_content',
+  'port',
+  'reachability',
+  'authentication',
+];
+
+interface ConnectionTroubleshooterProps {
+  open: boolean;
+  apiBase: string;
+  managementKey: string;
+  onClose: () => void;
+}
+
+/**
+ * 登录失败后的连接诊断向导：逐步展示检查结果，并针对每个问题给出修复方法
+ */
+export function ConnectionTroubleshooter({
+  open,
+  apiBase,
+  managementKey,
+  onClose,
+}: ConnectionTroubleshooterProps) {
+  const { t } = useTranslation();
+  const [steps, setSteps] = useState<ConnectionDiagnosticStep[]>([]);
+  const [running, setRunning] = useState(false);
+  const runIdRef = useRef(0);
+
+  const runDiagnostics = useCallback(async () => {
+    const runId = (runIdRef.current += 1);
+    setSteps([]);
+    setRunning(true);
+    try {
+      await connectionDiagnosticsApi.run({ apiBase, managementKey }, (step) => {
+        if (runIdRef.current !== runId) return;
+        setSteps((prev) => [...prev, step]);
+      });
+    } finally {
+      if (runIdRef.current === runId) {
+        setRunning(false);
+      }
+    }
+  }, [apiBase, managementKey]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    queueMicrotask(() => {
+      if (cancelled) return;
+      void runDiagnostics();
+    });
+
+    return () => {
+      cancelled = true;
+      // 关闭后丢弃仍在进行的诊断结果
+      runIdRef.current += 1;
+    };
+  }, [open, runDiagnostics]);
+
+  const stepById = new Map(steps.map((step) => [step.id, step]));
+  const hasFailure = steps.some((step) => step.status === 'fail');
+  const hasWarning = steps.some((step) => step.status === 'warn');
+  const summaryKey = running
+    ? 'login_troubleshoot.running'
+    : hasFailure
+      ? 'login_troubleshoot.summary_failed'
+      : hasWarning
+        ? 'login_troubleshoot.summary_warn'
+        : 'login_troubleshoot.summary_ok';
+  const fixParams = { port: DEFAULT_API_PORT, origin: window.location.origin };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={t('login_troubleshoot.title')}
+      width={560}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            {t('common.close')}
+          </Button>
+          <Button onClick={() => void runDiagnostics()} loading={running}>
+            {t('login_troubleshoot.run_again')}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.body}>
+        <p className={styles.description}>{t('login_troubleshoot.description')}</p>
+        <div className={styles.summary}>
+          {running && <LoadingSpinner size={14} />}
+          <span>{t(summaryKey)}</span>
+        </div>
+
+        <ol className={styles.steps}>
+          {STEP_IDS.map((id) => {
+            const step = stepById.get(id);
+            const status = step?.status ?? 'pending';
+            return (
+              <li key={id} className={`${styles.step} ${styles[status] ?? ''}`}>
+                <span className={styles.stepIcon}>
+                  {status === 'pass' ? (
+                    <IconCheck size={16} />
+                  ) : status === 'warn' ? (
+                    <IconInfo size={16} />
+                  ) : status === 'fail' ? (
+                    <IconX size={16} />
+                  ) : status === 'pending' && running ? (
+                    <LoadingSpinner size={12} />
+                  ) : null}
+                </span>
+                <div className={styles.stepContent}>
+                  <div className={styles.stepHeader}>
+                    <span className={styles.stepTitle}>{t(`login_troubleshoot.step_${id}`)}</span>
+                    <span className={styles.stepStatus}>
+                      {t(`login_troubleshoot.status_${status}`)}
+                    </span>
+                  </div>
+                  {step?.detail && <div className={styles.stepDetail}>{step.detail}</div>}
+                  {step?.issue && (
+                    <div className={styles.fix}>
+                      <strong>{t(`login_troubleshoot.issue_${step.issue}`, fixParams)}</strong>
+                      <p>{t(`login_troubleshoot.fix_${step.issue}`, fixParams)}</p>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </Modal>
+  );
+}
@@ -5,11 +5,14 @@ import { Card } from '@/components/ui/Card';
 import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
 import iconCodex from '@/assets/icons/codex.svg';
 import type { ProviderKeyConfig } from '@/types';
+import { useProviderHealthStore } from '@/stores';
 import { maskApiKey } from '@/utils/format';
 import { statusBarDataFromRecentRequests } from '@/utils/recentRequests';
 import styles from '@/pages/AiProvidersPage.module.scss';
 import { ProviderList } from '../ProviderList';
+import { ProviderHealthBadge } from '../ProviderHealthBadge';
 import { ProviderStatusBar } from '../ProviderStatusBar';
+import { getProviderHealthId } from '../providerHealth';
 import {
   getProviderConfigKey,
   getProviderRecentBuckets,
@@ -27,6 +30,7 @@ interface CodexSectionProps {
   onAdd: () => void;
   onEdit: (index: number) => void;
   onDelete: (index: number) => void;
+  onRotate: (index: number) => void;
   onToggle: (index: number, enabled: boolean) => void;
 }
 
@@ -39,9 +43,11 @@ export function CodexSection({
   onAdd,
   onEdit,
   onDelete,
+  onRotate,
   onToggle,
 }: CodexSectionProps) {
   const { t } = useTranslation();
+  const healthResults = useProviderHealthStore((state) => state.results);
   const actionsDisabled = disableControls || loading || isSwitching;
   const toggleDisabled = disableControls || loading || isSwitching;
 
@@ -85,8 +91,14 @@ export function CodexSection({
           emptyDescription={t('ai_providers.codex_empty_desc')}
           onEdit={(_, index) => onEdit(index)}
           onDelete={(_, index) => onDelete(index)}
+          onRotate={(_, index) => onRotate(index)}
           actionsDisabled={actionsDisabled}
           getRowDisabled={(item) => hasDisableAllModelsRule(item.excludedModels)}
+          getRowClassName={(item) =>
+            healthResults[getProviderHealthId('codex', item.apiKey, item.baseUrl)]?.ok === false
+              ? styles.healthFailingRow
+              : undefined
+          }
           renderExtraActions={(item, index) => (
             <ToggleSwitch
               label={t('ai_providers.config_toggle_label')}
@@ -196,6 +208,9 @@ export function CodexSection({
                   <span className={`${styles.statPill} ${styles.statFailure}`}>
                     {t('stats.failure')}: {stats.failure}
                   </span>
+                  <ProviderHealthBadge
+                    healthId={getProviderHealthId('codex', item.apiKey, item.baseUrl)}
+                  />
                 </div>
                 <ProviderStatusBar statusData={statusData} />
               </Fragment>
@@ -5,11 +5,14 @@ import { Card } from '@/components/ui/Card';
 import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
 import iconGemini from '@/assets/icons/gemini.svg';
 import type { GeminiKeyConfig } from '@/types';
+import { useProviderHealthStore } from '@/stores';
 import { maskApiKey } from '@/utils/format';
 import { statusBarDataFromRecentRequests } from '@/utils/recentRequests';
 import styles from '@/pages/AiProvidersPage.module.scss';
 import { ProviderList } from '../ProviderList';
+import { ProviderHealthBadge } from '../ProviderHealthBadge';
 import { ProviderStatusBar } from '../ProviderStatusBar';
+import { getProviderHealthId } from '../providerHealth';
 import {
   getProviderConfigKey,
   getProviderRecentBuckets,
@@ -27,6 +30,7 @@ interface GeminiSectionProps {
   onAdd: () => void;
   onEdit: (index: number) => void;
   onDelete: (index: number) => void;
+  onRotate: (index: number) => void;
   onToggle: (index: number, enabled: boolean) => void;
 }
 
@@ -39,9 +43,11 @@ export function GeminiSection({
   onAdd,
   onEdit,
   onDelete,
+  onRotate,
   onToggle,
 }: GeminiSectionProps) {
   const { t } = useTranslation();
+  const healthResults = useProviderHealthStore((state) => state.results);
   const actionsDisabled = disableControls || loading || isSwitching;
   const toggleDisabled = disableControls || loading || isSwitching;
 
@@ -85,8 +91,14 @@ export function GeminiSection({
           emptyDescription={t('ai_providers.gemini_empty_desc')}
           onEdit={(_, index) => onEdit(index)}
           onDelete={(_, index) => onDelete(index)}
+          onRotate={(_, index) => onRotate(index)}
           actionsDisabled={actionsDisabled}
           getRowDisabled={(item) => hasDisableAllModelsRule(item.excludedModels)}
+          getRowClassName={(item) =>
+            healthResults[getProviderHealthId('gemini', item.apiKey, item.baseUrl)]?.ok === false
+              ? styles.healthFailingRow
+              : undefined
+          }
           renderExtraActions={(item, index) => (
             <ToggleSwitch
               label={t('ai_providers.config_toggle_label')}
@@ -192,6 +204,9 @@ export function GeminiSection({
                   <span className={`${styles.statPill} ${styles.statFailure}`}>
                     {t('stats.failure')}: {stats.failure}
                   </span>
+                  <ProviderHealthBadge
+                    healthId={getProviderHealthId('gemini', item.apiKey, item.baseUrl)}
+                  />
                 </div>
                 <ProviderStatusBar statusData={statusData} />
               </Fragment>
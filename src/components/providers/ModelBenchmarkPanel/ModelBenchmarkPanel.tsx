@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Select } from '@/components/ui/Select';
+import { IconChevronDown, IconChevronUp } from '@/components/ui/icons';
+import type { ModelCallOrderCandidate } from '@/hooks/useModelCallOrder';
+import { useAuthStore, useCapabilityStore, useNotificationStore } from '@/stores';
+import type {
+  Config,
+  ModelBenchmarkSample,
+  ModelBenchmarkSummary,
+  ModelBenchmarkTarget,
+} from '@/types';
+import { maskApiKey } from '@/utils/format';
+import {
+  MODEL_BENCHMARK_SAMPLE_OPTIONS,
+  collectModelBenchmarkTargets,
+  runModelBenchmark,
+  summarizeModelBenchmark,
+} from '../modelBenchmark';
+import styles from './ModelBenchmarkPanel.module.scss';
+
+interface ModelBenchmarkPanelProps {
+  targetModel: string;
+  candidates: ModelCallOrderCandidate[];
+  config: Config | null;
+}
+
+type SortKey = 'provider' | 'errorRate' | 'oneTokenP50' | 'oneTokenP95' | 'totalP50' | 'totalP95';
+type SortDirection = 'asc' | 'desc';
+
+type BenchmarkRow = {
+  target: ModelBenchmarkTarget;
+  summary: ModelBenchmarkSummary;
+};
+
+const METRIC_COLUMNS: Exclude<SortKey, 'provider'>[] = [
+  'errorRate',
+  'oneTokenP50',
+  'oneTokenP95',
+  'totalP50',
+  'totalP95',
+];
+
+// 每次采样包含单 token 与完整耗时两个请求
+const REQUESTS_PER_SAMPLE = 2;
+
+const formatMs = (value: number | null) => (value === null ? '—' : `${value} ms`);
+
+/**
+ * 跨提供商延迟基准测试：对同一模型的各候选凭据多次采样，比较单 token 延迟、总耗时与错误率
+ */
+export function ModelBenchmarkPanel({ targetModel, candidates, config }: ModelBenchmarkPanelProps) {
+  const { t } = useTranslation();
+  const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const apiCallUnsupported = useCapabilityStore(
+    (state) => state.capabilities.apiCall === 'unsupported'
+  );
+  const showConfirmation = useNotificationStore((state) => state.showConfirmation);
+
+  const [sampleCount, setSampleCount] = useState<number>(MODEL_BENCHMARK_SAMPLE_OPTIONS[1]);
+  const [running, setRunning] = useState(false);
+  const [runTargets, setRunTargets] = useState<ModelBenchmarkTarget[]>([]);
+  const [runModel, setRunModel] = useState('');
+  const [runSampleCount, setRunSampleCount] = useState(0);
+  const [samplesByTarget, setSamplesByTarget] = useState<Record<string, ModelBenchmarkSample[]>>(
+    {}
+  );
+  const [sortKey, setSortKey] = useState<SortKey>('oneTokenP50');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const cancelledRef = useRef(false);
+
+  useEffect(
+    () => () => {
+      cancelledRef.current = true;
+    },
+    []
+  );
+
+  const model = targetModel.trim();
+  const plan = useMemo(
+    () => collectModelBenchmarkTargets(config, candidates),
+    [candidates, config]
+  );
+  const unavailable = connectionStatus !== 'connected' || apiCallUnsupported;
+
+  const sampleOptions = useMemo(
+    () =>
+      MODEL_BENCHMARK_SAMPLE_OPTIONS.map((value) => ({
+        value: String(value),
+        label: t('api_endpoints.benchmark_samples_option', { samples: value }),
+      })),
+    [t]
+  );
+
+  const rows = useMemo<BenchmarkRow[]>(() => {
+    const list = runTargets.map((target) => ({
+      target,
+      summary: summarizeModelBenchmark(samplesByTarget[target.id] ?? []),
+    }));
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return list.sort((a, b) => {
+      if (sortKey === 'provider') {
+        return a.target.providerName.localeCompare(b.target.providerName) * direction;
+      }
+      const left = a.summary[sortKey];
+      const right = b.summary[sortKey];
+      // 尚无数据的行始终排在最后
+      if (left === null || right === null) {
+        if (left === right) return 0;
+        return left === null ? 1 : -1;
+      }
+      return (left - right) * direction;
+    });
+  }, [runTargets, samplesByTarget, sortDirection, sortKey]);
+
+  const completedSamples = Object.values(samplesByTarget).reduce(
+    (sum, samples) => sum + samples.length,
+    0
+  );
+  const plannedSamples = runTargets.length * runSampleCount;
+  const chartMax = Math.max(
+    1,
+    ...rows.map((row) => row.summary.totalP95 ?? row.summary.oneTokenP95 ?? 0)
+  );
+
+  const startBenchmark = async () => {
+    const targets = plan.targets;
+    cancelledRef.current = false;
+    setRunTargets(targets);
+    setRunModel(model);
+    setRunSampleCount(sampleCount);
+    setSamplesByTarget({});
+    setRunning(true);
+    try {
+      await runModelBenchmark(targets, sampleCount, {
+        isCancelled: () => cancelledRef.current,
+        onSample: (targetId, sample) =>
+          setSamplesByTarget((prev) => ({
+            ...prev,
+            [targetId]: [...(prev[targetId] ?? []), sample],
+          })),
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleRun = () => {
+    showConfirmation({
+      title: t('api_endpoints.benchmark_confirm_title'),
+      message: t('api_endpoints.benchmark_confirm_message', {
+        model,
+        targets: plan.targets.length,
+        requests: plan.targets.length * sampleCount * REQUESTS_PER_SAMPLE,
+      }),
+      confirmText: t('api_endpoints.benchmark_run'),
+      cancelText: t('common.cancel'),
+      onConfirm: () => void startBenchmark(),
+    });
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'));
+      return;
+    }
+    setSortKey(key);
+    setSortDirection('asc');
+  };
+
+  const renderSortHeader = (key: SortKey) => (
+    <th
+      key={key}
+      aria-sort={sortKey === key ? (sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <button type="button" className={styles.sortButton} onClick={() => handleSort(key)}>
+        {t(`api_endpoints.benchmark_column_${key}`)}
+        {sortKey === key &&
+          (sortDirection === 'asc' ? <IconChevronUp size={12} /> : <IconChevronDown size={12} />)}
+      </button>
+    </th>
+  );
+
+  const renderMetric = (key: Exclude<SortKey, 'provider'>, summary: ModelBenchmarkSummary) => {
+    if (key === 'errorRate') {
+      if (!summary.samples) return '—';
+      return (
+        <span
+          className={summary.failed > 0 ? styles.errorRate : undefined}
+          title={summary.lastError}
+        >
+          {t('api_endpoints.benchmark_error_rate_value', {
+            rate: Math.round(summary.errorRate * 100),
+            failed: summary.failed,
+            samples: summary.samples,
+          })}
+        </span>
+      );
+    }
+    return formatMs(summary[key]);
+  };
+
+  if (!model) return null;
+
+  return (
+    <Card>
+      <div className={styles.panel}>
+        <div className={styles.header}>
+          <div>
+            <h2 className={styles.title}>{t('api_endpoints.benchmark_title')}</h2>
+            <p className={styles.description}>{t('api_endpoints.benchmark_description')}</p>
+          </div>
+          <div className={styles.controls}>
+            <div className={styles.samplesSelect}>
+              <Select
+                value={String(sampleCount)}
+                options={sampleOptions}
+                onChange={(value) => setSampleCount(Number(value))}
+                ariaLabel={t('api_endpoints.benchmark_samples_label')}
+                disabled={running}
+              />
+            </div>
+            {running ? (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => {
+                  cancelledRef.current = true;
+                }}
+              >
+                {t('api_endpoints.benchmark_stop')}
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                onClick={handleRun}
+                disabled={unavailable || plan.targets.length === 0}
+              >
+                {t('api_endpoints.benchmark_run')}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className={styles.notice}>{t('api_endpoints.benchmark_notice')}</div>
+
+        {apiCallUnsupported && (
+          <div className={styles.warning}>{t('api_endpoints.benchmark_api_call_unsupported')}</div>
+        )}
+
+        {plan.targets.length === 0 ? (
+          <div className={styles.empty}>{t('api_endpoints.benchmark_no_targets', { model })}</div>
+        ) : (
+          <div className={styles.meta}>
+            {t('api_endpoints.benchmark_targets_summary', {
+              model,
+              targets: plan.targets.length,
+            })}
+          </div>
+        )}
+
+        {plan.skipped.length > 0 && (
+          <div className={styles.meta}>
+            {t('api_endpoints.benchmark_skipped', {
+              names: plan.skipped
+                .map((candidate) => candidate.authFileName || candidate.providerName)
+                .join(', '),
+            })}
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className={styles.progress}>
+              {running
+                ? t('api_endpoints.benchmark_progress', {
+                    done: completedSamples,
+                    total: plannedSamples,
+                  })
+                : t('api_endpoints.benchmark_results_for', {
+                    model: runModel,
+                    done: completedSamples,
+                    total: plannedSamples,
+                  })}
+            </div>
+
+            <div className={styles.tableWrap}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    {renderSortHeader('provider')}
+                    <th>{t('api_endpoints.benchmark_column_model')}</th>
+                    {METRIC_COLUMNS.map(renderSortHeader)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ target, summary }) => (
+                    <tr key={target.id}>
+                      <td>
+                        <div className={styles.providerName}>{target.providerName}</div>
+                        <code className={styles.providerKey}>{maskApiKey(target.apiKey)}</code>
+                      </td>
+                      <td>
+                        <code>{target.model}</code>
+                      </td>
+                      {METRIC_COLUMNS.map((key) => (
+                        <td key={key} className={styles.metric}>
+                          {renderMetric(key, summary)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div
+              className={styles.chart}
+              role="img"
+              aria-label={t('api_endpoints.benchmark_chart_label')}
+            >
+              <div className={styles.legend}>
+                <span className={styles.legendItem}>
+                  <span className={`${styles.swatch} ${styles.swatchTtft}`} />
+                  {t('api_endpoints.benchmark_legend_one_token')}
+                </span>
+                <span className={styles.legendItem}>
+                  <span className={`${styles.swatch} ${styles.swatchTotal}`} />
+                  {t('api_endpoints.benchmark_legend_total')}
+                </span>
+              </div>
+              {rows.map(({ target, summary }) => (
+                <div key={target.id} className={styles.chartRow}>
+                  <div className={styles.chartLabel} title={target.providerName}>
+                    {target.providerName} · {maskApiKey(target.apiKey)}
+                  </div>
+                  <div className={styles.chartBars}>
+                    <div className={styles.chartTrack}>
+                      <div
+                        className={`${styles.bar} ${styles.barTotal}`}
+                        style={{ width: `${((summary.totalP50 ?? 0) / chartMax) * 100}%` }}
+                      />
+                      <div
+                        className={`${styles.bar} ${styles.barTtft}`}
+                        style={{ width: `${((summary.oneTokenP50 ?? 0) / chartMax) * 100}%` }}
+                      />
+                    </div>
+                    <span className={styles.chartValue}>
+                      {summary.oneTokenP50 === null
+                        ? '—'
+                        : `${formatMs(summary.oneTokenP50)} / ${formatMs(summary.totalP50)}`}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { ModelBenchmarkPanel } from './ModelBenchmarkPanel';
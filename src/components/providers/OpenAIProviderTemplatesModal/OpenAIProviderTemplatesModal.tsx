@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import iconDeepseek from '@/assets/icons/deepseek.svg';
+import iconGlm from '@/assets/icons/glm.svg';
+import iconGrok from '@/assets/icons/grok.svg';
+import iconKimiDark from '@/assets/icons/kimi-dark.svg';
+import iconKimiLight from '@/assets/icons/kimi-light.svg';
+import iconMinimax from '@/assets/icons/minimax.svg';
+import iconQwen from '@/assets/icons/qwen.svg';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { IconTrash2 } from '@/components/ui/icons';
+import { useNotificationStore, useOpenAIProviderTemplateStore, useThemeStore } from '@/stores';
+import type { OpenAIProviderTemplate, OpenAIProviderTemplateIcon } from '@/types';
+import { makeClientId } from '@/types/visualConfig';
+import {
+  BUILTIN_OPENAI_PROVIDER_TEMPLATES,
+  normalizeOpenAIProviderTemplates,
+} from '@/utils/openaiProviderTemplates';
+import styles from './OpenAIProviderTemplatesModal.module.scss';
+
+type TemplateDraft = Omit<OpenAIProviderTemplate, 'id'>;
+
+interface OpenAIProviderTemplatesModalProps {
+  open: boolean;
+  disabled?: boolean;
+  // 当前表单内容，用于“保存为模板”；不含密钥
+  current: TemplateDraft;
+  onClose: () => void;
+  onApply: (template: OpenAIProviderTemplate) => void;
+}
+
+const ICONS: Record<Exclude<OpenAIProviderTemplateIcon, 'kimi'>, string> = {
+  deepseek: iconDeepseek,
+  glm: iconGlm,
+  grok: iconGrok,
+  minimax: iconMinimax,
+  qwen: iconQwen,
+};
+
+const EMPTY_DRAFT = { name: '', description: '' };
+
+/**
+ * OpenAI 兼容提供商模板库：内置常见厂商与本地保存的自定义模板
+ */
+export function OpenAIProviderTemplatesModal({
+  open,
+  disabled = false,
+  current,
+  onClose,
+  onApply,
+}: OpenAIProviderTemplatesModalProps) {
+  const { t } = useTranslation();
+  const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
+  const showNotification = useNotificationStore((state) => state.showNotification);
+  const showConfirmation = useNotificationStore((state) => state.showConfirmation);
+  const customTemplates = useOpenAIProviderTemplateStore((state) => state.templates);
+  const addTemplate = useOpenAIProviderTemplateStore((state) => state.addTemplate);
+  const removeTemplate = useOpenAIProviderTemplateStore((state) => state.removeTemplate);
+
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [draftError, setDraftError] = useState('');
+
+  const iconFor = (icon?: OpenAIProviderTemplateIcon) => {
+    if (!icon) return null;
+    if (icon === 'kimi') return resolvedTheme === 'dark' ? iconKimiDark : iconKimiLight;
+    return ICONS[icon];
+  };
+
+  const startCreating = () => {
+    setDraft({ name: current.name, description: '' });
+    setDraftError('');
+    setCreating(true);
+  };
+
+  const handleSaveDraft = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      setDraftError(t('ai_providers.openai_templates.name_required'));
+      return;
+    }
+    const [template] = normalizeOpenAIProviderTemplates([
+      {
+        ...current,
+        id: `custom:${makeClientId()}`,
+        name,
+        description: draft.description,
+        createdAt: Date.now(),
+      },
+    ]);
+    if (!template) {
+      setDraftError(t('ai_providers.openai_templates.base_url_required'));
+      return;
+    }
+    addTemplate(template);
+    setCreating(false);
+    setDraft(EMPTY_DRAFT);
+    setDraftError('');
+    showNotification(t('ai_providers.openai_templates.saved', { name }), 'success');
+  };
+
+  const handleDelete = (template: OpenAIProviderTemplate) => {
+    showConfirmation({
+      title: t('ai_providers.openai_templates.delete_title'),
+      message: t('ai_providers.openai_templates.delete_confirm', { name: template.name }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      variant: 'danger',
+      onConfirm: () => removeTemplate(template.id),
+    });
+  };
+
+  const renderTemplate = (template: OpenAIProviderTemplate) => {
+    const icon = iconFor(template.icon);
+    const description = template.descriptionKey
+      ? t(template.descriptionKey)
+      : (template.description ?? '');
+    const headerNames = Object.keys(template.headers ?? {});
+
+    return (
+      <li key={template.id} className={styles.card}>
+        <div className={styles.cardHeader}>
+          <div className={styles.cardTitle}>
+            {icon && <img src={icon} alt="" className={styles.cardIcon} />}
+            {template.name}
+          </div>
+          {!template.builtin && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(template)}
+              title={t('common.delete')}
+              aria-label={t('common.delete')}
+            >
+              <IconTrash2 size={14} />
+            </Button>
+          )}
+        </div>
+        {description && <p className={styles.cardDescription}>{description}</p>}
+        <code className={styles.baseUrl}>{template.baseUrl}</code>
+        {template.models.length > 0 && (
+          <div className={styles.models}>
+            {template.models.map((model) => (
+              <span key={model.name} className={styles.model}>
+                {model.alias ? `${model.name} → ${model.alias}` : model.name}
+              </span>
+            ))}
+          </div>
+        )}
+        {headerNames.length > 0 && (
+          <div className={styles.meta}>
+            {t('ai_providers.openai_templates.headers', { names: headerNames.join(', ') })}
+          </div>
+        )}
+        <div className={styles.cardActions}>
+          <Button size="sm" onClick={() => onApply(template)} disabled={disabled}>
+            {t('ai_providers.openai_templates.apply')}
+          </Button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={t('ai_providers.openai_templates.title')}
+      width={760}
+    >
+      <div className={styles.body}>
+        <p className={styles.description}>{t('ai_providers.openai_templates.description')}</p>
+
+        <div className={styles.sectionHeader}>
+          <h4 className={styles.sectionTitle}>
+            {t('ai_providers.openai_templates.builtin_section')}
+          </h4>
+        </div>
+        <ul className={styles.grid}>{BUILTIN_OPENAI_PROVIDER_TEMPLATES.map(renderTemplate)}</ul>
+
+        <div className={styles.sectionHeader}>
+          <h4 className={styles.sectionTitle}>
+            {t('ai_providers.openai_templates.custom_section')}
+          </h4>
+          {!creating && (
+            <Button size="sm" onClick={startCreating} disabled={!current.baseUrl.trim()}>
+              {t('ai_providers.openai_templates.save_current')}
+            </Button>
+          )}
+        </div>
+
+        {creating && (
+          <div className={styles.form}>
+            <Input
+              label={t('ai_providers.openai_templates.name_label')}
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              maxLength={80}
+            />
+            <Input
+              label={t('ai_providers.openai_templates.description_label')}
+              value={draft.description}
+              onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+              maxLength={200}
+            />
+            <div className="hint">{t('ai_providers.openai_templates.save_hint')}</div>
+            {draftError && <div className="error-box">{draftError}</div>}
+            <div className={styles.formActions}>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => {
+                  setCreating(false);
+                  setDraft(EMPTY_DRAFT);
+                  setDraftError('');
+                }}
+              >
+                {t('common.cancel')}
+              </Button>
+              <Button size="sm" onClick={handleSaveDraft}>
+                {t('common.save')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {customTemplates.length > 0 ? (
+          <ul className={styles.grid}>{customTemplates.map(renderTemplate)}</ul>
+        ) : (
+          !creating && (
+            <EmptyState
+              title={t('ai_providers.openai_templates.custom_empty_title')}
+              description={t('ai_providers.openai_templates.custom_empty_desc')}
+            />
+          )
+        )}
+      </div>
+    </Modal>
+  );
+}
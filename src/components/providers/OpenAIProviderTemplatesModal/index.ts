@@ -0,0 +1 @@
+export { OpenAIProviderTemplatesModal } from './OpenAIProviderTemplatesModal';
@@ -17,10 +17,13 @@ import {
 import iconOpenaiLight from '@/assets/icons/openai-light.svg';
 import iconOpenaiDark from '@/assets/icons/openai-dark.svg';
 import type { OpenAIProviderConfig } from '@/types';
+import { useProviderHealthStore } from '@/stores';
 import { maskApiKey } from '@/utils/format';
 import { statusBarDataFromRecentRequests } from '@/utils/recentRequests';
 import styles from '@/pages/AiProvidersPage.module.scss';
+import { ProviderHealthBadge } from '../ProviderHealthBadge';
 import { ProviderStatusBar } from '../ProviderStatusBar';
+import { getProviderHealthId } from '../providerHealth';
 import { usePageTransitionLayer } from '@/components/common/PageTransitionLayer';
 import {
   getOpenAIProviderRecentWindowStats,
@@ -82,6 +85,7 @@ export function OpenAISection({
   onToggle,
 }: OpenAISectionProps) {
   const { t } = useTranslation();
+  const healthResults = useProviderHealthStore((state) => state.results);
   const pageTransitionLayer = usePageTransitionLayer();
   const isTransitionAnimating = pageTransitionLayer?.isAnimating ?? false;
   const actionsDisabled = disableControls || loading || isSwitching;
@@ -531,11 +535,15 @@ export function OpenAISection({
     const statusData =
       statusBarCache.get(getOpenAIProviderKey(provider, originalIndex)) || EMPTY_STATUS_BAR;
     const providerDisabled = provider.disabled === true;
+    const healthFailing = apiKeyEntries.some(
+      (entry) =>
+        healthResults[getProviderHealthId('openai', entry.apiKey, provider.baseUrl)]?.ok === false
+    );
 
     return (
       <div
         key={`openai-provider-${originalIndex}`}
-        className={styles.openaiProviderCard}
+        className={`${styles.openaiProviderCard} ${healthFailing ? styles.healthFailingRow : ''}`}
         style={actionsDisabled ? { opacity: 0.6 } : undefined}
       >
         <div className={styles.openaiProviderMeta}>
@@ -605,6 +613,9 @@ export function OpenAISection({
                           <IconX size={12} /> {entryStats.failure}
                         </span>
                       </div>
+                      <ProviderHealthBadge
+                        healthId={getProviderHealthId('openai', entry.apiKey, provider.baseUrl)}
+                      />
                     </div>
                   );
                 })}
@@ -708,7 +719,15 @@ export function OpenAISection({
               description={t('ai_providers.openai_empty_desc')}
             />
           ) : (
-            <div className={styles.openaiProviderList}>{sortedConfigs.map(renderProviderCard)}</div>
+            <>
+              {/* 同一提供商的多个密钥共用一个优先级，无法走逐步降级的轮换流程 */}
+              <div className={`${styles.sectionHint} ${styles.openaiRotationHint}`}>
+                {t('ai_providers.key_rotation.openai_hint')}
+              </div>
+              <div className={styles.openaiProviderList}>
+                {sortedConfigs.map(renderProviderCard)}
+              </div>
+            </>
           )}
         </Card>
       </div>
@@ -0,0 +1,42 @@
+import { useTranslation } from 'react-i18next';
+import { useProviderHealthStore } from '@/stores';
+import { formatDateTime } from '@/utils/format';
+import styles from '@/pages/AiProvidersPage.module.scss';
+
+interface ProviderHealthBadgeProps {
+  healthId: string;
+}
+
+/**
+ * 最近一次定时健康检查的结果，尚未检查过时不显示
+ */
+export function ProviderHealthBadge({ healthId }: ProviderHealthBadgeProps) {
+  const { t, i18n } = useTranslation();
+  const result = useProviderHealthStore((state) => state.results[healthId]);
+  if (!result) return null;
+
+  const checkedAt = formatDateTime(new Date(result.checkedAt), i18n.language);
+  const title = [
+    t(`ai_providers.health.method_${result.method}`),
+    t('ai_providers.health.checked_at', { time: checkedAt }),
+    result.message,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return (
+    <span
+      className={`${styles.statPill} ${styles.healthBadge} ${
+        result.ok ? styles.healthOk : styles.healthFail
+      }`}
+      title={title}
+    >
+      <span className={styles.healthDot} aria-hidden="true" />
+      {result.ok
+        ? t('ai_providers.health.ok', { latency: result.latencyMs })
+        : result.statusCode
+          ? t('ai_providers.health.failed_status', { status: result.statusCode })
+          : t('ai_providers.health.failed')}
+    </span>
+  );
+}
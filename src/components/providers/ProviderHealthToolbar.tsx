@@ -0,0 +1,104 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
+import {
+  PROVIDER_HEALTH_INTERVAL_OPTIONS,
+  useAuthStore,
+  useCapabilityStore,
+  useConfigStore,
+  useProviderHealthStore,
+} from '@/stores';
+import { formatDateTime } from '@/utils/format';
+import styles from '@/pages/AiProvidersPage.module.scss';
+import { collectProviderHealthTargets, runProviderHealthChecks } from './providerHealth';
+
+/**
+ * 定时健康检查的开关、间隔与手动检查入口
+ */
+export function ProviderHealthToolbar() {
+  const { t, i18n } = useTranslation();
+  const config = useConfigStore((state) => state.config);
+  const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const apiCallUnsupported = useCapabilityStore(
+    (state) => state.capabilities.apiCall === 'unsupported'
+  );
+  const enabled = useProviderHealthStore((state) => state.enabled);
+  const intervalMinutes = useProviderHealthStore((state) => state.intervalMinutes);
+  const results = useProviderHealthStore((state) => state.results);
+  const lastRunAt = useProviderHealthStore((state) => state.lastRunAt);
+  const running = useProviderHealthStore((state) => state.running);
+  const setEnabled = useProviderHealthStore((state) => state.setEnabled);
+  const setIntervalMinutes = useProviderHealthStore((state) => state.setIntervalMinutes);
+
+  const unavailable = connectionStatus !== 'connected' || apiCallUnsupported;
+  const checked = Object.values(results);
+  const failing = checked.filter((result) => !result.ok).length;
+
+  const intervalOptions = useMemo(
+    () =>
+      PROVIDER_HEALTH_INTERVAL_OPTIONS.map((minutes) => ({
+        value: String(minutes),
+        label: t('ai_providers.health.interval_option', { minutes }),
+      })),
+    [t]
+  );
+
+  const handleRunNow = () => {
+    void runProviderHealthChecks(collectProviderHealthTargets(config));
+  };
+
+  let status: string;
+  if (apiCallUnsupported) {
+    status = t('ai_providers.health.api_call_unsupported');
+  } else if (running) {
+    status = t('ai_providers.health.running');
+  } else if (lastRunAt === null) {
+    status = t('ai_providers.health.never_run');
+  } else {
+    status = t('ai_providers.health.last_run', {
+      time: formatDateTime(new Date(lastRunAt), i18n.language),
+    });
+  }
+
+  return (
+    <div className={styles.healthToolbar}>
+      <ToggleSwitch
+        checked={enabled}
+        onChange={setEnabled}
+        label={t('ai_providers.health.enabled')}
+        disabled={apiCallUnsupported}
+      />
+      <div className={styles.healthToolbarInterval}>
+        <Select
+          value={String(intervalMinutes)}
+          options={intervalOptions}
+          onChange={(value) => setIntervalMinutes(Number(value))}
+          ariaLabel={t('ai_providers.health.interval_label')}
+          disabled={!enabled || apiCallUnsupported}
+        />
+      </div>
+      <div className={styles.healthToolbarStatus}>
+        {status}
+        {!running && failing > 0 && (
+          <>
+            {' · '}
+            <span className={styles.healthToolbarFailing}>
+              {t('ai_providers.health.failing_summary', { failing, checked: checked.length })}
+            </span>
+          </>
+        )}
+      </div>
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={handleRunNow}
+        loading={running}
+        disabled={unavailable || !config || running}
+      >
+        {running ? t('ai_providers.health.running') : t('ai_providers.health.run_now')}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { Select } from '@/components/ui/Select';
+import { maskApiKey } from '@/utils/format';
+import {
+  detectProviderKeyImportFormat,
+  parseProviderKeyImport,
+  planProviderKeyImport,
+  type ProviderKeyImportEntry,
+  type ProviderKeyImportFormat,
+  type ProviderKeyImportTarget,
+} from '@/utils/providerKeyImport';
+import styles from './ProviderKeyImportModal.module.scss';
+
+type ImportFormatOption = ProviderKeyImportFormat | 'auto';
+
+interface ProviderKeyImportModalProps {
+  open: boolean;
+  existing: Record<ProviderKeyImportTarget, Array<{ apiKey: string; baseUrl?: string }>>;
+  onClose: () => void;
+  onImport: (target: ProviderKeyImportTarget, entries: ProviderKeyImportEntry[]) => Promise<void>;
+}
+
+const TARGETS: ProviderKeyImportTarget[] = ['gemini', 'codex', 'claude'];
+const FORMATS: ImportFormatOption[] = ['auto', 'csv', 'json', 'env'];
+
+const EMPTY_DEFAULTS = { baseUrl: '', proxyUrl: '', prefix: '', priority: '' };
+
+/**
+ * 从 CSV / JSON / .env 批量导入上游密钥，预览新增与跳过的条目后一次保存
+ */
+export function ProviderKeyImportModal({
+  open,
+  existing,
+  onClose,
+  onImport,
+}: ProviderKeyImportModalProps) {
+  const { t } = useTranslation();
+  const [target, setTarget] = useState<ProviderKeyImportTarget>('gemini');
+  const [format, setFormat] = useState<ImportFormatOption>('auto');
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [defaults, setDefaults] = useState(EMPTY_DEFAULTS);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const resolvedFormat =
+    format === 'auto' ? detectProviderKeyImportFormat(text, fileName || undefined) : format;
+  const priorityText = defaults.priority.trim();
+  const defaultPriority = priorityText ? Number(priorityText) : undefined;
+  const defaultPriorityInvalid =
+    defaultPriority !== undefined && !Number.isInteger(defaultPriority);
+
+  const parsed = useMemo(
+    () => parseProviderKeyImport(text, resolvedFormat),
+    [resolvedFormat, text]
+  );
+  const rows = useMemo(
+    () =>
+      planProviderKeyImport(parsed.entries, existing[target], target, {
+        baseUrl: defaults.baseUrl,
+        proxyUrl: defaults.proxyUrl,
+        prefix: defaults.prefix,
+        priority: defaultPriorityInvalid ? undefined : defaultPriority,
+      }),
+    [defaultPriority, defaultPriorityInvalid, defaults, existing, parsed.entries, target]
+  );
+  const toAdd = rows.filter((row) => row.status === 'add');
+  const skipped = rows.length - toAdd.length + parsed.errors.length;
+
+  const reset = () => {
+    setText('');
+    setFileName('');
+    setDefaults(EMPTY_DEFAULTS);
+    setFormat('auto');
+  };
+
+  const handleClose = () => {
+    if (importing) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setText(await file.text());
+  };
+
+  const handleImport = async () => {
+    if (toAdd.length === 0) return;
+    setImporting(true);
+    try {
+      await onImport(
+        target,
+        toAdd.map((row) => row.entry)
+      );
+      reset();
+      onClose();
+    } catch {
+      // 保存失败时由调用方提示，保留输入便于重试
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={handleClose}
+      title={t('ai_providers.key_import.title')}
+      width={760}
+      closeDisabled={importing}
+      footer={
+        <>
+          <Button variant="secondary" onClick={handleClose} disabled={importing}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={() => void handleImport()}
+            loading={importing}
+            disabled={toAdd.length === 0 || defaultPriorityInvalid}
+          >
+            {t('ai_providers.key_import.submit', { total: toAdd.length })}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.body}>
+        <p className={styles.description}>{t('ai_providers.key_import.description')}</p>
+
+        <div className={styles.options}>
+          <div className="form-group">
+            <label>{t('ai_providers.key_import.target_label')}</label>
+            <Select
+              value={target}
+              options={TARGETS.map((value) => ({
+                value,
+                label: t(`ai_providers.key_import.targets.${value}`),
+              }))}
+              onChange={(value) => setTarget(value as ProviderKeyImportTarget)}
+              ariaLabel={t('ai_providers.key_import.target_label')}
+              disabled={importing}
+            />
+          </div>
+          <div className="form-group">
+            <label>{t('ai_providers.key_import.format_label')}</label>
+            <Select
+              value={format}
+              options={FORMATS.map((value) => ({
+                value,
+                label:
+                  value === 'auto' && text.trim()
+                    ? t('ai_providers.key_import.formats.auto_detected', {
+                        format: t(`ai_providers.key_import.formats.${resolvedFormat}`),
+                      })
+                    : t(`ai_providers.key_import.formats.${value}`),
+              }))}
+              onChange={(value) => setFormat(value as ImportFormatOption)}
+              ariaLabel={t('ai_providers.key_import.format_label')}
+              disabled={importing}
+            />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <div className={styles.sourceHeader}>
+            <label>{t('ai_providers.key_import.source_label')}</label>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing}
+            >
+              {t('ai_providers.key_import.choose_file')}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.json,.env,.txt,text/plain,application/json,text/csv"
+              style={{ display: 'none' }}
+              onChange={(event) => void handleFile(event)}
+            />
+          </div>
+          <textarea
+            className={`input ${styles.sourceInput}`}
+            value={text}
+            placeholder={t('ai_providers.key_import.source_placeholder')}
+            onChange={(e) => {
+              setText(e.target.value);
+              setFileName('');
+            }}
+            spellCheck={false}
+            disabled={importing}
+            aria-label={t('ai_providers.key_import.source_label')}
+          />
+          <div className="hint">
+            {fileName
+              ? t('ai_providers.key_import.file_loaded', { name: fileName })
+              : t('ai_providers.key_import.source_hint')}
+          </div>
+        </div>
+
+        <div className={styles.defaults}>
+          <div className={styles.defaultsTitle}>{t('ai_providers.key_import.defaults_title')}</div>
+          <div className={styles.defaultsGrid}>
+            <Input
+              label={t('ai_providers.key_import.base_url_label')}
+              value={defaults.baseUrl}
+              onChange={(e) => setDefaults((prev) => ({ ...prev, baseUrl: e.target.value }))}
+              disabled={importing}
+            />
+            <Input
+              label={t('ai_providers.key_import.proxy_url_label')}
+              value={defaults.proxyUrl}
+              onChange={(e) => setDefaults((prev) => ({ ...prev, proxyUrl: e.target.value }))}
+              disabled={importing}
+            />
+            <Input
+              label={t('ai_providers.key_import.prefix_label')}
+              value={defaults.prefix}
+              onChange={(e) => setDefaults((prev) => ({ ...prev, prefix: e.target.value }))}
+              disabled={importing}
+            />
+            <Input
+              label={t('ai_providers.key_import.priority_label')}
+              value={defaults.priority}
+              inputMode="numeric"
+              onChange={(e) => setDefaults((prev) => ({ ...prev, priority: e.target.value }))}
+              error={
+                defaultPriorityInvalid ? t('ai_providers.key_import.priority_invalid') : undefined
+              }
+              disabled={importing}
+            />
+          </div>
+        </div>
+
+        {(rows.length > 0 || parsed.errors.length > 0) && (
+          <div className={styles.preview}>
+            <div className={styles.summary}>
+              {t('ai_providers.key_import.summary', { added: toAdd.length, skipped })}
+            </div>
+            <ul className={styles.rows}>
+              {rows.map((row, index) => (
+                <li key={`${row.line}-${index}`} className={styles.row}>
+                  <span className={styles.line}>#{row.line}</span>
+                  <code className={styles.key}>{maskApiKey(row.entry.apiKey)}</code>
+                  <span className={styles.url}>{row.entry.baseUrl ?? ''}</span>
+                  <span
+                    className={`${styles.status} ${row.status === 'add' ? styles.statusAdd : styles.statusSkip}`}
+                  >
+                    {t(`ai_providers.key_import.status.${row.status}`)}
+                  </span>
+                </li>
+              ))}
+              {parsed.errors.map((error, index) => (
+                <li key={`error-${error.line}-${index}`} className={styles.row}>
+                  <span className={styles.line}>{error.line > 0 ? `#${error.line}` : ''}</span>
+                  <span className={styles.errorText}>
+                    {t(`ai_providers.key_import.errors.${error.code}`)}
+                  </span>
+                  <span className={`${styles.status} ${styles.statusSkip}`}>
+                    {t('ai_providers.key_import.status.invalid')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
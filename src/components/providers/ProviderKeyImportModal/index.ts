@@ -0,0 +1 @@
+export { ProviderKeyImportModal } from './ProviderKeyImportModal';
@@ -0,0 +1,333 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { DiffModal } from '@/components/config/DiffModal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { serializeProviderKeyConfigs } from '@/services/api';
+import { useCapabilityStore, useNotificationStore, useProviderHealthStore } from '@/stores';
+import type { ProviderHealthResult, ProviderKeyConfig } from '@/types';
+import { maskApiKey } from '@/utils/format';
+import {
+  PROVIDER_KEY_ROTATION_SECTIONS,
+  PROVIDER_KEY_ROTATION_STEPS,
+  buildRotationAddList,
+  buildRotationDemoteList,
+  buildRotationPreviewYaml,
+  buildRotationRemoveList,
+  findProviderKeyIndex,
+  type ProviderKeyRotationKind,
+  type ProviderKeyRotationStep,
+} from '@/utils/providerKeyRotation';
+import { getProviderHealthId, probeProviderHealthTarget } from '../providerHealth';
+import styles from './ProviderKeyRotationModal.module.scss';
+
+export interface ProviderKeyRotationTarget {
+  kind: ProviderKeyRotationKind;
+  apiKey: string;
+  baseUrl?: string;
+}
+
+interface ProviderKeyRotationModalProps {
+  open: boolean;
+  target: ProviderKeyRotationTarget | null;
+  lists: Record<ProviderKeyRotationKind, ProviderKeyConfig[]>;
+  onClose: () => void;
+  // 保存失败时应抛出异常，弹窗保留当前步骤便于重试
+  onSave: (kind: ProviderKeyRotationKind, list: ProviderKeyConfig[]) => Promise<void>;
+}
+
+type PendingChange = {
+  step: Exclude<ProviderKeyRotationStep, 'test'>;
+  list: ProviderKeyConfig[];
+};
+
+/**
+ * 密钥轮换向导：新增新密钥 → 测试 → 降低旧密钥优先级 → 移除旧密钥，每次保存前预览差异
+ */
+export function ProviderKeyRotationModal({
+  open,
+  target,
+  lists,
+  onClose,
+  onSave,
+}: ProviderKeyRotationModalProps) {
+  const { t } = useTranslation();
+  const showNotification = useNotificationStore((state) => state.showNotification);
+  const apiCallUnsupported = useCapabilityStore(
+    (state) => state.capabilities.apiCall === 'unsupported'
+  );
+  const [step, setStep] = useState<ProviderKeyRotationStep>('add');
+  const [newKey, setNewKey] = useState('');
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ProviderHealthResult | null>(null);
+
+  const kind = target?.kind ?? 'gemini';
+  const list = lists[kind];
+  const trimmedKey = newKey.trim();
+  const oldIndex = target ? findProviderKeyIndex(list, target.apiKey, target.baseUrl) : -1;
+  const newIndex = trimmedKey ? findProviderKeyIndex(list, trimmedKey, target?.baseUrl) : -1;
+  const oldEntry = oldIndex >= 0 ? list[oldIndex] : null;
+  const newEntry = newIndex >= 0 ? list[newIndex] : null;
+  const sameAsOld = Boolean(target && trimmedKey && trimmedKey === target.apiKey.trim());
+  const stepIndex = PROVIDER_KEY_ROTATION_STEPS.indexOf(step);
+
+  const maskKey = (apiKey: string) => {
+    const masked = maskApiKey(apiKey);
+    if (target && apiKey === target.apiKey.trim()) {
+      return `${masked} (${t('ai_providers.key_rotation.old_key_tag')})`;
+    }
+    if (apiKey === trimmedKey) return `${masked} (${t('ai_providers.key_rotation.new_key_tag')})`;
+    return masked;
+  };
+  const toPreviewYaml = (items: ProviderKeyConfig[]) =>
+    buildRotationPreviewYaml(kind, serializeProviderKeyConfigs(kind, items), maskKey);
+
+  const reset = () => {
+    setStep('add');
+    setNewKey('');
+    setPending(null);
+    setTestResult(null);
+  };
+
+  const handleClose = () => {
+    if (saving || testing) return;
+    reset();
+    onClose();
+  };
+
+  const handleConfirmChange = async () => {
+    if (!pending) return;
+    setSaving(true);
+    try {
+      await onSave(kind, pending.list);
+      setPending(null);
+      if (pending.step === 'add') setStep('test');
+      else if (pending.step === 'demote') setStep('remove');
+      else {
+        reset();
+        onClose();
+      }
+    } catch {
+      // 保存失败时由调用方提示，保留差异预览便于重试
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!target || !newEntry) return;
+    setTesting(true);
+    try {
+      const id = getProviderHealthId(kind, newEntry.apiKey, newEntry.baseUrl);
+      const result = await probeProviderHealthTarget({
+        id,
+        kind,
+        apiKey: newEntry.apiKey,
+        baseUrl: newEntry.baseUrl,
+        headers: newEntry.headers,
+        models: (newEntry.models ?? []).map((model) => model.name).filter(Boolean),
+      });
+      useProviderHealthStore.getState().setResult(id, result);
+      setTestResult(result);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      showNotification(t('ai_providers.key_rotation.test_failed', { message }), 'error');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const renderStepBody = () => {
+    if (step === 'add') {
+      return (
+        <>
+          <p className={styles.hint}>{t('ai_providers.key_rotation.add_desc')}</p>
+          <Input
+            label={t('ai_providers.key_rotation.new_key_label')}
+            type="password"
+            autoComplete="off"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            error={sameAsOld ? t('ai_providers.key_rotation.same_key') : undefined}
+            hint={newEntry ? t('ai_providers.key_rotation.already_added') : undefined}
+            disabled={saving}
+          />
+        </>
+      );
+    }
+    if (step === 'test') {
+      return (
+        <>
+          <p className={styles.hint}>{t('ai_providers.key_rotation.test_desc')}</p>
+          {apiCallUnsupported && (
+            <div className={styles.warning}>{t('ai_providers.key_rotation.test_unsupported')}</div>
+          )}
+          {testResult && (
+            <div className={testResult.ok ? styles.testOk : styles.testFail}>
+              {testResult.ok
+                ? t('ai_providers.key_rotation.test_ok', { latency: testResult.latencyMs })
+                : t('ai_providers.key_rotation.test_failed', {
+                    message: testResult.message || testResult.statusCode || '',
+                  })}
+            </div>
+          )}
+        </>
+      );
+    }
+    if (step === 'demote') {
+      return (
+        <p className={styles.hint}>
+          {t('ai_providers.key_rotation.demote_desc', {
+            from: oldEntry?.priority ?? 0,
+            to: (newEntry?.priority ?? 0) - 1,
+          })}
+        </p>
+      );
+    }
+    return <div className={styles.warning}>{t('ai_providers.key_rotation.remove_desc')}</div>;
+  };
+
+  const renderPrimaryAction = () => {
+    if (step === 'add') {
+      if (newEntry) {
+        return (
+          <Button onClick={() => setStep('test')}>{t('ai_providers.key_rotation.continue')}</Button>
+        );
+      }
+      return (
+        <Button
+          onClick={() =>
+            setPending({ step: 'add', list: buildRotationAddList(list, oldIndex, trimmedKey) })
+          }
+          disabled={!oldEntry || !trimmedKey || sameAsOld}
+        >
+          {t('ai_providers.key_rotation.preview_add')}
+        </Button>
+      );
+    }
+    if (step === 'test') {
+      const canContinue = testResult?.ok === true || apiCallUnsupported;
+      return (
+        <>
+          {!apiCallUnsupported && (
+            <Button
+              variant={canContinue ? 'secondary' : 'primary'}
+              onClick={() => void handleTest()}
+              loading={testing}
+              disabled={!newEntry || testing}
+            >
+              {testResult
+                ? t('ai_providers.key_rotation.retest')
+                : t('ai_providers.key_rotation.run_test')}
+            </Button>
+          )}
+          {canContinue && (
+            <Button onClick={() => setStep('demote')} disabled={testing}>
+              {t('ai_providers.key_rotation.continue')}
+            </Button>
+          )}
+        </>
+      );
+    }
+    if (step === 'demote') {
+      return (
+        <Button
+          onClick={() =>
+            setPending({
+              step: 'demote',
+              list: buildRotationDemoteList(list, oldIndex, newIndex),
+            })
+          }
+          disabled={!oldEntry || !newEntry}
+        >
+          {t('ai_providers.key_rotation.preview_demote')}
+        </Button>
+      );
+    }
+    return (
+      <Button
+        variant="danger"
+        onClick={() =>
+          setPending({ step: 'remove', list: buildRotationRemoveList(list, oldIndex) })
+        }
+        disabled={!oldEntry || !newEntry}
+      >
+        {t('ai_providers.key_rotation.preview_remove')}
+      </Button>
+    );
+  };
+
+  return (
+    <>
+      <Modal
+        open={open && !pending}
+        onClose={handleClose}
+        title={t('ai_providers.key_rotation.title')}
+        width={600}
+        closeDisabled={saving || testing}
+        footer={
+          <>
+            <Button variant="secondary" onClick={handleClose} disabled={saving || testing}>
+              {t('common.cancel')}
+            </Button>
+            {renderPrimaryAction()}
+          </>
+        }
+      >
+        <div className={styles.body}>
+          <div className={styles.source}>
+            <span className={styles.sourceLabel}>
+              {t(`ai_providers.key_rotation.targets.${kind}`)}
+            </span>
+            <code>{target ? maskApiKey(target.apiKey) : ''}</code>
+            {target?.baseUrl && <span className={styles.sourceUrl}>{target.baseUrl}</span>}
+          </div>
+
+          <ol className={styles.steps}>
+            {PROVIDER_KEY_ROTATION_STEPS.map((item, index) => (
+              <li
+                key={item}
+                className={[
+                  styles.step,
+                  index < stepIndex ? styles.stepDone : '',
+                  index === stepIndex ? styles.stepCurrent : '',
+                ]
+                  .filter(Boolean)
+                  .join(' ')}
+              >
+                <span className={styles.stepIndex}>{index + 1}</span>
+                {t(`ai_providers.key_rotation.steps.${item}`)}
+              </li>
+            ))}
+          </ol>
+
+          {!oldEntry && (
+            <div className={styles.warning}>{t('ai_providers.key_rotation.old_key_missing')}</div>
+          )}
+          {oldEntry && step !== 'add' && !newEntry && (
+            <div className={styles.warning}>{t('ai_providers.key_rotation.new_key_missing')}</div>
+          )}
+
+          {renderStepBody()}
+        </div>
+      </Modal>
+
+      <DiffModal
+        open={open && Boolean(pending)}
+        title={pending ? t(`ai_providers.key_rotation.diff_titles.${pending.step}`) : undefined}
+        fileLabel={`config.yaml · ${PROVIDER_KEY_ROTATION_SECTIONS[kind]}`}
+        original={pending ? toPreviewYaml(list) : ''}
+        modified={pending ? toPreviewYaml(pending.list) : ''}
+        hunkSelection={false}
+        onConfirm={() => void handleConfirmChange()}
+        onCancel={() => {
+          if (!saving) setPending(null);
+        }}
+        loading={saving}
+      />
+    </>
+  );
+}
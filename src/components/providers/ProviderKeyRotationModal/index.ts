@@ -0,0 +1,2 @@
+export { ProviderKeyRotationModal } from './ProviderKeyRotationModal';
+export type { ProviderKeyRotationTarget } from './ProviderKeyRotationModal';
@@ -15,6 +15,9 @@ interface ProviderListProps<T> {
   deleteLabel?: string;
   actionsDisabled?: boolean;
   getRowDisabled?: (item: T, index: number) => boolean;
+  getRowClassName?: (item: T, index: number) => string | undefined;
+  // 提供时在编辑按钮后显示“轮换密钥”
+  onRotate?: (item: T, index: number) => void;
   renderExtraActions?: (item: T, index: number) => ReactNode;
   listClassName?: string;
   rowClassName?: string;
@@ -34,6 +37,8 @@ export function ProviderList<T>({
   deleteLabel,
   actionsDisabled = false,
   getRowDisabled,
+  getRowClassName,
+  onRotate,
   renderExtraActions,
   listClassName,
   rowClassName,
@@ -57,7 +62,9 @@ export function ProviderList<T>({
         return (
           <div
             key={keyField(item, index)}
-            className={rowClassName ?? 'item-row'}
+            className={[rowClassName ?? 'item-row', getRowClassName?.(item, index)]
+              .filter(Boolean)
+              .join(' ')}
             style={rowDisabled ? { opacity: 0.6 } : undefined}
           >
             <div className={metaClassName ?? 'item-meta'}>{renderContent(item, index)}</div>
@@ -70,6 +77,16 @@ export function ProviderList<T>({
               >
                 {t('common.edit')}
               </Button>
+              {onRotate && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => onRotate(item, index)}
+                  disabled={actionsDisabled}
+                >
+                  {t('ai_providers.key_rotation.action')}
+                </Button>
+              )}
               <Button
                 variant="danger"
                 size="sm"
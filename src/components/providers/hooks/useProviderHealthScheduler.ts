@@ -0,0 +1,50 @@
+import { useCallback, useEffect } from 'react';
+import { useInterval } from '@/hooks/useInterval';
+import {
+  useAuthStore,
+  useCapabilityStore,
+  useConfigStore,
+  useProviderHealthStore,
+  useSessionLockStore,
+} from '@/stores';
+import { collectProviderHealthTargets, runProviderHealthChecks } from '../providerHealth';
+
+// 每分钟检查一次是否到期，到期间隔由用户设置决定
+const SCHEDULER_TICK_MS = 60_000;
+
+/**
+ * 全局定时健康检查，挂载在主布局中，离开供应商页面后仍按间隔运行
+ */
+export function useProviderHealthScheduler() {
+  const enabled = useProviderHealthStore((state) => state.enabled);
+  const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const apiCallUnsupported = useCapabilityStore(
+    (state) => state.capabilities.apiCall === 'unsupported'
+  );
+  // 锁定期间 apiClient 没有管理密钥，探测会全部失败
+  const locked = useSessionLockStore((state) => state.locked);
+  const active = enabled && connectionStatus === 'connected' && !apiCallUnsupported && !locked;
+
+  const runDue = useCallback(() => {
+    const { intervalMinutes, lastRunAt, running } = useProviderHealthStore.getState();
+    if (running || useSessionLockStore.getState().locked) return;
+    if (lastRunAt !== null && Date.now() - lastRunAt < intervalMinutes * 60_000) return;
+    const config = useConfigStore.getState().config;
+    if (!config) return;
+    void runProviderHealthChecks(collectProviderHealthTargets(config));
+  }, []);
+
+  useInterval(runDue, active ? SCHEDULER_TICK_MS : null);
+
+  // 启用或恢复连接时立即补跑一次已到期的检查
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+    queueMicrotask(() => {
+      if (!cancelled) runDue();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [active, runDue]);
+}
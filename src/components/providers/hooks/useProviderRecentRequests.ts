@@ -1,6 +1,10 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback } from 'react';
 import { useInterval } from '@/hooks/useInterval';
+import { useQuery } from '@/hooks/useQuery';
 import { apiKeyUsageApi } from '@/services/api';
+import { QUERY_KEYS } from '@/services/query';
+import { useQueryStore } from '@/stores';
+import type { QueryDefinition } from '@/types';
 import {
   normalizeRecentRequestUsageEntry,
   type ApiKeyUsageResponse,
@@ -17,10 +21,6 @@ export type UseProviderRecentRequestsOptions = {
 
 const EMPTY_USAGE_BY_PROVIDER: ProviderRecentRequests = new Map();
 
-let cachedUsageByProvider: ProviderRecentRequests = EMPTY_USAGE_BY_PROVIDER;
-let cachedAt = 0;
-let inFlightRequest: Promise<ProviderRecentRequests> | null = null;
-
 const normalizeProviderKey = (value: unknown): string => String(value ?? '').trim().toLowerCase();
 
 const normalizeApiKeyUsageResponse = (payload: ApiKeyUsageResponse): ProviderRecentRequests => {
@@ -47,30 +47,15 @@ const normalizeApiKeyUsageResponse = (payload: ApiKeyUsageResponse): ProviderRec
   return usageByProvider;
 };
 
-const fetchProviderRecentRequests = async (): Promise<ProviderRecentRequests> => {
-  if (!inFlightRequest) {
-    inFlightRequest = apiKeyUsageApi
-      .getUsage()
-      .then((payload) => {
-        const normalized = normalizeApiKeyUsageResponse(payload);
-        cachedUsageByProvider = normalized;
-        cachedAt = Date.now();
-        return normalized;
-      })
-      .finally(() => {
-        inFlightRequest = null;
-      });
-  }
-
-  return inFlightRequest;
+const providerRecentRequestsQuery: QueryDefinition<ProviderRecentRequests> = {
+  key: QUERY_KEYS.providerUsage,
+  fetcher: async () => normalizeApiKeyUsageResponse(await apiKeyUsageApi.getUsage()),
+  staleTime: PROVIDER_RECENT_REQUESTS_STALE_TIME_MS,
 };
 
 export function useProviderRecentRequests(options: UseProviderRecentRequestsOptions = {}) {
   const enabled = options.enabled ?? true;
-  const [usageByProvider, setUsageByProvider] = useState<ProviderRecentRequests>(
-    cachedUsageByProvider
-  );
-  const [isLoading, setIsLoading] = useState(false);
+  const { data, fetching, refetch } = useQuery(providerRecentRequestsQuery, { enabled });
 
   const loadRecentRequests = useCallback(
     async (loadOptions: { force?: boolean } = {}) => {
@@ -78,30 +63,19 @@ export function useProviderRecentRequests(options: UseProviderRecentRequestsOpti
         return EMPTY_USAGE_BY_PROVIDER;
       }
 
-      const hasFreshCache =
-        cachedAt > 0 &&
-        Date.now() - cachedAt < PROVIDER_RECENT_REQUESTS_STALE_TIME_MS;
-
-      if (!loadOptions.force && hasFreshCache) {
-        setUsageByProvider(cachedUsageByProvider);
-        return cachedUsageByProvider;
-      }
-
-      setIsLoading(true);
+      const queries = useQueryStore.getState();
       try {
-        const nextUsage = await fetchProviderRecentRequests();
-        setUsageByProvider(nextUsage);
-        return nextUsage;
+        return loadOptions.force
+          ? await refetch()
+          : await queries.fetchQuery(providerRecentRequestsQuery);
       } catch {
-        if (cachedAt > 0) {
-          setUsageByProvider(cachedUsageByProvider);
-        }
-        return cachedUsageByProvider;
-      } finally {
-        setIsLoading(false);
+        return (
+          queries.getQueryData<ProviderRecentRequests>(providerRecentRequestsQuery.key) ??
+          EMPTY_USAGE_BY_PROVIDER
+        );
       }
     },
-    [enabled]
+    [enabled, refetch]
   );
 
   const refreshRecentRequests = useCallback(
@@ -109,17 +83,13 @@ export function useProviderRecentRequests(options: UseProviderRecentRequestsOpti
     [loadRecentRequests]
   );
 
-  useEffect(() => {
-    setUsageByProvider(enabled ? cachedUsageByProvider : EMPTY_USAGE_BY_PROVIDER);
-  }, [enabled]);
-
   useInterval(() => {
     void refreshRecentRequests().catch(() => {});
   }, enabled ? PROVIDER_RECENT_REQUESTS_STALE_TIME_MS : null);
 
   return {
-    usageByProvider: enabled ? usageByProvider : EMPTY_USAGE_BY_PROVIDER,
-    isLoading: enabled ? isLoading : false,
+    usageByProvider: enabled ? (data ?? EMPTY_USAGE_BY_PROVIDER) : EMPTY_USAGE_BY_PROVIDER,
+    isLoading: enabled ? fetching : false,
     loadRecentRequests,
     refreshRecentRequests,
   };
@@ -3,10 +3,20 @@ export { ClaudeSection } from './ClaudeSection';
 export { CodexSection } from './CodexSection';
 export { GeminiSection } from './GeminiSection';
 export { OpenAISection } from './OpenAISection';
+export { OpenAIProviderTemplatesModal } from './OpenAIProviderTemplatesModal';
 export { VertexSection } from './VertexSection';
 export { ProviderList } from './ProviderList';
 export { ProviderStatusBar } from './ProviderStatusBar';
 export { ProviderNav } from './ProviderNav';
+export { ProviderKeyImportModal } from './ProviderKeyImportModal';
+export { ProviderKeyRotationModal } from './ProviderKeyRotationModal';
+export type { ProviderKeyRotationTarget } from './ProviderKeyRotationModal';
+export { ProviderHealthBadge } from './ProviderHealthBadge';
+export { ProviderHealthToolbar } from './ProviderHealthToolbar';
+export { ModelBenchmarkPanel } from './ModelBenchmarkPanel';
 export * from './hooks/useProviderRecentRequests';
+export * from './hooks/useProviderHealthScheduler';
+export * from './providerHealth';
+export * from './modelBenchmark';
 export * from './types';
 export * from './utils';
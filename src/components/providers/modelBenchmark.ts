@@ -0,0 +1,304 @@
+/**
+ * 跨提供商延迟基准测试：按调用顺序收集同一模型的候选凭据，经 api-call 代理发送小型流式请求
+ * api-call 会缓冲整个响应，读不到首个数据块的时间，因此不测首 token 时间，而是测仅生成 1 个 token 的请求的完整耗时（单 token 延迟）
+ */
+
+import { apiCallApi, getApiCallErrorMessage, modelsApi } from '@/services/api';
+import type { ModelCallOrderCandidate } from '@/hooks/useModelCallOrder';
+import type {
+  Config,
+  ModelBenchmarkKind,
+  ModelBenchmarkSample,
+  ModelBenchmarkSummary,
+  ModelBenchmarkTarget,
+} from '@/types';
+import { hasHeader } from '@/utils/headers';
+import {
+  buildClaudeMessagesEndpoint,
+  buildOpenAIChatCompletionsEndpoint,
+  hasDisableAllModelsRule,
+  normalizeOpenAIBaseUrl,
+} from './utils';
+
+export const MODEL_BENCHMARK_SAMPLE_OPTIONS = [3, 5, 10, 20] as const;
+
+const REQUEST_TIMEOUT_MS = 60_000;
+const BENCHMARK_CONCURRENCY = 2;
+const ONE_TOKEN_MAX_TOKENS = 1;
+const TOTAL_MAX_TOKENS = 64;
+// Responses API 要求 max_output_tokens 至少为 16
+const MIN_CODEX_OUTPUT_TOKENS = 16;
+const MAX_MESSAGE_LENGTH = 200;
+const BENCHMARK_PROMPT = 'Count from 1 to 20, separated by spaces.';
+const DEFAULT_ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_VERTEX_BASE_URL = 'https://aiplatform.googleapis.com';
+const CANDIDATE_ID_PATTERN = /^configured:(openai|claude|codex|gemini|vertex):(\d+)$/;
+
+export interface ModelBenchmarkPlan {
+  targets: ModelBenchmarkTarget[];
+  // OAuth 凭据由后端代为请求，无法单独计时
+  skipped: ModelCallOrderCandidate[];
+}
+
+/**
+ * 将调用顺序候选展开为具体的密钥；停用或缺少必要配置的条目计入跳过列表
+ */
+export function collectModelBenchmarkTargets(
+  config: Config | null | undefined,
+  candidates: ModelCallOrderCandidate[]
+): ModelBenchmarkPlan {
+  const targets: ModelBenchmarkTarget[] = [];
+  const skipped: ModelCallOrderCandidate[] = [];
+
+  candidates.forEach((candidate) => {
+    const matched =
+      candidate.sourceKind === 'configured-api' && candidate.id.match(CANDIDATE_ID_PATTERN);
+    if (!config || !matched) {
+      skipped.push(candidate);
+      return;
+    }
+    const kind = matched[1] as ModelBenchmarkKind;
+    const index = Number.parseInt(matched[2], 10);
+    const base = {
+      candidateId: candidate.id,
+      kind,
+      providerName: candidate.providerName,
+      model: candidate.matchedModelName,
+    };
+    const before = targets.length;
+
+    if (kind === 'openai') {
+      const provider = config.openaiCompatibility?.[index];
+      if (provider && !provider.disabled && provider.baseUrl?.trim()) {
+        (provider.apiKeyEntries ?? []).forEach((entry, keyIndex) => {
+          if (!entry.apiKey.trim()) return;
+          targets.push({
+            ...base,
+            id: `${candidate.id}#${keyIndex}`,
+            apiKey: entry.apiKey,
+            baseUrl: provider.baseUrl,
+            headers: { ...provider.headers, ...entry.headers },
+          });
+        });
+      }
+    } else {
+      const lists = {
+        codex: config.codexApiKeys,
+        claude: config.claudeApiKeys,
+        gemini: config.geminiApiKeys,
+        vertex: config.vertexApiKeys,
+      };
+      const item = lists[kind]?.[index];
+      const usable =
+        item &&
+        item.apiKey.trim() &&
+        !hasDisableAllModelsRule(item.excludedModels) &&
+        (kind !== 'codex' || item.baseUrl?.trim());
+      if (usable) {
+        targets.push({
+          ...base,
+          id: `${candidate.id}#0`,
+          apiKey: item.apiKey,
+          baseUrl: item.baseUrl,
+          headers: item.headers,
+        });
+      }
+    }
+
+    if (targets.length === before) skipped.push(candidate);
+  });
+
+  return { targets, skipped };
+}
+
+type BenchmarkRequest = {
+  url: string;
+  header: Record<string, string>;
+  data: string;
+};
+
+const buildBenchmarkRequest = (
+  target: ModelBenchmarkTarget,
+  maxTokens: number
+): BenchmarkRequest => {
+  const header: Record<string, string> = {
+    ...target.headers,
+    'Content-Type': 'application/json',
+  };
+  const apiKey = target.apiKey.trim();
+  const baseUrl = target.baseUrl?.trim() ?? '';
+  const model = encodeURIComponent(target.model.replace(/^\/?models\//i, ''));
+
+  if (target.kind === 'gemini' || target.kind === 'vertex') {
+    if (!hasHeader(header, 'x-goog-api-key')) header['x-goog-api-key'] = apiKey;
+    const modelsEndpoint =
+      target.kind === 'gemini'
+        ? modelsApi.buildGeminiModelsEndpoint(baseUrl)
+        : `${(baseUrl || DEFAULT_VERTEX_BASE_URL).replace(/\/+$/, '')}/v1/publishers/google/models`;
+    return {
+      url: `${modelsEndpoint}/${model}:streamGenerateContent?alt=sse`,
+      header,
+      data: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: BENCHMARK_PROMPT }] }],
+        generationConfig: { maxOutputTokens: maxTokens },
+      }),
+    };
+  }
+
+  if (target.kind === 'claude') {
+    if (!hasHeader(header, 'x-api-key')) header['x-api-key'] = apiKey;
+    if (!hasHeader(header, 'anthropic-version')) {
+      header['anthropic-version'] = DEFAULT_ANTHROPIC_VERSION;
+    }
+    return {
+      url: buildClaudeMessagesEndpoint(baseUrl),
+      header,
+      data: JSON.stringify({
+        model: target.model,
+        max_tokens: maxTokens,
+        stream: true,
+        messages: [{ role: 'user', content: BENCHMARK_PROMPT }],
+      }),
+    };
+  }
+
+  if (!hasHeader(header, 'authorization')) header.Authorization = `Bearer ${apiKey}`;
+  if (target.kind === 'codex') {
+    const root = normalizeOpenAIBaseUrl(baseUrl);
+    return {
+      url: root.endsWith('/responses') ? root : `${root}/responses`,
+      header,
+      data: JSON.stringify({
+        model: target.model,
+        stream: true,
+        max_output_tokens: Math.max(MIN_CODEX_OUTPUT_TOKENS, maxTokens),
+        input: [{ role: 'user', content: BENCHMARK_PROMPT }],
+      }),
+    };
+  }
+  return {
+    url: buildOpenAIChatCompletionsEndpoint(baseUrl),
+    header,
+    data: JSON.stringify({
+      model: target.model,
+      max_tokens: maxTokens,
+      stream: true,
+      messages: [{ role: 'user', content: BENCHMARK_PROMPT }],
+    }),
+  };
+};
+
+const truncate = (message: string) =>
+  message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message;
+
+type TimedRequest = { ok: boolean; elapsedMs: number; statusCode?: number; message?: string };
+
+const timeBenchmarkRequest = async (
+  target: ModelBenchmarkTarget,
+  maxTokens: number
+): Promise<TimedRequest> => {
+  const request = buildBenchmarkRequest(target, maxTokens);
+  const startedAt = performance.now();
+  try {
+    const result = await apiCallApi.request(
+      { method: 'POST', url: request.url, header: request.header, data: request.data },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+    const ok = result.statusCode >= 200 && result.statusCode < 300;
+    return {
+      ok,
+      elapsedMs: Math.round(performance.now() - startedAt),
+      statusCode: result.statusCode,
+      message: ok ? undefined : truncate(getApiCallErrorMessage(result)),
+    };
+  } catch (err: unknown) {
+    return {
+      ok: false,
+      elapsedMs: Math.round(performance.now() - startedAt),
+      message: truncate(err instanceof Error ? err.message : String(err)),
+    };
+  }
+};
+
+/**
+ * 单次采样：先发 1 个 token 的请求测单 token 延迟，再发少量 token 的请求测完整耗时
+ */
+export async function runModelBenchmarkSample(
+  target: ModelBenchmarkTarget
+): Promise<ModelBenchmarkSample> {
+  const first = await timeBenchmarkRequest(target, ONE_TOKEN_MAX_TOKENS);
+  if (!first.ok) {
+    return { ok: false, statusCode: first.statusCode, message: first.message };
+  }
+  const full = await timeBenchmarkRequest(target, TOTAL_MAX_TOKENS);
+  if (!full.ok) {
+    return {
+      ok: false,
+      oneTokenMs: first.elapsedMs,
+      statusCode: full.statusCode,
+      message: full.message,
+    };
+  }
+  return { ok: true, oneTokenMs: first.elapsedMs, totalMs: full.elapsedMs };
+}
+
+interface RunModelBenchmarkOptions {
+  onSample: (targetId: string, sample: ModelBenchmarkSample) => void;
+  isCancelled: () => boolean;
+}
+
+/**
+ * 同一密钥的采样依次执行，避免自身并发拉高延迟；不同密钥之间少量并行
+ */
+export async function runModelBenchmark(
+  targets: ModelBenchmarkTarget[],
+  samples: number,
+  { onSample, isCancelled }: RunModelBenchmarkOptions
+): Promise<void> {
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < targets.length && !isCancelled()) {
+      const target = targets[cursor];
+      cursor += 1;
+      for (let i = 0; i < samples && !isCancelled(); i += 1) {
+        const sample = await runModelBenchmarkSample(target);
+        if (isCancelled()) return;
+        onSample(target.id, sample);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(BENCHMARK_CONCURRENCY, targets.length) }, () => worker())
+  );
+}
+
+/**
+ * 最近秩法计算百分位
+ */
+export const percentile = (values: number[], p: number): number | null => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+};
+
+export function summarizeModelBenchmark(samples: ModelBenchmarkSample[]): ModelBenchmarkSummary {
+  const succeeded = samples.filter((sample) => sample.ok);
+  const oneToken = succeeded.map((sample) => sample.oneTokenMs ?? 0);
+  const total = succeeded.map((sample) => sample.totalMs ?? 0);
+  const failed = samples.length - succeeded.length;
+  const lastFailure = [...samples].reverse().find((sample) => !sample.ok);
+  return {
+    samples: samples.length,
+    failed,
+    errorRate: samples.length ? failed / samples.length : 0,
+    oneTokenP50: percentile(oneToken, 50),
+    oneTokenP95: percentile(oneToken, 95),
+    totalP50: percentile(total, 50),
+    totalP95: percentile(total, 95),
+    lastError: lastFailure
+      ? lastFailure.message || (lastFailure.statusCode ? `HTTP ${lastFailure.statusCode}` : '')
+      : undefined,
+  };
+}
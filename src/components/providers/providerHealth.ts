@@ -0,0 +1,230 @@
+/**
+ * 上游密钥健康检查：从配置收集待检查的密钥，经 api-call 代理逐个探测
+ */
+
+import { apiCallApi, getApiCallErrorMessage, modelsApi } from '@/services/api';
+import { useProviderHealthStore, useSessionLockStore } from '@/stores';
+import type {
+  Config,
+  ProviderHealthKind,
+  ProviderHealthProbeMethod,
+  ProviderHealthResult,
+  ProviderHealthTarget,
+} from '@/types';
+import { getApiKeyNameFingerprint } from '@/utils/apiKeyNames';
+import { hasHeader } from '@/utils/headers';
+import {
+  buildOpenAIChatCompletionsEndpoint,
+  buildOpenAIModelsEndpoint,
+  hasDisableAllModelsRule,
+} from './utils';
+
+const PROBE_TIMEOUT_MS = 15_000;
+const PROBE_CONCURRENCY = 3;
+const MAX_MESSAGE_LENGTH = 200;
+const DEFAULT_ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_VERTEX_BASE_URL = 'https://aiplatform.googleapis.com';
+const DEFAULT_VERTEX_PROBE_MODEL = 'gemini-2.5-flash';
+
+export const getProviderHealthId = (kind: ProviderHealthKind, apiKey: string, baseUrl?: string) =>
+  `${kind}:${getApiKeyNameFingerprint(`${apiKey.trim()}\n${(baseUrl ?? '').trim().replace(/\/+$/, '')}`)}`;
+
+/**
+ * 收集所有启用中的密钥；同一密钥与 Base URL 只检查一次
+ */
+export function collectProviderHealthTargets(
+  config: Config | null | undefined
+): ProviderHealthTarget[] {
+  if (!config) return [];
+  const targets = new Map<string, ProviderHealthTarget>();
+  const add = (target: Omit<ProviderHealthTarget, 'id'>) => {
+    if (!target.apiKey.trim()) return;
+    const id = getProviderHealthId(target.kind, target.apiKey, target.baseUrl);
+    if (!targets.has(id)) targets.set(id, { ...target, id });
+  };
+
+  const keyed: Array<[Exclude<ProviderHealthKind, 'openai'>, Config['codexApiKeys']]> = [
+    ['gemini', config.geminiApiKeys],
+    ['codex', config.codexApiKeys],
+    ['claude', config.claudeApiKeys],
+    ['vertex', config.vertexApiKeys],
+  ];
+  keyed.forEach(([kind, list]) => {
+    (list ?? []).forEach((item) => {
+      if (hasDisableAllModelsRule(item.excludedModels)) return;
+      // Codex 必须配置 Base URL，未配置的条目后端本身也不会使用
+      if (kind === 'codex' && !item.baseUrl?.trim()) return;
+      add({
+        kind,
+        apiKey: item.apiKey,
+        baseUrl: item.baseUrl,
+        headers: item.headers,
+        models: (item.models ?? []).map((model) => model.name).filter(Boolean),
+      });
+    });
+  });
+
+  (config.openaiCompatibility ?? []).forEach((provider) => {
+    if (provider.disabled || !provider.baseUrl?.trim()) return;
+    (provider.apiKeyEntries ?? []).forEach((entry) => {
+      add({
+        kind: 'openai',
+        providerName: provider.name,
+        apiKey: entry.apiKey,
+        baseUrl: provider.baseUrl,
+        headers: { ...provider.headers, ...entry.headers },
+        testModel: provider.testModel,
+      });
+    });
+  });
+
+  return Array.from(targets.values());
+}
+
+type ProbeRequest = {
+  method: ProviderHealthProbeMethod;
+  httpMethod: 'GET' | 'POST';
+  url: string;
+  header: Record<string, string>;
+  data?: string;
+};
+
+const buildProbeRequest = (target: ProviderHealthTarget): ProbeRequest => {
+  const header: Record<string, string> = { ...target.headers };
+  const apiKey = target.apiKey.trim();
+  const baseUrl = target.baseUrl?.trim() ?? '';
+
+  if (target.kind === 'gemini') {
+    if (!hasHeader(header, 'x-goog-api-key')) header['x-goog-api-key'] = apiKey;
+    const url = new URL(modelsApi.buildGeminiModelsEndpoint(baseUrl));
+    url.searchParams.set('pageSize', '1');
+    return { method: 'models', httpMethod: 'GET', url: url.toString(), header };
+  }
+
+  if (target.kind === 'claude') {
+    if (!hasHeader(header, 'x-api-key')) header['x-api-key'] = apiKey;
+    if (!hasHeader(header, 'anthropic-version')) {
+      header['anthropic-version'] = DEFAULT_ANTHROPIC_VERSION;
+    }
+    return {
+      method: 'models',
+      httpMethod: 'GET',
+      url: modelsApi.buildClaudeModelsEndpoint(baseUrl),
+      header,
+    };
+  }
+
+  if (target.kind === 'vertex') {
+    // Vertex 的 API Key 无法列出模型，改为对已配置的模型做一次 countTokens，不产生生成费用
+    if (!hasHeader(header, 'x-goog-api-key')) header['x-goog-api-key'] = apiKey;
+    header['Content-Type'] = 'application/json';
+    const model = target.models?.[0] || DEFAULT_VERTEX_PROBE_MODEL;
+    const root = (baseUrl || DEFAULT_VERTEX_BASE_URL).replace(/\/+$/, '');
+    return {
+      method: 'test_model',
+      httpMethod: 'POST',
+      url: `${root}/v1/publishers/google/models/${encodeURIComponent(model)}:countTokens`,
+      header,
+      data: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] }),
+    };
+  }
+
+  if (!hasHeader(header, 'authorization')) header.Authorization = `Bearer ${apiKey}`;
+  const testModel = target.testModel?.trim();
+  if (target.kind === 'openai' && testModel) {
+    header['Content-Type'] = 'application/json';
+    return {
+      method: 'test_model',
+      httpMethod: 'POST',
+      url: buildOpenAIChatCompletionsEndpoint(baseUrl),
+      header,
+      data: JSON.stringify({
+        model: testModel,
+        max_tokens: 1,
+        messages: [{ role: 'user', content: 'Hi' }],
+      }),
+    };
+  }
+  return { method: 'models', httpMethod: 'GET', url: buildOpenAIModelsEndpoint(baseUrl), header };
+};
+
+const truncate = (message: string) =>
+  message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message;
+
+/**
+ * 探测单个密钥；耗时包含经管理接口转发的开销
+ */
+export async function probeProviderHealthTarget(
+  target: ProviderHealthTarget
+): Promise<ProviderHealthResult> {
+  const request = buildProbeRequest(target);
+  const startedAt = performance.now();
+  try {
+    const result = await apiCallApi.request(
+      {
+        method: request.httpMethod,
+        url: request.url,
+        header: request.header,
+        data: request.data,
+      },
+      { timeout: PROBE_TIMEOUT_MS }
+    );
+    const latencyMs = Math.round(performance.now() - startedAt);
+    const ok = result.statusCode >= 200 && result.statusCode < 300;
+    return {
+      ok,
+      checkedAt: Date.now(),
+      latencyMs,
+      method: request.method,
+      statusCode: result.statusCode,
+      message: ok ? undefined : truncate(getApiCallErrorMessage(result)),
+    };
+  } catch (err: unknown) {
+    return {
+      ok: false,
+      checkedAt: Date.now(),
+      latencyMs: Math.round(performance.now() - startedAt),
+      method: request.method,
+      message: truncate(err instanceof Error ? err.message : String(err)),
+    };
+  }
+}
+
+/**
+ * 执行一轮健康检查；已有检查在进行时直接返回
+ */
+export async function runProviderHealthChecks(targets: ProviderHealthTarget[]): Promise<void> {
+  const store = useProviderHealthStore.getState();
+  if (store.running) return;
+  const { scope } = store;
+  store.setRunning(true);
+
+  // 切换连接后 apiClient 已指向其他服务，锁定后没有管理密钥，此时的探测结果都不可信
+  const scopeChanged = () => useProviderHealthStore.getState().scope !== scope;
+  const interrupted = () => scopeChanged() || useSessionLockStore.getState().locked;
+
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < targets.length && !interrupted()) {
+      const target = targets[cursor];
+      cursor += 1;
+      const result = await probeProviderHealthTarget(target);
+      if (interrupted()) return;
+      useProviderHealthStore.getState().setResult(target.id, result);
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(PROBE_CONCURRENCY, targets.length) }, () => worker())
+    );
+  } finally {
+    if (!scopeChanged()) {
+      if (interrupted()) {
+        useProviderHealthStore.getState().setRunning(false);
+      } else {
+        useProviderHealthStore.getState().finishRun(targets.map((target) => target.id));
+      }
+    }
+  }
+}
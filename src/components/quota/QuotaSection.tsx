@@ -8,21 +8,20 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { triggerHeaderRefresh } from '@/hooks/useHeaderRefresh';
-import { useNotificationStore, useQuotaStore, useThemeStore } from '@/stores';
+import { useRouteAbortSignal } from '@/hooks/useRouteAbortSignal';
+import { isRequestCanceledError } from '@/services/api';
+import { useNotificationStore, useThemeStore } from '@/stores';
 import type { AuthFileItem, ResolvedTheme } from '@/types';
 import { getStatusFromError } from '@/utils/quota';
 import { QuotaCard } from './QuotaCard';
 import type { QuotaStatusState } from './QuotaCard';
 import { useQuotaLoader } from './useQuotaLoader';
+import { setQuotaCache, type QuotaUpdater } from './quotaCache';
 import type { QuotaConfig } from './quotaConfigs';
 import { useGridColumns } from './useGridColumns';
 import { IconRefreshCw } from '@/components/ui/icons';
 import styles from '@/pages/QuotaPage.module.scss';
 
-type QuotaUpdater<T> = T | ((prev: T) => T);
-
-type QuotaSetter<T> = (updater: QuotaUpdater<T>) => void;
-
 type ViewMode = 'paged' | 'all';
 
 const MAX_ITEMS_PER_PAGE = 25;
@@ -107,9 +106,10 @@ export function QuotaSection<TState extends QuotaStatusState, TData>({
   const { t } = useTranslation();
   const resolvedTheme: ResolvedTheme = useThemeStore((state) => state.resolvedTheme);
   const showNotification = useNotificationStore((state) => state.showNotification);
-  const setQuota = useQuotaStore((state) => state[config.storeSetter]) as QuotaSetter<
-    Record<string, TState>
-  >;
+  const setQuota = useCallback(
+    (updater: QuotaUpdater<Record<string, TState>>) => setQuotaCache(config.type, updater),
+    [config.type]
+  );
 
   /* Removed useRef */
   const [columns, gridRef] = useGridColumns(380); // Min card width 380px matches SCSS
@@ -162,6 +162,7 @@ export function QuotaSection<TState extends QuotaStatusState, TData>({
   }, [effectiveViewMode, columns, filteredFiles.length, setPageSize]);
 
   const { quota, loadQuota } = useQuotaLoader(config);
+  const getRouteSignal = useRouteAbortSignal();
 
   const pendingQuotaRefreshRef = useRef(false);
   const prevFilesLoadingRef = useRef(loading);
@@ -215,13 +216,21 @@ export function QuotaSection<TState extends QuotaStatusState, TData>({
       }));
 
       try {
-        const data = await config.fetchQuota(file, t);
+        const data = await config.fetchQuota(file, t, getRouteSignal());
         setQuota((prev) => ({
           ...prev,
           [file.name]: config.buildSuccessState(data)
         }));
         showNotification(t('auth_files.quota_refresh_success', { name: file.name }), 'success');
       } catch (err: unknown) {
+        if (isRequestCanceledError(err)) {
+          setQuota((prev) => {
+            const nextState = { ...prev };
+            delete nextState[file.name];
+            return nextState;
+          });
+          return;
+        }
         const message = err instanceof Error ? err.message : t('common.unknown_error');
         const status = getStatusFromError(err);
         setQuota((prev) => ({
@@ -234,7 +243,7 @@ export function QuotaSection<TState extends QuotaStatusState, TData>({
         );
       }
     },
-    [config, disabled, quota, setQuota, showNotification, t]
+    [config, disabled, getRouteSignal, quota, setQuota, showNotification, t]
   );
 
   const titleNode = (
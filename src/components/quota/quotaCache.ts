@@ -0,0 +1,30 @@
+/**
+ * Quota results cached in the shared query store, isolated per connection profile.
+ */
+
+import { getQuotaQueryKey } from '@/services/query/queries';
+import { useQueryStore } from '@/stores';
+
+export type QuotaUpdater<T> = T | ((prev: T) => T);
+
+const EMPTY_QUOTA: Record<string, never> = {};
+
+export function useQuotaCache<TState>(type: string): Record<string, TState> {
+  const quota = useQueryStore(
+    (state) => state.entries[getQuotaQueryKey(type)]?.data as Record<string, TState> | undefined
+  );
+  return quota ?? EMPTY_QUOTA;
+}
+
+export function setQuotaCache<TState>(
+  type: string,
+  updater: QuotaUpdater<Record<string, TState>>
+): void {
+  useQueryStore.getState().setQueryData<Record<string, TState>>(getQuotaQueryKey(type), (prev) => {
+    const current = prev ?? EMPTY_QUOTA;
+    return typeof updater === 'function' ? updater(current) : updater;
+  });
+}
+
+// Results fetched under another connection profile must not be written back.
+export const getQuotaCacheScope = () => useQueryStore.getState().scope;
@@ -29,8 +29,12 @@ import type {
   KimiQuotaRow,
   KimiQuotaState,
 } from '@/types';
-import { apiCallApi, authFilesApi, getApiCallErrorMessage } from '@/services/api';
-import { useQuotaStore } from '@/stores';
+import {
+  apiCallApi,
+  authFilesApi,
+  getApiCallErrorMessage,
+  isRequestCanceledError,
+} from '@/services/api';
 import {
   ANTIGRAVITY_QUOTA_URLS,
   ANTIGRAVITY_REQUEST_HEADERS,
@@ -84,10 +88,9 @@ import {
 } from '@/utils/quota';
 import { normalizeAuthIndex } from '@/utils/authIndex';
 import type { QuotaRenderHelpers } from './QuotaCard';
+import { getQuotaCacheScope, setQuotaCache } from './quotaCache';
 import styles from '@/pages/QuotaPage.module.scss';
 
-type QuotaUpdater<T> = T | ((prev: T) => T);
-
 type QuotaType = 'antigravity' | 'claude' | 'codex' | 'gemini-cli' | 'kimi';
 
 const DEFAULT_ANTIGRAVITY_PROJECT_ID = 'bamboo-precept-lgxtn';
@@ -99,29 +102,13 @@ const geminiCliSupplementaryCache = new Map<
   { requestId: number; tierLabel: string | null; tierId: string | null; creditBalance: number | null }
 >();
 
-export interface QuotaStore {
-  antigravityQuota: Record<string, AntigravityQuotaState>;
-  claudeQuota: Record<string, ClaudeQuotaState>;
-  codexQuota: Record<string, CodexQuotaState>;
-  geminiCliQuota: Record<string, GeminiCliQuotaState>;
-  kimiQuota: Record<string, KimiQuotaState>;
-  setAntigravityQuota: (updater: QuotaUpdater<Record<string, AntigravityQuotaState>>) => void;
-  setClaudeQuota: (updater: QuotaUpdater<Record<string, ClaudeQuotaState>>) => void;
-  setCodexQuota: (updater: QuotaUpdater<Record<string, CodexQuotaState>>) => void;
-  setGeminiCliQuota: (updater: QuotaUpdater<Record<string, GeminiCliQuotaState>>) => void;
-  setKimiQuota: (updater: QuotaUpdater<Record<string, KimiQuotaState>>) => void;
-  clearQuotaCache: () => void;
-}
-
 export interface QuotaConfig<TState, TData> {
   type: QuotaType;
   i18nPrefix: string;
   cardIdleMessageKey?: string;
   filterFn: (file: AuthFileItem) => boolean;
   sortFiles?: (files: AuthFileItem[]) => AuthFileItem[];
-  fetchQuota: (file: AuthFileItem, t: TFunction) => Promise<TData>;
-  storeSelector: (state: QuotaStore) => Record<string, TState>;
-  storeSetter: keyof QuotaStore;
+  fetchQuota: (file: AuthFileItem, t: TFunction, signal?: AbortSignal) => Promise<TData>;
   buildLoadingState: () => TState;
   buildSuccessState: (data: TData) => TState;
   buildErrorState: (message: string, status?: number) => TState;
@@ -166,7 +153,8 @@ const resolveAntigravityProjectId = async (file: AuthFileItem): Promise<string>
 
 const fetchAntigravityQuota = async (
   file: AuthFileItem,
-  t: TFunction
+  t: TFunction,
+  signal?: AbortSignal
 ): Promise<AntigravityQuotaGroup[]> => {
   const rawAuthIndex = file['auth_index'] ?? file.authIndex;
   const authIndex = normalizeAuthIndex(rawAuthIndex);
@@ -184,13 +172,16 @@ const fetchAntigravityQuota = async (
 
   for (const url of ANTIGRAVITY_QUOTA_URLS) {
     try {
-      const result = await apiCallApi.request({
-        authIndex,
-        method: 'POST',
-        url,
-        header: { ...ANTIGRAVITY_REQUEST_HEADERS },
-        data: requestBody,
-      });
+      const result = await apiCallApi.requestShared(
+        {
+          authIndex,
+          method: 'POST',
+          url,
+          header: { ...ANTIGRAVITY_REQUEST_HEADERS },
+          data: requestBody,
+        },
+        { signal }
+      );
 
       if (result.statusCode < 200 || result.statusCode >= 300) {
         lastError = getApiCallErrorMessage(result);
@@ -217,6 +208,7 @@ const fetchAntigravityQuota = async (
 
       return groups;
     } catch (err: unknown) {
+      if (isRequestCanceledError(err)) throw err;
       lastError = err instanceof Error ? err.message : t('common.unknown_error');
       const status = getStatusFromError(err);
       if (status) {
@@ -408,7 +400,8 @@ const buildCodexQuotaWindows = (payload: CodexUsagePayload, t: TFunction): Codex
 
 const fetchCodexQuota = async (
   file: AuthFileItem,
-  t: TFunction
+  t: TFunction,
+  signal?: AbortSignal
 ): Promise<{
   planType: string | null;
   windows: CodexQuotaWindow[];
@@ -433,12 +426,15 @@ const fetchCodexQuota = async (
     requestHeader['Chatgpt-Account-Id'] = accountId;
   }
 
-  const result = await apiCallApi.request({
-    authIndex,
-    method: 'GET',
-    url: CODEX_USAGE_URL,
-    header: requestHeader,
-  });
+  const result = await apiCallApi.requestShared(
+    {
+      authIndex,
+      method: 'GET',
+      url: CODEX_USAGE_URL,
+      header: requestHeader,
+    },
+    { signal }
+  );
 
   if (result.statusCode < 200 || result.statusCode >= 300) {
     throw createStatusError(getApiCallErrorMessage(result), result.statusCode);
@@ -526,24 +522,28 @@ const resolveGeminiCliCreditBalance = (
 const fetchGeminiCliCodeAssist = async (
   authIndex: string,
   projectId: string,
-  t: TFunction
+  t: TFunction,
+  signal?: AbortSignal
 ): Promise<{ tierLabel: string | null; tierId: string | null; creditBalance: number | null }> => {
   try {
-    const result = await apiCallApi.request({
-      authIndex,
-      method: 'POST',
-      url: GEMINI_CLI_CODE_ASSIST_URL,
-      header: { ...GEMINI_CLI_REQUEST_HEADERS },
-      data: JSON.stringify({
-        cloudaicompanionProject: projectId,
-        metadata: {
-          ideType: 'IDE_UNSPECIFIED',
-          platform: 'PLATFORM_UNSPECIFIED',
-          pluginType: 'GEMINI',
-          duetProject: projectId,
-        },
-      }),
-    });
+    const result = await apiCallApi.requestShared(
+      {
+        authIndex,
+        method: 'POST',
+        url: GEMINI_CLI_CODE_ASSIST_URL,
+        header: { ...GEMINI_CLI_REQUEST_HEADERS },
+        data: JSON.stringify({
+          cloudaicompanionProject: projectId,
+          metadata: {
+            ideType: 'IDE_UNSPECIFIED',
+            platform: 'PLATFORM_UNSPECIFIED',
+            pluginType: 'GEMINI',
+            duetProject: projectId,
+          },
+        }),
+      },
+      { signal }
+    );
 
     if (result.statusCode < 200 || result.statusCode >= 300) {
       return { tierLabel: null, tierId: null, creditBalance: null };
@@ -580,21 +580,31 @@ const scheduleGeminiCliSupplementaryRefresh = (
   fileName: string,
   authIndex: string,
   projectId: string,
-  t: TFunction
+  t: TFunction,
+  signal?: AbortSignal
 ): number => {
   const requestId = (geminiCliSupplementaryRequestIds.get(fileName) ?? 0) + 1;
   geminiCliSupplementaryRequestIds.set(fileName, requestId);
   geminiCliSupplementaryCache.delete(fileName);
 
+  const connectionScope = getQuotaCacheScope();
+
   void (async () => {
-    const supplementary = await fetchGeminiCliCodeAssist(authIndex, projectId, t);
+    const supplementary = await fetchGeminiCliCodeAssist(authIndex, projectId, t, signal);
+    // 页面已离开，请求被取消
+    if (signal?.aborted) {
+      return;
+    }
     if (geminiCliSupplementaryRequestIds.get(fileName) !== requestId) {
       return;
     }
+    if (getQuotaCacheScope() !== connectionScope) {
+      return;
+    }
 
     geminiCliSupplementaryCache.set(fileName, { requestId, ...supplementary });
 
-    useQuotaStore.getState().setGeminiCliQuota((prev) => {
+    setQuotaCache<GeminiCliQuotaState>('gemini-cli', (prev) => {
       const current = prev[fileName];
       if (!current || current.status !== 'success') {
         return prev;
@@ -625,7 +635,8 @@ const scheduleGeminiCliSupplementaryRefresh = (
 
 const fetchGeminiCliQuota = async (
   file: AuthFileItem,
-  t: TFunction
+  t: TFunction,
+  signal?: AbortSignal
 ): Promise<{
   fileName: string;
   supplementaryRequestId: number;
@@ -645,13 +656,16 @@ const fetchGeminiCliQuota = async (
     throw new Error(t('gemini_cli_quota.missing_project_id'));
   }
 
-  const quotaResponse = await apiCallApi.request({
-    authIndex,
-    method: 'POST',
-    url: GEMINI_CLI_QUOTA_URL,
-    header: { ...GEMINI_CLI_REQUEST_HEADERS },
-    data: JSON.stringify({ project: projectId }),
-  });
+  const quotaResponse = await apiCallApi.requestShared(
+    {
+      authIndex,
+      method: 'POST',
+      url: GEMINI_CLI_QUOTA_URL,
+      header: { ...GEMINI_CLI_REQUEST_HEADERS },
+      data: JSON.stringify({ project: projectId }),
+    },
+    { signal }
+  );
   if (quotaResponse.statusCode < 200 || quotaResponse.statusCode >= 300) {
     throw createStatusError(getApiCallErrorMessage(quotaResponse), quotaResponse.statusCode);
   }
@@ -693,7 +707,8 @@ const fetchGeminiCliQuota = async (
     file.name,
     authIndex,
     projectId,
-    t
+    t,
+    signal
   );
   const supplementarySnapshot = readGeminiCliSupplementarySnapshot(
     file.name,
@@ -1101,7 +1116,8 @@ const resolveClaudePlanType = (profile: ClaudeProfileResponse | null): string |
 
 const fetchClaudeQuota = async (
   file: AuthFileItem,
-  t: TFunction
+  t: TFunction,
+  signal?: AbortSignal
 ): Promise<{ windows: ClaudeQuotaWindow[]; extraUsage?: ClaudeExtraUsage | null; planType?: string | null }> => {
   const rawAuthIndex = file['auth_index'] ?? file.authIndex;
   const authIndex = normalizeAuthIndex(rawAuthIndex);
@@ -1110,18 +1126,24 @@ const fetchClaudeQuota = async (
   }
 
   const [usageResult, profileResult] = await Promise.allSettled([
-    apiCallApi.request({
-      authIndex,
-      method: 'GET',
-      url: CLAUDE_USAGE_URL,
-      header: { ...CLAUDE_REQUEST_HEADERS },
-    }),
-    apiCallApi.request({
-      authIndex,
-      method: 'GET',
-      url: CLAUDE_PROFILE_URL,
-      header: { ...CLAUDE_REQUEST_HEADERS },
-    }),
+    apiCallApi.requestShared(
+      {
+        authIndex,
+        method: 'GET',
+        url: CLAUDE_USAGE_URL,
+        header: { ...CLAUDE_REQUEST_HEADERS },
+      },
+      { signal }
+    ),
+    apiCallApi.requestShared(
+      {
+        authIndex,
+        method: 'GET',
+        url: CLAUDE_PROFILE_URL,
+        header: { ...CLAUDE_REQUEST_HEADERS },
+      },
+      { signal }
+    ),
   ]);
 
   if (usageResult.status === 'rejected') {
@@ -1237,8 +1259,6 @@ export const CLAUDE_CONFIG: QuotaConfig<
   cardIdleMessageKey: 'quota_management.card_idle_hint',
   filterFn: (file) => isClaudeFile(file) && !isDisabledAuthFile(file),
   fetchQuota: fetchClaudeQuota,
-  storeSelector: (state) => state.claudeQuota,
-  storeSetter: 'setClaudeQuota',
   buildLoadingState: () => ({ status: 'loading', windows: [] }),
   buildSuccessState: (data) => ({
     status: 'success',
@@ -1265,8 +1285,6 @@ export const ANTIGRAVITY_CONFIG: QuotaConfig<AntigravityQuotaState, AntigravityQ
   cardIdleMessageKey: 'quota_management.card_idle_hint',
   filterFn: (file) => isAntigravityFile(file) && !isDisabledAuthFile(file),
   fetchQuota: fetchAntigravityQuota,
-  storeSelector: (state) => state.antigravityQuota,
-  storeSetter: 'setAntigravityQuota',
   buildLoadingState: () => ({ status: 'loading', groups: [] }),
   buildSuccessState: (groups) => ({ status: 'success', groups }),
   buildErrorState: (message, status) => ({
@@ -1297,8 +1315,6 @@ export const CODEX_CONFIG: QuotaConfig<
   filterFn: (file) => isCodexFile(file) && !isDisabledAuthFile(file),
   sortFiles: sortCodexQuotaFiles,
   fetchQuota: fetchCodexQuota,
-  storeSelector: (state) => state.codexQuota,
-  storeSetter: 'setCodexQuota',
   buildLoadingState: () => ({ status: 'loading', windows: [] }),
   buildSuccessState: (data) => ({
     status: 'success',
@@ -1337,8 +1353,6 @@ export const GEMINI_CLI_CONFIG: QuotaConfig<
   filterFn: (file) =>
     isGeminiCliFile(file) && !isRuntimeOnlyAuthFile(file) && !isDisabledAuthFile(file),
   fetchQuota: fetchGeminiCliQuota,
-  storeSelector: (state) => state.geminiCliQuota,
-  storeSetter: 'setGeminiCliQuota',
   buildLoadingState: () => ({ status: 'loading', buckets: [], tierLabel: null, tierId: null, creditBalance: null }),
   buildSuccessState: (data) => {
     const supplementarySnapshot = readGeminiCliSupplementarySnapshot(
@@ -1369,7 +1383,8 @@ export const GEMINI_CLI_CONFIG: QuotaConfig<
 
 const fetchKimiQuota = async (
   file: AuthFileItem,
-  t: TFunction
+  t: TFunction,
+  signal?: AbortSignal
 ): Promise<KimiQuotaRow[]> => {
   const rawAuthIndex = file['auth_index'] ?? file.authIndex;
   const authIndex = normalizeAuthIndex(rawAuthIndex);
@@ -1377,12 +1392,15 @@ const fetchKimiQuota = async (
     throw new Error(t('kimi_quota.missing_auth_index'));
   }
 
-  const result = await apiCallApi.request({
-    authIndex,
-    method: 'GET',
-    url: KIMI_USAGE_URL,
-    header: { ...KIMI_REQUEST_HEADERS },
-  });
+  const result = await apiCallApi.requestShared(
+    {
+      authIndex,
+      method: 'GET',
+      url: KIMI_USAGE_URL,
+      header: { ...KIMI_REQUEST_HEADERS },
+    },
+    { signal }
+  );
 
   if (result.statusCode < 200 || result.statusCode >= 300) {
     throw createStatusError(getApiCallErrorMessage(result), result.statusCode);
@@ -1458,8 +1476,6 @@ export const KIMI_CONFIG: QuotaConfig<KimiQuotaState, KimiQuotaRow[]> = {
   cardIdleMessageKey: 'quota_management.card_idle_hint',
   filterFn: (file) => isKimiFile(file) && !isDisabledAuthFile(file),
   fetchQuota: fetchKimiQuota,
-  storeSelector: (state) => state.kimiQuota,
-  storeSetter: 'setKimiQuota',
   buildLoadingState: () => ({ status: 'loading', rows: [] }),
   buildSuccessState: (rows) => ({ status: 'success', rows }),
   buildErrorState: (message, status) => ({
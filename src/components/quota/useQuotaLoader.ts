@@ -5,19 +5,18 @@
 import { useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { AuthFileItem } from '@/types';
-import { useQuotaStore } from '@/stores';
+import { useRouteAbortSignal } from '@/hooks/useRouteAbortSignal';
+import { isRequestCanceledError } from '@/services/api';
+import { useSessionLockStore } from '@/stores';
 import { getStatusFromError } from '@/utils/quota';
 import type { QuotaConfig } from './quotaConfigs';
+import { getQuotaCacheScope, setQuotaCache, useQuotaCache, type QuotaUpdater } from './quotaCache';
 
 type QuotaScope = 'page' | 'all';
 
-type QuotaUpdater<T> = T | ((prev: T) => T);
-
-type QuotaSetter<T> = (updater: QuotaUpdater<T>) => void;
-
 interface LoadQuotaResult<TData> {
   name: string;
-  status: 'success' | 'error';
+  status: 'success' | 'error' | 'canceled';
   data?: TData;
   error?: string;
   errorStatus?: number;
@@ -25,13 +24,15 @@ interface LoadQuotaResult<TData> {
 
 export function useQuotaLoader<TState, TData>(config: QuotaConfig<TState, TData>) {
   const { t } = useTranslation();
-  const quota = useQuotaStore(config.storeSelector);
-  const setQuota = useQuotaStore((state) => state[config.storeSetter]) as QuotaSetter<
-    Record<string, TState>
-  >;
+  const quota = useQuotaCache<TState>(config.type);
+  const setQuota = useCallback(
+    (updater: QuotaUpdater<Record<string, TState>>) => setQuotaCache(config.type, updater),
+    [config.type]
+  );
 
   const loadingRef = useRef(false);
   const requestIdRef = useRef(0);
+  const getRouteSignal = useRouteAbortSignal();
 
   const loadQuota = useCallback(
     async (
@@ -40,8 +41,12 @@ export function useQuotaLoader<TState, TData>(config: QuotaConfig<TState, TData>
       setLoading: (loading: boolean, scope?: QuotaScope | null) => void
     ) => {
       if (loadingRef.current) return;
+      // 会话锁定期间 apiClient 无密钥，暂停加载直到解锁
+      if (useSessionLockStore.getState().locked) return;
       loadingRef.current = true;
       const requestId = ++requestIdRef.current;
+      const connectionScope = getQuotaCacheScope();
+      const signal = getRouteSignal();
       setLoading(true, scope);
 
       try {
@@ -58,9 +63,10 @@ export function useQuotaLoader<TState, TData>(config: QuotaConfig<TState, TData>
         const results = await Promise.all(
           targets.map(async (file): Promise<LoadQuotaResult<TData>> => {
             try {
-              const data = await config.fetchQuota(file, t);
+              const data = await config.fetchQuota(file, t, signal);
               return { name: file.name, status: 'success', data };
             } catch (err: unknown) {
+              if (isRequestCanceledError(err)) return { name: file.name, status: 'canceled' };
               const message = err instanceof Error ? err.message : t('common.unknown_error');
               const errorStatus = getStatusFromError(err);
               return { name: file.name, status: 'error', error: message, errorStatus };
@@ -68,14 +74,27 @@ export function useQuotaLoader<TState, TData>(config: QuotaConfig<TState, TData>
           })
         );
 
+        // 离开页面后取消的条目退回未加载状态，避免缓存中残留 loading
+        if (signal.aborted) {
+          setQuota((prev) => {
+            const nextState = { ...prev };
+            results.forEach((result) => {
+              if (result.status === 'canceled') delete nextState[result.name];
+            });
+            return nextState;
+          });
+          return;
+        }
         if (requestId !== requestIdRef.current) return;
+        // Results belong to a connection profile that is no longer active.
+        if (getQuotaCacheScope() !== connectionScope) return;
 
         setQuota((prev) => {
           const nextState = { ...prev };
           results.forEach((result) => {
             if (result.status === 'success') {
               nextState[result.name] = config.buildSuccessState(result.data as TData);
-            } else {
+            } else if (result.status === 'error') {
               nextState[result.name] = config.buildErrorState(
                 result.error || t('common.unknown_error'),
                 result.errorStatus
@@ -91,7 +110,7 @@ export function useQuotaLoader<TState, TData>(config: QuotaConfig<TState, TData>
         }
       }
     },
-    [config, setQuota, t]
+    [config, getRouteSignal, setQuota, t]
   );
 
   return { quota, loadQuota };
@@ -44,6 +44,7 @@ export type AuthFileCardProps = {
   selected: boolean;
   resolvedTheme: ResolvedTheme;
   disableControls: boolean;
+  readOnly?: boolean;
   deleting: string | null;
   statusUpdating: Record<string, boolean>;
   quotaFilterType: QuotaProviderType | null;
@@ -70,6 +71,7 @@ export function AuthFileCard(props: AuthFileCardProps) {
     selected,
     resolvedTheme,
     disableControls,
+    readOnly = false,
     deleting,
     statusUpdating,
     quotaFilterType,
@@ -305,7 +307,7 @@ export function AuthFileCard(props: AuthFileCardProps) {
                     onClick={() => onDelete(file.name)}
                     className={styles.iconButton}
                     title={t('auth_files.delete_button')}
-                    disabled={disableControls || deleting === file.name}
+                    disabled={disableControls || readOnly || deleting === file.name}
                   >
                     {deleting === file.name ? (
                       <LoadingSpinner size={14} />
@@ -324,7 +326,7 @@ export function AuthFileCard(props: AuthFileCardProps) {
                 <ToggleSwitch
                   ariaLabel={t('auth_files.status_toggle_label')}
                   checked={!file.disabled}
-                  disabled={disableControls || statusUpdating[file.name] === true}
+                  disabled={disableControls || readOnly || statusUpdating[file.name] === true}
                   onChange={(value) => onToggleStatus(file, value)}
                 />
               </div>
@@ -8,7 +8,10 @@ import {
   GEMINI_CLI_CONFIG,
   KIMI_CONFIG
 } from '@/components/quota';
-import { useNotificationStore, useQuotaStore } from '@/stores';
+import { getQuotaCacheScope, setQuotaCache, useQuotaCache } from '@/components/quota/quotaCache';
+import { useRouteAbortSignal } from '@/hooks/useRouteAbortSignal';
+import { isRequestCanceledError } from '@/services/api';
+import { useNotificationStore } from '@/stores';
 import type { AuthFileItem } from '@/types';
 import { getStatusFromError } from '@/utils/quota';
 import {
@@ -39,22 +42,16 @@ export function AuthFileQuotaSection(props: AuthFileQuotaSectionProps) {
   const { file, quotaType, disableControls } = props;
   const { t } = useTranslation();
   const showNotification = useNotificationStore((state) => state.showNotification);
+  const getRouteSignal = useRouteAbortSignal();
 
-  const quota = useQuotaStore((state) => {
-    if (quotaType === 'antigravity') return state.antigravityQuota[file.name] as QuotaState;
-    if (quotaType === 'claude') return state.claudeQuota[file.name] as QuotaState;
-    if (quotaType === 'codex') return state.codexQuota[file.name] as QuotaState;
-    if (quotaType === 'kimi') return state.kimiQuota[file.name] as QuotaState;
-    return state.geminiCliQuota[file.name] as QuotaState;
-  });
+  const quotaKind = getQuotaConfig(quotaType).type;
+  const quota = useQuotaCache<QuotaState>(quotaKind)[file.name];
 
-  const updateQuotaState = useQuotaStore((state) => {
-    if (quotaType === 'antigravity') return state.setAntigravityQuota as unknown as (updater: unknown) => void;
-    if (quotaType === 'claude') return state.setClaudeQuota as unknown as (updater: unknown) => void;
-    if (quotaType === 'codex') return state.setCodexQuota as unknown as (updater: unknown) => void;
-    if (quotaType === 'kimi') return state.setKimiQuota as unknown as (updater: unknown) => void;
-    return state.setGeminiCliQuota as unknown as (updater: unknown) => void;
-  });
+  const updateQuotaState = useCallback(
+    (updater: (prev: Record<string, unknown>) => Record<string, unknown>) =>
+      setQuotaCache(quotaKind, updater),
+    [quotaKind]
+  );
 
   const refreshQuotaForFile = useCallback(async () => {
     if (disableControls) return;
@@ -64,7 +61,7 @@ export function AuthFileQuotaSection(props: AuthFileQuotaSectionProps) {
 
     const config = getQuotaConfig(quotaType) as unknown as {
       i18nPrefix: string;
-      fetchQuota: (file: AuthFileItem, t: TFunction) => Promise<unknown>;
+      fetchQuota: (file: AuthFileItem, t: TFunction, signal?: AbortSignal) => Promise<unknown>;
       buildLoadingState: () => unknown;
       buildSuccessState: (data: unknown) => unknown;
       buildErrorState: (message: string, status?: number) => unknown;
@@ -75,15 +72,26 @@ export function AuthFileQuotaSection(props: AuthFileQuotaSectionProps) {
       ...prev,
       [file.name]: config.buildLoadingState()
     }));
+    const connectionScope = getQuotaCacheScope();
 
     try {
-      const data = await config.fetchQuota(file, t);
+      const data = await config.fetchQuota(file, t, getRouteSignal());
+      if (getQuotaCacheScope() !== connectionScope) return;
       updateQuotaState((prev: Record<string, unknown>) => ({
         ...prev,
         [file.name]: config.buildSuccessState(data)
       }));
       showNotification(t('auth_files.quota_refresh_success', { name: file.name }), 'success');
     } catch (err: unknown) {
+      if (getQuotaCacheScope() !== connectionScope) return;
+      if (isRequestCanceledError(err)) {
+        updateQuotaState((prev: Record<string, unknown>) => {
+          const next = { ...prev };
+          delete next[file.name];
+          return next;
+        });
+        return;
+      }
       const message = err instanceof Error ? err.message : t('common.unknown_error');
       const status = getStatusFromError(err);
       updateQuotaState((prev: Record<string, unknown>) => ({
@@ -92,7 +100,16 @@ export function AuthFileQuotaSection(props: AuthFileQuotaSectionProps) {
       }));
       showNotification(t('auth_files.quota_refresh_failed', { name: file.name, message }), 'error');
     }
-  }, [disableControls, file, quota?.status, quotaType, showNotification, t, updateQuotaState]);
+  }, [
+    disableControls,
+    file,
+    getRouteSignal,
+    quota?.status,
+    quotaType,
+    showNotification,
+    t,
+    updateQuotaState
+  ]);
 
   const config = getQuotaConfig(quotaType) as unknown as {
     i18nPrefix: string;
@@ -1,7 +1,9 @@
 import { useCallback, useEffect, useRef, useState, type ChangeEvent, type RefObject } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useQuery } from '@/hooks/useQuery';
 import { authFilesApi } from '@/services/api';
 import { apiClient } from '@/services/api/client';
+import { authFilesQuery } from '@/services/query';
 import { useNotificationStore } from '@/stores';
 import type { AuthFileItem } from '@/types';
 import { formatFileSize } from '@/utils/format';
@@ -50,13 +52,20 @@ export type UseAuthFilesDataResult = {
   batchDelete: (names: string[]) => void;
 };
 
+const EMPTY_FILES: AuthFileItem[] = [];
+
 export function useAuthFilesData(): UseAuthFilesDataResult {
   const { t } = useTranslation();
   const { showNotification, showConfirmation } = useNotificationStore();
 
-  const [files, setFiles] = useState<AuthFileItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
+  // 列表来自共享查询缓存，仪表盘、额度页会看到同样的结果
+  const { data, loading, error, refetch, setData } = useQuery(authFilesQuery);
+  const files = data ?? EMPTY_FILES;
+  const setFiles = useCallback(
+    (updater: (prev: AuthFileItem[]) => AuthFileItem[]) =>
+      setData((prev) => updater(prev ?? EMPTY_FILES)),
+    [setData]
+  );
   const [uploading, setUploading] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [deletingAll, setDeletingAll] = useState(false);
@@ -139,7 +148,7 @@ export function useAuthFilesData(): UseAuthFilesDataResult {
       });
       return changed ? next : prev;
     });
-  }, []);
+  }, [setFiles]);
 
   useEffect(() => {
     if (selectedFiles.size === 0) return;
@@ -159,18 +168,12 @@ export function useAuthFilesData(): UseAuthFilesDataResult {
   }, [files, selectedFiles.size]);
 
   const loadFiles = useCallback(async () => {
-    setLoading(true);
-    setError('');
     try {
-      const data = await authFilesApi.list();
-      setFiles(data?.files || []);
-    } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : t('notification.refresh_failed');
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
+      await refetch();
+    } catch {
+      // 错误已记录在查询缓存中，由 error 展示
     }
-  }, [t]);
+  }, [refetch]);
 
   const handleUploadClick = useCallback(() => {
     fileInputRef.current?.click();
@@ -400,7 +403,7 @@ export function useAuthFilesData(): UseAuthFilesDataResult {
         },
       });
     },
-    [applyDeletedFiles, deselectAll, files, showConfirmation, showNotification, t]
+    [applyDeletedFiles, deselectAll, files, setFiles, showConfirmation, showNotification, t]
   );
 
   const handleDownload = useCallback(
@@ -456,7 +459,7 @@ export function useAuthFilesData(): UseAuthFilesDataResult {
         });
       }
     },
-    [showNotification, t]
+    [setFiles, showNotification, t]
   );
 
   const batchSetStatus = useCallback(
@@ -548,7 +551,7 @@ export function useAuthFilesData(): UseAuthFilesDataResult {
         });
       }
     },
-    [deselectAll, files, showNotification, statusUpdating, t]
+    [deselectAll, files, setFiles, showNotification, statusUpdating, t]
   );
 
   const batchDownload = useCallback(
@@ -633,7 +636,7 @@ export function useAuthFilesData(): UseAuthFilesDataResult {
     selectedFiles,
     selectionCount,
     loading,
-    error,
+    error: error ?? '',
     uploading,
     deleting,
     deletingAll,
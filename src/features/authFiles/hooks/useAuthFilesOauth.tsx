@@ -1,7 +1,7 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Trans, useTranslation } from 'react-i18next';
-import { authFilesApi } from '@/services/api';
-import { useNotificationStore } from '@/stores';
+import { authFilesApi, isUnsupportedEndpointError } from '@/services/api';
+import { useCapabilityStore, useNotificationStore } from '@/stores';
 import type { AuthFileItem, OAuthModelAliasEntry } from '@/types';
 import type { AuthFileModelItem } from '@/features/authFiles/constants';
 import { normalizeProviderKey } from '@/features/authFiles/constants';
@@ -50,9 +50,6 @@ export function useAuthFilesOauth(options: UseAuthFilesOauthOptions): UseAuthFil
     {}
   );
 
-  const excludedUnsupportedRef = useRef(false);
-  const mappingsUnsupportedRef = useRef(false);
-
   const providerList = useMemo(() => {
     const providers = new Set<string>();
 
@@ -116,54 +113,51 @@ export function useAuthFilesOauth(options: UseAuthFilesOauthOptions): UseAuthFil
   }, [providerList, viewMode]);
 
   const loadExcluded = useCallback(async () => {
+    // 已确认后端不支持时不再请求，直接展示升级提示
+    if (useCapabilityStore.getState().isUnsupported('oauthExcludedModels')) {
+      setExcluded({});
+      setExcludedError('unsupported');
+      return;
+    }
+
     try {
       const res = await authFilesApi.getOauthExcludedModels();
-      excludedUnsupportedRef.current = false;
+      useCapabilityStore.getState().markSupported('oauthExcludedModels');
       setExcluded(res || {});
       setExcludedError(null);
     } catch (err: unknown) {
-      const status =
-        typeof err === 'object' && err !== null && 'status' in err
-          ? (err as { status?: unknown }).status
-          : undefined;
-
-      if (status === 404) {
+      if (isUnsupportedEndpointError(err)) {
+        useCapabilityStore.getState().markUnsupported('oauthExcludedModels');
         setExcluded({});
         setExcludedError('unsupported');
-        if (!excludedUnsupportedRef.current) {
-          excludedUnsupportedRef.current = true;
-          showNotification(t('oauth_excluded.upgrade_required'), 'warning');
-        }
         return;
       }
       // 静默失败
     }
-  }, [showNotification, t]);
+  }, []);
 
   const loadModelAlias = useCallback(async () => {
+    if (useCapabilityStore.getState().isUnsupported('oauthModelAlias')) {
+      setModelAlias({});
+      setModelAliasError('unsupported');
+      return;
+    }
+
     try {
       const res = await authFilesApi.getOauthModelAlias();
-      mappingsUnsupportedRef.current = false;
+      useCapabilityStore.getState().markSupported('oauthModelAlias');
       setModelAlias(res || {});
       setModelAliasError(null);
     } catch (err: unknown) {
-      const status =
-        typeof err === 'object' && err !== null && 'status' in err
-          ? (err as { status?: unknown }).status
-          : undefined;
-
-      if (status === 404) {
+      if (isUnsupportedEndpointError(err)) {
+        useCapabilityStore.getState().markUnsupported('oauthModelAlias');
         setModelAlias({});
         setModelAliasError('unsupported');
-        if (!mappingsUnsupportedRef.current) {
-          mappingsUnsupportedRef.current = true;
-          showNotification(t('oauth_model_alias.upgrade_required'), 'warning');
-        }
         return;
       }
       // 静默失败
     }
-  }, [showNotification, t]);
+  }, []);
 
   const deleteExcluded = useCallback(
     (provider: string) => {
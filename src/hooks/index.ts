@@ -6,6 +6,9 @@ export { useApi } from './useApi';
 export { useDebounce } from './useDebounce';
 export { useLocalStorage } from './useLocalStorage';
 export { useInterval } from './useInterval';
+export { useIdleLock } from './useIdleLock';
 export { useMediaQuery } from './useMediaQuery';
 export { usePagination } from './usePagination';
 export { useHeaderRefresh } from './useHeaderRefresh';
+export { useRouteAbortSignal } from './useRouteAbortSignal';
+export { useQuery } from './useQuery';
@@ -4,6 +4,8 @@
 
 import { useState, useCallback } from 'react';
 import { useNotificationStore } from '@/stores';
+import { isReadOnlyModeError } from '@/services/api/client';
+import i18n from '@/i18n';
 
 interface UseApiOptions<T> {
   onSuccess?: (data: T) => void;
@@ -44,7 +46,10 @@ export function useApi<T = unknown, Args extends unknown[] = unknown[]>(
         setError(errorObj);
 
         if (options.showErrorNotification !== false) {
-          showNotification(errorObj.message, 'error');
+          showNotification(
+            isReadOnlyModeError(errorObj) ? i18n.t('read_only.blocked') : errorObj.message,
+            'error'
+          );
         }
 
         options.onError?.(errorObj);
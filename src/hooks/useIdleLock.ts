@@ -0,0 +1,52 @@
+/**
+ * 空闲自动锁定 Hook
+ * 在设定时间内无任何用户操作时锁定会话
+ */
+
+import { useEffect } from 'react';
+import { useSessionLockStore } from '@/stores';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+const IDLE_CHECK_INTERVAL_MS = 15_000;
+
+export function useIdleLock(enabled = true) {
+  const idleTimeoutMinutes = useSessionLockStore((state) => state.idleTimeoutMinutes);
+  const locked = useSessionLockStore((state) => state.locked);
+  const lock = useSessionLockStore((state) => state.lock);
+
+  useEffect(() => {
+    if (!enabled || locked || idleTimeoutMinutes <= 0) return;
+
+    const timeoutMs = idleTimeoutMinutes * 60_000;
+    let lastActivity = Date.now();
+
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+
+    // 页面从后台切回时立即检查，避免休眠期间计时器被节流而错过锁定
+    const checkIdle = () => {
+      if (Date.now() - lastActivity >= timeoutMs) {
+        lock();
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        checkIdle();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, markActive, { passive: true })
+    );
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const id = window.setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.clearInterval(id);
+    };
+  }, [enabled, idleTimeoutMinutes, lock, locked]);
+}
@@ -1,24 +1,28 @@
 /**
  * 定时器 Hook
+ * 会话锁定期间自动暂停，解锁后恢复
  */
 
 import { useEffect, useRef } from 'react';
+import { useSessionLockStore } from '@/stores';
 
 export function useInterval(callback: () => void, delay: number | null) {
   const savedCallback = useRef<(() => void) | null>(null);
+  const locked = useSessionLockStore((state) => state.locked);
+  const activeDelay = locked ? null : delay;
 
   useEffect(() => {
     savedCallback.current = callback;
   }, [callback]);
 
   useEffect(() => {
-    if (delay === null) return;
+    if (activeDelay === null) return;
 
     const tick = () => {
       savedCallback.current?.();
     };
 
-    const id = setInterval(tick, delay);
+    const id = setInterval(tick, activeDelay);
     return () => clearInterval(id);
-  }, [delay]);
+  }, [activeDelay]);
 }
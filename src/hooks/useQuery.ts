@@ -0,0 +1,60 @@
+/**
+ * 查询缓存 Hook
+ * 挂载时先返回缓存数据，过期则后台刷新；页面使用期间随写请求失效与窗口焦点自动刷新
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useQueryStore, useSessionLockStore } from '@/stores';
+import type { QueryDefinition, QueryEntry } from '@/types';
+import { useRouteAbortSignal } from './useRouteAbortSignal';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+}
+
+type QueryUpdater<T> = T | ((prev: T | undefined) => T);
+
+/**
+ * definition 需保持引用稳定（模块常量或 useMemo），否则每次渲染都会重新订阅
+ */
+export function useQuery<T>(definition: QueryDefinition<T>, options: UseQueryOptions = {}) {
+  const locked = useSessionLockStore((state) => state.locked);
+  // 会话锁定期间 apiClient 无密钥，暂停加载直到解锁
+  const enabled = (options.enabled ?? true) && !locked;
+  const entry = useQueryStore((state) => state.entries[definition.key]) as
+    | QueryEntry<T>
+    | undefined;
+  const getRouteSignal = useRouteAbortSignal();
+
+  useEffect(() => {
+    if (!enabled) return;
+    const { observeQuery, ensureQuery } = useQueryStore.getState();
+    const stopObserving = observeQuery(definition);
+    ensureQuery(definition, { signal: getRouteSignal() }).catch(() => {});
+    return stopObserving;
+  }, [definition, enabled, getRouteSignal]);
+
+  const refetch = useCallback(
+    () =>
+      useQueryStore.getState().fetchQuery(definition, { force: true, signal: getRouteSignal() }),
+    [definition, getRouteSignal]
+  );
+
+  const setData = useCallback(
+    (updater: QueryUpdater<T>) => useQueryStore.getState().setQueryData<T>(definition.key, updater),
+    [definition.key]
+  );
+
+  const hasData = Boolean(entry && entry.updatedAt > 0);
+
+  return {
+    data: entry?.data,
+    error: entry?.error ?? null,
+    // 首次加载（尚无缓存数据）；后台刷新时 loading 为 false，fetching 为 true
+    loading: enabled && !hasData && !entry?.error,
+    fetching: entry?.fetching ?? false,
+    updatedAt: entry?.updatedAt ?? 0,
+    refetch,
+    setData,
+  };
+}
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * 与页面生命周期绑定的 AbortSignal：页面卸载（离开路由）时取消其所有未完成的请求。
+ * 返回获取函数而非 signal 本身，StrictMode 重新挂载后会得到新的 signal。
+ */
+export const useRouteAbortSignal = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    },
+    []
+  );
+
+  return useCallback(() => {
+    if (!controllerRef.current) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+};
@@ -12,6 +12,16 @@ import type {
 } from '@/types/visualConfig';
 import { DEFAULT_VISUAL_VALUES, makeClientId } from '@/types/visualConfig';
 import { getStoredApiKeyName } from '@/utils/apiKeyNames';
+import {
+  deleteIfMapEmpty,
+  docHas,
+  ensureMapInDoc,
+  setBooleanInDoc,
+  setIntFromStringInDoc,
+  setStringInDoc,
+  type YamlDocument,
+  type YamlPath,
+} from '@/utils/yamlDoc';
 
 function asRecord(value: unknown): Record<string, unknown> | null {
   if (value === null || typeof value !== 'object' || Array.isArray(value)) return null;
@@ -155,9 +165,6 @@ function resolveApiKeysStorage(parsed: Record<string, unknown>): {
   };
 }
 
-type YamlDocument = ReturnType<typeof parseDocument>;
-type YamlPath = string[];
-
 type ApiKeysStorageMode = 'legacy' | 'auth-provider';
 type ApiKeysEntryMode = 'string' | 'object';
 
@@ -176,31 +183,6 @@ const DEFAULT_API_KEYS_STORAGE_METADATA: ApiKeysStorageMetadata = {
   syncLegacy: false,
 };
 
-function docHas(doc: YamlDocument, path: YamlPath): boolean {
-  return doc.hasIn(path);
-}
-
-function ensureMapInDoc(doc: YamlDocument, path: YamlPath): void {
-  const existing = doc.getIn(path, true);
-  if (isMap(existing)) return;
-  // Use a YAML node here; plain objects are not treated as collections by subsequent `setIn`.
-  doc.setIn(path, doc.createNode({}));
-}
-
-function deleteIfMapEmpty(doc: YamlDocument, path: YamlPath): void {
-  const value = doc.getIn(path, true);
-  if (!isMap(value)) return;
-  if (value.items.length === 0) doc.deleteIn(path);
-}
-
-function setBooleanInDoc(doc: YamlDocument, path: YamlPath, value: boolean): void {
-  if (value) {
-    doc.setIn(path, true);
-    return;
-  }
-  if (docHas(doc, path)) doc.setIn(path, false);
-}
-
 function shouldWriteManagedField(
   doc: YamlDocument,
   path: YamlPath,
@@ -213,39 +195,6 @@ function shouldWriteManagedField(
   return docHas(doc, path) || dirtyFields.has(dirtyKey);
 }
 
-function setStringInDoc(doc: YamlDocument, path: YamlPath, value: unknown): void {
-  const safe = typeof value === 'string' ? value : '';
-  const trimmed = safe.trim();
-  if (trimmed !== '') {
-    doc.setIn(path, safe);
-    return;
-  }
-  // Preserve existing empty-string keys to avoid dropping template blocks/comments.
-  // Only keep the key when it already exists in the YAML.
-  if (docHas(doc, path)) {
-    doc.setIn(path, '');
-  }
-}
-
-function setIntFromStringInDoc(doc: YamlDocument, path: YamlPath, value: unknown): void {
-  const safe = typeof value === 'string' ? value : '';
-  const trimmed = safe.trim();
-  if (trimmed === '') {
-    if (docHas(doc, path)) doc.deleteIn(path);
-    return;
-  }
-
-  if (!/^-?\d+$/.test(trimmed)) {
-    return;
-  }
-
-  const parsed = Number(trimmed);
-  if (Number.isFinite(parsed)) {
-    doc.setIn(path, parsed);
-    return;
-  }
-}
-
 function getNonNegativeIntegerError(value: string): 'non_negative_integer' | undefined {
   const trimmed = value.trim();
   if (!trimmed) return undefined;
@@ -615,17 +564,27 @@ function serializeRawPayloadRulesForYaml(rules: PayloadRule[]): Array<Record<str
     .filter((rule) => rule.models.length > 0);
 }
 
+// 撤销栈上限，以及连续编辑同一组字段时合并为一步的时间窗口
+const VISUAL_HISTORY_LIMIT = 100;
+const VISUAL_HISTORY_MERGE_WINDOW_MS = 1000;
+
 type VisualConfigState = {
   visualValues: VisualConfigValues;
   baselineValues: VisualConfigValues;
   dirtyFields: Set<string>;
   visualParseError: string | null;
+  past: VisualConfigValues[];
+  future: VisualConfigValues[];
+  // 上一次编辑的字段与时间，用于把连续输入合并为一步撤销
+  lastEdit: { keys: string; at: number } | null;
 };
 
 type VisualConfigAction =
   | {
       type: 'load_success';
       values: VisualConfigValues;
+      preserveHistory?: boolean;
+      keepBaseline?: boolean;
     }
   | {
       type: 'load_error';
@@ -634,8 +593,22 @@ type VisualConfigAction =
   | {
       type: 'set_values';
       values: Partial<VisualConfigValues>;
+      at: number;
+    }
+  | {
+      type: 'undo';
+    }
+  | {
+      type: 'redo';
     };
 
+type LoadOptions = {
+  // 从源码模式切回时保留撤销历史
+  preserveHistory?: boolean;
+  // 只替换编辑值并沿用上一次载入的基线，与基线不同的字段记为未保存的改动
+  keepBaseline?: boolean;
+};
+
 function createInitialVisualConfigState(): VisualConfigState {
   const initialValues = deepClone(DEFAULT_VISUAL_VALUES);
   return {
@@ -643,6 +616,29 @@ function createInitialVisualConfigState(): VisualConfigState {
     baselineValues: deepClone(initialValues),
     dirtyFields: new Set(),
     visualParseError: null,
+    past: [],
+    future: [],
+    lastEdit: null,
+  };
+}
+
+const pushVisualHistory = (stack: VisualConfigValues[], values: VisualConfigValues) =>
+  [...stack, values].slice(-VISUAL_HISTORY_LIMIT);
+
+// 切换到撤销栈中的某个状态，按全部字段重新计算脏标记
+function restoreVisualValues(
+  state: VisualConfigState,
+  values: VisualConfigValues,
+  past: VisualConfigValues[],
+  future: VisualConfigValues[]
+): VisualConfigState {
+  return {
+    ...state,
+    visualValues: values,
+    dirtyFields: getNextDirtyFields(state.dirtyFields, values, values, state.baselineValues),
+    past,
+    future,
+    lastEdit: null,
   };
 }
 
@@ -850,13 +846,28 @@ function visualConfigReducer(
   action: VisualConfigAction
 ): VisualConfigState {
   switch (action.type) {
-    case 'load_success':
+    case 'load_success': {
+      let past: VisualConfigValues[] = [];
+      let future: VisualConfigValues[] = [];
+      if (action.preserveHistory) {
+        // 源码模式中有改动时，把切换前的可视化状态记为一步，便于撤销源码中的修改
+        const changed = JSON.stringify(action.values) !== JSON.stringify(state.visualValues);
+        past = changed ? pushVisualHistory(state.past, state.visualValues) : state.past;
+        future = changed ? [] : state.future;
+      }
+      const baselineValues = action.keepBaseline ? state.baselineValues : deepClone(action.values);
       return {
         visualValues: action.values,
-        baselineValues: deepClone(action.values),
-        dirtyFields: new Set(),
+        baselineValues,
+        dirtyFields: action.keepBaseline
+          ? getNextDirtyFields(new Set(), action.values, action.values, baselineValues)
+          : new Set(),
         visualParseError: null,
+        past,
+        future,
+        lastEdit: null,
       };
+    }
     case 'load_error':
       return {
         ...state,
@@ -871,12 +882,39 @@ function visualConfigReducer(
         state.baselineValues
       );
 
+      const keys = Object.keys(action.values).sort().join(',');
+      const merge =
+        state.lastEdit !== null &&
+        state.lastEdit.keys === keys &&
+        action.at - state.lastEdit.at < VISUAL_HISTORY_MERGE_WINDOW_MS;
+
       return {
         ...state,
         visualValues: nextValues,
         dirtyFields: nextDirtyFields,
+        past: merge ? state.past : pushVisualHistory(state.past, state.visualValues),
+        future: [],
+        lastEdit: { keys, at: action.at },
       };
     }
+    case 'undo': {
+      const previous = state.past[state.past.length - 1];
+      if (!previous) return state;
+      return restoreVisualValues(state, previous, state.past.slice(0, -1), [
+        ...state.future,
+        state.visualValues,
+      ]);
+    }
+    case 'redo': {
+      const next = state.future[state.future.length - 1];
+      if (!next) return state;
+      return restoreVisualValues(
+        state,
+        next,
+        pushVisualHistory(state.past, state.visualValues),
+        state.future.slice(0, -1)
+      );
+    }
     default:
       return state;
   }
@@ -890,6 +928,8 @@ export function useVisualConfig() {
   );
   const { visualValues, visualParseError, baselineValues, dirtyFields } = state;
   const visualDirty = state.dirtyFields.size > 0;
+  const canUndoVisual = state.past.length > 0;
+  const canRedoVisual = state.future.length > 0;
   const [apiKeysStorageMetadata, setApiKeysStorageMetadata] = useState<ApiKeysStorageMetadata>(
     DEFAULT_API_KEYS_STORAGE_METADATA
   );
@@ -911,7 +951,7 @@ export function useVisualConfig() {
     ]
   );
 
-  const loadVisualValuesFromYaml = useCallback((yamlContent: string) => {
+  const loadVisualValuesFromYaml = useCallback((yamlContent: string, options?: LoadOptions) => {
     try {
       const document = parseDocument(yamlContent);
       if (document.errors.length > 0) {
@@ -996,7 +1036,12 @@ export function useVisualConfig() {
         },
       };
 
-      dispatch({ type: 'load_success', values: newValues });
+      dispatch({
+        type: 'load_success',
+        values: newValues,
+        preserveHistory: options?.preserveHistory,
+        keepBaseline: options?.keepBaseline,
+      });
       setApiKeysStorageMetadata(apiKeysStorage.metadata);
       return { ok: true as const };
     } catch (error: unknown) {
@@ -1241,7 +1286,15 @@ export function useVisualConfig() {
   );
 
   const setVisualValues = useCallback((newValues: Partial<VisualConfigValues>) => {
-    dispatch({ type: 'set_values', values: newValues });
+    dispatch({ type: 'set_values', values: newValues, at: Date.now() });
+  }, []);
+
+  const undoVisual = useCallback(() => {
+    dispatch({ type: 'undo' });
+  }, []);
+
+  const redoVisual = useCallback(() => {
+    dispatch({ type: 'redo' });
   }, []);
 
   return {
@@ -1253,6 +1306,10 @@ export function useVisualConfig() {
     loadVisualValuesFromYaml,
     applyVisualChangesToYaml,
     setVisualValues,
+    canUndoVisual,
+    canRedoVisual,
+    undoVisual,
+    redoVisual,
   };
 }
 
@@ -0,0 +1,317 @@
+/**
+ * Activity - browses the client-side audit journal of management mutations.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import {
+  IconChevronDown,
+  IconChevronUp,
+  IconDownload,
+  IconRefreshCw,
+  IconTrash2,
+} from '@/components/ui/icons';
+import { useHeaderRefresh } from '@/hooks/useHeaderRefresh';
+import { useNotificationStore } from '@/stores';
+import {
+  MAX_AUDIT_ENTRIES,
+  clearAuditEntries,
+  isAuditJournalSupported,
+  listAuditEntries,
+} from '@/services/audit';
+import type { AuditEntry } from '@/types';
+import { downloadBlob } from '@/utils/download';
+import styles from './ActivityPage.module.scss';
+
+type MethodFilter = 'all' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+type OutcomeFilter = 'all' | 'success' | 'failed';
+
+const METHOD_FILTERS: MethodFilter[] = ['all', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const formatJson = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+const entryKey = (entry: AuditEntry) => entry.id ?? `${entry.timestamp}-${entry.url}`;
+
+export function ActivityPage() {
+  const { t, i18n } = useTranslation();
+  const { showNotification, showConfirmation } = useNotificationStore();
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [methodFilter, setMethodFilter] = useState<MethodFilter>('all');
+  const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>('all');
+  const [expanded, setExpanded] = useState<Set<AuditEntry['id'] | string>>(() => new Set());
+
+  const supported = isAuditJournalSupported();
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await listAuditEntries());
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(`${t('activity.load_failed')}${message ? `: ${message}` : ''}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [showNotification, t]);
+
+  useHeaderRefresh(loadEntries);
+
+  useEffect(() => {
+    let cancelled = false;
+    queueMicrotask(() => {
+      if (cancelled) return;
+      void loadEntries();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadEntries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter((entry) => {
+      if (methodFilter !== 'all' && entry.method !== methodFilter) return false;
+      if (outcomeFilter === 'success' && !entry.ok) return false;
+      if (outcomeFilter === 'failed' && entry.ok) return false;
+      if (!query) return true;
+      return [entry.url, entry.apiBase, entry.profileName ?? '', entry.error ?? ''].some((field) =>
+        field.toLowerCase().includes(query)
+      );
+    });
+  }, [entries, methodFilter, outcomeFilter, search]);
+
+  const methodOptions = useMemo(
+    () =>
+      METHOD_FILTERS.map((method) => ({
+        value: method,
+        label: method === 'all' ? t('activity.filter_all_methods') : method,
+      })),
+    [t]
+  );
+
+  const outcomeOptions = useMemo(
+    () => [
+      { value: 'all', label: t('activity.filter_all_outcomes') },
+      { value: 'success', label: t('activity.outcome_success') },
+      { value: 'failed', label: t('activity.outcome_failed') },
+    ],
+    [t]
+  );
+
+  const toggleExpanded = (key: AuditEntry['id'] | string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob({
+      filename: `management-activity-${stamp}.json`,
+      blob: new Blob([JSON.stringify(filteredEntries, null, 2) + '\n'], {
+        type: 'application/json',
+      }),
+    });
+  };
+
+  const handleClear = () => {
+    showConfirmation({
+      title: t('activity.clear_confirm_title'),
+      message: t('activity.clear_confirm'),
+      variant: 'danger',
+      confirmText: t('common.confirm'),
+      onConfirm: async () => {
+        try {
+          await clearAuditEntries();
+          setEntries([]);
+          setExpanded(new Set());
+          showNotification(t('activity.clear_success'), 'success');
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : '';
+          showNotification(
+            `${t('activity.clear_failed')}${message ? `: ${message}` : ''}`,
+            'error'
+          );
+        }
+      },
+    });
+  };
+
+  const renderDetail = (entry: AuditEntry) => {
+    const payload = formatJson(entry.payload);
+    const before = formatJson(entry.before);
+
+    return (
+      <div className={styles.detail}>
+        <dl className={styles.detailMeta}>
+          <div>
+            <dt>{t('activity.detail_url')}</dt>
+            <dd>{entry.url}</dd>
+          </div>
+          <div>
+            <dt>{t('activity.detail_instance')}</dt>
+            <dd>
+              {entry.profileName ? `${entry.profileName} · ` : ''}
+              {entry.apiBase || '-'}
+            </dd>
+          </div>
+          {entry.error && (
+            <div>
+              <dt>{t('activity.detail_error')}</dt>
+              <dd className={styles.errorText}>{entry.error}</dd>
+            </div>
+          )}
+        </dl>
+        <div className={styles.detailBlocks}>
+          <div className={styles.detailBlock}>
+            <div className={styles.detailLabel}>{t('activity.detail_payload')}</div>
+            <pre className={styles.code}>{payload || t('activity.detail_empty')}</pre>
+          </div>
+          <div className={styles.detailBlock}>
+            <div className={styles.detailLabel}>{t('activity.detail_before')}</div>
+            <pre className={styles.code}>{before || t('activity.detail_before_missing')}</pre>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.pageHeader}>
+        <div className={styles.titleRow}>
+          <h1 className={styles.pageTitle}>{t('activity.title')}</h1>
+          <div className={styles.actions}>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => void loadEntries()}
+              loading={loading}
+              disabled={!supported}
+            >
+              {!loading && <IconRefreshCw size={14} />}
+              {t('common.refresh')}
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleExport}
+              disabled={filteredEntries.length === 0}
+            >
+              <IconDownload size={14} />
+              {t('activity.export')}
+            </Button>
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={handleClear}
+              disabled={entries.length === 0}
+            >
+              <IconTrash2 size={14} />
+              {t('activity.clear')}
+            </Button>
+          </div>
+        </div>
+        <p className={styles.description}>
+          {t('activity.description', { max: MAX_AUDIT_ENTRIES })}
+        </p>
+      </div>
+
+      {!supported ? (
+        <EmptyState
+          title={t('activity.unsupported_title')}
+          description={t('activity.unsupported_desc')}
+        />
+      ) : (
+        <>
+          <div className={styles.filters}>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('activity.search_placeholder')}
+              className={styles.searchInput}
+            />
+            <Select
+              value={methodFilter}
+              options={methodOptions}
+              onChange={(value) => setMethodFilter(value as MethodFilter)}
+              ariaLabel={t('activity.filter_method')}
+              className={styles.filterSelect}
+            />
+            <Select
+              value={outcomeFilter}
+              options={outcomeOptions}
+              onChange={(value) => setOutcomeFilter(value as OutcomeFilter)}
+              ariaLabel={t('activity.filter_outcome')}
+              className={styles.filterSelect}
+            />
+            <span className={styles.count}>
+              {t('activity.count', { shown: filteredEntries.length, total: entries.length })}
+            </span>
+          </div>
+
+          {!loading && entries.length === 0 ? (
+            <EmptyState title={t('activity.empty_title')} description={t('activity.empty_desc')} />
+          ) : !loading && filteredEntries.length === 0 ? (
+            <EmptyState title={t('activity.no_match')} />
+          ) : (
+            <ul className={styles.list}>
+              {filteredEntries.map((entry) => {
+                const key = entryKey(entry);
+                const isExpanded = expanded.has(key);
+                return (
+                  <li key={key} className={styles.entry}>
+                    <button
+                      type="button"
+                      className={styles.entryRow}
+                      onClick={() => toggleExpanded(key)}
+                      aria-expanded={isExpanded}
+                    >
+                      <span className={styles.time}>
+                        {new Date(entry.timestamp).toLocaleString(i18n.language)}
+                      </span>
+                      <span className={`${styles.method} ${styles[`method${entry.method}`] ?? ''}`}>
+                        {entry.method}
+                      </span>
+                      <span className={styles.endpoint}>{entry.endpoint}</span>
+                      <span
+                        className={`${styles.outcome} ${entry.ok ? styles.success : styles.failed}`}
+                      >
+                        {entry.ok
+                          ? t('activity.outcome_success')
+                          : entry.status
+                            ? `${t('activity.outcome_failed')} · ${entry.status}`
+                            : t('activity.outcome_failed')}
+                      </span>
+                      <span className={styles.duration}>{entry.durationMs} ms</span>
+                      {isExpanded ? <IconChevronUp size={16} /> : <IconChevronDown size={16} />}
+                    </button>
+                    {isExpanded && renderDetail(entry)}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
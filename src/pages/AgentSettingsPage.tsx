@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
 import {
   IconSearch,
   IconChevronDown,
@@ -11,7 +12,7 @@ import {
   IconFileText,
   IconZap,
 } from '@/components/ui/icons';
-import { useNotificationStore } from '@/stores';
+import { useCapabilityStore, useNotificationStore } from '@/stores';
 import {
   useEndpointProviders,
   normalizeText,
@@ -561,6 +562,10 @@ export function AgentSettingsPage() {
   const [expandedSlot, setExpandedSlot] = useState<ModelSlotKey | null>(null);
 
   const fsSupported = isFileSystemAccessSupported();
+  // 旧版后端没有 /manage/agent/claude-settings，只能通过浏览器直接编辑本地文件
+  const agentSettingsUnsupported = useCapabilityStore(
+    (state) => state.capabilities.agentSettings === 'unsupported'
+  );
 
   const { providerEntries, modelsByProvider, pageLoading } = useEndpointProviders();
 
@@ -1177,6 +1182,21 @@ export function AgentSettingsPage() {
   const isSaving = pageStatus === 'saving';
   const currentFileName = fileHandle?.name ?? '~/.claude/settings.json';
 
+  if (agentSettingsUnsupported && !fsSupported) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.pageHeader}>
+          <h1 className={styles.title}>{t('agent_settings.title')}</h1>
+          <p className={styles.subtitle}>{t('agent_settings.description')}</p>
+        </div>
+        <EmptyState
+          title={t('agent_settings.upgrade_required_title')}
+          description={t('agent_settings.upgrade_required_desc')}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className={styles.container}>
       <div className={styles.pageHeader}>
@@ -1191,6 +1211,13 @@ export function AgentSettingsPage() {
         </div>
       )}
 
+      {agentSettingsUnsupported && (
+        <div className={styles.browserWarning}>
+          <span className={styles.browserWarningIcon}>⚠️</span>
+          <span>{t('agent_settings.backend_unsupported_local_only')}</span>
+        </div>
+      )}
+
       <Card>
         <div className={styles.fileSection}>
           <div className={styles.fileSectionHeader}>
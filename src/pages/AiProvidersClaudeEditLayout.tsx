@@ -126,7 +126,10 @@ export function AiProvidersClaudeEditLayout() {
   const invalidIndexParam = hasIndexParam && editIndex === null;
 
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
-  const disableControls = connectionStatus !== 'connected';
+
+  const readOnly = useAuthStore((state) => state.readOnly);
+  // 只读模式下与断开连接时一样禁用所有编辑与保存操作
+  const disableControls = connectionStatus !== 'connected' || readOnly;
 
   const config = useConfigStore((state) => state.config);
   const fetchConfig = useConfigStore((state) => state.fetchConfig);
@@ -7,7 +7,8 @@ import { Input } from '@/components/ui/Input';
 import { SelectionCheckbox } from '@/components/ui/SelectionCheckbox';
 import { SecondaryScreenShell } from '@/components/common/SecondaryScreenShell';
 import { useEdgeSwipeBack } from '@/hooks/useEdgeSwipeBack';
-import { modelsApi } from '@/services/api';
+import { useRouteAbortSignal } from '@/hooks/useRouteAbortSignal';
+import { isRequestCanceledError, modelsApi } from '@/services/api';
 import type { ModelInfo } from '@/utils/models';
 import { buildHeaderObject } from '@/utils/headers';
 import type { ClaudeEditOutletContext } from './AiProvidersClaudeEditLayout';
@@ -34,6 +35,7 @@ export function AiProvidersClaudeModelsPage() {
   const [endpoint, setEndpoint] = useState('');
   const [models, setModels] = useState<ModelInfo[]>([]);
   const [fetching, setFetching] = useState(false);
+  const getRouteSignal = useRouteAbortSignal();
   const [error, setError] = useState('');
   const [search, setSearch] = useState('');
   const [selected, setSelected] = useState<Set<string>>(new Set());
@@ -59,6 +61,7 @@ export function AiProvidersClaudeModelsPage() {
   );
 
   const fetchClaudeModelDiscovery = useCallback(async () => {
+    const signal = getRouteSignal();
     setFetching(true);
     setError('');
     const headerObject = buildHeaderObject(form.headers);
@@ -66,10 +69,12 @@ export function AiProvidersClaudeModelsPage() {
       const list = await modelsApi.fetchClaudeModelsViaApiCall(
         form.baseUrl ?? '',
         form.apiKey.trim() || undefined,
-        headerObject
+        headerObject,
+        signal
       );
       setModels(list);
     } catch (err: unknown) {
+      if (isRequestCanceledError(err)) return;
       setModels([]);
       const message = getErrorMessage(err);
       const hasCustomXApiKey = Object.keys(headerObject).some(
@@ -87,9 +92,11 @@ export function AiProvidersClaudeModelsPage() {
         : '';
       setError(`${t('ai_providers.claude_models_fetch_error')}: ${message}${diag}`);
     } finally {
-      setFetching(false);
+      if (!signal.aborted) {
+        setFetching(false);
+      }
     }
-  }, [form.apiKey, form.baseUrl, form.headers, t]);
+  }, [form.apiKey, form.baseUrl, form.headers, getRouteSignal, t]);
 
   useEffect(() => {
     if (initialLoading) return;
@@ -10,9 +10,10 @@ import { Modal } from '@/components/ui/Modal';
 import { SelectionCheckbox } from '@/components/ui/SelectionCheckbox';
 import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
 import { useEdgeSwipeBack } from '@/hooks/useEdgeSwipeBack';
+import { useRouteAbortSignal } from '@/hooks/useRouteAbortSignal';
 import { useUnsavedChangesGuard } from '@/hooks/useUnsavedChangesGuard';
 import { SecondaryScreenShell } from '@/components/common/SecondaryScreenShell';
-import { modelsApi, providersApi } from '@/services/api';
+import { isRequestCanceledError, modelsApi, providersApi } from '@/services/api';
 import { useAuthStore, useConfigStore, useNotificationStore } from '@/stores';
 import type { ProviderKeyConfig } from '@/types';
 import { buildHeaderObject, headersToEntries, normalizeHeaderEntries } from '@/utils/headers';
@@ -97,7 +98,9 @@ export function AiProvidersCodexEditPage() {
 
   const { showNotification } = useNotificationStore();
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
-  const disableControls = connectionStatus !== 'connected';
+  const readOnly = useAuthStore((state) => state.readOnly);
+  // 只读模式下与断开连接时一样禁用所有编辑与保存操作
+  const disableControls = connectionStatus !== 'connected' || readOnly;
 
   const fetchConfig = useConfigStore((state) => state.fetchConfig);
   const updateConfigValue = useConfigStore((state) => state.updateConfigValue);
@@ -119,6 +122,7 @@ export function AiProvidersCodexEditPage() {
   const [modelDiscoverySelected, setModelDiscoverySelected] = useState<Set<string>>(new Set());
   const autoFetchSignatureRef = useRef<string>('');
   const modelDiscoveryRequestIdRef = useRef(0);
+  const getRouteSignal = useRouteAbortSignal();
 
   const hasIndexParam = typeof params.index === 'string';
   const editIndex = useMemo(() => parseIndexParam(params.index), [params.index]);
@@ -329,12 +333,13 @@ export function AiProvidersCodexEditPage() {
       const list = await modelsApi.fetchV1ModelsViaApiCall(
         form.baseUrl ?? '',
         hasCustomAuthorization ? undefined : apiKey,
-        headerObject
+        headerObject,
+        getRouteSignal()
       );
       if (modelDiscoveryRequestIdRef.current !== requestId) return;
       setDiscoveredModels(list);
     } catch (err: unknown) {
-      if (modelDiscoveryRequestIdRef.current !== requestId) return;
+      if (modelDiscoveryRequestIdRef.current !== requestId || isRequestCanceledError(err)) return;
       setDiscoveredModels([]);
       const message = getErrorMessage(err);
       setModelDiscoveryError(`${t('ai_providers.codex_models_fetch_error')}: ${message}`);
@@ -343,7 +348,7 @@ export function AiProvidersCodexEditPage() {
         setModelDiscoveryFetching(false);
       }
     }
-  }, [form.apiKey, form.baseUrl, form.headers, t]);
+  }, [form.apiKey, form.baseUrl, form.headers, getRouteSignal, t]);
 
   useEffect(() => {
     if (!modelDiscoveryOpen) {
@@ -9,9 +9,10 @@ import { ModelInputList } from '@/components/ui/ModelInputList';
 import { Modal } from '@/components/ui/Modal';
 import { SelectionCheckbox } from '@/components/ui/SelectionCheckbox';
 import { useEdgeSwipeBack } from '@/hooks/useEdgeSwipeBack';
+import { useRouteAbortSignal } from '@/hooks/useRouteAbortSignal';
 import { useUnsavedChangesGuard } from '@/hooks/useUnsavedChangesGuard';
 import { SecondaryScreenShell } from '@/components/common/SecondaryScreenShell';
-import { modelsApi, providersApi } from '@/services/api';
+import { isRequestCanceledError, modelsApi, providersApi } from '@/services/api';
 import { useAuthStore, useConfigStore, useNotificationStore } from '@/stores';
 import type { GeminiKeyConfig } from '@/types';
 import { buildHeaderObject, headersToEntries, normalizeHeaderEntries } from '@/utils/headers';
@@ -92,7 +93,9 @@ export function AiProvidersGeminiEditPage() {
 
   const { showNotification } = useNotificationStore();
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
-  const disableControls = connectionStatus !== 'connected';
+  const readOnly = useAuthStore((state) => state.readOnly);
+  // 只读模式下与断开连接时一样禁用所有编辑与保存操作
+  const disableControls = connectionStatus !== 'connected' || readOnly;
 
   const fetchConfig = useConfigStore((state) => state.fetchConfig);
   const updateConfigValue = useConfigStore((state) => state.updateConfigValue);
@@ -114,6 +117,7 @@ export function AiProvidersGeminiEditPage() {
   const [modelDiscoverySelected, setModelDiscoverySelected] = useState<Set<string>>(new Set());
   const autoFetchSignatureRef = useRef<string>('');
   const modelDiscoveryRequestIdRef = useRef(0);
+  const getRouteSignal = useRouteAbortSignal();
 
   const hasIndexParam = typeof params.index === 'string';
   const editIndex = useMemo(() => parseIndexParam(params.index), [params.index]);
@@ -269,12 +273,13 @@ export function AiProvidersGeminiEditPage() {
       const list = await modelsApi.fetchGeminiModelsViaApiCall(
         form.baseUrl ?? '',
         form.apiKey.trim() || undefined,
-        headerObject
+        headerObject,
+        getRouteSignal()
       );
       if (modelDiscoveryRequestIdRef.current !== requestId) return;
       setDiscoveredModels(list);
     } catch (err: unknown) {
-      if (modelDiscoveryRequestIdRef.current !== requestId) return;
+      if (modelDiscoveryRequestIdRef.current !== requestId || isRequestCanceledError(err)) return;
       setDiscoveredModels([]);
       const message = err instanceof Error ? err.message : typeof err === 'string' ? err : '';
       const hasCustomXGoogApiKey = Object.keys(headerObject).some(
@@ -295,7 +300,7 @@ export function AiProvidersGeminiEditPage() {
         setModelDiscoveryFetching(false);
       }
     }
-  }, [form.apiKey, form.baseUrl, form.headers, t]);
+  }, [form.apiKey, form.baseUrl, form.headers, getRouteSignal, t]);
 
   useEffect(() => {
     if (!modelDiscoveryOpen) {
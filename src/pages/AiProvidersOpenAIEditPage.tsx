@@ -8,11 +8,13 @@ import { Input } from '@/components/ui/Input';
 import { ModelInputList } from '@/components/ui/ModelInputList';
 import { Select } from '@/components/ui/Select';
 import { SecondaryScreenShell } from '@/components/common/SecondaryScreenShell';
+import { OpenAIProviderTemplatesModal } from '@/components/providers/OpenAIProviderTemplatesModal';
+import { entriesToModels, modelsToEntries } from '@/components/ui/modelInputListUtils';
 import { useEdgeSwipeBack } from '@/hooks/useEdgeSwipeBack';
 import { useNotificationStore } from '@/stores';
 import { apiCallApi, getApiCallErrorMessage } from '@/services/api';
-import type { ApiKeyEntry } from '@/types';
-import { buildHeaderObject, hasHeader } from '@/utils/headers';
+import type { ApiKeyEntry, OpenAIProviderTemplate } from '@/types';
+import { buildHeaderObject, hasHeader, headersToEntries } from '@/utils/headers';
 import { buildApiKeyEntry, buildOpenAIChatCompletionsEndpoint } from '@/components/providers/utils';
 import type { OpenAIEditOutletContext } from './AiProvidersOpenAIEditLayout';
 import type { KeyTestStatus } from '@/stores/useOpenAIEditDraftStore';
@@ -126,8 +128,11 @@ export function AiProvidersOpenAIEditPage() {
 
   const swipeRef = useEdgeSwipeBack({ onBack: handleBack });
   const [isTestingKeys, setIsTestingKeys] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
 
   useEffect(() => {
+    // 模板弹窗打开时由弹窗自行处理 Esc
+    if (templatesOpen) return;
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
         handleBack();
@@ -135,7 +140,7 @@ export function AiProvidersOpenAIEditPage() {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleBack]);
+  }, [handleBack, templatesOpen]);
 
   const canSave = !disableControls && !loading && !saving && !invalidIndexParam && !invalidIndex && !isTestingKeys;
   const hasConfiguredModels = form.modelEntries.some((entry) => entry.name.trim());
@@ -358,6 +363,41 @@ export function AiProvidersOpenAIEditPage() {
     showNotification,
   ]);
 
+  const templateDraft = useMemo(
+    () => ({
+      name: form.name.trim(),
+      baseUrl: form.baseUrl.trim(),
+      models: entriesToModels(form.modelEntries),
+      testModel: testModel.trim(),
+      headers: buildHeaderObject(form.headers),
+    }),
+    [form.baseUrl, form.headers, form.modelEntries, form.name, testModel]
+  );
+
+  // 模板只覆盖地址、模型与同名请求头；名称仅在为空时填入，已有密钥保持不变
+  const applyTemplate = (template: OpenAIProviderTemplate) => {
+    const templateHeaders = template.headers ?? {};
+    const overridden = new Set(Object.keys(templateHeaders).map((key) => key.toLowerCase()));
+    setForm((prev) => ({
+      ...prev,
+      name: prev.name.trim() ? prev.name : template.name,
+      baseUrl: template.baseUrl,
+      headers: [
+        ...prev.headers.filter((entry) => !overridden.has(entry.key.trim().toLowerCase())),
+        ...headersToEntries(templateHeaders),
+      ],
+      modelEntries: modelsToEntries(template.models),
+    }));
+    setTestModel(template.testModel ?? template.models[0]?.name ?? '');
+    setTestStatus('idle');
+    setTestMessage('');
+    setTemplatesOpen(false);
+    showNotification(
+      t('ai_providers.openai_templates.applied', { name: template.name }),
+      'success'
+    );
+  };
+
   const openOpenaiModelDiscovery = () => {
     const baseUrl = form.baseUrl.trim();
     if (!baseUrl) {
@@ -532,6 +572,17 @@ export function AiProvidersOpenAIEditPage() {
           <div className={styles.sectionHint}>{t('common.invalid_provider_index')}</div>
         ) : (
           <div className={styles.openaiEditForm}>
+            <div className={styles.openaiTemplateBar}>
+              <span className={styles.sectionHint}>{t('ai_providers.openai_templates.hint')}</span>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setTemplatesOpen(true)}
+                disabled={saving || disableControls || isTestingKeys}
+              >
+                {t('ai_providers.openai_templates.open')}
+              </Button>
+            </div>
             <Input
               label={t('ai_providers.openai_add_modal_name_label')}
               value={form.name}
@@ -693,6 +744,13 @@ export function AiProvidersOpenAIEditPage() {
           </div>
         )}
       </Card>
+      <OpenAIProviderTemplatesModal
+        open={templatesOpen}
+        disabled={saving || disableControls || isTestingKeys}
+        current={templateDraft}
+        onClose={() => setTemplatesOpen(false)}
+        onApply={applyTemplate}
+      />
     </SecondaryScreenShell>
   );
 }
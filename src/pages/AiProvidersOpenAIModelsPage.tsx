@@ -7,7 +7,8 @@ import { Input } from '@/components/ui/Input';
 import { SelectionCheckbox } from '@/components/ui/SelectionCheckbox';
 import { SecondaryScreenShell } from '@/components/common/SecondaryScreenShell';
 import { useEdgeSwipeBack } from '@/hooks/useEdgeSwipeBack';
-import { modelsApi } from '@/services/api';
+import { useRouteAbortSignal } from '@/hooks/useRouteAbortSignal';
+import { isRequestCanceledError, modelsApi } from '@/services/api';
 import type { ModelInfo } from '@/utils/models';
 import { buildHeaderObject, hasHeader } from '@/utils/headers';
 import { buildOpenAIModelsEndpoint } from '@/components/providers/utils';
@@ -35,6 +36,7 @@ export function AiProvidersOpenAIModelsPage() {
   const [endpoint, setEndpoint] = useState('');
   const [models, setModels] = useState<ModelInfo[]>([]);
   const [fetching, setFetching] = useState(false);
+  const getRouteSignal = useRouteAbortSignal();
   const [error, setError] = useState('');
   const [search, setSearch] = useState('');
   const [selected, setSelected] = useState<Set<string>>(new Set());
@@ -63,6 +65,7 @@ export function AiProvidersOpenAIModelsPage() {
       const trimmedBaseUrl = form.baseUrl.trim();
       if (!trimmedBaseUrl) return;
 
+      const signal = getRouteSignal();
       setFetching(true);
       setError('');
       try {
@@ -72,16 +75,24 @@ export function AiProvidersOpenAIModelsPage() {
         const list = await modelsApi.fetchModelsViaApiCall(
           trimmedBaseUrl,
           hasAuthHeader ? undefined : firstKey,
-          headerObject
+          headerObject,
+          signal
         );
         setModels(list);
       } catch (err: unknown) {
+        if (isRequestCanceledError(err)) return;
         if (allowFallback) {
           try {
-            const list = await modelsApi.fetchModelsViaApiCall(trimmedBaseUrl);
+            const list = await modelsApi.fetchModelsViaApiCall(
+              trimmedBaseUrl,
+              undefined,
+              {},
+              signal
+            );
             setModels(list);
             return;
           } catch (fallbackErr: unknown) {
+            if (isRequestCanceledError(fallbackErr)) return;
             const message = getErrorMessage(fallbackErr) || getErrorMessage(err);
             setModels([]);
             setError(`${t('ai_providers.openai_models_fetch_error')}: ${message}`);
@@ -91,10 +102,12 @@ export function AiProvidersOpenAIModelsPage() {
           setError(`${t('ai_providers.openai_models_fetch_error')}: ${getErrorMessage(err)}`);
         }
       } finally {
-        setFetching(false);
+        if (!signal.aborted) {
+          setFetching(false);
+        }
       }
     },
-    [form.apiKeyEntries, form.baseUrl, form.headers, t]
+    [form.apiKeyEntries, form.baseUrl, form.headers, getRouteSignal, t]
   );
 
   useEffect(() => {
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import {
@@ -9,6 +9,10 @@ import {
   OpenAISection,
   VertexSection,
   ProviderNav,
+  ProviderKeyImportModal,
+  ProviderKeyRotationModal,
+  ProviderHealthToolbar,
+  type ProviderKeyRotationTarget,
   useProviderRecentRequests,
 } from '@/components/providers';
 import {
@@ -16,10 +20,13 @@ import {
   withoutDisableAllModelsRule,
 } from '@/components/providers/utils';
 import { usePageTransitionLayer } from '@/components/common/PageTransitionLayer';
+import { Button } from '@/components/ui/Button';
 import { useHeaderRefresh } from '@/hooks/useHeaderRefresh';
 import { ampcodeApi, providersApi } from '@/services/api';
 import { useAuthStore, useConfigStore, useNotificationStore, useThemeStore } from '@/stores';
 import type { GeminiKeyConfig, OpenAIProviderConfig, ProviderKeyConfig } from '@/types';
+import type { ProviderKeyImportEntry, ProviderKeyImportTarget } from '@/utils/providerKeyImport';
+import type { ProviderKeyRotationKind } from '@/utils/providerKeyRotation';
 import styles from './AiProvidersPage.module.scss';
 
 export function AiProvidersPage() {
@@ -28,6 +35,7 @@ export function AiProvidersPage() {
   const { showNotification, showConfirmation } = useNotificationStore();
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const readOnly = useAuthStore((state) => state.readOnly);
 
   const config = useConfigStore((state) => state.config);
   const fetchConfig = useConfigStore((state) => state.fetchConfig);
@@ -56,8 +64,11 @@ export function AiProvidersPage() {
   );
 
   const [configSwitchingKey, setConfigSwitchingKey] = useState<string | null>(null);
+  const [keyImportOpen, setKeyImportOpen] = useState(false);
+  const [rotationTarget, setRotationTarget] = useState<ProviderKeyRotationTarget | null>(null);
 
-  const disableControls = connectionStatus !== 'connected';
+  // 只读模式下禁用新增、编辑、删除与启停操作
+  const disableControls = connectionStatus !== 'connected' || readOnly;
   const isSwitching = Boolean(configSwitchingKey);
 
   const pageTransitionLayer = usePageTransitionLayer();
@@ -357,6 +368,92 @@ export function AiProvidersPage() {
     });
   };
 
+  const importExistingKeys = useMemo(
+    () => ({ gemini: geminiKeys, codex: codexConfigs, claude: claudeConfigs }),
+    [claudeConfigs, codexConfigs, geminiKeys]
+  );
+
+  // 批量导入的条目追加到列表末尾后整体保存，失败时抛出以便导入框保留输入
+  const importProviderKeys = async (
+    target: ProviderKeyImportTarget,
+    entries: ProviderKeyImportEntry[]
+  ) => {
+    try {
+      if (target === 'gemini') {
+        const next: GeminiKeyConfig[] = [...geminiKeys, ...entries];
+        await providersApi.saveGeminiKeys(next);
+        setGeminiKeys(next);
+        updateConfigValue('gemini-api-key', next);
+        clearCache('gemini-api-key');
+      } else if (target === 'codex') {
+        const next: ProviderKeyConfig[] = [...codexConfigs, ...entries];
+        await providersApi.saveCodexConfigs(next);
+        setCodexConfigs(next);
+        updateConfigValue('codex-api-key', next);
+        clearCache('codex-api-key');
+      } else {
+        const next: ProviderKeyConfig[] = [...claudeConfigs, ...entries];
+        await providersApi.saveClaudeConfigs(next);
+        setClaudeConfigs(next);
+        updateConfigValue('claude-api-key', next);
+        clearCache('claude-api-key');
+      }
+      showNotification(t('ai_providers.key_import.imported', { total: entries.length }), 'success');
+    } catch (err: unknown) {
+      const message = getErrorMessage(err);
+      showNotification(`${t('notification.update_failed')}: ${message}`, 'error');
+      throw err;
+    }
+  };
+
+  const rotationLists = useMemo(
+    () => ({
+      gemini: geminiKeys,
+      codex: codexConfigs,
+      claude: claudeConfigs,
+      vertex: vertexConfigs,
+    }),
+    [claudeConfigs, codexConfigs, geminiKeys, vertexConfigs]
+  );
+
+  const openRotation = (kind: ProviderKeyRotationKind, index: number) => {
+    const entry = rotationLists[kind][index];
+    if (!entry) return;
+    setRotationTarget({ kind, apiKey: entry.apiKey, baseUrl: entry.baseUrl });
+  };
+
+  // 轮换的每一步都整体保存对应列表，失败时抛出以便向导停留在当前步骤
+  const saveRotationStep = async (kind: ProviderKeyRotationKind, next: ProviderKeyConfig[]) => {
+    try {
+      if (kind === 'gemini') {
+        await providersApi.saveGeminiKeys(next);
+        setGeminiKeys(next);
+        updateConfigValue('gemini-api-key', next);
+        clearCache('gemini-api-key');
+      } else if (kind === 'codex') {
+        await providersApi.saveCodexConfigs(next);
+        setCodexConfigs(next);
+        updateConfigValue('codex-api-key', next);
+        clearCache('codex-api-key');
+      } else if (kind === 'claude') {
+        await providersApi.saveClaudeConfigs(next);
+        setClaudeConfigs(next);
+        updateConfigValue('claude-api-key', next);
+        clearCache('claude-api-key');
+      } else {
+        await providersApi.saveVertexConfigs(next);
+        setVertexConfigs(next);
+        updateConfigValue('vertex-api-key', next);
+        clearCache('vertex-api-key');
+      }
+      showNotification(t('ai_providers.key_rotation.step_saved'), 'success');
+    } catch (err: unknown) {
+      const message = getErrorMessage(err);
+      showNotification(`${t('notification.update_failed')}: ${message}`, 'error');
+      throw err;
+    }
+  };
+
   const deleteVertex = async (index: number) => {
     const entry = vertexConfigs[index];
     if (!entry) return;
@@ -407,10 +504,22 @@ export function AiProvidersPage() {
 
   return (
     <div className={styles.container}>
-      <h1 className={styles.pageTitle}>{t('ai_providers.title')}</h1>
+      <div className={styles.pageHeader}>
+        <h1 className={styles.pageTitle}>{t('ai_providers.title')}</h1>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setKeyImportOpen(true)}
+          disabled={disableControls || loading || isSwitching}
+        >
+          {t('ai_providers.key_import.open')}
+        </Button>
+      </div>
       <div className={styles.content}>
         {error && <div className="error-box">{error}</div>}
 
+        <ProviderHealthToolbar />
+
         <div id="provider-gemini">
           <GeminiSection
             configs={geminiKeys}
@@ -421,6 +530,7 @@ export function AiProvidersPage() {
             onAdd={() => openEditor('/ai-providers/gemini/new')}
             onEdit={(index) => openEditor(`/ai-providers/gemini/${index}`)}
             onDelete={deleteGemini}
+            onRotate={(index) => openRotation('gemini', index)}
             onToggle={(index, enabled) => void setConfigEnabled('gemini', index, enabled)}
           />
         </div>
@@ -435,6 +545,7 @@ export function AiProvidersPage() {
             onAdd={() => openEditor('/ai-providers/codex/new')}
             onEdit={(index) => openEditor(`/ai-providers/codex/${index}`)}
             onDelete={(index) => void deleteProviderEntry('codex', index)}
+            onRotate={(index) => openRotation('codex', index)}
             onToggle={(index, enabled) => void setConfigEnabled('codex', index, enabled)}
           />
         </div>
@@ -449,6 +560,7 @@ export function AiProvidersPage() {
             onAdd={() => openEditor('/ai-providers/claude/new')}
             onEdit={(index) => openEditor(`/ai-providers/claude/${index}`)}
             onDelete={(index) => void deleteProviderEntry('claude', index)}
+            onRotate={(index) => openRotation('claude', index)}
             onToggle={(index, enabled) => void setConfigEnabled('claude', index, enabled)}
           />
         </div>
@@ -463,6 +575,7 @@ export function AiProvidersPage() {
             onAdd={() => openEditor('/ai-providers/vertex/new')}
             onEdit={(index) => openEditor(`/ai-providers/vertex/${index}`)}
             onDelete={deleteVertex}
+            onRotate={(index) => openRotation('vertex', index)}
             onToggle={(index, enabled) => void setConfigEnabled('vertex', index, enabled)}
           />
         </div>
@@ -494,6 +607,19 @@ export function AiProvidersPage() {
       </div>
 
       <ProviderNav />
+      <ProviderKeyImportModal
+        open={keyImportOpen}
+        existing={importExistingKeys}
+        onClose={() => setKeyImportOpen(false)}
+        onImport={importProviderKeys}
+      />
+      <ProviderKeyRotationModal
+        open={rotationTarget !== null}
+        target={rotationTarget}
+        lists={rotationLists}
+        onClose={() => setRotationTarget(null)}
+        onSave={saveRotationStep}
+      />
     </div>
   );
 }
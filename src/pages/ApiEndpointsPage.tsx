@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { ModelBenchmarkPanel } from '@/components/providers';
 import {
   IconSearch,
   IconCheck,
@@ -908,6 +909,12 @@ export function ApiEndpointsPage() {
         groups={callOrder.groups}
       />
 
+      <ModelBenchmarkPanel
+        targetModel={targetModel}
+        candidates={callOrder.candidates}
+        config={config}
+      />
+
       {pageLoading && providerEntries.length === 0 ? (
         <Card>
           <div className="hint">{t('common.loading')}</div>
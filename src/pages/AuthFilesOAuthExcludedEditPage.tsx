@@ -10,7 +10,8 @@ import { EmptyState } from '@/components/ui/EmptyState';
 import { IconInfo } from '@/components/ui/icons';
 import { SecondaryScreenShell } from '@/components/common/SecondaryScreenShell';
 import { useEdgeSwipeBack } from '@/hooks/useEdgeSwipeBack';
-import { useAuthStore, useNotificationStore } from '@/stores';
+import { useRouteAbortSignal } from '@/hooks/useRouteAbortSignal';
+import { useAuthStore, useCapabilityStore, useNotificationStore } from '@/stores';
 import { authFilesApi } from '@/services/api';
 import type { AuthFileItem, OAuthModelAliasEntry } from '@/types';
 import styles from './AuthFilesOAuthExcludedEditPage.module.scss';
@@ -37,11 +38,14 @@ const normalizeProviderKey = (value: string) => value.trim().toLowerCase();
 
 export function AuthFilesOAuthExcludedEditPage() {
   const { t } = useTranslation();
+  const getRouteSignal = useRouteAbortSignal();
   const navigate = useNavigate();
   const location = useLocation();
   const { showNotification } = useNotificationStore();
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
-  const disableControls = connectionStatus !== 'connected';
+  const readOnly = useAuthStore((state) => state.readOnly);
+  // 只读模式下与断开连接时一样禁用所有编辑与保存操作
+  const disableControls = connectionStatus !== 'connected' || readOnly;
 
   const [searchParams, setSearchParams] = useSearchParams();
   const providerFromParams = searchParams.get('provider') ?? '';
@@ -141,7 +145,7 @@ export function AuthFilesOAuthExcludedEditPage() {
       setExcludedUnsupported(false);
       try {
         const [filesResult, excludedResult, aliasResult] = await Promise.allSettled([
-          authFilesApi.list(),
+          authFilesApi.list(getRouteSignal()),
           authFilesApi.getOauthExcludedModels(),
           authFilesApi.getOauthModelAlias(),
         ]);
@@ -168,6 +172,7 @@ export function AuthFilesOAuthExcludedEditPage() {
             : undefined;
 
         if (status === 404) {
+          useCapabilityStore.getState().markUnsupported('oauthExcludedModels');
           setExcludedUnsupported(true);
           return;
         }
@@ -187,7 +192,7 @@ export function AuthFilesOAuthExcludedEditPage() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [getRouteSignal]);
 
   useEffect(() => {
     if (!resolvedProviderKey) {
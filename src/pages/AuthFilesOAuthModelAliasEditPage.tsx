@@ -9,7 +9,8 @@ import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
 import { IconInfo, IconX } from '@/components/ui/icons';
 import { SecondaryScreenShell } from '@/components/common/SecondaryScreenShell';
 import { useEdgeSwipeBack } from '@/hooks/useEdgeSwipeBack';
-import { useAuthStore, useNotificationStore } from '@/stores';
+import { useRouteAbortSignal } from '@/hooks/useRouteAbortSignal';
+import { useAuthStore, useCapabilityStore, useNotificationStore } from '@/stores';
 import { authFilesApi } from '@/services/api';
 import type { AuthFileItem, OAuthModelAliasEntry } from '@/types';
 import { generateId } from '@/utils/helpers';
@@ -60,11 +61,14 @@ const normalizeMappingEntries = (
 
 export function AuthFilesOAuthModelAliasEditPage() {
   const { t } = useTranslation();
+  const getRouteSignal = useRouteAbortSignal();
   const navigate = useNavigate();
   const location = useLocation();
   const { showNotification } = useNotificationStore();
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
-  const disableControls = connectionStatus !== 'connected';
+  const readOnly = useAuthStore((state) => state.readOnly);
+  // 只读模式下与断开连接时一样禁用所有编辑与保存操作
+  const disableControls = connectionStatus !== 'connected' || readOnly;
 
   const [searchParams, setSearchParams] = useSearchParams();
   const providerFromParams = searchParams.get('provider') ?? '';
@@ -166,7 +170,7 @@ export function AuthFilesOAuthModelAliasEditPage() {
       setModelAliasUnsupported(false);
       try {
         const [filesResult, excludedResult, aliasResult] = await Promise.allSettled([
-          authFilesApi.list(),
+          authFilesApi.list(getRouteSignal()),
           authFilesApi.getOauthExcludedModels(),
           authFilesApi.getOauthModelAlias(),
         ]);
@@ -193,6 +197,7 @@ export function AuthFilesOAuthModelAliasEditPage() {
             : undefined;
 
         if (status === 404) {
+          useCapabilityStore.getState().markUnsupported('oauthModelAlias');
           setModelAliasUnsupported(true);
           return;
         }
@@ -212,7 +217,7 @@ export function AuthFilesOAuthModelAliasEditPage() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [getRouteSignal]);
 
   useEffect(() => {
     if (!resolvedProviderKey) {
@@ -81,6 +81,7 @@ export function AuthFilesPage() {
   const { t } = useTranslation();
   const showNotification = useNotificationStore((state) => state.showNotification);
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const readOnly = useAuthStore((state) => state.readOnly);
   const resolvedTheme: ResolvedTheme = useThemeStore((state) => state.resolvedTheme);
   const pageTransitionLayer = usePageTransitionLayer();
   const isCurrentLayer = pageTransitionLayer ? pageTransitionLayer.status === 'current' : true;
@@ -173,11 +174,13 @@ export function AuthFilesPage() {
     handlePrefixProxyChange,
     handlePrefixProxySave,
   } = useAuthFilesPrefixProxyEditor({
-    disableControls: connectionStatus !== 'connected',
+    disableControls: connectionStatus !== 'connected' || readOnly,
     loadFiles,
   });
 
   const disableControls = connectionStatus !== 'connected';
+  // 只读模式下仍可查看、下载与刷新额度，但禁用上传、删除与启停
+  const disableMutations = disableControls || readOnly;
   const normalizedFilter = normalizeProviderKey(String(filter));
   const quotaFilterType: QuotaProviderType | null = QUOTA_PROVIDER_TYPES.has(
     normalizedFilter as QuotaProviderType
@@ -448,7 +451,7 @@ export function AuthFilesPage() {
     [selectedNames, statusUpdating]
   );
   const batchStatusButtonsDisabled =
-    disableControls ||
+    disableMutations ||
     selectedNames.length === 0 ||
     batchStatusUpdating ||
     selectedHasStatusUpdating;
@@ -676,7 +679,7 @@ export function AuthFilesPage() {
             <Button
               size="sm"
               onClick={handleUploadClick}
-              disabled={disableControls || uploading}
+              disabled={disableMutations || uploading}
               loading={uploading}
             >
               {t('auth_files.upload_button')}
@@ -694,7 +697,7 @@ export function AuthFilesPage() {
                   onResetDisabledOnly: () => setDisabledOnly(false),
                 })
               }
-              disabled={disableControls || loading || deletingAll}
+              disabled={disableMutations || loading || deletingAll}
               loading={deletingAll}
             >
               {deleteAllButtonLabel}
@@ -827,6 +830,7 @@ export function AuthFilesPage() {
                     selected={selectedFiles.has(file.name)}
                     resolvedTheme={resolvedTheme}
                     disableControls={disableControls}
+                    readOnly={readOnly}
                     deleting={deleting}
                     statusUpdating={statusUpdating}
                     quotaFilterType={quotaFilterType}
@@ -874,7 +878,7 @@ export function AuthFilesPage() {
       </Card>
 
       <OAuthExcludedCard
-        disableControls={disableControls}
+        disableControls={disableMutations}
         excludedError={excludedError}
         excluded={excluded}
         onAdd={() => openExcludedEditor()}
@@ -883,7 +887,7 @@ export function AuthFilesPage() {
       />
 
       <OAuthModelAliasCard
-        disableControls={disableControls}
+        disableControls={disableMutations}
         viewMode={viewMode}
         onViewModeChange={setViewMode}
         onAdd={() => openModelAliasEditor()}
@@ -912,7 +916,7 @@ export function AuthFilesPage() {
       />
 
       <AuthFilesPrefixProxyEditorModal
-        disableControls={disableControls}
+        disableControls={disableMutations}
         editor={prefixProxyEditor}
         updatedText={prefixProxyUpdatedText}
         dirty={prefixProxyDirty}
@@ -986,7 +990,7 @@ export function AuthFilesPage() {
                     variant="danger"
                     size="sm"
                     onClick={() => batchDelete(selectedNames)}
-                    disabled={disableControls || selectedNames.length === 0}
+                    disabled={disableMutations || selectedNames.length === 0}
                   >
                     {t('common.delete')}
                   </Button>
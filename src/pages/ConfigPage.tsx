@@ -1,4 +1,13 @@
-import { Suspense, lazy, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import {
+  Suspense,
+  lazy,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { useTranslation } from 'react-i18next';
 import { createPortal } from 'react-dom';
 import type { ReactCodeMirrorRef } from '@uiw/react-codemirror';
@@ -10,21 +19,56 @@ import {
   IconCheck,
   IconChevronDown,
   IconChevronUp,
+  IconHistory,
+  IconRedo,
   IconRefreshCw,
   IconSearch,
+  IconShield,
+  IconSlidersHorizontal,
+  IconUndo,
 } from '@/components/ui/icons';
 import { VisualConfigEditor } from '@/components/config/VisualConfigEditor';
 import { DiffModal } from '@/components/config/DiffModal';
+import {
+  ConfigHistoryModal,
+  type ConfigHistoryCompareTarget,
+} from '@/components/config/ConfigHistoryModal';
+import { ConfigFindingsModal } from '@/components/config/ConfigFindingsModal';
+import { ConfigMigrationsModal } from '@/components/config/ConfigMigrationsModal';
+import { ConfigPresetsModal } from '@/components/config/ConfigPresetsModal';
 import { useMediaQuery } from '@/hooks/useMediaQuery';
 import { useVisualConfig } from '@/hooks/useVisualConfig';
-import { useNotificationStore, useAuthStore, useThemeStore, useConfigStore } from '@/stores';
+import {
+  getPassphraseSessionKey,
+  useNotificationStore,
+  useAuthStore,
+  useThemeStore,
+  useConfigStore,
+} from '@/stores';
 import { configFileApi } from '@/services/api/configFile';
+import { appendConfigSnapshot } from '@/services/configHistory';
+import type { ConfigPreset, ConfigSnapshot } from '@/types';
 import { saveStoredApiKeyNames } from '@/utils/apiKeyNames';
+import { formatConfigLintIssue, lintConfigYaml } from '@/utils/configLint';
+import { applyConfigMigrations, detectConfigMigrations } from '@/utils/configMigrations';
+import { applyConfigPreset } from '@/utils/configPresets';
+import { formatDateTime } from '@/utils/format';
+import { buildMergedText, computeThreeWayMerge } from '@/utils/threeWayMerge';
 import styles from './ConfigPage.module.scss';
 
 type ConfigEditorTab = 'visual' | 'source';
 
+type ConfigMergeState = {
+  id: number;
+  base: string;
+  ours: string;
+  theirs: string;
+  // 合并时服务端的原始 YAML，保存成功后留存为快照
+  serverYaml: string;
+};
+
 const LazyConfigSourceEditor = lazy(() => import('@/components/config/ConfigSourceEditor'));
+const LazyConfigMergeModal = lazy(() => import('@/components/config/ConfigMergeModal'));
 
 function readCommercialModeFromYaml(yamlContent: string): boolean {
   try {
@@ -36,13 +80,34 @@ function readCommercialModeFromYaml(yamlContent: string): boolean {
   }
 }
 
+function normalizeYamlForDiff(yamlContent: string): string {
+  try {
+    const doc = parseDocument(yamlContent);
+    return doc.toString({ indent: 2, lineWidth: 120, minContentWidth: 0 });
+  } catch {
+    /* keep raw on parse failure */
+    return yamlContent;
+  }
+}
+
+// 输入框、源码编辑器等自带撤销；只有可视化编辑器中绑定配置值的字段（data-visual-history="on"）改用配置历史
+function hasNativeUndo(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (!target.isContentEditable && !target.closest('input, textarea, select, .cm-editor')) {
+    return false;
+  }
+  return target.closest('[data-visual-history]')?.getAttribute('data-visual-history') !== 'on';
+}
+
 export function ConfigPage() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const pageTransitionLayer = usePageTransitionLayer();
   const isCurrentLayer = pageTransitionLayer ? pageTransitionLayer.isCurrentLayer : true;
   const showNotification = useNotificationStore((state) => state.showNotification);
   const showConfirmation = useNotificationStore((state) => state.showConfirmation);
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const readOnly = useAuthStore((state) => state.readOnly);
+  const apiBase = useAuthStore((state) => state.apiBase);
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
   const isMobile = useMediaQuery('(max-width: 768px)');
   const clearConfigCache = useConfigStore((state) => state.clearCache);
@@ -57,6 +122,10 @@ export function ConfigPage() {
     loadVisualValuesFromYaml,
     applyVisualChangesToYaml,
     setVisualValues,
+    canUndoVisual,
+    canRedoVisual,
+    undoVisual,
+    redoVisual,
   } = useVisualConfig();
 
   const [activeTab, setActiveTab] = useState<ConfigEditorTab>(() => {
@@ -71,8 +140,23 @@ export function ConfigPage() {
   const [error, setError] = useState('');
   const [dirty, setDirty] = useState(false);
   const [diffModalOpen, setDiffModalOpen] = useState(false);
+  // 只有用户自己的编辑允许按差异块部分保存；预设、迁移与回滚须整体确认
+  const [diffHunkSelection, setDiffHunkSelection] = useState(true);
   const [serverYaml, setServerYaml] = useState('');
   const [mergedYaml, setMergedYaml] = useState('');
+  // 最近一次从服务端读取的原始 YAML，供历史版本与当前版本对比
+  const [loadedYaml, setLoadedYaml] = useState('');
+  const [snapshotMessage, setSnapshotMessage] = useState('');
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [findingsOpen, setFindingsOpen] = useState(false);
+  const [presetsOpen, setPresetsOpen] = useState(false);
+  const [migrationsOpen, setMigrationsOpen] = useState(false);
+  const [historyCompareOpen, setHistoryCompareOpen] = useState(false);
+  const [historyCompare, setHistoryCompare] = useState<ConfigHistoryCompareTarget | null>(null);
+  // 打开保存确认时服务端的原始 YAML，保存成功后作为快照留存
+  const snapshotBaseRef = useRef<string | null>(null);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [mergeState, setMergeState] = useState<ConfigMergeState | null>(null);
 
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
@@ -85,6 +169,7 @@ export function ConfigPage() {
   const floatingActionsRef = useRef<HTMLDivElement>(null);
 
   const disableControls = connectionStatus !== 'connected';
+  const disableEditing = disableControls || readOnly;
   const isDirty = dirty || visualDirty;
   const shouldRenderFloatingActions = isCurrentLayer;
   const hasVisualModeError = !!visualParseError;
@@ -102,6 +187,7 @@ export function ConfigPage() {
       setDiffModalOpen(false);
       setServerYaml(data);
       setMergedYaml(data);
+      setLoadedYaml(data);
       loadVisualValuesFromYaml(data);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : t('notification.refresh_failed');
@@ -126,22 +212,67 @@ export function ConfigPage() {
     );
   }, [activeTab, showNotification, t, visualParseError]);
 
-  const handleConfirmSave = async () => {
+  const handleConfirmSave = async (acceptedYaml: string = mergedYaml) => {
+    // 只勾选了部分差异块时，保存重建后的内容，其余改动继续留在编辑器中
+    const partial = acceptedYaml !== mergedYaml;
+    if (partial) {
+      const acceptedDocument = parseDocument(acceptedYaml);
+      if (acceptedDocument.errors.length > 0) {
+        showNotification(
+          t('config_management.diff.partial_invalid', {
+            message: acceptedDocument.errors[0]?.message ?? '',
+          }),
+          'error'
+        );
+        return;
+      }
+    }
+
     setSaving(true);
     try {
       const previousCommercialMode = readCommercialModeFromYaml(serverYaml);
-      const nextCommercialMode = readCommercialModeFromYaml(mergedYaml);
+      const nextCommercialMode = readCommercialModeFromYaml(acceptedYaml);
       const commercialModeChanged = previousCommercialMode !== nextCommercialMode;
 
       saveStoredApiKeyNames(visualValues.apiKeys);
-      await configFileApi.saveConfigYaml(mergedYaml);
+      await configFileApi.saveConfigYaml(acceptedYaml);
+
+      const previousYaml = snapshotBaseRef.current;
+      snapshotBaseRef.current = null;
+      // 口令模式下快照随会话密钥加密；尚未解锁时不保存，避免明文落盘
+      const passphraseKey = getPassphraseSessionKey();
+      const passphraseMode = useAuthStore.getState().keyProtection === 'passphrase';
+      if (previousYaml !== null && (!passphraseMode || passphraseKey)) {
+        appendConfigSnapshot(
+          {
+            yaml: previousYaml,
+            createdAt: Date.now(),
+            message: snapshotMessage.trim(),
+            apiBase,
+          },
+          passphraseKey
+        ).catch((snapshotError: unknown) => {
+          console.warn('Failed to save config snapshot:', snapshotError);
+        });
+      }
+
       const latestContent = await configFileApi.fetchConfigYaml();
-      setDirty(false);
       setDiffModalOpen(false);
-      setContent(latestContent);
       setServerYaml(latestContent);
-      setMergedYaml(latestContent);
+      setLoadedYaml(latestContent);
+      // 已保存的内容成为新的基线；部分保存时未选中的改动（仅来自用户自己的编辑）继续作为未保存的修改保留
       loadVisualValuesFromYaml(latestContent);
+      setMergedYaml(latestContent);
+      if (partial && activeTab === 'source') {
+        setContent(mergedYaml);
+        setDirty(true);
+      } else {
+        setContent(latestContent);
+        setDirty(false);
+        if (partial) {
+          loadVisualValuesFromYaml(mergedYaml, { keepBaseline: true });
+        }
+      }
 
       // Keep the global config store in sync so sidebar / other pages reflect YAML changes immediately.
       try {
@@ -160,7 +291,10 @@ export function ConfigPage() {
         );
       }
 
-      showNotification(t('config_management.save_success'), 'success');
+      showNotification(
+        partial ? t('config_management.diff.partial_saved') : t('config_management.save_success'),
+        'success'
+      );
       if (commercialModeChanged) {
         showNotification(t('notification.commercial_mode_restart_required'), 'warning');
       }
@@ -173,10 +307,24 @@ export function ConfigPage() {
   };
 
   const handleSave = async () => {
+    if (readOnly) return;
     if (activeTab === 'visual' && visualParseError) {
       showNotification(t('config_management.visual_mode_save_blocked'), 'error');
       return;
     }
+    if (activeTab === 'source') {
+      const lintErrors = lintConfigYaml(content).filter((issue) => issue.severity === 'error');
+      if (lintErrors.length > 0) {
+        showNotification(
+          t('config_lint.save_blocked', {
+            errors: lintErrors.length,
+            message: formatConfigLintIssue(t, lintErrors[0]),
+          }),
+          'error'
+        );
+        return;
+      }
+    }
 
     setSaving(true);
     try {
@@ -198,20 +346,34 @@ export function ConfigPage() {
       }
 
       // In source mode, save exactly what the user edited. In visual mode, materialize visual changes into the latest YAML.
-      const nextMergedYaml =
+      let nextMergedYaml =
         activeTab === 'source' ? content : applyVisualChangesToYaml(latestServerYaml);
 
       // In visual mode, applyVisualChangesToYaml re-serializes YAML via parseDocument → toString,
       // which may reformat comments/whitespace. Normalize the server YAML through the same pipeline
       // so the diff only shows actual value changes, not cosmetic reformatting.
-      let diffOriginal = latestServerYaml;
-      if (activeTab !== 'source') {
-        try {
-          const doc = parseDocument(latestServerYaml);
-          diffOriginal = doc.toString({ indent: 2, lineWidth: 120, minContentWidth: 0 });
-        } catch {
-          /* keep raw on parse failure */
+      const diffOriginal =
+        activeTab === 'source' ? latestServerYaml : normalizeYamlForDiff(latestServerYaml);
+
+      // The server copy changed since the editor was opened: three-way merge against the version we
+      // started from instead of silently overwriting the other edits.
+      if (latestServerYaml !== loadedYaml) {
+        const mergeBase = activeTab === 'source' ? loadedYaml : normalizeYamlForDiff(loadedYaml);
+        const mergeOurs = activeTab === 'source' ? content : applyVisualChangesToYaml(loadedYaml);
+        const merge = computeThreeWayMerge(mergeBase, mergeOurs, diffOriginal);
+        if (merge.conflicts > 0) {
+          setMergeState({
+            id: Date.now(),
+            base: mergeBase,
+            ours: mergeOurs,
+            theirs: diffOriginal,
+            serverYaml: latestServerYaml,
+          });
+          setMergeOpen(true);
+          return;
         }
+        nextMergedYaml = buildMergedText(merge);
+        showNotification(t('config_merge.auto_merged', { changes: merge.autoMerged }), 'info');
       }
 
       if (diffOriginal === nextMergedYaml) {
@@ -225,6 +387,7 @@ export function ConfigPage() {
         setContent(latestServerYaml);
         setServerYaml(latestServerYaml);
         setMergedYaml(nextMergedYaml);
+        setLoadedYaml(latestServerYaml);
         loadVisualValuesFromYaml(latestServerYaml);
         showNotification(
           savedLocalNames ? t('config_management.save_success') : t('config_management.diff.no_changes'),
@@ -233,8 +396,11 @@ export function ConfigPage() {
         return;
       }
 
+      snapshotBaseRef.current = latestServerYaml;
+      setSnapshotMessage('');
       setServerYaml(diffOriginal);
       setMergedYaml(nextMergedYaml);
+      setDiffHunkSelection(true);
       setDiffModalOpen(true);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : '';
@@ -263,7 +429,7 @@ export function ConfigPage() {
           }
         }
       } else {
-        const result = loadVisualValuesFromYaml(content);
+        const result = loadVisualValuesFromYaml(content, { preserveHistory: true });
         if (!result.ok) {
           showNotification(
             t('config_management.visual_mode_unavailable_detail', { message: result.error }),
@@ -417,9 +583,51 @@ export function ConfigPage() {
     };
   }, [shouldRenderFloatingActions]);
 
+  const visualHistoryEnabled =
+    activeTab === 'visual' && !disableEditing && !loading && !saving && !hasVisualModeError;
+
+  // 可视化模式下 Ctrl/Cmd+Z 撤销，Ctrl/Cmd+Shift+Z 或 Ctrl+Y 重做
+  useEffect(() => {
+    if (!isCurrentLayer || !visualHistoryEnabled) return;
+    if (diffModalOpen || mergeOpen || historyOpen || findingsOpen || presetsOpen || migrationsOpen)
+      return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || !(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (hasNativeUndo(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redoVisual();
+        } else {
+          undoVisual();
+        }
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault();
+        redoVisual();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [
+    diffModalOpen,
+    findingsOpen,
+    historyOpen,
+    isCurrentLayer,
+    mergeOpen,
+    migrationsOpen,
+    presetsOpen,
+    redoVisual,
+    undoVisual,
+    visualHistoryEnabled,
+  ]);
+
   // Status text
   const getStatusText = () => {
     if (disableControls) return t('config_management.status_disconnected');
+    if (readOnly) return t('read_only.status');
     if (loading) return t('config_management.status_loading');
     if (error) return t('config_management.status_load_failed');
     if (hasVisualModeError) return t('config_management.visual_mode_unavailable');
@@ -441,6 +649,7 @@ export function ConfigPage() {
     if (!isMobile) return getStatusText();
     if (disableControls)
       return t('config_management.status_disconnected_short', { defaultValue: 'Disconnected' });
+    if (readOnly) return t('read_only.badge');
     if (loading) return t('config_management.status_loading_short', { defaultValue: 'Loading' });
     if (error) return t('config_management.status_load_failed_short', { defaultValue: 'Failed' });
     if (hasVisualModeError)
@@ -470,6 +679,170 @@ export function ConfigPage() {
     });
   }, [isDirty, loadConfig, showConfirmation, t]);
 
+  const handleMergeResolved = useCallback(
+    (merged: string) => {
+      if (!mergeState) return;
+      setMergeOpen(false);
+      if (merged === mergeState.theirs) {
+        showNotification(t('config_management.diff.no_changes'), 'info');
+        return;
+      }
+
+      snapshotBaseRef.current = mergeState.serverYaml;
+      setSnapshotMessage('');
+      setServerYaml(mergeState.theirs);
+      setMergedYaml(merged);
+      setDiffHunkSelection(true);
+      setDiffModalOpen(true);
+    },
+    [mergeState, showNotification, t]
+  );
+
+  const handleHistoryCompare = useCallback((target: ConfigHistoryCompareTarget) => {
+    setHistoryCompare(target);
+    setHistoryCompareOpen(true);
+  }, []);
+
+  // 回滚与普通保存走同一套差异确认流程，确认后当前版本同样会留存为快照
+  const handleRestoreSnapshot = useCallback(
+    (snapshot: ConfigSnapshot) => {
+      const startRestore = async () => {
+        setHistoryOpen(false);
+        setSaving(true);
+        try {
+          const latestServerYaml = await configFileApi.fetchConfigYaml();
+          if (latestServerYaml === snapshot.yaml) {
+            showNotification(t('config_history.restore_no_changes'), 'info');
+            return;
+          }
+
+          snapshotBaseRef.current = latestServerYaml;
+          setSnapshotMessage(
+            t('config_history.restore_message', {
+              time: formatDateTime(new Date(snapshot.createdAt), i18n.language),
+            })
+          );
+          setServerYaml(latestServerYaml);
+          setMergedYaml(snapshot.yaml);
+          setDiffHunkSelection(false);
+          setDiffModalOpen(true);
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : '';
+          showNotification(`${t('notification.refresh_failed')}: ${message}`, 'error');
+        } finally {
+          setSaving(false);
+        }
+      };
+
+      if (!isDirty) {
+        void startRestore();
+        return;
+      }
+
+      showConfirmation({
+        title: t('common.unsaved_changes_title'),
+        message: t('config_history.restore_discard_confirm'),
+        confirmText: t('config_history.restore'),
+        cancelText: t('common.cancel'),
+        variant: 'danger',
+        onConfirm: startRestore,
+      });
+    },
+    [i18n.language, isDirty, showConfirmation, showNotification, t]
+  );
+
+  // 预设基于服务端最新的 YAML 生成，确认差异后与普通保存一样留存快照
+  const handleApplyPreset = useCallback(
+    (preset: ConfigPreset, values: Record<string, string>) => {
+      const presetName = preset.titleKey ? t(preset.titleKey) : (preset.name ?? preset.id);
+      const startApply = async () => {
+        setSaving(true);
+        try {
+          const latestServerYaml = await configFileApi.fetchConfigYaml();
+          const nextYaml = applyConfigPreset(latestServerYaml, preset, values);
+          const diffOriginal = normalizeYamlForDiff(latestServerYaml);
+          if (diffOriginal === nextYaml) {
+            showNotification(t('config_presets.no_changes', { name: presetName }), 'info');
+            return;
+          }
+
+          setPresetsOpen(false);
+          snapshotBaseRef.current = latestServerYaml;
+          setSnapshotMessage(t('config_presets.snapshot_message', { name: presetName }));
+          setServerYaml(diffOriginal);
+          setMergedYaml(nextYaml);
+          setDiffHunkSelection(false);
+          setDiffModalOpen(true);
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : '';
+          showNotification(t('config_presets.apply_failed', { message }), 'error');
+        } finally {
+          setSaving(false);
+        }
+      };
+
+      if (!isDirty) {
+        void startApply();
+        return;
+      }
+
+      showConfirmation({
+        title: t('common.unsaved_changes_title'),
+        message: t('config_presets.discard_confirm'),
+        confirmText: t('config_presets.preview'),
+        cancelText: t('common.cancel'),
+        variant: 'danger',
+        onConfirm: startApply,
+      });
+    },
+    [isDirty, showConfirmation, showNotification, t]
+  );
+
+  const migrationFindings = useMemo(() => detectConfigMigrations(loadedYaml), [loadedYaml]);
+
+  // 迁移同样基于服务端最新的 YAML 生成，所有迁移合并在一次差异确认中保存
+  const handleApplyMigrations = useCallback(() => {
+    const startApply = async () => {
+      setSaving(true);
+      try {
+        const latestServerYaml = await configFileApi.fetchConfigYaml();
+        const nextYaml = applyConfigMigrations(latestServerYaml);
+        const diffOriginal = normalizeYamlForDiff(latestServerYaml);
+        if (diffOriginal === nextYaml) {
+          showNotification(t('config_migrations.no_changes'), 'info');
+          return;
+        }
+
+        setMigrationsOpen(false);
+        snapshotBaseRef.current = latestServerYaml;
+        setSnapshotMessage(t('config_migrations.snapshot_message'));
+        setServerYaml(diffOriginal);
+        setMergedYaml(nextYaml);
+        setDiffHunkSelection(false);
+        setDiffModalOpen(true);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : '';
+        showNotification(t('config_migrations.apply_failed', { message }), 'error');
+      } finally {
+        setSaving(false);
+      }
+    };
+
+    if (!isDirty) {
+      void startApply();
+      return;
+    }
+
+    showConfirmation({
+      title: t('common.unsaved_changes_title'),
+      message: t('config_migrations.discard_confirm'),
+      confirmText: t('config_migrations.apply_all'),
+      cancelText: t('common.cancel'),
+      variant: 'danger',
+      onConfirm: startApply,
+    });
+  }, [isDirty, showConfirmation, showNotification, t]);
+
   const floatingActions = (
     <div className={styles.floatingActionContainer} ref={floatingActionsRef}>
       <div className={styles.floatingActionList}>
@@ -480,6 +853,60 @@ export function ConfigPage() {
         >
           {getFloatingStatusText()}
         </div>
+        {activeTab === 'visual' && (
+          <>
+            <button
+              type="button"
+              className={styles.floatingActionButton}
+              onClick={undoVisual}
+              disabled={!visualHistoryEnabled || !canUndoVisual}
+              title={t('config_management.undo')}
+              aria-label={t('config_management.undo')}
+            >
+              <IconUndo size={16} />
+            </button>
+            <button
+              type="button"
+              className={styles.floatingActionButton}
+              onClick={redoVisual}
+              disabled={!visualHistoryEnabled || !canRedoVisual}
+              title={t('config_management.redo')}
+              aria-label={t('config_management.redo')}
+            >
+              <IconRedo size={16} />
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          className={styles.floatingActionButton}
+          onClick={() => setHistoryOpen(true)}
+          disabled={loading || saving || diffModalOpen || mergeOpen}
+          title={t('config_history.open')}
+          aria-label={t('config_history.open')}
+        >
+          <IconHistory size={16} />
+        </button>
+        <button
+          type="button"
+          className={styles.floatingActionButton}
+          onClick={() => setFindingsOpen(true)}
+          disabled={loading}
+          title={t('config_findings.open')}
+          aria-label={t('config_findings.open')}
+        >
+          <IconShield size={16} />
+        </button>
+        <button
+          type="button"
+          className={styles.floatingActionButton}
+          onClick={() => setPresetsOpen(true)}
+          disabled={loading || saving || diffModalOpen || mergeOpen}
+          title={t('config_presets.open')}
+          aria-label={t('config_presets.open')}
+        >
+          <IconSlidersHorizontal size={16} />
+        </button>
         <button
           type="button"
           className={styles.floatingActionButton}
@@ -495,11 +922,12 @@ export function ConfigPage() {
           className={styles.floatingActionButton}
           onClick={handleSave}
           disabled={
-            disableControls ||
+            disableEditing ||
             loading ||
             saving ||
             !isDirty ||
             diffModalOpen ||
+            mergeOpen ||
             hasVisualModeError ||
             hasVisualValidationErrors
           }
@@ -563,12 +991,21 @@ export function ConfigPage() {
             </div>
           )}
 
+          {migrationFindings.length > 0 && (
+            <div className={styles.migrationBanner}>
+              <span>{t('config_migrations.banner', { total: migrationFindings.length })}</span>
+              <Button variant="secondary" size="sm" onClick={() => setMigrationsOpen(true)}>
+                {t('config_migrations.review')}
+              </Button>
+            </div>
+          )}
+
           {activeTab === 'visual' ? (
             <VisualConfigEditor
               values={visualValues}
               validationErrors={visualValidationErrors}
               hasPayloadValidationErrors={visualHasPayloadValidationErrors}
-              disabled={disableControls || loading}
+              disabled={disableEditing || loading}
               onChange={setVisualValues}
             />
           ) : (
@@ -642,7 +1079,7 @@ export function ConfigPage() {
                     value={content}
                     onChange={handleChange}
                     theme={resolvedTheme}
-                    editable={!disableControls && !loading}
+                    editable={!disableEditing && !loading}
                     placeholder={t('config_management.editor_placeholder')}
                   />
                 </Suspense>
@@ -661,7 +1098,56 @@ export function ConfigPage() {
         modified={mergedYaml}
         onConfirm={handleConfirmSave}
         onCancel={() => setDiffModalOpen(false)}
+        hunkSelection={diffHunkSelection}
         loading={saving}
+        snapshotMessage={snapshotMessage}
+        onSnapshotMessageChange={setSnapshotMessage}
+      />
+      {mergeState && (
+        <Suspense fallback={null}>
+          <LazyConfigMergeModal
+            key={mergeState.id}
+            open={mergeOpen}
+            base={mergeState.base}
+            ours={mergeState.ours}
+            theirs={mergeState.theirs}
+            theme={resolvedTheme}
+            onCancel={() => setMergeOpen(false)}
+            onResolve={handleMergeResolved}
+          />
+        </Suspense>
+      )}
+      <ConfigHistoryModal
+        open={historyOpen && !historyCompareOpen}
+        apiBase={apiBase}
+        currentYaml={loadedYaml}
+        restoreDisabled={disableEditing || loading}
+        onClose={() => setHistoryOpen(false)}
+        onCompare={handleHistoryCompare}
+        onRestore={handleRestoreSnapshot}
+      />
+      <ConfigFindingsModal open={findingsOpen} onClose={() => setFindingsOpen(false)} />
+      <ConfigPresetsModal
+        open={presetsOpen}
+        disabled={disableEditing || loading || saving}
+        onClose={() => setPresetsOpen(false)}
+        onApply={handleApplyPreset}
+      />
+      <ConfigMigrationsModal
+        open={migrationsOpen}
+        findings={migrationFindings}
+        disabled={disableEditing || loading}
+        applying={saving}
+        onClose={() => setMigrationsOpen(false)}
+        onApply={handleApplyMigrations}
+      />
+      <DiffModal
+        open={historyCompareOpen}
+        title={t('config_history.compare_title')}
+        fileLabel={historyCompare?.label}
+        original={historyCompare?.original ?? ''}
+        modified={historyCompare?.modified ?? ''}
+        onCancel={() => setHistoryCompareOpen(false)}
       />
     </div>
   );
@@ -7,8 +7,10 @@ import {
   IconFileText,
   IconSatellite
 } from '@/components/ui/icons';
-import { useAuthStore, useConfigStore, useModelsStore } from '@/stores';
-import { apiKeysApi, providersApi, authFilesApi } from '@/services/api';
+import { useQuery } from '@/hooks/useQuery';
+import { useAuthStore, useModelsStore } from '@/stores';
+import { apiKeysApi } from '@/services/api';
+import { authFilesQuery, configQuery } from '@/services/query';
 import styles from './DashboardPage.module.scss';
 
 interface QuickStat {
@@ -43,28 +45,30 @@ export function DashboardPage() {
   const serverVersion = useAuthStore((state) => state.serverVersion);
   const serverBuildDate = useAuthStore((state) => state.serverBuildDate);
   const apiBase = useAuthStore((state) => state.apiBase);
-  const config = useConfigStore((state) => state.config);
+  const connected = connectionStatus === 'connected';
+  // 与配置页、提供商页、认证文件页共用查询缓存，其他页面保存后这里同步更新
+  const { data: config, loading: configLoading } = useQuery(configQuery, { enabled: connected });
+  const { data: authFiles, loading: authFilesLoading } = useQuery(authFilesQuery, {
+    enabled: connected
+  });
 
   const models = useModelsStore((state) => state.models);
   const modelsLoading = useModelsStore((state) => state.loading);
   const fetchModelsFromStore = useModelsStore((state) => state.fetchModels);
 
-  const [stats, setStats] = useState<{
-    apiKeys: number | null;
-    authFiles: number | null;
-  }>({
-    apiKeys: null,
-    authFiles: null
-  });
+  const stats = {
+    apiKeys: config ? (config.apiKeys?.length ?? 0) : null,
+    authFiles: authFiles ? authFiles.length : null
+  };
 
-  const [providerStats, setProviderStats] = useState<ProviderStats>({
-    gemini: null,
-    codex: null,
-    claude: null,
-    openai: null
-  });
+  const providerStats: ProviderStats = {
+    gemini: config ? (config.geminiApiKeys?.length ?? 0) : null,
+    codex: config ? (config.codexApiKeys?.length ?? 0) : null,
+    claude: config ? (config.claudeApiKeys?.length ?? 0) : null,
+    openai: config ? (config.openaiCompatibility?.length ?? 0) : null
+  };
 
-  const [loading, setLoading] = useState(true);
+  const loading = configLoading || authFilesLoading;
 
   // Time-of-day state for dynamic greeting
   const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>(getTimeOfDay);
@@ -148,41 +152,10 @@ export function DashboardPage() {
   }, [connectionStatus, apiBase, resolveApiKeysForModels, fetchModelsFromStore]);
 
   useEffect(() => {
-    const fetchStats = async () => {
-      setLoading(true);
-      try {
-        const [keysRes, filesRes, geminiRes, codexRes, claudeRes, openaiRes] = await Promise.allSettled([
-          apiKeysApi.list(),
-          authFilesApi.list(),
-          providersApi.getGeminiKeys(),
-          providersApi.getCodexConfigs(),
-          providersApi.getClaudeConfigs(),
-          providersApi.getOpenAIProviders()
-        ]);
-
-        setStats({
-          apiKeys: keysRes.status === 'fulfilled' ? keysRes.value.length : null,
-          authFiles: filesRes.status === 'fulfilled' ? filesRes.value.files.length : null
-        });
-
-        setProviderStats({
-          gemini: geminiRes.status === 'fulfilled' ? geminiRes.value.length : null,
-          codex: codexRes.status === 'fulfilled' ? codexRes.value.length : null,
-          claude: claudeRes.status === 'fulfilled' ? claudeRes.value.length : null,
-          openai: openaiRes.status === 'fulfilled' ? openaiRes.value.length : null
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    if (connectionStatus === 'connected') {
-      fetchStats();
+    if (connected) {
       fetchModels();
-    } else {
-      setLoading(false);
     }
-  }, [connectionStatus, fetchModels]);
+  }, [connected, fetchModels]);
 
   // Calculate total provider keys only when all provider stats are available.
   const providerStatsReady =
@@ -0,0 +1,249 @@
+/**
+ * Fleet overview - probes every saved connection profile in parallel.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { IconRefreshCw } from '@/components/ui/icons';
+import { useHeaderRefresh } from '@/hooks/useHeaderRefresh';
+import { useAuthStore } from '@/stores';
+import { fleetApi } from '@/services/api';
+import type { FleetInstanceSnapshot, FleetInstanceTarget } from '@/types';
+import { MIN_BACKEND_VERSION } from '@/utils/constants';
+import { isBelowMinimumVersion } from '@/utils/version';
+import styles from './FleetPage.module.scss';
+
+type InstanceState =
+  | { status: 'loading' }
+  | { status: 'missing-key' }
+  | { status: 'done'; snapshot: FleetInstanceSnapshot };
+
+interface FleetInstance {
+  id: string;
+  name: string;
+  apiBase: string;
+  managementKey: string;
+  isCurrent: boolean;
+}
+
+const formatVersion = (version: string | null) =>
+  version ? `v${version.trim().replace(/^[vV]+/, '')}` : '-';
+
+export function FleetPage() {
+  const { t, i18n } = useTranslation();
+  const profiles = useAuthStore((state) => state.profiles);
+  const activeProfileId = useAuthStore((state) => state.activeProfileId);
+  const currentKey = useAuthStore((state) => state.managementKey);
+
+  const [states, setStates] = useState<Record<string, InstanceState>>({});
+  const [refreshing, setRefreshing] = useState(false);
+  const probeTokenRef = useRef(0);
+
+  const instances = useMemo<FleetInstance[]>(
+    () =>
+      profiles.map((profile) => {
+        const isCurrent = profile.id === activeProfileId;
+        return {
+          id: profile.id,
+          name: profile.name,
+          apiBase: profile.apiBase,
+          // 当前连接的配置档即使未保存密钥，也可以使用当前会话的密钥
+          managementKey: profile.managementKey || (isCurrent ? currentKey : ''),
+          isCurrent,
+        };
+      }),
+    [activeProfileId, currentKey, profiles]
+  );
+
+  const probeAll = useCallback(async () => {
+    const token = (probeTokenRef.current += 1);
+    setRefreshing(true);
+    setStates(
+      Object.fromEntries(
+        instances.map((instance) => [
+          instance.id,
+          instance.managementKey ? { status: 'loading' } : { status: 'missing-key' },
+        ])
+      )
+    );
+
+    await Promise.all(
+      instances
+        .filter((instance) => instance.managementKey)
+        .map(async (instance) => {
+          const target: FleetInstanceTarget = {
+            id: instance.id,
+            name: instance.name,
+            apiBase: instance.apiBase,
+            managementKey: instance.managementKey,
+          };
+          const snapshot = await fleetApi.probeInstance(target);
+          if (token !== probeTokenRef.current) return;
+          setStates((prev) => ({ ...prev, [instance.id]: { status: 'done', snapshot } }));
+        })
+    );
+
+    if (token === probeTokenRef.current) {
+      setRefreshing(false);
+    }
+  }, [instances]);
+
+  useHeaderRefresh(probeAll);
+
+  useEffect(() => {
+    let cancelled = false;
+    queueMicrotask(() => {
+      if (cancelled) return;
+      void probeAll();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [probeAll]);
+
+  const renderSnapshot = (snapshot: FleetInstanceSnapshot) => {
+    const outdated = isBelowMinimumVersion(snapshot.version);
+    const providerTotal = snapshot.providers
+      ? Object.values(snapshot.providers).reduce((sum, count) => sum + count, 0)
+      : null;
+
+    return (
+      <>
+        <div className={styles.statusRow}>
+          {snapshot.reachable ? (
+            <span className={`${styles.statusBadge} ${styles.online}`}>
+              {t('fleet.status_online')}
+              {snapshot.latencyMs !== null && ` · ${snapshot.latencyMs} ms`}
+            </span>
+          ) : (
+            <span className={`${styles.statusBadge} ${styles.offline}`}>
+              {snapshot.errorStatus === 401
+                ? t('fleet.status_unauthorized')
+                : t('fleet.status_offline')}
+            </span>
+          )}
+          <span className={styles.version}>{formatVersion(snapshot.version)}</span>
+          {outdated && (
+            <span
+              className={`${styles.statusBadge} ${styles.warning}`}
+              title={t('fleet.outdated_hint', { min: MIN_BACKEND_VERSION })}
+            >
+              {t('fleet.outdated', { min: MIN_BACKEND_VERSION })}
+            </span>
+          )}
+        </div>
+
+        {!snapshot.reachable && snapshot.error && (
+          <div className={styles.errorText}>{snapshot.error}</div>
+        )}
+
+        {snapshot.reachable && (
+          <dl className={styles.metrics}>
+            <div className={styles.metric}>
+              <dt>{t('fleet.metric_providers')}</dt>
+              <dd>
+                <span className={styles.metricValue}>{providerTotal ?? '-'}</span>
+                {snapshot.providers && (
+                  <span className={styles.metricDetail}>
+                    {t('fleet.providers_detail', { ...snapshot.providers })}
+                  </span>
+                )}
+              </dd>
+            </div>
+            <div className={styles.metric}>
+              <dt>{t('fleet.metric_auth_files')}</dt>
+              <dd>
+                <span className={styles.metricValue}>{snapshot.authFiles?.total ?? '-'}</span>
+                {snapshot.authFiles && (
+                  <span className={styles.metricDetail}>
+                    {t('fleet.auth_files_detail', { ...snapshot.authFiles })}
+                  </span>
+                )}
+              </dd>
+            </div>
+            <div className={styles.metric}>
+              <dt>{t('fleet.metric_success_rate')}</dt>
+              <dd>
+                <span className={styles.metricValue}>
+                  {snapshot.usage?.successRate != null
+                    ? `${(snapshot.usage.successRate * 100).toFixed(1)}%`
+                    : '-'}
+                </span>
+                {snapshot.usage && (
+                  <span className={styles.metricDetail}>
+                    {t('fleet.usage_detail', {
+                      success: snapshot.usage.success,
+                      failed: snapshot.usage.failed,
+                    })}
+                  </span>
+                )}
+              </dd>
+            </div>
+          </dl>
+        )}
+
+        <div className={styles.checkedAt}>
+          {t('fleet.checked_at', {
+            time: new Date(snapshot.checkedAt).toLocaleTimeString(i18n.language),
+          })}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.pageHeader}>
+        <div className={styles.titleRow}>
+          <h1 className={styles.pageTitle}>{t('fleet.title')}</h1>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => void probeAll()}
+            loading={refreshing}
+            disabled={instances.length === 0}
+          >
+            {!refreshing && <IconRefreshCw size={14} />}
+            {t('common.refresh')}
+          </Button>
+        </div>
+        <p className={styles.description}>{t('fleet.description', { min: MIN_BACKEND_VERSION })}</p>
+      </div>
+
+      {instances.length === 0 ? (
+        <EmptyState title={t('fleet.empty_title')} description={t('fleet.empty_desc')} />
+      ) : (
+        <div className={styles.grid}>
+          {instances.map((instance) => {
+            const state = states[instance.id];
+            return (
+              <section
+                key={instance.id}
+                className={`${styles.instanceCard} ${instance.isCurrent ? styles.current : ''}`}
+              >
+                <header className={styles.instanceHeader}>
+                  <span className={styles.instanceName}>{instance.name}</span>
+                  {instance.isCurrent && (
+                    <span className={styles.currentBadge}>{t('fleet.current')}</span>
+                  )}
+                </header>
+                <div className={styles.instanceBase}>{instance.apiBase}</div>
+
+                {!state || state.status === 'loading' ? (
+                  <div className={styles.placeholder}>{t('common.loading')}</div>
+                ) : state.status === 'missing-key' ? (
+                  <div className={styles.placeholder}>{t('fleet.missing_key')}</div>
+                ) : (
+                  renderSnapshot(state.snapshot)
+                )}
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,26 @@
 import React, { useEffect, useMemo, useState, useCallback } from 'react';
 import { Navigate, useNavigate, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import { ConnectionTroubleshooter } from '@/components/login/ConnectionTroubleshooter';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { SelectionCheckbox } from '@/components/ui/SelectionCheckbox';
 import { IconEye, IconEyeOff } from '@/components/ui/icons';
-import { useAuthStore, useLanguageStore, useNotificationStore } from '@/stores';
+import {
+  useAuthStore,
+  useLanguageStore,
+  useNotificationStore,
+  useSessionLockStore
+} from '@/stores';
 import { detectApiBaseFromLocation, normalizeApiBase } from '@/utils/connection';
 import { LANGUAGE_LABEL_KEYS, LANGUAGE_ORDER } from '@/utils/constants';
 import { isSupportedLanguage } from '@/utils/language';
+import {
+  isPassphraseEncryptionSupported,
+  PASSPHRASE_INVALID_ERROR,
+  PASSPHRASE_UNSUPPORTED_ERROR
+} from '@/utils/encryption';
 import { INLINE_LOGO_JPEG } from '@/assets/logoInline';
 import type { ApiError } from '@/types';
 import styles from './LoginPage.module.scss';
@@ -32,6 +43,14 @@ function getLocalizedErrorMessage(error: unknown, t: (key: string) => string): s
           ? error
           : '';
 
+  // 口令加密相关错误
+  if (message === PASSPHRASE_INVALID_ERROR) {
+    return t('login.passphrase_invalid');
+  }
+  if (message === PASSPHRASE_UNSUPPORTED_ERROR) {
+    return t('login.passphrase_unsupported');
+  }
+
   // 根据 HTTP 状态码判断
   if (status === 401) {
     return t('login.error_unauthorized');
@@ -79,6 +98,10 @@ export function LoginPage() {
   const storedBase = useAuthStore((state) => state.apiBase);
   const storedKey = useAuthStore((state) => state.managementKey);
   const storedRememberPassword = useAuthStore((state) => state.rememberPassword);
+  const keyProtection = useAuthStore((state) => state.keyProtection);
+  const storedReadOnly = useAuthStore((state) => state.readOnly);
+  const disablePassphraseProtection = useAuthStore((state) => state.disablePassphraseProtection);
+  const unlockWithPassphrase = useAuthStore((state) => state.unlockWithPassphrase);
 
   const [apiBase, setApiBase] = useState('');
   const [managementKey, setManagementKey] = useState('');
@@ -89,7 +112,13 @@ export function LoginPage() {
   const [autoLoading, setAutoLoading] = useState(true);
   const [autoLoginSuccess, setAutoLoginSuccess] = useState(false);
   const [error, setError] = useState('');
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockMode, setUnlockMode] = useState(false);
+  const [readOnly, setReadOnly] = useState(storedReadOnly);
+  const [troubleshootOpen, setTroubleshootOpen] = useState(false);
 
+  const passphraseSupported = useMemo(() => isPassphraseEncryptionSupported(), []);
   const detectedBase = useMemo(() => detectApiBaseFromLocation(), []);
   const languageOptions = useMemo(
     () =>
@@ -121,9 +150,15 @@ export function LoginPage() {
             navigate(redirect, { replace: true });
           }, 1500);
         } else {
-          setApiBase(storedBase || detectedBase);
-          setManagementKey(storedKey || '');
-          setRememberPassword(storedRememberPassword || Boolean(storedKey));
+          const { apiBase: restoredBase, managementKey: restoredKey, passphraseRequired } =
+            useAuthStore.getState();
+          setApiBase(restoredBase || storedBase || detectedBase);
+          // 会话锁定后需重新输入密钥，不回填已保存的密钥
+          const sessionLocked = useSessionLockStore.getState().locked;
+          setManagementKey(sessionLocked ? '' : restoredKey || storedKey || '');
+          setRememberPassword(storedRememberPassword || Boolean(storedKey) || passphraseRequired);
+          setUsePassphrase(useAuthStore.getState().keyProtection === 'passphrase');
+          setUnlockMode(passphraseRequired);
         }
       } finally {
         if (!autoLoginSuccess) {
@@ -142,6 +177,12 @@ export function LoginPage() {
       return;
     }
 
+    const protectWithPassphrase = rememberPassword && usePassphrase && passphraseSupported;
+    if (protectWithPassphrase && !passphrase) {
+      setError(t('login.passphrase_required'));
+      return;
+    }
+
     const baseToUse = apiBase ? normalizeApiBase(apiBase) : detectedBase;
     setLoading(true);
     setError('');
@@ -149,8 +190,13 @@ export function LoginPage() {
       await login({
         apiBase: baseToUse,
         managementKey: managementKey.trim(),
-        rememberPassword
+        rememberPassword,
+        readOnly,
+        passphrase: protectWithPassphrase ? passphrase : undefined
       });
+      if (!protectWithPassphrase && keyProtection === 'passphrase') {
+        disablePassphraseProtection();
+      }
       showNotification(t('common.connected_status'), 'success');
       navigate('/', { replace: true });
     } catch (err: unknown) {
@@ -160,16 +206,67 @@ export function LoginPage() {
     } finally {
       setLoading(false);
     }
-  }, [apiBase, detectedBase, login, managementKey, navigate, rememberPassword, showNotification, t]);
+  }, [
+    apiBase,
+    detectedBase,
+    disablePassphraseProtection,
+    keyProtection,
+    login,
+    managementKey,
+    navigate,
+    passphrase,
+    passphraseSupported,
+    readOnly,
+    rememberPassword,
+    showNotification,
+    t,
+    usePassphrase
+  ]);
+
+  const handleUnlock = useCallback(async () => {
+    if (!passphrase) {
+      setError(t('login.passphrase_required'));
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      await unlockWithPassphrase(passphrase);
+      setPassphrase('');
+      showNotification(t('common.connected_status'), 'success');
+      const redirect = (location.state as RedirectState | null)?.from?.pathname || '/';
+      navigate(redirect, { replace: true });
+    } catch (err: unknown) {
+      const message = getLocalizedErrorMessage(err, t);
+      setError(message);
+      showNotification(`${t('notification.login_failed')}: ${message}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [location.state, navigate, passphrase, showNotification, t, unlockWithPassphrase]);
+
+  const handleForgetSavedKey = useCallback(() => {
+    disablePassphraseProtection();
+    setUnlockMode(false);
+    setUsePassphrase(false);
+    setPassphrase('');
+    setManagementKey('');
+    setError('');
+  }, [disablePassphraseProtection]);
 
   const handleSubmitKeyDown = useCallback(
     (event: React.KeyboardEvent) => {
       if (event.key === 'Enter' && !loading) {
         event.preventDefault();
-        handleSubmit();
+        if (unlockMode) {
+          handleUnlock();
+        } else {
+          handleSubmit();
+        }
       }
     },
-    [loading, handleSubmit]
+    [loading, handleSubmit, handleUnlock, unlockMode]
   );
 
   if (isAuthenticated && !autoLoading && !autoLoginSuccess) {
@@ -226,76 +323,161 @@ export function LoginPage() {
                 <div className={styles.subtitle}>{t('login.subtitle')}</div>
               </div>
 
-              <div className={styles.connectionBox}>
-                <div className={styles.label}>{t('login.connection_current')}</div>
-                <div className={styles.value}>{apiBase || detectedBase}</div>
-                <div className={styles.hint}>{t('login.connection_auto_hint')}</div>
-              </div>
+              {unlockMode ? (
+                <>
+                  <div className={styles.connectionBox}>
+                    <div className={styles.label}>{t('login.connection_current')}</div>
+                    <div className={styles.value}>{apiBase || detectedBase}</div>
+                    <div className={styles.hint}>{t('login.unlock_hint')}</div>
+                  </div>
 
-              <div className={styles.toggleAdvanced}>
-                <SelectionCheckbox
-                  checked={showCustomBase}
-                  onChange={setShowCustomBase}
-                  ariaLabel={t('login.custom_connection_label')}
-                  label={t('login.custom_connection_label')}
-                  labelClassName={styles.toggleLabel}
-                />
-              </div>
+                  <Input
+                    autoFocus
+                    label={t('login.passphrase_label')}
+                    placeholder={t('login.passphrase_placeholder')}
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    onKeyDown={handleSubmitKeyDown}
+                  />
 
-              {showCustomBase && (
-                <Input
-                  label={t('login.custom_connection_label')}
-                  placeholder={t('login.custom_connection_placeholder')}
-                  value={apiBase}
-                  onChange={(e) => setApiBase(e.target.value)}
-                  hint={t('login.custom_connection_hint')}
-                />
-              )}
+                  <Button fullWidth onClick={handleUnlock} loading={loading}>
+                    {loading ? t('login.submitting') : t('login.unlock_button')}
+                  </Button>
 
-              <Input
-                autoFocus
-                label={t('login.management_key_label')}
-                placeholder={t('login.management_key_placeholder')}
-                type={showKey ? 'text' : 'password'}
-                value={managementKey}
-                onChange={(e) => setManagementKey(e.target.value)}
-                onKeyDown={handleSubmitKeyDown}
-                rightElement={
-                  <button
-                    type="button"
-                    className="btn btn-ghost btn-sm"
-                    onClick={() => setShowKey((prev) => !prev)}
-                    aria-label={
-                      showKey
-                        ? t('login.hide_key', { defaultValue: '隐藏密钥' })
-                        : t('login.show_key', { defaultValue: '显示密钥' })
-                    }
-                    title={
-                      showKey
-                        ? t('login.hide_key', { defaultValue: '隐藏密钥' })
-                        : t('login.show_key', { defaultValue: '显示密钥' })
+                  <Button variant="ghost" fullWidth onClick={handleForgetSavedKey} disabled={loading}>
+                    {t('login.unlock_forget')}
+                  </Button>
+
+                  {error && <div className={styles.errorBox}>{error}</div>}
+                </>
+              ) : (
+                <>
+                  <div className={styles.connectionBox}>
+                    <div className={styles.label}>{t('login.connection_current')}</div>
+                    <div className={styles.value}>{apiBase || detectedBase}</div>
+                    <div className={styles.hint}>{t('login.connection_auto_hint')}</div>
+                  </div>
+
+                  <div className={styles.toggleAdvanced}>
+                    <SelectionCheckbox
+                      checked={showCustomBase}
+                      onChange={setShowCustomBase}
+                      ariaLabel={t('login.custom_connection_label')}
+                      label={t('login.custom_connection_label')}
+                      labelClassName={styles.toggleLabel}
+                    />
+                  </div>
+
+                  {showCustomBase && (
+                    <Input
+                      label={t('login.custom_connection_label')}
+                      placeholder={t('login.custom_connection_placeholder')}
+                      value={apiBase}
+                      onChange={(e) => setApiBase(e.target.value)}
+                      hint={t('login.custom_connection_hint')}
+                    />
+                  )}
+
+                  <Input
+                    autoFocus
+                    label={t('login.management_key_label')}
+                    placeholder={t('login.management_key_placeholder')}
+                    type={showKey ? 'text' : 'password'}
+                    value={managementKey}
+                    onChange={(e) => setManagementKey(e.target.value)}
+                    onKeyDown={handleSubmitKeyDown}
+                    rightElement={
+                      <button
+                        type="button"
+                        className="btn btn-ghost btn-sm"
+                        onClick={() => setShowKey((prev) => !prev)}
+                        aria-label={
+                          showKey
+                            ? t('login.hide_key', { defaultValue: '隐藏密钥' })
+                            : t('login.show_key', { defaultValue: '显示密钥' })
+                        }
+                        title={
+                          showKey
+                            ? t('login.hide_key', { defaultValue: '隐藏密钥' })
+                            : t('login.show_key', { defaultValue: '显示密钥' })
+                        }
+                      >
+                        {showKey ? <IconEyeOff size={16} /> : <IconEye size={16} />}
+                      </button>
                     }
-                  >
-                    {showKey ? <IconEyeOff size={16} /> : <IconEye size={16} />}
-                  </button>
-                }
-              />
-
-              <div className={styles.toggleAdvanced}>
-                <SelectionCheckbox
-                  checked={rememberPassword}
-                  onChange={setRememberPassword}
-                  ariaLabel={t('login.remember_password_label')}
-                  label={t('login.remember_password_label')}
-                  labelClassName={styles.toggleLabel}
-                />
-              </div>
+                  />
+
+                  <div className={styles.toggleAdvanced}>
+                    <SelectionCheckbox
+                      checked={rememberPassword}
+                      onChange={setRememberPassword}
+                      ariaLabel={t('login.remember_password_label')}
+                      label={t('login.remember_password_label')}
+                      labelClassName={styles.toggleLabel}
+                    />
+                  </div>
+
+                  {rememberPassword && passphraseSupported && (
+                    <div className={styles.toggleAdvanced}>
+                      <SelectionCheckbox
+                        checked={usePassphrase}
+                        onChange={setUsePassphrase}
+                        ariaLabel={t('login.passphrase_toggle_label')}
+                        label={t('login.passphrase_toggle_label')}
+                        labelClassName={styles.toggleLabel}
+                      />
+                    </div>
+                  )}
 
-              <Button fullWidth onClick={handleSubmit} loading={loading}>
-                {loading ? t('login.submitting') : t('login.submit_button')}
-              </Button>
+                  {rememberPassword && passphraseSupported && usePassphrase && (
+                    <Input
+                      label={t('login.passphrase_label')}
+                      placeholder={t('login.passphrase_placeholder')}
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      onKeyDown={handleSubmitKeyDown}
+                      hint={t('login.passphrase_hint')}
+                    />
+                  )}
 
-              {error && <div className={styles.errorBox}>{error}</div>}
+                  <div className={styles.toggleAdvanced}>
+                    <SelectionCheckbox
+                      checked={readOnly}
+                      onChange={setReadOnly}
+                      ariaLabel={t('read_only.login_toggle_label')}
+                      label={t('read_only.login_toggle_label')}
+                      labelClassName={styles.toggleLabel}
+                    />
+                  </div>
+
+                  <Button fullWidth onClick={handleSubmit} loading={loading}>
+                    {loading ? t('login.submitting') : t('login.submit_button')}
+                  </Button>
+
+                  {error && (
+                    <>
+                      <div className={styles.errorBox}>{error}</div>
+                      <Button
+                        variant="ghost"
+                        fullWidth
+                        onClick={() => setTroubleshootOpen(true)}
+                        disabled={loading}
+                      >
+                        {t('login_troubleshoot.open_button')}
+                      </Button>
+                    </>
+                  )}
+
+                  <ConnectionTroubleshooter
+                    open={troubleshootOpen}
+                    apiBase={apiBase || detectedBase}
+                    managementKey={managementKey}
+                    onClose={() => setTroubleshootOpen(false)}
+                  />
+                </>
+              )}
             </div>
           </div>
         )}
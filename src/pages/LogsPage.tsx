@@ -22,8 +22,15 @@ import {
 } from '@/components/ui/icons';
 import { useHeaderRefresh } from '@/hooks/useHeaderRefresh';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
-import { useAuthStore, useConfigStore, useNotificationStore } from '@/stores';
+import {
+  useAuthStore,
+  useCapabilityStore,
+  useConfigStore,
+  useNotificationStore,
+  useSessionLockStore
+} from '@/stores';
 import { logsApi } from '@/services/api/logs';
+import { isUnsupportedEndpointError } from '@/services/api/capabilities';
 import { copyToClipboard } from '@/utils/clipboard';
 import { downloadBlob } from '@/utils/download';
 import { MANAGEMENT_API_PREFIX } from '@/utils/constants';
@@ -67,6 +74,10 @@ export function LogsPage() {
   const { t } = useTranslation();
   const { showNotification, showConfirmation } = useNotificationStore();
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const sessionLocked = useSessionLockStore((state) => state.locked);
+  const errorLogsUnsupported = useCapabilityStore(
+    (state) => state.capabilities.requestErrorLogs === 'unsupported'
+  );
   const config = useConfigStore((state) => state.config);
   const requestLogEnabled = config?.requestLog ?? false;
 
@@ -217,7 +228,10 @@ export function LogsPage() {
   };
 
   const loadErrorLogs = async () => {
-    if (connectionStatus !== 'connected') {
+    if (
+      connectionStatus !== 'connected' ||
+      useCapabilityStore.getState().isUnsupported('requestErrorLogs')
+    ) {
       setLoadingErrors(false);
       return;
     }
@@ -229,8 +243,13 @@ export function LogsPage() {
       // API 返回 { files: [...] }
       setErrorLogs(Array.isArray(res.files) ? res.files : []);
     } catch (err: unknown) {
-      console.error('Failed to load error logs:', err);
       setErrorLogs([]);
+      // 旧版后端没有错误日志接口，改为展示升级说明
+      if (isUnsupportedEndpointError(err)) {
+        useCapabilityStore.getState().markUnsupported('requestErrorLogs');
+        return;
+      }
+      console.error('Failed to load error logs:', err);
       const message = getErrorMessage(err);
       setErrorLogsError(
         message ? `${t('logs.error_logs_load_error')}: ${message}` : t('logs.error_logs_load_error')
@@ -270,7 +289,7 @@ export function LogsPage() {
   }, [activeTab, connectionStatus, requestLogEnabled]);
 
   useEffect(() => {
-    if (!autoRefresh || connectionStatus !== 'connected') {
+    if (!autoRefresh || connectionStatus !== 'connected' || sessionLocked) {
       return;
     }
     const id = window.setInterval(() => {
@@ -278,7 +297,7 @@ export function LogsPage() {
     }, 8000);
     return () => window.clearInterval(id);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoRefresh, connectionStatus]);
+  }, [autoRefresh, connectionStatus, sessionLocked]);
 
   const visibleLines = useMemo(
     () => logState.buffer.slice(logState.visibleFrom),
@@ -842,7 +861,7 @@ export function LogsPage() {
                 size="sm"
                 onClick={loadErrorLogs}
                 loading={loadingErrors}
-                disabled={disableControls}
+                disabled={disableControls || errorLogsUnsupported}
               >
                 {t('common.refresh')}
               </Button>
@@ -860,7 +879,12 @@ export function LogsPage() {
               {errorLogsError && <div className="error-box">{errorLogsError}</div>}
 
               <div className={styles.errorPanel}>
-                {loadingErrors ? (
+                {errorLogsUnsupported ? (
+                  <EmptyState
+                    title={t('logs.error_logs_unsupported_title')}
+                    description={t('logs.error_logs_unsupported_desc')}
+                  />
+                ) : loadingErrors ? (
                   <div className="hint">{t('common.loading')}</div>
                 ) : errorLogs.length === 0 ? (
                   <div className="hint">{t('logs.error_logs_empty')}</div>
@@ -4,9 +4,12 @@
 
 import { useCallback, useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { EmptyState } from '@/components/ui/EmptyState';
 import { useHeaderRefresh } from '@/hooks/useHeaderRefresh';
-import { useAuthStore } from '@/stores';
-import { authFilesApi, configFileApi } from '@/services/api';
+import { useQuery } from '@/hooks/useQuery';
+import { useAuthStore, useCapabilityStore } from '@/stores';
+import { configFileApi } from '@/services/api';
+import { authFilesQuery } from '@/services/query';
 import {
   QuotaSection,
   ANTIGRAVITY_CONFIG,
@@ -18,38 +21,40 @@ import {
 import type { AuthFileItem } from '@/types';
 import styles from './QuotaPage.module.scss';
 
+const EMPTY_FILES: AuthFileItem[] = [];
+
 export function QuotaPage() {
   const { t } = useTranslation();
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  // 额度查询通过 /api-call 转发，旧版后端没有该接口
+  const apiCallUnsupported = useCapabilityStore(
+    (state) => state.capabilities.apiCall === 'unsupported'
+  );
 
-  const [files, setFiles] = useState<AuthFileItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
+  const { data, loading, error: filesError, refetch: refetchFiles } = useQuery(authFilesQuery);
+  const files = data ?? EMPTY_FILES;
+  const [configError, setConfigError] = useState('');
+  const error = filesError || configError;
 
   const disableControls = connectionStatus !== 'connected';
 
   const loadConfig = useCallback(async () => {
     try {
       await configFileApi.fetchConfigYaml();
+      setConfigError('');
     } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : t('notification.refresh_failed');
-      setError((prev) => prev || errorMessage);
+      setConfigError(errorMessage);
     }
   }, [t]);
 
   const loadFiles = useCallback(async () => {
-    setLoading(true);
-    setError('');
     try {
-      const data = await authFilesApi.list();
-      setFiles(data?.files || []);
-    } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : t('notification.refresh_failed');
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
+      await refetchFiles();
+    } catch {
+      // 错误已记录在查询缓存中
     }
-  }, [t]);
+  }, [refetchFiles]);
 
   const handleHeaderRefresh = useCallback(async () => {
     await Promise.all([loadConfig(), loadFiles()]);
@@ -57,10 +62,18 @@ export function QuotaPage() {
 
   useHeaderRefresh(handleHeaderRefresh);
 
+  // 认证文件列表由 useQuery 加载（有缓存时先展示缓存）
   useEffect(() => {
-    loadFiles();
-    loadConfig();
-  }, [loadFiles, loadConfig]);
+    let cancelled = false;
+    queueMicrotask(() => {
+      if (cancelled) return;
+      void loadConfig();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadConfig]);
 
   return (
     <div className={styles.container}>
@@ -71,36 +84,45 @@ export function QuotaPage() {
 
       {error && <div className={styles.errorBox}>{error}</div>}
 
-      <QuotaSection
-        config={CLAUDE_CONFIG}
-        files={files}
-        loading={loading}
-        disabled={disableControls}
-      />
-      <QuotaSection
-        config={ANTIGRAVITY_CONFIG}
-        files={files}
-        loading={loading}
-        disabled={disableControls}
-      />
-      <QuotaSection
-        config={CODEX_CONFIG}
-        files={files}
-        loading={loading}
-        disabled={disableControls}
-      />
-      <QuotaSection
-        config={GEMINI_CLI_CONFIG}
-        files={files}
-        loading={loading}
-        disabled={disableControls}
-      />
-      <QuotaSection
-        config={KIMI_CONFIG}
-        files={files}
-        loading={loading}
-        disabled={disableControls}
-      />
+      {apiCallUnsupported ? (
+        <EmptyState
+          title={t('quota_management.upgrade_required_title')}
+          description={t('quota_management.upgrade_required_desc')}
+        />
+      ) : (
+        <>
+          <QuotaSection
+            config={CLAUDE_CONFIG}
+            files={files}
+            loading={loading}
+            disabled={disableControls}
+          />
+          <QuotaSection
+            config={ANTIGRAVITY_CONFIG}
+            files={files}
+            loading={loading}
+            disabled={disableControls}
+          />
+          <QuotaSection
+            config={CODEX_CONFIG}
+            files={files}
+            loading={loading}
+            disabled={disableControls}
+          />
+          <QuotaSection
+            config={GEMINI_CLI_CONFIG}
+            files={files}
+            loading={loading}
+            disabled={disableControls}
+          />
+          <QuotaSection
+            config={KIMI_CONFIG}
+            files={files}
+            loading={loading}
+            disabled={disableControls}
+          />
+        </>
+      )}
     </div>
   );
 }
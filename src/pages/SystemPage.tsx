@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
+import { Select } from '@/components/ui/Select';
 import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
 import { IconGithub, IconBookOpen, IconExternalLink, IconCode } from '@/components/ui/icons';
 import {
@@ -10,12 +11,14 @@ import {
   useConfigStore,
   useNotificationStore,
   useModelsStore,
+  useSessionLockStore,
   useThemeStore,
 } from '@/stores';
 import { configApi, versionApi } from '@/services/api';
 import { apiKeysApi } from '@/services/api/apiKeys';
 import { classifyModels } from '@/utils/models';
-import { STORAGE_KEY_AUTH } from '@/utils/constants';
+import { IDLE_LOCK_TIMEOUT_OPTIONS, STORAGE_KEY_AUTH } from '@/utils/constants';
+import { compareVersions } from '@/utils/version';
 import { INLINE_LOGO_JPEG } from '@/assets/logoInline';
 import iconGemini from '@/assets/icons/gemini.svg';
 import iconClaude from '@/assets/icons/claude.svg';
@@ -42,37 +45,14 @@ const MODEL_CATEGORY_ICONS: Record<string, string | { light: string; dark: strin
   minimax: iconMinimax,
 };
 
-const parseVersionSegments = (version?: string | null) => {
-  if (!version) return null;
-  const cleaned = version.trim().replace(/^v/i, '');
-  if (!cleaned) return null;
-  const parts = cleaned
-    .split(/[^0-9]+/)
-    .filter(Boolean)
-    .map((segment) => Number.parseInt(segment, 10))
-    .filter(Number.isFinite);
-  return parts.length ? parts : null;
-};
-
-const compareVersions = (latest?: string | null, current?: string | null) => {
-  const latestParts = parseVersionSegments(latest);
-  const currentParts = parseVersionSegments(current);
-  if (!latestParts || !currentParts) return null;
-  const length = Math.max(latestParts.length, currentParts.length);
-  for (let i = 0; i < length; i++) {
-    const l = latestParts[i] || 0;
-    const c = currentParts[i] || 0;
-    if (l > c) return 1;
-    if (l < c) return -1;
-  }
-  return 0;
-};
-
 export function SystemPage() {
   const { t, i18n } = useTranslation();
   const { showNotification, showConfirmation } = useNotificationStore();
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
   const auth = useAuthStore();
+  const idleTimeoutMinutes = useSessionLockStore((state) => state.idleTimeoutMinutes);
+  const setIdleTimeoutMinutes = useSessionLockStore((state) => state.setIdleTimeoutMinutes);
+  const lockSession = useSessionLockStore((state) => state.lock);
   const config = useConfigStore((state) => state.config);
   const fetchConfig = useConfigStore((state) => state.fetchConfig);
   const clearCache = useConfigStore((state) => state.clearCache);
@@ -206,6 +186,18 @@ export function SystemPage() {
     }
   };
 
+  const idleLockOptions = useMemo(
+    () =>
+      IDLE_LOCK_TIMEOUT_OPTIONS.map((minutes) => ({
+        value: String(minutes),
+        label:
+          minutes === 0
+            ? t('session_lock.timeout_off')
+            : t('session_lock.timeout_minutes', { minutes }),
+      })),
+    [t]
+  );
+
   const handleClearLoginStorage = () => {
     showConfirmation({
       title: t('system_info.clear_login_title', { defaultValue: 'Clear Login Storage' }),
@@ -508,6 +500,22 @@ export function SystemPage() {
           )}
         </Card>
 
+        <Card title={t('session_lock.settings_title')}>
+          <p className={styles.sectionDescription}>{t('session_lock.settings_desc')}</p>
+          <div className={styles.idleLockRow}>
+            <Select
+              value={String(idleTimeoutMinutes)}
+              options={idleLockOptions}
+              onChange={(value) => setIdleTimeoutMinutes(Number(value))}
+              ariaLabel={t('session_lock.timeout_label')}
+              fullWidth={false}
+            />
+            <Button variant="secondary" onClick={lockSession}>
+              {t('session_lock.lock_now')}
+            </Button>
+          </div>
+        </Card>
+
         <Card title={t('system_info.clear_login_title')}>
           <p className={styles.sectionDescription}>{t('system_info.clear_login_desc')}</p>
           <div className={styles.clearLoginActions}>
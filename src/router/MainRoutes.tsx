@@ -21,6 +21,8 @@ import { LogsPage } from '@/pages/LogsPage';
 import { SystemPage } from '@/pages/SystemPage';
 import { ApiEndpointsPage } from '@/pages/ApiEndpointsPage';
 import { AgentSettingsPage } from '@/pages/AgentSettingsPage';
+import { FleetPage } from '@/pages/FleetPage';
+import { ActivityPage } from '@/pages/ActivityPage';
 
 const mainRoutes = [
   { path: '/', element: <DashboardPage /> },
@@ -78,6 +80,8 @@ const mainRoutes = [
   { path: '/system', element: <SystemPage /> },
   { path: '/endpoints', element: <ApiEndpointsPage /> },
   { path: '/agent-settings', element: <AgentSettingsPage /> },
+  { path: '/fleet', element: <FleetPage /> },
+  { path: '/activity', element: <ActivityPage /> },
   { path: '*', element: <Navigate to="/" replace /> },
 ];
 
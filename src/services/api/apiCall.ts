@@ -77,21 +77,36 @@ export const getApiCallErrorMessage = (result: ApiCallResult): string => {
   return message || 'Request failed';
 };
 
+const parseApiCallResponse = (response: Record<string, unknown> | undefined): ApiCallResult => {
+  const statusCode = Number(response?.status_code ?? response?.statusCode ?? 0);
+  const header = (response?.header ?? response?.headers ?? {}) as Record<string, string[]>;
+  const { bodyText, body } = normalizeBody(response?.body);
+
+  return {
+    statusCode,
+    header,
+    bodyText,
+    body
+  };
+};
+
 export const apiCallApi = {
   request: async (
     payload: ApiCallRequest,
     config?: AxiosRequestConfig
-  ): Promise<ApiCallResult> => {
-    const response = await apiClient.post<Record<string, unknown>>('/api-call', payload, config);
-    const statusCode = Number(response?.status_code ?? response?.statusCode ?? 0);
-    const header = (response?.header ?? response?.headers ?? {}) as Record<string, string[]>;
-    const { bodyText, body } = normalizeBody(response?.body);
+  ): Promise<ApiCallResult> =>
+    parseApiCallResponse(
+      await apiClient.post<Record<string, unknown>>('/api-call', payload, config)
+    ),
 
-    return {
-      statusCode,
-      header,
-      bodyText,
-      body
-    };
-  }
+  /**
+   * 查询类调用（模型列表、额度等）：相同的进行中调用共享同一个响应
+   */
+  requestShared: async (
+    payload: ApiCallRequest,
+    config?: AxiosRequestConfig
+  ): Promise<ApiCallResult> =>
+    parseApiCallResponse(
+      await apiClient.postShared<Record<string, unknown>>('/api-call', payload, config)
+    )
 };
@@ -0,0 +1,75 @@
+/**
+ * 后端能力检测
+ * 优先根据版本号推断，无法推断时探测对应接口是否存在
+ */
+
+import { apiClient } from './client';
+import type { ApiError, CapabilityId, CapabilityStatus } from '@/types';
+import { MIN_BACKEND_VERSION } from '@/utils/constants';
+import { compareVersions } from '@/utils/version';
+
+const PROBE_TIMEOUT_MS = 10 * 1000;
+
+interface CapabilityDefinition {
+  // 自该版本起一定提供，版本已知且不低于此值时无需探测
+  sinceVersion?: string;
+  probe: () => Promise<unknown>;
+}
+
+export const CAPABILITY_DEFINITIONS: Record<CapabilityId, CapabilityDefinition> = {
+  oauthExcludedModels: {
+    sinceVersion: MIN_BACKEND_VERSION,
+    probe: () => apiClient.get('/oauth-excluded-models', { timeout: PROBE_TIMEOUT_MS }),
+  },
+  oauthModelAlias: {
+    sinceVersion: MIN_BACKEND_VERSION,
+    probe: () => apiClient.get('/oauth-model-alias', { timeout: PROBE_TIMEOUT_MS }),
+  },
+  apiCall: {
+    sinceVersion: MIN_BACKEND_VERSION,
+    // 空请求会被参数校验拒绝，只要不是 404 即说明接口存在
+    probe: () => apiClient.post('/api-call', {}, { timeout: PROBE_TIMEOUT_MS }),
+  },
+  requestErrorLogs: {
+    probe: () => apiClient.get('/request-error-logs', { timeout: PROBE_TIMEOUT_MS }),
+  },
+  // 读写 ~/.claude/settings.json 的代理接口，仅部分后端提供
+  agentSettings: {
+    probe: () => apiClient.get('/manage/agent/claude-settings', { timeout: PROBE_TIMEOUT_MS }),
+  },
+};
+
+export const CAPABILITY_IDS = Object.keys(CAPABILITY_DEFINITIONS) as CapabilityId[];
+
+/**
+ * 接口不存在（404 / 405）时视为后端不支持
+ */
+export const isUnsupportedEndpointError = (error: unknown): boolean => {
+  const status = (error as Partial<ApiError> | null)?.status;
+  return status === 404 || status === 405;
+};
+
+export const capabilitiesApi = {
+  /**
+   * 根据版本号推断能力，无法推断时返回 null
+   */
+  inferFromVersion(id: CapabilityId, version: string | null): CapabilityStatus | null {
+    const sinceVersion = CAPABILITY_DEFINITIONS[id].sinceVersion;
+    if (!sinceVersion || !version) return null;
+    const comparison = compareVersions(version, sinceVersion);
+    return comparison !== null && comparison >= 0 ? 'supported' : null;
+  },
+
+  /**
+   * 探测接口：404 / 405 视为不支持，其他 HTTP 错误说明接口存在，网络错误则结果未知
+   */
+  async probe(id: CapabilityId): Promise<CapabilityStatus> {
+    try {
+      await CAPABILITY_DEFINITIONS[id].probe();
+      return 'supported';
+    } catch (error: unknown) {
+      if (isUnsupportedEndpointError(error)) return 'unsupported';
+      return typeof (error as Partial<ApiError>)?.status === 'number' ? 'supported' : 'unknown';
+    }
+  },
+};
@@ -4,20 +4,121 @@
  */
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import type { ApiClientConfig, ApiError } from '@/types';
+import type { ApiClientConfig, ApiError, ReadOnlyModeError } from '@/types';
 import {
   BUILD_DATE_HEADER_KEYS,
+  READ_ONLY_ALLOWED_POST_PATHS,
   REQUEST_TIMEOUT_MS,
   VERSION_HEADER_KEYS
 } from '@/utils/constants';
 import { computeApiUrl } from '@/utils/connection';
 
-class ApiClient {
+export interface ServerVersionInfo {
+  version: string | null;
+  buildDate: string | null;
+}
+
+export interface ApiClientOptions {
+  /**
+   * 是否广播全局事件（unauthorized / server-version-update）。
+   * 仅当前会话使用的单例需要，按实例创建的客户端不应影响当前会话。
+   */
+  broadcastEvents?: boolean;
+  onServerVersion?: (info: ServerVersionInfo) => void;
+}
+
+export interface MutationRequestInfo {
+  method: string;
+  url: string;
+  data?: unknown;
+}
+
+export interface MutationResultInfo {
+  ok: boolean;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * 写请求观察者：请求发出前调用，可返回一个在请求结束后调用的回调
+ */
+export type MutationObserver = (
+  request: MutationRequestInfo
+) => ((result: MutationResultInfo) => void) | void;
+
+export const READ_ONLY_ERROR_CODE = 'READ_ONLY_MODE';
+export const REQUEST_CANCELED_CODE = 'ERR_CANCELED';
+
+export const isReadOnlyModeError = (error: unknown): error is ReadOnlyModeError =>
+  error instanceof Error && (error as ApiError).code === READ_ONLY_ERROR_CODE;
+
+/**
+ * 请求是否因 AbortSignal 被取消（离开页面等），调用方通常应静默忽略
+ */
+export const isRequestCanceledError = (error: unknown): boolean =>
+  axios.isCancel(error) ||
+  (error instanceof Error && (error as ApiError).code === REQUEST_CANCELED_CODE);
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+const normalizeRequestPath = (url: string) => url.split(/[?#]/)[0].replace(/\/+$/, '');
+
+// 仅用于读取数据的 POST（如额度查询），不视为写操作
+const isReadStylePost = (method: string, url: string) =>
+  method === 'POST' && READ_ONLY_ALLOWED_POST_PATHS.includes(normalizeRequestPath(url));
+
+const isPlainRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// 与键顺序无关的序列化，用作去重签名
+const stableSerialize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableSerialize).join(',')}]`;
+  }
+  if (isPlainRecord(value)) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableSerialize(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// 请求头名不区分大小写，统一为小写后参与签名
+const normalizeHeaderNames = (headers: unknown) =>
+  isPlainRecord(headers)
+    ? Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]))
+    : headers;
+
+interface SharedRead {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  // 仍在等待结果的调用方数量；未传入 signal 的调用方不会取消，始终计数
+  subscribers: number;
+  settled: boolean;
+}
+
+const createCanceledError = (): ApiError => {
+  const error = new Error('Request canceled') as ApiError;
+  error.name = 'CanceledError';
+  error.code = REQUEST_CANCELED_CODE;
+  return error;
+};
+
+export class ApiClient {
   private instance: AxiosInstance;
   private apiBase: string = '';
   private managementKey: string = '';
+  private readOnly = false;
+  private mutationObservers = new Set<MutationObserver>();
+  // 进行中的只读请求，相同请求共享同一个响应
+  private inFlightReads = new Map<string, SharedRead>();
+  private options: ApiClientOptions;
 
-  constructor() {
+  constructor(options: ApiClientOptions = {}) {
+    this.options = { broadcastEvents: true, ...options };
     this.instance = axios.create({
       timeout: REQUEST_TIMEOUT_MS,
       headers: {
@@ -28,6 +129,192 @@ class ApiClient {
     this.setupInterceptors();
   }
 
+  /**
+   * 清除内存中的管理密钥（会话锁定时使用），保留 API 地址
+   */
+  clearManagementKey(): void {
+    this.managementKey = '';
+  }
+
+  /**
+   * 切换只读模式：开启后拒绝除白名单外的所有写请求
+   */
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  /**
+   * 只读模式下拦截写请求，在发出请求前直接抛出 ReadOnlyModeError
+   */
+  private assertWritable(method: string, url: string): void {
+    if (!this.readOnly) return;
+
+    const normalizedMethod = method.toUpperCase();
+    if (READ_METHODS.has(normalizedMethod) || isReadStylePost(normalizedMethod, url)) return;
+
+    const error = new Error(
+      `Read-only mode: ${normalizedMethod} ${url} is not allowed`
+    ) as ReadOnlyModeError;
+    error.name = 'ReadOnlyModeError';
+    error.code = READ_ONLY_ERROR_CODE;
+    error.method = normalizedMethod;
+    error.url = url;
+    throw error;
+  }
+
+  /**
+   * 订阅写请求（审计日志等），返回取消订阅函数
+   */
+  observeMutations(observer: MutationObserver): () => void {
+    this.mutationObservers.add(observer);
+    return () => {
+      this.mutationObservers.delete(observer);
+    };
+  }
+
+  /**
+   * 执行写请求：只读模式下拦截，并通知写请求观察者；观察者异常不影响请求本身
+   */
+  private async runMutation<T>(
+    method: string,
+    url: string,
+    data: unknown,
+    execute: () => Promise<T>
+  ): Promise<T> {
+    this.assertWritable(method, url);
+
+    const normalizedMethod = method.toUpperCase();
+    if (
+      this.mutationObservers.size === 0 ||
+      READ_METHODS.has(normalizedMethod) ||
+      isReadStylePost(normalizedMethod, url)
+    ) {
+      return execute();
+    }
+
+    const finishers: Array<(result: MutationResultInfo) => void> = [];
+    this.mutationObservers.forEach((observer) => {
+      try {
+        const finish = observer({ method: normalizedMethod, url, data });
+        if (finish) finishers.push(finish);
+      } catch (error) {
+        console.warn('Mutation observer failed:', error);
+      }
+    });
+
+    const notify = (result: MutationResultInfo) => {
+      finishers.forEach((finish) => {
+        try {
+          finish(result);
+        } catch (error) {
+          console.warn('Mutation observer failed:', error);
+        }
+      });
+    };
+
+    const startedAt = Date.now();
+    try {
+      const result = await execute();
+      notify({ ok: true, durationMs: Date.now() - startedAt });
+      return result;
+    } catch (error: unknown) {
+      const apiError = error as Partial<ApiError>;
+      notify({
+        ok: false,
+        status: typeof apiError.status === 'number' ? apiError.status : undefined,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 只读请求去重：相同的进行中请求共享同一个响应。
+   * 每个调用方的 signal 只取消自己的等待，全部调用方都取消后才真正中止请求。
+   */
+  private requestShared<T>(
+    method: 'GET' | 'POST',
+    url: string,
+    data: unknown,
+    config: AxiosRequestConfig = {}
+  ): Promise<AxiosResponse<T>> {
+    const { signal, ...rest } = config;
+    const callerSignal = signal as AbortSignal | undefined;
+    if (callerSignal?.aborted) {
+      return Promise.reject(createCanceledError());
+    }
+
+    // /api-call 的上游请求头位于请求体的 header 字段中，同样按名称归一化
+    const body = isPlainRecord(data)
+      ? { ...data, header: normalizeHeaderNames(data.header) }
+      : data;
+    const key = stableSerialize([
+      method,
+      this.apiBase,
+      url,
+      rest.params ?? null,
+      body ?? null,
+      rest.responseType ?? null,
+      normalizeHeaderNames(rest.headers) ?? null
+    ]);
+
+    let shared = this.inFlightReads.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const entry: SharedRead = {
+        controller,
+        subscribers: 0,
+        settled: false,
+        promise: this.instance
+          .request<T>({ ...rest, method, url, data, signal: controller.signal })
+          .finally(() => {
+            entry.settled = true;
+            if (this.inFlightReads.get(key) === entry) {
+              this.inFlightReads.delete(key);
+            }
+          })
+      };
+      shared = entry;
+      this.inFlightReads.set(key, entry);
+    }
+
+    const entry = shared;
+    entry.subscribers += 1;
+    if (!callerSignal) {
+      return entry.promise as Promise<AxiosResponse<T>>;
+    }
+
+    return new Promise<AxiosResponse<T>>((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers -= 1;
+        if (entry.subscribers === 0 && !entry.settled) {
+          entry.controller.abort();
+          if (this.inFlightReads.get(key) === entry) {
+            this.inFlightReads.delete(key);
+          }
+        }
+        reject(createCanceledError());
+      };
+
+      callerSignal.addEventListener('abort', onAbort, { once: true });
+      entry.promise.then(
+        (response) => {
+          callerSignal.removeEventListener('abort', onAbort);
+          resolve(response as AxiosResponse<T>);
+        },
+        (error: unknown) => {
+          callerSignal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
   /**
    * 设置 API 配置
    */
@@ -114,11 +401,11 @@ class ApiClient {
 
         // 触发版本更新事件（后续通过 store 处理）
         if (version || buildDate) {
-          window.dispatchEvent(
-            new CustomEvent('server-version-update', {
-              detail: { version: version || null, buildDate: buildDate || null }
-            })
-          );
+          const detail: ServerVersionInfo = { version: version || null, buildDate: buildDate || null };
+          this.options.onServerVersion?.(detail);
+          if (this.options.broadcastEvents) {
+            window.dispatchEvent(new CustomEvent('server-version-update', { detail }));
+          }
         }
 
         return response;
@@ -154,7 +441,7 @@ class ApiClient {
       apiError.data = responseData;
 
       // 401 未授权 - 触发登出事件
-      if (error.response?.status === 401) {
+      if (error.response?.status === 401 && this.options.broadcastEvents) {
         window.dispatchEvent(new Event('unauthorized'));
       }
 
@@ -172,7 +459,7 @@ class ApiClient {
    * GET 请求
    */
   async get<T = unknown>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.instance.get<T>(url, config);
+    const response = await this.requestShared<T>('GET', url, undefined, config);
     return response.data;
   }
 
@@ -180,7 +467,25 @@ class ApiClient {
    * POST 请求
    */
   async post<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.instance.post<T>(url, data, config);
+    return this.runMutation('POST', url, data, async () => {
+      const response = await this.instance.post<T>(url, data, config);
+      return response.data;
+    });
+  }
+
+  /**
+   * 查询类的只读 POST（如经 /api-call 读取模型列表、额度），相同的进行中请求共享同一个响应。
+   * 由调用方显式选择；探活、测速等每次都须真正发出的请求应使用 post
+   */
+  async postShared<T = unknown>(
+    url: string,
+    data?: unknown,
+    config?: AxiosRequestConfig
+  ): Promise<T> {
+    if (!isReadStylePost('POST', url)) {
+      return this.post<T>(url, data, config);
+    }
+    const response = await this.requestShared<T>('POST', url, data, config);
     return response.data;
   }
 
@@ -188,24 +493,30 @@ class ApiClient {
    * PUT 请求
    */
   async put<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.instance.put<T>(url, data, config);
-    return response.data;
+    return this.runMutation('PUT', url, data, async () => {
+      const response = await this.instance.put<T>(url, data, config);
+      return response.data;
+    });
   }
 
   /**
    * PATCH 请求
    */
   async patch<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.instance.patch<T>(url, data, config);
-    return response.data;
+    return this.runMutation('PATCH', url, data, async () => {
+      const response = await this.instance.patch<T>(url, data, config);
+      return response.data;
+    });
   }
 
   /**
    * DELETE 请求
    */
   async delete<T = unknown>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.instance.delete<T>(url, config);
-    return response.data;
+    return this.runMutation('DELETE', url, config?.data, async () => {
+      const response = await this.instance.delete<T>(url, config);
+      return response.data;
+    });
   }
 
   /**
@@ -223,23 +534,36 @@ class ApiClient {
     formData: FormData,
     config?: AxiosRequestConfig
   ): Promise<T> {
-    const response = await this.instance.post<T>(url, formData, {
-      ...config,
-      headers: {
-        ...(config?.headers || {}),
-        'Content-Type': 'multipart/form-data'
-      }
+    return this.runMutation('POST', url, formData, async () => {
+      const response = await this.instance.post<T>(url, formData, {
+        ...config,
+        headers: {
+          ...(config?.headers || {}),
+          'Content-Type': 'multipart/form-data'
+        }
+      });
+      return response.data;
     });
-    return response.data;
   }
 
   /**
    * 保留对 axios.request 的访问，便于下载等场景
    */
   async requestRaw(config: AxiosRequestConfig): Promise<AxiosResponse> {
-    return this.instance.request(config);
+    return this.runMutation(config.method ?? 'GET', config.url ?? '', config.data, () =>
+      this.instance.request(config)
+    );
   }
 }
 
+/**
+ * 为指定实例创建独立客户端（不广播全局事件，不影响当前会话）
+ */
+export const createApiClient = (config: ApiClientConfig, options: ApiClientOptions = {}): ApiClient => {
+  const client = new ApiClient({ broadcastEvents: false, ...options });
+  client.setConfig(config);
+  return client;
+};
+
 // 导出单例
 export const apiClient = new ApiClient();
@@ -10,8 +10,8 @@ export const configApi = {
   /**
    * 获取配置（会进行字段规范化）
    */
-  async getConfig(): Promise<Config> {
-    const raw = await apiClient.get('/config');
+  async getConfig(signal?: AbortSignal): Promise<Config> {
+    const raw = await apiClient.get('/config', { signal });
     return normalizeConfigResponse(raw);
   },
 
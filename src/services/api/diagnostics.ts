@@ -0,0 +1,207 @@
+/**
+ * 登录连接诊断
+ * 逐步检查地址解析、混合内容、端口、可达性 / CORS 与管理密钥，定位登录失败的原因
+ */
+
+import { createApiClient } from './client';
+import type {
+  ApiError,
+  ConnectionDiagnosticIssue,
+  ConnectionDiagnosticStep,
+  ConnectionDiagnosticStepId,
+} from '@/types';
+import { computeApiUrl, isLocalhost, normalizeApiBase } from '@/utils/connection';
+import { DEFAULT_API_PORT, MANAGEMENT_API_PREFIX } from '@/utils/constants';
+
+const DIAGNOSTIC_TIMEOUT_MS = 8 * 1000;
+
+const STEP_ORDER: ConnectionDiagnosticStepId[] = [
+  'url',
+  'mixed_content',
+  'port',
+  'reachability',
+  'authentication',
+];
+
+export interface ConnectionDiagnosticsInput {
+  apiBase: string;
+  managementKey: string;
+}
+
+export interface ApiBaseInspection {
+  url: URL;
+  apiBase: string;
+  apiUrl: string;
+  // 地址中带有管理接口之外的路径（如 /foo），拼接后不再是 /v0/management
+  extraPath: string | null;
+}
+
+/**
+ * 解析用户输入的地址，无法解析时返回 null
+ */
+export const inspectApiBase = (input: string): ApiBaseInspection | null => {
+  const apiBase = normalizeApiBase(input);
+  if (!apiBase) return null;
+
+  let url: URL;
+  try {
+    url = new URL(computeApiUrl(apiBase));
+  } catch {
+    return null;
+  }
+  if (!url.hostname) return null;
+
+  const basePath = url.pathname.slice(0, -MANAGEMENT_API_PREFIX.length).replace(/\/+$/, '');
+  return {
+    url,
+    apiBase,
+    apiUrl: url.toString().replace(/\/+$/, ''),
+    extraPath: basePath || null,
+  };
+};
+
+const resolvePort = (url: URL) => url.port || (url.protocol === 'https:' ? '443' : '80');
+
+const isTimeoutError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError');
+
+const fetchWithTimeout = (url: string, init: RequestInit = {}) =>
+  fetch(url, { cache: 'no-store', ...init, signal: AbortSignal.timeout(DIAGNOSTIC_TIMEOUT_MS) });
+
+type StepResult = Omit<ConnectionDiagnosticStep, 'id'>;
+
+const fail = (issue: ConnectionDiagnosticIssue, detail?: string): StepResult => ({
+  status: 'fail',
+  issue,
+  detail,
+});
+
+/**
+ * 不带密钥请求管理接口：收到任何响应即说明服务可达且允许跨域
+ */
+const probeReachability = async (inspection: ApiBaseInspection): Promise<StepResult> => {
+  try {
+    const response = await fetchWithTimeout(`${inspection.apiUrl}/config`);
+    if (response.status === 404) {
+      return fail('management_not_found', `HTTP ${response.status}`);
+    }
+    return { status: 'pass', detail: `HTTP ${response.status}` };
+  } catch (error: unknown) {
+    if (isTimeoutError(error)) {
+      return fail('timeout');
+    }
+  }
+
+  // 跨域请求失败时用 no-cors 再试一次：能拿到不透明响应说明服务可达，问题出在 CORS
+  try {
+    await fetchWithTimeout(`${inspection.url.origin}/`, { mode: 'no-cors' });
+    return fail('cors_blocked', inspection.url.origin);
+  } catch (error: unknown) {
+    return fail(isTimeoutError(error) ? 'timeout' : 'unreachable', inspection.url.origin);
+  }
+};
+
+/**
+ * 携带管理密钥请求 /config，区分密钥错误（401）与远程管理未开启（403）
+ */
+const probeAuthentication = async (
+  inspection: ApiBaseInspection,
+  managementKey: string
+): Promise<StepResult> => {
+  if (!managementKey.trim()) {
+    return fail('missing_key');
+  }
+
+  const client = createApiClient({
+    apiBase: inspection.apiBase,
+    managementKey: managementKey.trim(),
+    timeout: DIAGNOSTIC_TIMEOUT_MS,
+  });
+
+  try {
+    await client.get('/config');
+    return { status: 'pass' };
+  } catch (error: unknown) {
+    const apiError = error as Partial<ApiError>;
+    const status = typeof apiError.status === 'number' ? apiError.status : undefined;
+    const message = error instanceof Error ? error.message : undefined;
+
+    if (status === 401) return fail('invalid_key', message);
+    if (status === 403) return fail('remote_management_disabled', message);
+    if (status === 404) return fail('management_not_found', message);
+    if (status !== undefined)
+      return fail('server_error', `HTTP ${status}: ${message ?? ''}`.trim());
+    return fail(apiError.code === 'ECONNABORTED' ? 'timeout' : 'unreachable', message);
+  }
+};
+
+export const connectionDiagnosticsApi = {
+  /**
+   * 依次执行诊断步骤，每完成一步回调一次；前置步骤失败时跳过依赖它的后续步骤
+   */
+  async run(
+    input: ConnectionDiagnosticsInput,
+    onStep?: (step: ConnectionDiagnosticStep) => void
+  ): Promise<ConnectionDiagnosticStep[]> {
+    const steps: ConnectionDiagnosticStep[] = [];
+    const record = (id: ConnectionDiagnosticStepId, result: StepResult) => {
+      const step = { id, ...result };
+      steps.push(step);
+      onStep?.(step);
+    };
+    const skipRemaining = () => {
+      STEP_ORDER.slice(steps.length).forEach((id) => record(id, { status: 'skipped' }));
+      return steps;
+    };
+
+    const inspection = inspectApiBase(input.apiBase);
+    if (!inspection) {
+      record('url', fail('invalid_url', input.apiBase));
+      return skipRemaining();
+    }
+    record(
+      'url',
+      inspection.extraPath
+        ? { status: 'warn', issue: 'unexpected_path', detail: inspection.apiUrl }
+        : { status: 'pass', detail: inspection.apiUrl }
+    );
+
+    // HTTPS 页面请求 HTTP 地址会被浏览器直接拦截（localhost 除外）
+    const pageProtocol = window.location.protocol;
+    const mixedContent =
+      pageProtocol === 'https:' &&
+      inspection.url.protocol === 'http:' &&
+      !isLocalhost(inspection.url.hostname);
+    const protocolDetail = `${pageProtocol} → ${inspection.url.protocol}`;
+    record(
+      'mixed_content',
+      mixedContent
+        ? fail('mixed_content', protocolDetail)
+        : { status: 'pass', detail: protocolDetail }
+    );
+
+    // 与页面同源时端口由部署决定；跨源访问时通常应为后端默认端口
+    const port = resolvePort(inspection.url);
+    const portMismatch =
+      inspection.url.origin !== window.location.origin && port !== String(DEFAULT_API_PORT);
+    record(
+      'port',
+      portMismatch
+        ? { status: 'warn', issue: 'port_mismatch', detail: port }
+        : { status: 'pass', detail: port }
+    );
+
+    if (mixedContent) {
+      return skipRemaining();
+    }
+
+    const reachability = await probeReachability(inspection);
+    record('reachability', reachability);
+    if (reachability.status === 'fail') {
+      return skipRemaining();
+    }
+
+    record('authentication', await probeAuthentication(inspection, input.managementKey));
+    return steps;
+  },
+};
@@ -0,0 +1,127 @@
+/**
+ * 多实例总览 API
+ * 每个实例使用独立的客户端，互不影响当前会话
+ */
+
+import { createApiClient, type ServerVersionInfo } from './client';
+import { normalizeConfigResponse } from './transformers';
+import type {
+  ApiError,
+  AuthFilesResponse,
+  FleetAuthFileCounts,
+  FleetInstanceSnapshot,
+  FleetInstanceTarget,
+  FleetProviderCounts,
+  FleetUsageSummary,
+} from '@/types';
+import { normalizeUsageTotal, type ApiKeyUsageResponse } from '@/utils/recentRequests';
+
+const FLEET_REQUEST_TIMEOUT_MS = 15 * 1000;
+
+const countProviders = (raw: unknown): FleetProviderCounts => {
+  const config = normalizeConfigResponse(raw);
+  return {
+    gemini: config.geminiApiKeys?.length ?? 0,
+    codex: config.codexApiKeys?.length ?? 0,
+    claude: config.claudeApiKeys?.length ?? 0,
+    vertex: config.vertexApiKeys?.length ?? 0,
+    openai: config.openaiCompatibility?.length ?? 0,
+  };
+};
+
+const countAuthFiles = (response: AuthFilesResponse | null | undefined): FleetAuthFileCounts => {
+  const counts: FleetAuthFileCounts = { total: 0, active: 0, disabled: 0, unavailable: 0 };
+  const seen = new Set<string>();
+
+  (Array.isArray(response?.files) ? response.files : []).forEach((file) => {
+    const name = String(file?.name ?? '').trim();
+    if (!name || seen.has(name)) return;
+    seen.add(name);
+    counts.total += 1;
+
+    if (file.disabled === true) {
+      counts.disabled += 1;
+    } else if (file.unavailable === true || file.status === 'error') {
+      counts.unavailable += 1;
+    } else {
+      counts.active += 1;
+    }
+  });
+
+  return counts;
+};
+
+const summarizeUsage = (response: ApiKeyUsageResponse | null | undefined): FleetUsageSummary => {
+  let success = 0;
+  let failed = 0;
+
+  Object.values(response ?? {}).forEach((group) => {
+    if (!group || typeof group !== 'object') return;
+    Object.values(group).forEach((entry) => {
+      success += normalizeUsageTotal(entry?.success);
+      failed += normalizeUsageTotal(entry?.failed);
+    });
+  });
+
+  const total = success + failed;
+  return { success, failed, successRate: total > 0 ? success / total : null };
+};
+
+export const fleetApi = {
+  /**
+   * 探测单个实例：配置（连通性/延迟/提供商数量）、认证文件状态、API Key 使用统计
+   */
+  async probeInstance(target: FleetInstanceTarget): Promise<FleetInstanceSnapshot> {
+    let versionInfo: ServerVersionInfo = { version: null, buildDate: null };
+    const client = createApiClient(
+      {
+        apiBase: target.apiBase,
+        managementKey: target.managementKey,
+        timeout: FLEET_REQUEST_TIMEOUT_MS,
+      },
+      {
+        onServerVersion: (info) => {
+          versionInfo = info;
+        },
+      }
+    );
+
+    const startedAt = performance.now();
+    let rawConfig: unknown;
+    try {
+      rawConfig = await client.get('/config');
+    } catch (err: unknown) {
+      const apiError = err as Partial<ApiError>;
+      return {
+        reachable: false,
+        latencyMs: null,
+        version: versionInfo.version,
+        buildDate: versionInfo.buildDate,
+        error: err instanceof Error ? err.message : 'Request failed',
+        errorStatus: typeof apiError.status === 'number' ? apiError.status : undefined,
+        providers: null,
+        authFiles: null,
+        usage: null,
+        checkedAt: Date.now(),
+      };
+    }
+    const latencyMs = Math.round(performance.now() - startedAt);
+
+    const [filesResult, usageResult] = await Promise.allSettled([
+      client.get<AuthFilesResponse>('/auth-files'),
+      client.get<ApiKeyUsageResponse>('/api-key-usage'),
+    ]);
+
+    return {
+      reachable: true,
+      latencyMs,
+      version: versionInfo.version,
+      buildDate: versionInfo.buildDate,
+      error: null,
+      providers: countProviders(rawConfig),
+      authFiles: filesResult.status === 'fulfilled' ? countAuthFiles(filesResult.value) : null,
+      usage: usageResult.status === 'fulfilled' ? summarizeUsage(usageResult.value) : null,
+      checkedAt: Date.now(),
+    };
+  },
+};
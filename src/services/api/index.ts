@@ -14,3 +14,6 @@ export * from './models';
 export * from './transformers';
 export * from './vertex';
 export * from './agentSettings';
+export * from './fleet';
+export * from './capabilities';
+export * from './diagnostics';
@@ -10,20 +10,10 @@ import { apiCallApi, getApiCallErrorMessage } from './apiCall';
 const DEFAULT_CLAUDE_BASE_URL = 'https://api.anthropic.com';
 const DEFAULT_GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com';
 const DEFAULT_ANTHROPIC_VERSION = '2023-06-01';
-const CLAUDE_MODELS_IN_FLIGHT = new Map<string, Promise<ReturnType<typeof normalizeModelList>>>();
-const GEMINI_MODELS_IN_FLIGHT = new Map<string, Promise<ReturnType<typeof normalizeModelList>>>();
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   value !== null && typeof value === 'object' && !Array.isArray(value);
 
-const buildRequestSignature = (url: string, headers: Record<string, string>) => {
-  const headerSignature = Object.entries(headers)
-    .sort(([a], [b]) => a.toLowerCase().localeCompare(b.toLowerCase()))
-    .map(([key, value]) => `${key}:${value}`)
-    .join('|');
-  return `${url}||${headerSignature}`;
-};
-
 const buildModelsEndpoint = (baseUrl: string): string => {
   const normalized = normalizeApiBase(baseUrl);
   if (!normalized) return '';
@@ -108,7 +98,8 @@ export const modelsApi = {
   async fetchV1ModelsViaApiCall(
     baseUrl: string,
     apiKey?: string,
-    headers: Record<string, string> = {}
+    headers: Record<string, string> = {},
+    signal?: AbortSignal
   ) {
     const endpoint = buildV1ModelsEndpoint(baseUrl);
     if (!endpoint) {
@@ -120,11 +111,14 @@ export const modelsApi = {
       resolvedHeaders.Authorization = `Bearer ${apiKey}`;
     }
 
-    const result = await apiCallApi.request({
-      method: 'GET',
-      url: endpoint,
-      header: Object.keys(resolvedHeaders).length ? resolvedHeaders : undefined
-    });
+    const result = await apiCallApi.requestShared(
+      {
+        method: 'GET',
+        url: endpoint,
+        header: Object.keys(resolvedHeaders).length ? resolvedHeaders : undefined
+      },
+      { signal }
+    );
 
     if (result.statusCode < 200 || result.statusCode >= 300) {
       throw new Error(getApiCallErrorMessage(result));
@@ -140,7 +134,8 @@ export const modelsApi = {
   async fetchModelsViaApiCall(
     baseUrl: string,
     apiKey?: string,
-    headers: Record<string, string> = {}
+    headers: Record<string, string> = {},
+    signal?: AbortSignal
   ) {
     const endpoint = buildModelsEndpoint(baseUrl);
     if (!endpoint) {
@@ -152,11 +147,14 @@ export const modelsApi = {
       resolvedHeaders.Authorization = `Bearer ${apiKey}`;
     }
 
-    const result = await apiCallApi.request({
-      method: 'GET',
-      url: endpoint,
-      header: Object.keys(resolvedHeaders).length ? resolvedHeaders : undefined
-    });
+    const result = await apiCallApi.requestShared(
+      {
+        method: 'GET',
+        url: endpoint,
+        header: Object.keys(resolvedHeaders).length ? resolvedHeaders : undefined
+      },
+      { signal }
+    );
 
     if (result.statusCode < 200 || result.statusCode >= 300) {
       throw new Error(getApiCallErrorMessage(result));
@@ -185,7 +183,8 @@ export const modelsApi = {
   async fetchClaudeModelsViaApiCall(
     baseUrl: string,
     apiKey?: string,
-    headers: Record<string, string> = {}
+    headers: Record<string, string> = {},
+    signal?: AbortSignal
   ) {
     const endpoint = buildClaudeModelsEndpoint(baseUrl);
     if (!endpoint) {
@@ -205,31 +204,22 @@ export const modelsApi = {
       resolvedHeaders['anthropic-version'] = DEFAULT_ANTHROPIC_VERSION;
     }
 
-    const signature = buildRequestSignature(endpoint, resolvedHeaders);
-    const existing = CLAUDE_MODELS_IN_FLIGHT.get(signature);
-    if (existing) return existing;
-
-    const request = (async () => {
-      const result = await apiCallApi.request({
+    // 相同的进行中请求由 apiClient 统一去重
+    const result = await apiCallApi.requestShared(
+      {
         method: 'GET',
         url: endpoint,
         header: Object.keys(resolvedHeaders).length ? resolvedHeaders : undefined
-      });
+      },
+      { signal }
+    );
 
-      if (result.statusCode < 200 || result.statusCode >= 300) {
-        throw new Error(getApiCallErrorMessage(result));
-      }
-
-      const payload = result.body ?? result.bodyText;
-      return normalizeModelList(payload, { dedupe: true });
-    })();
-
-    CLAUDE_MODELS_IN_FLIGHT.set(signature, request);
-    try {
-      return await request;
-    } finally {
-      CLAUDE_MODELS_IN_FLIGHT.delete(signature);
+    if (result.statusCode < 200 || result.statusCode >= 300) {
+      throw new Error(getApiCallErrorMessage(result));
     }
+
+    const payload = result.body ?? result.bodyText;
+    return normalizeModelList(payload, { dedupe: true });
   },
 
   /**
@@ -239,7 +229,8 @@ export const modelsApi = {
   async fetchGeminiModelsViaApiCall(
     baseUrl: string,
     apiKey?: string,
-    headers: Record<string, string> = {}
+    headers: Record<string, string> = {},
+    signal?: AbortSignal
   ) {
     const endpoint = buildGeminiModelsEndpoint(baseUrl);
     if (!endpoint) {
@@ -252,61 +243,52 @@ export const modelsApi = {
       resolvedHeaders['x-goog-api-key'] = resolvedApiKey;
     }
 
-    const signature = buildRequestSignature(endpoint, resolvedHeaders);
-    const existing = GEMINI_MODELS_IN_FLIGHT.get(signature);
-    if (existing) return existing;
-
-    const request = (async () => {
-      const seen = new Set<string>();
-      const collected: ReturnType<typeof normalizeModelList> = [];
-      let pageToken = '';
+    // 分页请求逐页由 apiClient 去重
+    const seen = new Set<string>();
+    const collected: ReturnType<typeof normalizeModelList> = [];
+    let pageToken = '';
 
-      for (let page = 0; page < 20; page += 1) {
-        const url = new URL(endpoint);
-        if (pageToken) {
-          url.searchParams.set('pageToken', pageToken);
-        }
+    for (let page = 0; page < 20; page += 1) {
+      const url = new URL(endpoint);
+      if (pageToken) {
+        url.searchParams.set('pageToken', pageToken);
+      }
 
-        const result = await apiCallApi.request({
+      const result = await apiCallApi.requestShared(
+        {
           method: 'GET',
           url: url.toString(),
           header: Object.keys(resolvedHeaders).length ? resolvedHeaders : undefined
-        });
-
-        if (result.statusCode < 200 || result.statusCode >= 300) {
-          throw new Error(getApiCallErrorMessage(result));
-        }
+        },
+        { signal }
+      );
 
-        const payload = result.body ?? result.bodyText;
-        const normalized = normalizeModelList(payload, { dedupe: false });
-        normalized.forEach((model) => {
-          const name = stripGeminiModelResourceName(model.name);
-          const key = (name || '').toLowerCase();
-          if (!key || seen.has(key)) return;
-          seen.add(key);
-          const resolved = { ...model, name };
-          if (resolved.alias && resolved.alias.trim() === name) {
-            resolved.alias = undefined;
-          }
-          collected.push(resolved);
-        });
-
-        const nextToken =
-          isRecord(payload) && typeof payload.nextPageToken === 'string' ? payload.nextPageToken : '';
-        if (!nextToken) {
-          break;
-        }
-        pageToken = nextToken;
+      if (result.statusCode < 200 || result.statusCode >= 300) {
+        throw new Error(getApiCallErrorMessage(result));
       }
 
-      return collected;
-    })();
+      const payload = result.body ?? result.bodyText;
+      const normalized = normalizeModelList(payload, { dedupe: false });
+      normalized.forEach((model) => {
+        const name = stripGeminiModelResourceName(model.name);
+        const key = (name || '').toLowerCase();
+        if (!key || seen.has(key)) return;
+        seen.add(key);
+        const resolved = { ...model, name };
+        if (resolved.alias && resolved.alias.trim() === name) {
+          resolved.alias = undefined;
+        }
+        collected.push(resolved);
+      });
 
-    GEMINI_MODELS_IN_FLIGHT.set(signature, request);
-    try {
-      return await request;
-    } finally {
-      GEMINI_MODELS_IN_FLIGHT.delete(signature);
+      const nextToken =
+        isRecord(payload) && typeof payload.nextPageToken === 'string' ? payload.nextPageToken : '';
+      if (!nextToken) {
+        break;
+      }
+      pageToken = nextToken;
     }
+
+    return collected;
   },
 };
@@ -155,6 +155,18 @@ const serializeOpenAIProvider = (provider: OpenAIProviderConfig) => {
   return payload;
 };
 
+/**
+ * 按保存接口的格式序列化密钥列表，供保存前的差异预览使用
+ */
+export const serializeProviderKeyConfigs = (
+  section: 'gemini' | 'codex' | 'claude' | 'vertex',
+  configs: ProviderKeyConfig[]
+): Record<string, unknown>[] => {
+  if (section === 'gemini') return configs.map((item) => serializeGeminiKey(item));
+  if (section === 'vertex') return configs.map((item) => serializeVertexKey(item));
+  return configs.map((item) => serializeProviderKey(item));
+};
+
 export const providersApi = {
   async getGeminiKeys(): Promise<GeminiKeyConfig[]> {
     const data = await apiClient.get('/gemini-api-key');
@@ -0,0 +1,77 @@
+/**
+ * 审计日志存储（IndexedDB）
+ */
+
+import type { AuditEntry } from '@/types';
+import {
+  isIndexedDbSupported,
+  toPromise,
+  withObjectStore,
+  type IndexedDbStoreConfig,
+} from '@/services/storage/indexedDb';
+
+const TIMESTAMP_INDEX = 'timestamp';
+const AUDIT_STORE: IndexedDbStoreConfig = {
+  dbName: 'cli-proxy-audit',
+  storeName: 'entries',
+  indexes: [TIMESTAMP_INDEX],
+};
+
+// 超出上限时丢弃最早的记录
+export const MAX_AUDIT_ENTRIES = 2000;
+
+export const isAuditJournalSupported = isIndexedDbSupported;
+
+const withStore = <T>(mode: IDBTransactionMode, executor: (store: IDBObjectStore) => Promise<T>) =>
+  withObjectStore(AUDIT_STORE, mode, executor);
+
+/**
+ * 追加一条审计记录，并裁剪超出上限的旧记录
+ */
+export async function appendAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<void> {
+  if (!isAuditJournalSupported()) return;
+
+  await withStore('readwrite', async (store) => {
+    await toPromise(store.add(entry));
+
+    const total = await toPromise(store.count());
+    let excess = total - MAX_AUDIT_ENTRIES;
+    if (excess <= 0) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const cursorRequest = store.index(TIMESTAMP_INDEX).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        excess -= 1;
+        cursor.continue();
+      };
+      cursorRequest.onerror = () =>
+        reject(cursorRequest.error ?? new Error('IndexedDB request failed'));
+    });
+  });
+}
+
+/**
+ * 读取全部审计记录（按时间倒序）
+ */
+export async function listAuditEntries(): Promise<AuditEntry[]> {
+  if (!isAuditJournalSupported()) return [];
+
+  return withStore('readonly', async (store) => {
+    const entries = (await toPromise(store.index(TIMESTAMP_INDEX).getAll())) as AuditEntry[];
+    return entries.reverse();
+  });
+}
+
+export async function clearAuditEntries(): Promise<void> {
+  if (!isAuditJournalSupported()) return;
+
+  await withStore('readwrite', async (store) => {
+    await toPromise(store.clear());
+  });
+}
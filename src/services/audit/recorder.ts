@@ -0,0 +1,47 @@
+/**
+ * 审计记录器：订阅 apiClient 的写请求并写入审计日志
+ */
+
+import { apiClient } from '@/services/api/client';
+import { useAuthStore, useConfigStore } from '@/stores';
+import type { AuditEntry } from '@/types';
+import { isSecretEndpoint, redactPayload, redactUrl } from '@/utils/redact';
+import { appendAuditEntry } from './journal';
+
+/**
+ * 安装审计记录器，返回卸载函数
+ */
+export function installAuditRecorder(): () => void {
+  return apiClient.observeMutations(({ method, url, data }) => {
+    const timestamp = Date.now();
+    const { apiBase, profiles, activeProfileId } = useAuthStore.getState();
+    const profileName = profiles.find((profile) => profile.id === activeProfileId)?.name ?? null;
+    const options = { secretEndpoint: isSecretEndpoint(url) };
+
+    // 快照需在请求发出前采集，此时缓存中仍是修改前的配置
+    const snapshot = useConfigStore.getState().getSnapshotForPath(url);
+    const before = snapshot === undefined ? null : redactPayload(snapshot, options);
+    const payload = redactPayload(data, options);
+
+    return (result) => {
+      const entry: Omit<AuditEntry, 'id'> = {
+        timestamp,
+        method,
+        endpoint: url.split(/[?#]/)[0],
+        url: redactUrl(url),
+        payload,
+        before,
+        ok: result.ok,
+        status: result.status ?? null,
+        error: result.error ?? null,
+        durationMs: result.durationMs,
+        apiBase,
+        profileName,
+      };
+
+      appendAuditEntry(entry).catch((error: unknown) => {
+        console.warn('Failed to write audit entry:', error);
+      });
+    };
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * 配置版本快照存储（IndexedDB）
+ * 每次保存 config.yaml 前的版本都会留存，按服务地址分别保留最近的若干份
+ * 快照包含上游密钥等敏感信息，启用口令模式时以口令派生的密钥加密保存
+ */
+
+import type { ConfigSnapshot } from '@/types';
+import {
+  isIndexedDbSupported,
+  toPromise,
+  withObjectStore,
+  type IndexedDbStoreConfig,
+} from '@/services/storage/indexedDb';
+import {
+  decryptWithPassphraseKey,
+  encryptWithPassphraseKey,
+  isPassphraseEncrypted,
+  readPassphraseSalt,
+  type PassphraseKey,
+} from '@/utils/encryption';
+
+const API_BASE_INDEX = 'apiBase';
+const HISTORY_STORE: IndexedDbStoreConfig = {
+  dbName: 'cli-proxy-config-history',
+  storeName: 'snapshots',
+  indexes: [API_BASE_INDEX],
+};
+
+// 每个服务保留的快照上限，超出时丢弃最早的快照
+export const MAX_CONFIG_SNAPSHOTS = 50;
+
+export const isConfigHistorySupported = isIndexedDbSupported;
+
+const withStore = <T>(mode: IDBTransactionMode, executor: (store: IDBObjectStore) => Promise<T>) =>
+  withObjectStore(HISTORY_STORE, mode, executor);
+
+const listByApiBase = async (store: IDBObjectStore, apiBase: string) => {
+  const snapshots = (await toPromise(
+    store.index(API_BASE_INDEX).getAll(IDBKeyRange.only(apiBase))
+  )) as ConfigSnapshot[];
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt || (b.id ?? 0) - (a.id ?? 0));
+};
+
+/**
+ * 写入一份快照，并裁剪该服务超出上限的旧快照；传入口令密钥时加密保存
+ */
+export async function appendConfigSnapshot(
+  snapshot: Omit<ConfigSnapshot, 'id'>,
+  passphraseKey?: PassphraseKey | null
+): Promise<void> {
+  if (!isConfigHistorySupported()) return;
+
+  // 加密须在事务开始前完成，事务在等待非 IndexedDB 的异步操作时会自动提交
+  const yaml = passphraseKey
+    ? await encryptWithPassphraseKey(snapshot.yaml, passphraseKey)
+    : snapshot.yaml;
+
+  await withStore('readwrite', async (store) => {
+    await toPromise(store.add({ ...snapshot, yaml }));
+
+    const snapshots = await listByApiBase(store, snapshot.apiBase);
+    const excess = snapshots.slice(MAX_CONFIG_SNAPSHOTS);
+    await Promise.all(
+      excess.map((item) => (item.id === undefined ? null : toPromise(store.delete(item.id))))
+    );
+  });
+}
+
+const decryptSnapshot = async (
+  snapshot: ConfigSnapshot,
+  passphraseKey?: PassphraseKey | null
+): Promise<ConfigSnapshot> => {
+  if (!isPassphraseEncrypted(snapshot.yaml)) return snapshot;
+  if (passphraseKey) {
+    try {
+      return { ...snapshot, yaml: await decryptWithPassphraseKey(snapshot.yaml, passphraseKey) };
+    } catch {
+      // 由其他口令加密，按锁定处理
+    }
+  }
+  return { ...snapshot, yaml: '', locked: true };
+};
+
+/**
+ * 读取某个服务的全部快照（按时间倒序），加密的快照用传入的口令密钥解密
+ */
+export async function listConfigSnapshots(
+  apiBase: string,
+  passphraseKey?: PassphraseKey | null
+): Promise<ConfigSnapshot[]> {
+  if (!isConfigHistorySupported()) return [];
+
+  const snapshots = await withStore('readonly', (store) => listByApiBase(store, apiBase));
+  return Promise.all(snapshots.map((snapshot) => decryptSnapshot(snapshot, passphraseKey)));
+}
+
+// 逐条改写全部服务的快照内容；transform 返回 null 表示保持不变
+const rewriteAllSnapshots = async (transform: (yaml: string) => Promise<string | null>) => {
+  if (!isConfigHistorySupported()) return;
+
+  const snapshots = await withStore(
+    'readonly',
+    (store) => toPromise(store.getAll()) as Promise<ConfigSnapshot[]>
+  );
+  const changed: ConfigSnapshot[] = [];
+  for (const snapshot of snapshots) {
+    const yaml = await transform(snapshot.yaml);
+    if (yaml !== null) changed.push({ ...snapshot, yaml });
+  }
+  if (changed.length === 0) return;
+
+  await withStore('readwrite', async (store) => {
+    await Promise.all(changed.map((snapshot) => toPromise(store.put(snapshot))));
+  });
+};
+
+// 解密任意 salt 下由同一口令加密的载荷
+export type PassphraseDecryptor = (payload: string) => Promise<string>;
+
+const isSameSalt = (payload: string, passphraseKey: PassphraseKey) => {
+  const salt = readPassphraseSalt(payload);
+  return salt !== null && salt.join(',') === passphraseKey.salt.join(',');
+};
+
+/**
+ * 用当前口令密钥加密快照：明文快照直接加密；
+ * 每次登录都会以新 salt 派生密钥，传入 decrypt 时把旧 salt 加密的快照解开后改用当前密钥加密
+ */
+export const encryptConfigSnapshots = (
+  passphraseKey: PassphraseKey,
+  decrypt?: PassphraseDecryptor
+) =>
+  rewriteAllSnapshots(async (yaml) => {
+    if (!isPassphraseEncrypted(yaml)) return encryptWithPassphraseKey(yaml, passphraseKey);
+    if (!decrypt || isSameSalt(yaml, passphraseKey)) return null;
+    try {
+      return await encryptWithPassphraseKey(await decrypt(yaml), passphraseKey);
+    } catch {
+      // 由其他口令加密，保持锁定
+      return null;
+    }
+  });
+
+/**
+ * 关闭口令模式前解密当前口令能解开的快照；其他口令加密的快照保持锁定，可在历史中删除
+ */
+export const decryptConfigSnapshots = (passphraseKey: PassphraseKey) =>
+  rewriteAllSnapshots(async (yaml) => {
+    if (!isPassphraseEncrypted(yaml)) return null;
+    try {
+      return await decryptWithPassphraseKey(yaml, passphraseKey);
+    } catch {
+      return null;
+    }
+  });
+
+export async function deleteConfigSnapshot(id: number): Promise<void> {
+  if (!isConfigHistorySupported()) return;
+
+  await withStore('readwrite', async (store) => {
+    await toPromise(store.delete(id));
+  });
+}
+
+export async function clearConfigSnapshots(apiBase: string): Promise<void> {
+  if (!isConfigHistorySupported()) return;
+
+  await withStore('readwrite', async (store) => {
+    const keys = await toPromise(store.index(API_BASE_INDEX).getAllKeys(IDBKeyRange.only(apiBase)));
+    await Promise.all(keys.map((key) => toPromise(store.delete(key))));
+  });
+}
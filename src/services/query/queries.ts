@@ -0,0 +1,47 @@
+/**
+ * 共享查询定义：多个页面读取同一份缓存，写请求后统一失效
+ */
+
+import { authFilesApi } from '@/services/api/authFiles';
+import { configApi } from '@/services/api/config';
+import { modelsApi } from '@/services/api/models';
+import type { AuthFileItem, Config, QueryDefinition } from '@/types';
+import { CACHE_EXPIRY_MS } from '@/utils/constants';
+import type { ModelInfo } from '@/utils/models';
+
+export const QUERY_KEYS = {
+  config: 'config',
+  authFiles: 'auth-files',
+  models: 'models',
+  providerUsage: 'provider-usage',
+  quota: 'quota',
+} as const;
+
+export const configQuery: QueryDefinition<Config> = {
+  key: QUERY_KEYS.config,
+  fetcher: (signal) => configApi.getConfig(signal),
+  staleTime: CACHE_EXPIRY_MS,
+};
+
+export const authFilesQuery: QueryDefinition<AuthFileItem[]> = {
+  key: QUERY_KEYS.authFiles,
+  fetcher: async (signal) => {
+    const data = await authFilesApi.list(signal);
+    return data?.files || [];
+  },
+  staleTime: CACHE_EXPIRY_MS,
+};
+
+/**
+ * /v1/models 按地址与访问密钥分别缓存
+ */
+export const createModelsQuery = (apiBase: string, apiKey = ''): QueryDefinition<ModelInfo[]> => ({
+  key: `${QUERY_KEYS.models}:${apiBase}|${apiKey}`,
+  fetcher: () => modelsApi.fetchModels(apiBase, apiKey || undefined),
+  staleTime: CACHE_EXPIRY_MS,
+});
+
+/**
+ * 额度结果按额度类型缓存，由额度页面逐个文件写入，不经过统一的 fetcher
+ */
+export const getQuotaQueryKey = (type: string) => `${QUERY_KEYS.quota}:${type}`;
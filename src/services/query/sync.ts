@@ -0,0 +1,57 @@
+/**
+ * 查询缓存同步：写请求成功后失效相关查询，窗口重新获得焦点时刷新过期查询
+ */
+
+import { apiClient } from '@/services/api/client';
+import { useAuthStore, useQueryStore, useSessionLockStore } from '@/stores';
+import { resolveConfigSectionForPath } from '@/stores/useConfigStore';
+import { QUERY_KEYS } from './queries';
+
+const normalizePath = (url: string) => url.split(/[?#]/)[0].replace(/\/+$/, '');
+
+/**
+ * 根据写请求路径推断受影响的查询键
+ */
+export const resolveAffectedQueryKeys = (url: string): string[] => {
+  const path = normalizePath(url);
+  const keys: string[] = [];
+  if (path === '/config.yaml' || resolveConfigSectionForPath(path)) {
+    keys.push(QUERY_KEYS.config);
+  }
+  if (path === '/auth-files' || path.startsWith('/auth-files/')) {
+    keys.push(QUERY_KEYS.authFiles);
+  }
+  return keys;
+};
+
+/**
+ * 安装查询缓存同步，返回卸载函数
+ */
+export function installQuerySync(): () => void {
+  const stopObserving = apiClient.observeMutations(({ url }) => {
+    const keys = resolveAffectedQueryKeys(url);
+    if (keys.length === 0) return;
+
+    return (result) => {
+      if (!result.ok) return;
+      const { invalidateQueries } = useQueryStore.getState();
+      keys.forEach((key) => invalidateQueries(key));
+    };
+  });
+
+  const refetchOnFocus = () => {
+    if (document.visibilityState === 'hidden') return;
+    if (useAuthStore.getState().connectionStatus !== 'connected') return;
+    if (useSessionLockStore.getState().locked) return;
+    useQueryStore.getState().refetchStaleObserved();
+  };
+
+  window.addEventListener('focus', refetchOnFocus);
+  document.addEventListener('visibilitychange', refetchOnFocus);
+
+  return () => {
+    stopObserving();
+    window.removeEventListener('focus', refetchOnFocus);
+    document.removeEventListener('visibilitychange', refetchOnFocus);
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * IndexedDB 通用封装
+ * 每个库只有一张以自增 id 为主键的表，审计日志与配置快照共用
+ */
+
+export interface IndexedDbStoreConfig {
+  dbName: string;
+  storeName: string;
+  // 建表时创建的索引，索引名与字段名相同
+  indexes?: string[];
+}
+
+export const isIndexedDbSupported = (): boolean =>
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+function openDb(config: IndexedDbStoreConfig): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(config.dbName, 1);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(config.storeName)) {
+        const store = db.createObjectStore(config.storeName, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        config.indexes?.forEach((index) => store.createIndex(index, index));
+      }
+    };
+
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+
+    request.onerror = () => {
+      reject(request.error ?? new Error('Failed to open IndexedDB'));
+    };
+  });
+}
+
+/**
+ * 在单个事务中执行操作，事务提交后才返回结果
+ */
+export async function withObjectStore<T>(
+  config: IndexedDbStoreConfig,
+  mode: IDBTransactionMode,
+  executor: (store: IDBObjectStore) => Promise<T>
+): Promise<T> {
+  const db = await openDb(config);
+
+  try {
+    const transaction = db.transaction(config.storeName, mode);
+    const store = transaction.objectStore(config.storeName);
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () =>
+        reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+      transaction.onabort = () =>
+        reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+
+    const result = await executor(store);
+    await completed;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+export function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
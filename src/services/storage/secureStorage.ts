@@ -3,6 +3,7 @@
  * 基于原项目 src/utils/secure-storage.js
  *
  * IMPORTANT: 这不是安全边界，仅用于避免“肉眼直读”的轻度混淆。
+ * 需要真正保护管理密钥时，请使用登录页的口令加密（见 utils/encryption 中的 enc::v2::）。
  */
 
 import { obfuscateData, deobfuscateData, isObfuscated } from '@/utils/encryption';
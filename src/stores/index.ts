@@ -5,9 +5,14 @@
 export { useNotificationStore } from './useNotificationStore';
 export { useThemeStore } from './useThemeStore';
 export { useLanguageStore } from './useLanguageStore';
-export { useAuthStore } from './useAuthStore';
+export { useAuthStore, getPassphraseSessionKey } from './useAuthStore';
 export { useConfigStore } from './useConfigStore';
 export { useModelsStore } from './useModelsStore';
-export { useQuotaStore } from './useQuotaStore';
+export { useQueryStore } from './useQueryStore';
+export { useSessionLockStore } from './useSessionLockStore';
+export { useCapabilityStore } from './useCapabilityStore';
 export { useOpenAIEditDraftStore } from './useOpenAIEditDraftStore';
 export { useClaudeEditDraftStore } from './useClaudeEditDraftStore';
+export { useConfigPresetStore } from './useConfigPresetStore';
+export { useOpenAIProviderTemplateStore } from './useOpenAIProviderTemplateStore';
+export { useProviderHealthStore, PROVIDER_HEALTH_INTERVAL_OPTIONS } from './useProviderHealthStore';
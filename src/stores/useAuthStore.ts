@@ -5,17 +5,41 @@
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { AuthState, LoginCredentials, ConnectionStatus } from '@/types';
+import type { AuthState, ConnectionProfile, LoginCredentials, ConnectionStatus } from '@/types';
 import { STORAGE_KEY_AUTH } from '@/utils/constants';
 import { obfuscatedStorage } from '@/services/storage/secureStorage';
 import { apiClient } from '@/services/api/client';
+import { decryptConfigSnapshots, encryptConfigSnapshots } from '@/services/configHistory';
 import { useConfigStore } from './useConfigStore';
+import { useQueryStore } from './useQueryStore';
 import { useModelsStore } from './useModelsStore';
+import { useCapabilityStore } from './useCapabilityStore';
+import { useProviderHealthStore } from './useProviderHealthStore';
+import { useSessionLockStore } from './useSessionLockStore';
 import { detectApiBaseFromLocation, normalizeApiBase } from '@/utils/connection';
+import { generateId } from '@/utils/helpers';
+import {
+  decryptWithPassphraseKey,
+  derivePassphraseKey,
+  encryptWithPassphraseKey,
+  readPassphraseSalt,
+  PASSPHRASE_INVALID_ERROR,
+  type PassphraseKey
+} from '@/utils/encryption';
+
+export interface SaveProfileInput {
+  id?: string;
+  name: string;
+  apiBase: string;
+  managementKey?: string;
+  rememberPassword?: boolean;
+  readOnly?: boolean;
+}
 
 interface AuthStoreState extends AuthState {
   connectionStatus: ConnectionStatus;
   connectionError: string | null;
+  passphraseRequired: boolean;
 
   // 操作
   login: (credentials: LoginCredentials) => Promise<void>;
@@ -24,9 +48,124 @@ interface AuthStoreState extends AuthState {
   restoreSession: () => Promise<boolean>;
   updateServerVersion: (version: string | null, buildDate?: string | null) => void;
   updateConnectionStatus: (status: ConnectionStatus, error?: string | null) => void;
+
+  // 连接配置档
+  saveProfile: (input: SaveProfileInput) => ConnectionProfile;
+  removeProfile: (id: string) => void;
+  switchProfile: (id: string, managementKey?: string) => Promise<void>;
+
+  // 口令加密保存的管理密钥
+  enablePassphraseProtection: (passphrase: string, managementKey?: string) => Promise<void>;
+  disablePassphraseProtection: () => void;
+  unlockWithPassphrase: (passphrase: string) => Promise<void>;
 }
 
 let restoreSessionPromise: Promise<boolean> | null = null;
+let profileSwitchInFlight = false;
+// 解锁或启用口令加密后派生的密钥，仅保存在内存中
+let passphraseSession: PassphraseKey | null = null;
+
+const resolveConnectionScope = (apiBase: string, profileId: string | null) =>
+  profileId ? `profile:${profileId}` : apiBase ? `base:${apiBase}` : '';
+
+// 各缓存 store 按连接隔离，切换连接时旧连接的数据不会出现在新连接下
+const switchConnectionScope = (scope: string) => {
+  useQueryStore.getState().switchScope(scope);
+  useConfigStore.getState().switchScope(scope);
+  useModelsStore.getState().switchScope(scope);
+  useCapabilityStore.getState().switchScope(scope);
+  useProviderHealthStore.getState().switchScope(scope);
+};
+
+const resetConnectionScopes = () => {
+  useQueryStore.getState().removeQueries(() => true);
+  useModelsStore.getState().clearCache();
+  switchConnectionScope('');
+  useQueryStore.getState().clearScopes();
+  useCapabilityStore.getState().clearScopes();
+  useProviderHealthStore.getState().clearScopes();
+};
+
+const withoutEncryptedKey = (profile: ConnectionProfile): ConnectionProfile => {
+  const next = { ...profile };
+  delete next.encryptedManagementKey;
+  return next;
+};
+
+// 同一口令在不同 salt 下派生的密钥不同，按 salt 缓存以避免重复执行 PBKDF2
+const createPassphraseDecryptor = (passphrase: string) => {
+  const keys = new Map<string, Promise<PassphraseKey>>();
+  return async (payload: string) => {
+    const salt = readPassphraseSalt(payload);
+    if (!salt) {
+      throw new Error(PASSPHRASE_INVALID_ERROR);
+    }
+    const cacheKey = salt.join(',');
+    let keyPromise = keys.get(cacheKey);
+    if (!keyPromise) {
+      keyPromise = derivePassphraseKey(passphrase, salt);
+      keys.set(cacheKey, keyPromise);
+    }
+    const key = await keyPromise;
+    return { value: await decryptWithPassphraseKey(payload, key), key };
+  };
+};
+
+// 配置快照可能由之前登录时以其他 salt 派生的密钥加密，统一换成当前会话密钥，避免同一口令下显示为锁定
+const reencryptConfigSnapshots = (
+  session: PassphraseKey,
+  decrypt: ReturnType<typeof createPassphraseDecryptor>
+) => {
+  encryptConfigSnapshots(session, async (payload) => (await decrypt(payload)).value).catch(
+    (error: unknown) => {
+      console.warn('Failed to encrypt config snapshots:', error);
+    }
+  );
+};
+
+// 口令模式下，使用内存中的会话密钥重新加密当前明文密钥（登录、保存配置档后调用）
+const syncProtectedSecrets = async () => {
+  const session = passphraseSession;
+  const state = useAuthStore.getState();
+  if (!session || state.keyProtection !== 'passphrase') return;
+
+  const encryptedManagementKey =
+    state.rememberPassword && state.managementKey
+      ? await encryptWithPassphraseKey(state.managementKey, session)
+      : null;
+  const encryptedProfiles = new Map<string, { managementKey: string; encrypted: string }>();
+  for (const profile of state.profiles) {
+    if (profile.rememberPassword && profile.managementKey) {
+      encryptedProfiles.set(profile.id, {
+        managementKey: profile.managementKey,
+        encrypted: await encryptWithPassphraseKey(profile.managementKey, session)
+      });
+    }
+  }
+
+  // 加密期间可能已登出或关闭了口令模式，此时丢弃结果
+  if (passphraseSession !== session || useAuthStore.getState().keyProtection !== 'passphrase') {
+    return;
+  }
+
+  useAuthStore.setState((current) => ({
+    encryptedManagementKey:
+      current.managementKey === state.managementKey
+        ? encryptedManagementKey
+        : current.encryptedManagementKey,
+    profiles: current.profiles.map((profile) => {
+      const entry = encryptedProfiles.get(profile.id);
+      if (entry && entry.managementKey === profile.managementKey) {
+        return { ...profile, encryptedManagementKey: entry.encrypted };
+      }
+      // 尚未解锁的配置档保留原密文
+      if (!profile.managementKey && profile.rememberPassword) {
+        return profile;
+      }
+      return withoutEncryptedKey(profile);
+    })
+  }));
+};
 
 export const useAuthStore = create<AuthStoreState>()(
   persist(
@@ -38,8 +177,14 @@ export const useAuthStore = create<AuthStoreState>()(
       rememberPassword: false,
       serverVersion: null,
       serverBuildDate: null,
+      profiles: [],
+      activeProfileId: null,
+      keyProtection: 'obfuscation',
+      encryptedManagementKey: null,
+      readOnly: false,
       connectionStatus: 'disconnected',
       connectionError: null,
+      passphraseRequired: false,
 
       // 恢复会话并自动登录
       restoreSession: () => {
@@ -52,12 +197,30 @@ export const useAuthStore = create<AuthStoreState>()(
           const legacyBase =
             obfuscatedStorage.getItem<string>('apiBase') ||
             obfuscatedStorage.getItem<string>('apiUrl', { encrypt: true });
+          const { apiBase, managementKey, rememberPassword, activeProfileId, keyProtection, encryptedManagementKey } =
+            get();
+          const passphraseLocked = keyProtection === 'passphrase' && Boolean(encryptedManagementKey);
+          if (passphraseLocked) {
+            // 已改为口令加密保存，旧版 enc::v1:: 混淆副本不应再保留
+            obfuscatedStorage.removeItem('managementKey');
+          }
           const legacyKey = obfuscatedStorage.getItem<string>('managementKey');
 
-          const { apiBase, managementKey, rememberPassword } = get();
           const resolvedBase = normalizeApiBase(apiBase || legacyBase || detectApiBaseFromLocation());
           const resolvedKey = managementKey || legacyKey || '';
-          const resolvedRememberPassword = rememberPassword || Boolean(managementKey) || Boolean(legacyKey);
+          const resolvedRememberPassword =
+            rememberPassword || Boolean(managementKey) || Boolean(legacyKey) || passphraseLocked;
+
+          // 密钥以口令加密保存时，需要用户输入口令解锁后才能自动登录
+          if (passphraseLocked && !resolvedKey) {
+            set({
+              apiBase: resolvedBase,
+              rememberPassword: true,
+              passphraseRequired: wasLoggedIn
+            });
+            apiClient.setConfig({ apiBase: resolvedBase, managementKey: '' });
+            return false;
+          }
 
           set({
             apiBase: resolvedBase,
@@ -66,12 +229,18 @@ export const useAuthStore = create<AuthStoreState>()(
           });
           apiClient.setConfig({ apiBase: resolvedBase, managementKey: resolvedKey });
 
+          // 会话在锁定状态下关闭或刷新时，不自动登录，需重新输入密钥
+          if (useSessionLockStore.getState().locked) {
+            return false;
+          }
+
           if (wasLoggedIn && resolvedBase && resolvedKey) {
             try {
               await get().login({
                 apiBase: resolvedBase,
                 managementKey: resolvedKey,
-                rememberPassword: resolvedRememberPassword
+                rememberPassword: resolvedRememberPassword,
+                profileId: activeProfileId
               });
               return true;
             } catch (error) {
@@ -91,34 +260,58 @@ export const useAuthStore = create<AuthStoreState>()(
         const apiBase = normalizeApiBase(credentials.apiBase);
         const managementKey = credentials.managementKey.trim();
         const rememberPassword = credentials.rememberPassword ?? get().rememberPassword ?? false;
+        const readOnly = credentials.readOnly ?? get().readOnly;
+        const profileId =
+          credentials.profileId !== undefined
+            ? credentials.profileId
+            : (get().profiles.find((profile) => profile.apiBase === apiBase)?.id ?? null);
 
         try {
           set({ connectionStatus: 'connecting' });
-          useModelsStore.getState().clearCache();
+          switchConnectionScope(resolveConnectionScope(apiBase, profileId));
 
           // 配置 API 客户端
           apiClient.setConfig({
             apiBase,
             managementKey
           });
+          apiClient.setReadOnly(readOnly);
 
           // 测试连接 - 获取配置
           await useConfigStore.getState().fetchConfig(undefined, true);
 
+          // 先完成口令加密再写入密钥，派生失败时不会留下混淆保存的明文副本
+          if (credentials.passphrase) {
+            await get().enablePassphraseProtection(credentials.passphrase, managementKey);
+          }
+
           // 登录成功
-          set({
+          set((state) => ({
             isAuthenticated: true,
             apiBase,
             managementKey,
             rememberPassword,
+            readOnly,
+            activeProfileId: profileId,
+            profiles: state.profiles.map((profile) =>
+              profile.id === profileId
+                ? {
+                    ...profile,
+                    lastUsedAt: Date.now(),
+                    ...(profile.rememberPassword ? { managementKey } : {})
+                  }
+                : profile
+            ),
             connectionStatus: 'connected',
             connectionError: null
-          });
+          }));
+          useSessionLockStore.getState().unlock();
           if (rememberPassword) {
             localStorage.setItem('isLoggedIn', 'true');
           } else {
             localStorage.removeItem('isLoggedIn');
           }
+          void syncProtectedSecrets();
         } catch (error: unknown) {
           const message =
             error instanceof Error
@@ -137,8 +330,9 @@ export const useAuthStore = create<AuthStoreState>()(
       // 登出
       logout: () => {
         restoreSessionPromise = null;
-        useConfigStore.getState().clearCache();
-        useModelsStore.getState().clearCache();
+        passphraseSession = null;
+        resetConnectionScopes();
+        useSessionLockStore.getState().unlock();
         set({
           isAuthenticated: false,
           apiBase: '',
@@ -146,7 +340,8 @@ export const useAuthStore = create<AuthStoreState>()(
           serverVersion: null,
           serverBuildDate: null,
           connectionStatus: 'disconnected',
-          connectionError: null
+          connectionError: null,
+          passphraseRequired: false
         });
         localStorage.removeItem('isLoggedIn');
       },
@@ -192,6 +387,185 @@ export const useAuthStore = create<AuthStoreState>()(
           connectionStatus: status,
           connectionError: error
         });
+      },
+
+      // 新建或更新连接配置档
+      saveProfile: (input) => {
+        const apiBase = normalizeApiBase(input.apiBase);
+        const rememberPassword = input.rememberPassword ?? false;
+        const managementKey = input.managementKey?.trim() || '';
+        const existing = input.id ? get().profiles.find((profile) => profile.id === input.id) : null;
+
+        const profile: ConnectionProfile = {
+          id: existing?.id ?? generateId(),
+          name: input.name.trim() || apiBase,
+          apiBase,
+          rememberPassword,
+          ...(input.readOnly ? { readOnly: true } : {}),
+          ...(rememberPassword && managementKey ? { managementKey } : {}),
+          ...(rememberPassword && !managementKey && existing?.encryptedManagementKey
+            ? { encryptedManagementKey: existing.encryptedManagementKey }
+            : {}),
+          createdAt: existing?.createdAt ?? Date.now(),
+          lastUsedAt: existing?.lastUsedAt ?? null
+        };
+
+        set((state) => ({
+          profiles: existing
+            ? state.profiles.map((item) => (item.id === profile.id ? profile : item))
+            : [...state.profiles, profile],
+          // 为当前连接保存的配置档直接视为激活状态
+          activeProfileId:
+            !state.activeProfileId && state.isAuthenticated && state.apiBase === apiBase
+              ? profile.id
+              : state.activeProfileId
+        }));
+        void syncProtectedSecrets();
+
+        return profile;
+      },
+
+      // 删除连接配置档
+      removeProfile: (id) => {
+        set((state) => ({
+          profiles: state.profiles.filter((profile) => profile.id !== id),
+          activeProfileId: state.activeProfileId === id ? null : state.activeProfileId
+        }));
+      },
+
+      // 切换到指定连接配置档，失败时回退到原连接
+      switchProfile: async (id, managementKey) => {
+        const profile = get().profiles.find((item) => item.id === id);
+        if (!profile) {
+          throw new Error('Connection profile not found');
+        }
+
+        const keyToUse = managementKey?.trim() || profile.managementKey || '';
+        if (!keyToUse) {
+          throw new Error('Management key is required');
+        }
+
+        const previous = get();
+        const previousScope = resolveConnectionScope(previous.apiBase, previous.activeProfileId);
+
+        profileSwitchInFlight = true;
+        try {
+          await get().login({
+            apiBase: profile.apiBase,
+            managementKey: keyToUse,
+            rememberPassword: profile.rememberPassword,
+            profileId: profile.id,
+            readOnly: profile.readOnly ?? false
+          });
+        } catch (error) {
+          if (previous.isAuthenticated) {
+            apiClient.setConfig({
+              apiBase: previous.apiBase,
+              managementKey: previous.managementKey
+            });
+            apiClient.setReadOnly(previous.readOnly);
+            switchConnectionScope(previousScope);
+            set({ connectionStatus: 'connected', connectionError: null });
+          }
+          throw error;
+        } finally {
+          profileSwitchInFlight = false;
+        }
+      },
+
+      // 启用口令加密：使用新口令重新加密当前及各配置档保存的密钥，并移除旧版混淆副本
+      enablePassphraseProtection: async (passphrase, managementKey) => {
+        const { profiles, encryptedManagementKey } = get();
+        const decrypt = createPassphraseDecryptor(passphrase);
+
+        // 仍处于锁定状态的配置档先尝试用同一口令解密，以便统一换成新的 salt
+        const unlockedKeys = new Map<string, string>();
+        for (const profile of profiles) {
+          if (!profile.managementKey && profile.encryptedManagementKey) {
+            try {
+              unlockedKeys.set(profile.id, (await decrypt(profile.encryptedManagementKey)).value);
+            } catch {
+              // 口令不同则保留原密文，切换时再提示输入密钥
+            }
+          }
+        }
+
+        passphraseSession = await derivePassphraseKey(passphrase);
+        reencryptConfigSnapshots(passphraseSession, decrypt);
+        const legacyKey = obfuscatedStorage.getItem<string>('managementKey');
+        obfuscatedStorage.removeItem('managementKey');
+
+        set((state) => ({
+          keyProtection: 'passphrase',
+          rememberPassword: true,
+          managementKey: managementKey || state.managementKey || legacyKey || '',
+          encryptedManagementKey:
+            managementKey || state.managementKey || legacyKey ? null : encryptedManagementKey,
+          passphraseRequired: false,
+          profiles: state.profiles.map((profile) =>
+            unlockedKeys.has(profile.id)
+              ? { ...profile, managementKey: unlockedKeys.get(profile.id) }
+              : profile
+          )
+        }));
+        await syncProtectedSecrets();
+      },
+
+      // 关闭口令加密：回退为默认的混淆保存；仍处于锁定状态的密文无法还原，直接丢弃
+      disablePassphraseProtection: () => {
+        if (passphraseSession) {
+          decryptConfigSnapshots(passphraseSession).catch((error: unknown) => {
+            console.warn('Failed to decrypt config snapshots:', error);
+          });
+        }
+        passphraseSession = null;
+        set((state) => ({
+          keyProtection: 'obfuscation',
+          encryptedManagementKey: null,
+          passphraseRequired: false,
+          profiles: state.profiles.map(withoutEncryptedKey)
+        }));
+      },
+
+      // 使用口令解锁保存的密钥并自动登录
+      unlockWithPassphrase: async (passphrase) => {
+        const { apiBase, encryptedManagementKey, profiles, activeProfileId } = get();
+        if (!encryptedManagementKey) {
+          throw new Error(PASSPHRASE_INVALID_ERROR);
+        }
+
+        const decrypt = createPassphraseDecryptor(passphrase);
+        const { value: managementKey, key } = await decrypt(encryptedManagementKey);
+
+        const profileKeys = new Map<string, string>();
+        for (const profile of profiles) {
+          if (profile.encryptedManagementKey) {
+            try {
+              profileKeys.set(profile.id, (await decrypt(profile.encryptedManagementKey)).value);
+            } catch {
+              // 单个配置档解密失败不影响主连接解锁
+            }
+          }
+        }
+
+        passphraseSession = key;
+        reencryptConfigSnapshots(key, decrypt);
+        set((state) => ({
+          managementKey,
+          passphraseRequired: false,
+          profiles: state.profiles.map((profile) =>
+            profileKeys.has(profile.id)
+              ? { ...profile, managementKey: profileKeys.get(profile.id) }
+              : profile
+          )
+        }));
+
+        await get().login({
+          apiBase,
+          managementKey,
+          rememberPassword: true,
+          profileId: activeProfileId
+        });
       }
     }),
     {
@@ -208,20 +582,45 @@ export const useAuthStore = create<AuthStoreState>()(
           obfuscatedStorage.removeItem(name);
         }
       })),
-      partialize: (state) => ({
-        apiBase: state.apiBase,
-        ...(state.rememberPassword ? { managementKey: state.managementKey } : {}),
-        rememberPassword: state.rememberPassword,
-        serverVersion: state.serverVersion,
-        serverBuildDate: state.serverBuildDate
-      })
+      partialize: (state) => {
+        // 口令模式下只持久化密文，明文密钥仅保留在内存中
+        const passphraseMode = state.keyProtection === 'passphrase';
+        return {
+          apiBase: state.apiBase,
+          ...(state.rememberPassword && !passphraseMode ? { managementKey: state.managementKey } : {}),
+          rememberPassword: state.rememberPassword,
+          serverVersion: state.serverVersion,
+          serverBuildDate: state.serverBuildDate,
+          profiles: state.profiles.map(({ managementKey, encryptedManagementKey, ...profile }) => {
+            if (!profile.rememberPassword) return profile;
+            if (passphraseMode) {
+              return encryptedManagementKey ? { ...profile, encryptedManagementKey } : profile;
+            }
+            return managementKey ? { ...profile, managementKey } : profile;
+          }),
+          activeProfileId: state.activeProfileId,
+          readOnly: state.readOnly,
+          keyProtection: state.keyProtection,
+          encryptedManagementKey: passphraseMode ? state.encryptedManagementKey : null
+        };
+      }
     }
   )
 );
 
+/**
+ * 口令模式下的会话密钥，供配置快照等本地敏感数据加密；未启用口令模式时返回 null
+ */
+export const getPassphraseSessionKey = (): PassphraseKey | null =>
+  useAuthStore.getState().keyProtection === 'passphrase' ? passphraseSession : null;
+
 // 监听全局未授权事件
 if (typeof window !== 'undefined') {
   window.addEventListener('unauthorized', () => {
+    // 切换配置档失败时会回退到原连接，不应因新连接的 401 而登出
+    if (profileSwitchInFlight) return;
+    // 锁定期间 apiClient 已无密钥，遗留请求的 401 不应导致登出
+    if (useSessionLockStore.getState().locked) return;
     useAuthStore.getState().logout();
   });
 
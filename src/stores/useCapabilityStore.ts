@@ -0,0 +1,99 @@
+/**
+ * 后端能力状态管理
+ * 每个连接只检测一次，页面遇到 404 时也会回写结果
+ */
+
+import { create } from 'zustand';
+import { CAPABILITY_IDS, capabilitiesApi } from '@/services/api/capabilities';
+import type { CapabilityId, CapabilityMap, CapabilityStatus } from '@/types';
+
+interface CapabilitySnapshot {
+  capabilities: CapabilityMap;
+  detectedKey: string | null;
+}
+
+interface CapabilityState extends CapabilitySnapshot {
+  scope: string;
+  detecting: boolean;
+
+  detect: (version: string | null, force?: boolean) => Promise<void>;
+  markSupported: (id: CapabilityId) => void;
+  markUnsupported: (id: CapabilityId) => void;
+  isUnsupported: (id: CapabilityId) => boolean;
+  switchScope: (scope: string) => void;
+  clearScopes: () => void;
+}
+
+const createUnknownCapabilities = (): CapabilityMap =>
+  Object.fromEntries(CAPABILITY_IDS.map((id) => [id, 'unknown'])) as CapabilityMap;
+
+// 其他连接的检测结果，切回时无需重新探测
+const scopedSnapshots = new Map<string, CapabilitySnapshot>();
+
+let detectToken = 0;
+
+export const useCapabilityStore = create<CapabilityState>((set, get) => ({
+  capabilities: createUnknownCapabilities(),
+  detectedKey: null,
+  scope: '',
+  detecting: false,
+
+  detect: async (version, force = false) => {
+    const { scope, detectedKey } = get();
+    if (!scope) return;
+
+    // 版本变化（如后端升级）时重新检测
+    const key = `${scope}|${version ?? ''}`;
+    if (!force && detectedKey === key) return;
+
+    const token = (detectToken += 1);
+    set({ detectedKey: key, detecting: true });
+
+    const results = await Promise.all(
+      CAPABILITY_IDS.map(async (id): Promise<[CapabilityId, CapabilityStatus]> => {
+        const inferred = capabilitiesApi.inferFromVersion(id, version);
+        return [id, inferred ?? (await capabilitiesApi.probe(id))];
+      })
+    );
+
+    // 检测期间已切换连接，丢弃旧连接的结果
+    if (token !== detectToken || get().scope !== scope) return;
+
+    set({ capabilities: Object.fromEntries(results) as CapabilityMap, detecting: false });
+  },
+
+  markSupported: (id) => {
+    if (get().capabilities[id] === 'supported') return;
+    set((state) => ({ capabilities: { ...state.capabilities, [id]: 'supported' } }));
+  },
+
+  markUnsupported: (id) => {
+    if (get().capabilities[id] === 'unsupported') return;
+    set((state) => ({ capabilities: { ...state.capabilities, [id]: 'unsupported' } }));
+  },
+
+  isUnsupported: (id) => get().capabilities[id] === 'unsupported',
+
+  switchScope: (scope) => {
+    const { scope: currentScope, capabilities, detectedKey } = get();
+    if (scope === currentScope) return;
+
+    if (currentScope && detectedKey) {
+      scopedSnapshots.set(currentScope, { capabilities, detectedKey });
+    }
+    const restored = scopedSnapshots.get(scope);
+    scopedSnapshots.delete(scope);
+
+    detectToken += 1;
+    set({
+      scope,
+      capabilities: restored?.capabilities ?? createUnknownCapabilities(),
+      detectedKey: restored?.detectedKey ?? null,
+      detecting: false,
+    });
+  },
+
+  clearScopes: () => {
+    scopedSnapshots.clear();
+  },
+}));
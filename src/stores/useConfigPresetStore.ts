@@ -0,0 +1,49 @@
+/**
+ * 自定义配置预设
+ * 保存在浏览器本地，可导出为 JSON 文件在团队内共享
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ConfigPreset } from '@/types';
+import { STORAGE_KEY_CONFIG_PRESETS } from '@/utils/constants';
+import { normalizeConfigPresets } from '@/utils/configPresets';
+
+interface ConfigPresetState {
+  presets: ConfigPreset[];
+  addPreset: (preset: ConfigPreset) => void;
+  removePreset: (id: string) => void;
+  // 导入时按 id 覆盖同名预设，返回导入的数量
+  importPresets: (presets: ConfigPreset[]) => number;
+}
+
+export const useConfigPresetStore = create<ConfigPresetState>()(
+  persist(
+    (set, get) => ({
+      presets: [],
+
+      addPreset: (preset) => {
+        set({ presets: [...get().presets.filter((item) => item.id !== preset.id), preset] });
+      },
+
+      removePreset: (id) => {
+        set({ presets: get().presets.filter((item) => item.id !== id) });
+      },
+
+      importPresets: (presets) => {
+        if (presets.length === 0) return 0;
+        const ids = new Set(presets.map((item) => item.id));
+        set({ presets: [...get().presets.filter((item) => !ids.has(item.id)), ...presets] });
+        return presets.length;
+      },
+    }),
+    {
+      name: STORAGE_KEY_CONFIG_PRESETS,
+      partialize: (state) => ({ presets: state.presets }),
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        presets: normalizeConfigPresets((persistedState as Partial<ConfigPresetState>)?.presets),
+      }),
+    }
+  )
+);
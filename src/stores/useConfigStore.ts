@@ -6,19 +6,15 @@
 import { create } from 'zustand';
 import type { Config } from '@/types';
 import type { RawConfigSection } from '@/types/config';
-import { configApi } from '@/services/api/config';
-import { CACHE_EXPIRY_MS } from '@/utils/constants';
-
-interface ConfigCache {
-  data: unknown;
-  timestamp: number;
-}
+import { configQuery } from '@/services/query/queries';
+import { useQueryStore } from './useQueryStore';
 
 interface ConfigState {
+  // 查询缓存中完整配置的镜像，其他页面保存后同步更新
   config: Config | null;
-  cache: Map<string, ConfigCache>;
   loading: boolean;
   error: string | null;
+  scope: string;
 
   // 操作
   fetchConfig: {
@@ -28,11 +24,10 @@ interface ConfigState {
   updateConfigValue: (section: RawConfigSection, value: unknown) => void;
   clearCache: (section?: RawConfigSection) => void;
   isCacheValid: (section?: RawConfigSection) => boolean;
+  switchScope: (scope: string) => void;
+  getSnapshotForPath: (path: string) => unknown;
 }
 
-let configRequestToken = 0;
-let inFlightConfigRequest: { id: number; promise: Promise<Config> } | null = null;
-
 const SECTION_KEYS: RawConfigSection[] = [
   'debug',
   'proxy-url',
@@ -99,193 +94,176 @@ const extractSectionValue = (config: Config | null, section?: RawConfigSection)
   }
 };
 
+/**
+ * 根据管理接口路径推断对应的配置分段，如 /ampcode/upstream-url → ampcode
+ */
+export const resolveConfigSectionForPath = (path: string): RawConfigSection | null => {
+  const normalized = path.split(/[?#]/)[0].replace(/^\/+|\/+$/g, '');
+  let match: RawConfigSection | null = null;
+  SECTION_KEYS.forEach((section) => {
+    if (
+      (normalized === section || normalized.startsWith(`${section}/`)) &&
+      (!match || section.length > match.length)
+    ) {
+      match = section;
+    }
+  });
+  return match;
+};
+
 export const useConfigStore = create<ConfigState>((set, get) => ({
   config: null,
-  cache: new Map(),
   loading: false,
   error: null,
+  scope: '',
 
   fetchConfig: (async (section?: RawConfigSection, forceRefresh: boolean = false) => {
-    const { cache, isCacheValid } = get();
+    const queries = useQueryStore.getState();
 
-    // 检查缓存
-    const cacheKey = section || '__full__';
-    if (!forceRefresh && isCacheValid(section)) {
-      const cached = cache.get(cacheKey);
+    // 分段读取复用完整配置的缓存，避免重复 /config 请求
+    if (!forceRefresh && queries.isFresh(configQuery)) {
+      const cached = queries.getQueryData<Config>(configQuery.key);
       if (cached) {
-        return cached.data;
+        return section ? extractSectionValue(cached, section) : cached;
       }
     }
 
-    // section 缓存未命中但 full 缓存可用时，直接复用已获取到的配置，避免重复 /config 请求
-    if (!forceRefresh && section && isCacheValid()) {
-      const fullCached = cache.get('__full__');
-      if (fullCached?.data) {
-        return extractSectionValue(fullCached.data as Config, section);
-      }
-    }
-
-    // 同一时刻合并多个 /config 请求（如 StrictMode 或多个页面同时触发）
-    if (inFlightConfigRequest) {
-      const data = await inFlightConfigRequest.promise;
-      return section ? extractSectionValue(data, section) : data;
-    }
-
-    // 获取新数据
+    const { scope } = get();
     set({ loading: true, error: null });
 
-    const requestId = (configRequestToken += 1);
     try {
-      const requestPromise = configApi.getConfig();
-      inFlightConfigRequest = { id: requestId, promise: requestPromise };
-      const data = await requestPromise;
-      const now = Date.now();
-
-      // 如果在请求过程中连接已被切换/登出，则忽略旧请求的结果，避免覆盖新会话的状态
-      if (requestId !== configRequestToken) {
-        return section ? extractSectionValue(data, section) : data;
+      // 同一时刻的多个 /config 请求由查询缓存合并（如 StrictMode 或多个页面同时触发）
+      const data = await queries.fetchQuery(configQuery, { force: forceRefresh });
+      if (get().scope === scope) {
+        set({ loading: false });
       }
-
-      // 更新缓存
-      const newCache = new Map(cache);
-      newCache.set('__full__', { data, timestamp: now });
-      SECTION_KEYS.forEach((key) => {
-        const value = extractSectionValue(data, key);
-        if (value !== undefined) {
-          newCache.set(key, { data: value, timestamp: now });
-        }
-      });
-
-      set({
-        config: data,
-        cache: newCache,
-        loading: false
-      });
-
       return section ? extractSectionValue(data, section) : data;
     } catch (error: unknown) {
       const message =
         error instanceof Error ? error.message : typeof error === 'string' ? error : 'Failed to fetch config';
-      if (requestId === configRequestToken) {
+      // 请求过程中连接已被切换/登出时，不覆盖新会话的状态
+      if (get().scope === scope) {
         set({
           error: message || 'Failed to fetch config',
           loading: false
         });
       }
       throw error;
-    } finally {
-      if (inFlightConfigRequest?.id === requestId) {
-        inFlightConfigRequest = null;
-      }
     }
   }) as ConfigState['fetchConfig'],
 
   updateConfigValue: (section, value) => {
-    set((state) => {
-      const raw = { ...(state.config?.raw || {}) };
-      raw[section] = value;
-      const nextConfig: Config = { ...(state.config || {}), raw };
-
-      switch (section) {
-        case 'debug':
-          nextConfig.debug = value as Config['debug'];
-          break;
-        case 'proxy-url':
-          nextConfig.proxyUrl = value as Config['proxyUrl'];
-          break;
-        case 'request-retry':
-          nextConfig.requestRetry = value as Config['requestRetry'];
-          break;
-        case 'quota-exceeded':
-          nextConfig.quotaExceeded = value as Config['quotaExceeded'];
-          break;
-        case 'request-log':
-          nextConfig.requestLog = value as Config['requestLog'];
-          break;
-        case 'logging-to-file':
-          nextConfig.loggingToFile = value as Config['loggingToFile'];
-          break;
-        case 'logs-max-total-size-mb':
-          nextConfig.logsMaxTotalSizeMb = value as Config['logsMaxTotalSizeMb'];
-          break;
-        case 'ws-auth':
-          nextConfig.wsAuth = value as Config['wsAuth'];
-          break;
-        case 'force-model-prefix':
-          nextConfig.forceModelPrefix = value as Config['forceModelPrefix'];
-          break;
-        case 'routing/strategy':
-          nextConfig.routingStrategy = value as Config['routingStrategy'];
-          break;
-        case 'api-keys':
-          nextConfig.apiKeys = value as Config['apiKeys'];
-          break;
-        case 'ampcode':
-          nextConfig.ampcode = value as Config['ampcode'];
-          break;
-        case 'gemini-api-key':
-          nextConfig.geminiApiKeys = value as Config['geminiApiKeys'];
-          break;
-        case 'codex-api-key':
-          nextConfig.codexApiKeys = value as Config['codexApiKeys'];
-          break;
-        case 'claude-api-key':
-          nextConfig.claudeApiKeys = value as Config['claudeApiKeys'];
-          break;
-        case 'vertex-api-key':
-          nextConfig.vertexApiKeys = value as Config['vertexApiKeys'];
-          break;
-        case 'openai-compatibility':
-          nextConfig.openaiCompatibility = value as Config['openaiCompatibility'];
-          break;
-        case 'oauth-excluded-models':
-          nextConfig.oauthExcludedModels = value as Config['oauthExcludedModels'];
-          break;
-        default:
-          break;
-      }
+    useQueryStore.getState().setQueryData<Config>(
+      configQuery.key,
+      (current) => {
+        const raw = { ...(current?.raw || {}) };
+        raw[section] = value;
+        const nextConfig: Config = { ...(current || {}), raw };
 
-      return { config: nextConfig };
-    });
+        switch (section) {
+          case 'debug':
+            nextConfig.debug = value as Config['debug'];
+            break;
+          case 'proxy-url':
+            nextConfig.proxyUrl = value as Config['proxyUrl'];
+            break;
+          case 'request-retry':
+            nextConfig.requestRetry = value as Config['requestRetry'];
+            break;
+          case 'quota-exceeded':
+            nextConfig.quotaExceeded = value as Config['quotaExceeded'];
+            break;
+          case 'request-log':
+            nextConfig.requestLog = value as Config['requestLog'];
+            break;
+          case 'logging-to-file':
+            nextConfig.loggingToFile = value as Config['loggingToFile'];
+            break;
+          case 'logs-max-total-size-mb':
+            nextConfig.logsMaxTotalSizeMb = value as Config['logsMaxTotalSizeMb'];
+            break;
+          case 'ws-auth':
+            nextConfig.wsAuth = value as Config['wsAuth'];
+            break;
+          case 'force-model-prefix':
+            nextConfig.forceModelPrefix = value as Config['forceModelPrefix'];
+            break;
+          case 'routing/strategy':
+            nextConfig.routingStrategy = value as Config['routingStrategy'];
+            break;
+          case 'api-keys':
+            nextConfig.apiKeys = value as Config['apiKeys'];
+            break;
+          case 'ampcode':
+            nextConfig.ampcode = value as Config['ampcode'];
+            break;
+          case 'gemini-api-key':
+            nextConfig.geminiApiKeys = value as Config['geminiApiKeys'];
+            break;
+          case 'codex-api-key':
+            nextConfig.codexApiKeys = value as Config['codexApiKeys'];
+            break;
+          case 'claude-api-key':
+            nextConfig.claudeApiKeys = value as Config['claudeApiKeys'];
+            break;
+          case 'vertex-api-key':
+            nextConfig.vertexApiKeys = value as Config['vertexApiKeys'];
+            break;
+          case 'openai-compatibility':
+            nextConfig.openaiCompatibility = value as Config['openaiCompatibility'];
+            break;
+          case 'oauth-excluded-models':
+            nextConfig.oauthExcludedModels = value as Config['oauthExcludedModels'];
+            break;
+          default:
+            break;
+        }
 
-    // 清除该 section 的缓存
-    get().clearCache(section);
+        return nextConfig;
+      },
+      // 本地值只是乐观结果，标记为过期；不能丢弃写请求成功后触发的刷新
+      { optimistic: true }
+    );
+    set({ loading: false, error: null });
   },
 
   clearCache: (section) => {
-    const { cache } = get();
-    const newCache = new Map(cache);
-
+    const queries = useQueryStore.getState();
     if (section) {
-      newCache.delete(section);
-      // 同时清除完整配置缓存
-      newCache.delete('__full__');
-
-      // Section-level invalidation usually follows an optimistic write path. Invalidate any in-flight
-      // full fetch so stale responses can't overwrite newer local changes.
-      configRequestToken += 1;
-      inFlightConfigRequest = null;
-
-      set({ cache: newCache, loading: false, error: null });
+      queries.invalidateQueries(configQuery.key, { refetch: false });
+      set({ loading: false, error: null });
       return;
-    } else {
-      newCache.clear();
     }
 
     // 清除全部缓存一般代表“切换连接/登出/全量刷新”，需要让 in-flight 的旧请求失效
-    configRequestToken += 1;
-    inFlightConfigRequest = null;
-
-    set({ config: null, cache: newCache, loading: false, error: null });
+    queries.removeQueries(configQuery.key);
+    set({ loading: false, error: null });
   },
 
-  isCacheValid: (section) => {
-    const { cache } = get();
-    const cacheKey = section || '__full__';
-    const cached = cache.get(cacheKey);
+  // 分段与完整配置共用同一份缓存
+  isCacheValid: () => useQueryStore.getState().isFresh(configQuery),
 
-    if (!cached) return false;
+  // 返回写请求发出前对应配置分段的缓存值（/config.yaml 返回完整配置），未缓存时返回 undefined
+  getSnapshotForPath: (path) => {
+    const { config } = get();
+    if (!config) return undefined;
+    if (path.split(/[?#]/)[0].replace(/\/+$/, '') === '/config.yaml') {
+      return config.raw ?? config;
+    }
+    const section = resolveConfigSectionForPath(path);
+    return section ? extractSectionValue(config, section) : undefined;
+  },
 
-    return Date.now() - cached.timestamp < CACHE_EXPIRY_MS;
+  // 缓存本身随查询缓存按连接切换，这里只重置请求状态
+  switchScope: (scope) => {
+    if (scope === get().scope) return;
+    set({ scope, loading: false, error: null });
   }
 }));
+
+// config 与查询缓存中的完整配置保持一致
+useQueryStore.subscribe((state, prevState) => {
+  const next = state.entries[configQuery.key]?.data as Config | undefined;
+  if (next === prevState.entries[configQuery.key]?.data) return;
+  useConfigStore.setState({ config: next ?? null });
+});
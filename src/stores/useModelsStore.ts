@@ -1,81 +1,79 @@
 /**
- * 模型列表状态管理（带缓存）
+ * 模型列表状态管理（缓存由查询缓存提供）
  */
 
 import { create } from 'zustand';
-import { modelsApi } from '@/services/api/models';
-import { CACHE_EXPIRY_MS } from '@/utils/constants';
+import { createModelsQuery, QUERY_KEYS } from '@/services/query/queries';
 import type { ModelInfo } from '@/utils/models';
-
-interface ModelsCache {
-  data: ModelInfo[];
-  timestamp: number;
-  apiBase: string;
-  apiKey: string;
-}
+import { useQueryStore } from './useQueryStore';
 
 interface ModelsState {
   models: ModelInfo[];
   loading: boolean;
   error: string | null;
-  cache: ModelsCache | null;
+  scope: string;
 
   fetchModels: (apiBase: string, apiKey?: string, forceRefresh?: boolean) => Promise<ModelInfo[]>;
   clearCache: () => void;
   isCacheValid: (apiBase: string, apiKey?: string) => boolean;
+  switchScope: (scope: string) => void;
 }
 
 export const useModelsStore = create<ModelsState>((set, get) => ({
   models: [],
   loading: false,
   error: null,
-  cache: null,
+  scope: '',
 
   fetchModels: async (apiBase, apiKey, forceRefresh = false) => {
-    const { cache, isCacheValid } = get();
-    const apiKeyScope = apiKey?.trim() || '';
+    const { scope } = get();
+    const query = createModelsQuery(apiBase, apiKey?.trim() || '');
+    const queries = useQueryStore.getState();
 
     // 检查缓存
-    if (!forceRefresh && isCacheValid(apiBase, apiKeyScope) && cache) {
-      set({ models: cache.data, error: null });
-      return cache.data;
+    const cached = queries.getQueryData<ModelInfo[]>(query.key);
+    if (!forceRefresh && cached && queries.isFresh(query)) {
+      set({ models: cached, error: null });
+      return cached;
     }
 
     set({ loading: true, error: null });
 
     try {
-      const list = await modelsApi.fetchModels(apiBase, apiKeyScope || undefined);
-      const now = Date.now();
+      const list = await queries.fetchQuery(query, { force: forceRefresh });
 
-      set({
-        models: list,
-        loading: false,
-        cache: { data: list, timestamp: now, apiBase, apiKey: apiKeyScope }
-      });
+      // 请求期间已切换到其他连接，丢弃旧连接的结果
+      if (get().scope !== scope) {
+        return list;
+      }
 
+      set({ models: list, loading: false });
       return list;
     } catch (error: unknown) {
       const message =
         error instanceof Error ? error.message : typeof error === 'string' ? error : 'Failed to fetch models';
-      set({
-        error: message,
-        loading: false,
-        models: []
-      });
+      if (get().scope === scope) {
+        set({
+          error: message,
+          loading: false,
+          models: []
+        });
+      }
       throw error;
     }
   },
 
   clearCache: () => {
-    set({ cache: null, models: [] });
+    useQueryStore.getState().removeQueries(QUERY_KEYS.models);
+    set({ models: [] });
   },
 
-  isCacheValid: (apiBase, apiKey) => {
-    const { cache } = get();
-    if (!cache) return false;
-    if (cache.apiBase !== apiBase) return false;
-    const apiKeyScope = apiKey?.trim() || '';
-    if ((cache.apiKey || '') !== apiKeyScope) return false;
-    return Date.now() - cache.timestamp < CACHE_EXPIRY_MS;
+  isCacheValid: (apiBase, apiKey) =>
+    useQueryStore.getState().isFresh(createModelsQuery(apiBase, apiKey?.trim() || '')),
+
+  // 缓存随查询缓存按连接切换；模型列表在下次 fetchModels 时从切回连接的缓存恢复
+  switchScope: (scope) => {
+    if (scope === get().scope) return;
+    set({ scope, models: [], loading: false, error: null });
   }
 }));
@@ -0,0 +1,44 @@
+/**
+ * 自定义 OpenAI 兼容提供商模板
+ * 保存在浏览器本地，只记录 Base URL、模型与请求头，不包含密钥
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { OpenAIProviderTemplate } from '@/types';
+import { STORAGE_KEY_OPENAI_PROVIDER_TEMPLATES } from '@/utils/constants';
+import { normalizeOpenAIProviderTemplates } from '@/utils/openaiProviderTemplates';
+
+interface OpenAIProviderTemplateState {
+  templates: OpenAIProviderTemplate[];
+  addTemplate: (template: OpenAIProviderTemplate) => void;
+  removeTemplate: (id: string) => void;
+}
+
+export const useOpenAIProviderTemplateStore = create<OpenAIProviderTemplateState>()(
+  persist(
+    (set, get) => ({
+      templates: [],
+
+      addTemplate: (template) => {
+        set({
+          templates: [...get().templates.filter((item) => item.id !== template.id), template],
+        });
+      },
+
+      removeTemplate: (id) => {
+        set({ templates: get().templates.filter((item) => item.id !== id) });
+      },
+    }),
+    {
+      name: STORAGE_KEY_OPENAI_PROVIDER_TEMPLATES,
+      partialize: (state) => ({ templates: state.templates }),
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        templates: normalizeOpenAIProviderTemplates(
+          (persistedState as Partial<OpenAIProviderTemplateState>)?.templates
+        ),
+      }),
+    }
+  )
+);
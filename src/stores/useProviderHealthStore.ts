@@ -0,0 +1,143 @@
+/**
+ * 上游密钥定时健康检查
+ * 设置与最近一次检查结果保存在浏览器本地；结果按连接隔离，在同一连接内按密钥指纹索引
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ProviderHealthResult } from '@/types';
+import { STORAGE_KEY_PROVIDER_HEALTH } from '@/utils/constants';
+
+export const PROVIDER_HEALTH_INTERVAL_OPTIONS = [5, 15, 30, 60] as const;
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+interface ProviderHealthSnapshot {
+  results: Record<string, ProviderHealthResult>;
+  lastRunAt: number | null;
+}
+
+interface ProviderHealthState extends ProviderHealthSnapshot {
+  enabled: boolean;
+  intervalMinutes: number;
+  scope: string;
+  // 其他连接的检查结果，切回时恢复
+  scopedSnapshots: Record<string, ProviderHealthSnapshot>;
+  running: boolean;
+  setEnabled: (enabled: boolean) => void;
+  setIntervalMinutes: (minutes: number) => void;
+  setRunning: (running: boolean) => void;
+  setResult: (id: string, result: ProviderHealthResult) => void;
+  // 一轮检查结束后记录时间，并丢弃已不在配置中的密钥结果
+  finishRun: (ids: string[]) => void;
+  switchScope: (scope: string) => void;
+  clearScopes: () => void;
+}
+
+const EMPTY_SNAPSHOT: ProviderHealthSnapshot = { results: {}, lastRunAt: null };
+
+const isValidInterval = (value: unknown): value is number =>
+  PROVIDER_HEALTH_INTERVAL_OPTIONS.includes(
+    value as (typeof PROVIDER_HEALTH_INTERVAL_OPTIONS)[number]
+  );
+
+const isSnapshot = (value: unknown): value is ProviderHealthSnapshot => {
+  if (!value || typeof value !== 'object') return false;
+  const snapshot = value as Partial<ProviderHealthSnapshot>;
+  return (
+    Boolean(snapshot.results) &&
+    typeof snapshot.results === 'object' &&
+    (snapshot.lastRunAt === null || typeof snapshot.lastRunAt === 'number')
+  );
+};
+
+export const useProviderHealthStore = create<ProviderHealthState>()(
+  persist(
+    (set, get) => ({
+      enabled: false,
+      intervalMinutes: DEFAULT_INTERVAL_MINUTES,
+      results: {},
+      lastRunAt: null,
+      scope: '',
+      scopedSnapshots: {},
+      running: false,
+
+      setEnabled: (enabled) => set({ enabled }),
+
+      setIntervalMinutes: (minutes) => {
+        if (!isValidInterval(minutes)) return;
+        set({ intervalMinutes: minutes });
+      },
+
+      setRunning: (running) => set({ running }),
+
+      setResult: (id, result) => {
+        set({ results: { ...get().results, [id]: result } });
+      },
+
+      finishRun: (ids) => {
+        const keep = new Set(ids);
+        const results = Object.fromEntries(
+          Object.entries(get().results).filter(([id]) => keep.has(id))
+        );
+        set({ results, lastRunAt: Date.now(), running: false });
+      },
+
+      switchScope: (scope) => {
+        const { scope: currentScope, results, lastRunAt, scopedSnapshots } = get();
+        if (scope === currentScope) return;
+
+        const nextSnapshots = { ...scopedSnapshots };
+        if (currentScope) {
+          nextSnapshots[currentScope] = { results, lastRunAt };
+        }
+        const restored = nextSnapshots[scope] ?? EMPTY_SNAPSHOT;
+        delete nextSnapshots[scope];
+
+        // 旧连接仍在进行的检查由 runProviderHealthChecks 按 scope 丢弃
+        set({
+          scope,
+          results: restored.results,
+          lastRunAt: restored.lastRunAt,
+          scopedSnapshots: nextSnapshots,
+          running: false,
+        });
+      },
+
+      clearScopes: () => {
+        set({ scopedSnapshots: {} });
+      },
+    }),
+    {
+      name: STORAGE_KEY_PROVIDER_HEALTH,
+      partialize: (state) => ({
+        enabled: state.enabled,
+        intervalMinutes: state.intervalMinutes,
+        // 当前连接的结果与其他连接一起按 scope 保存，刷新后由登录时的 switchScope 恢复
+        scopedSnapshots: state.scope
+          ? {
+              ...state.scopedSnapshots,
+              [state.scope]: { results: state.results, lastRunAt: state.lastRunAt },
+            }
+          : state.scopedSnapshots,
+      }),
+      merge: (persistedState, currentState) => {
+        const persisted = (persistedState ?? {}) as Partial<ProviderHealthState>;
+        const scopedSnapshots =
+          persisted.scopedSnapshots && typeof persisted.scopedSnapshots === 'object'
+            ? Object.fromEntries(
+                Object.entries(persisted.scopedSnapshots).filter(([, item]) => isSnapshot(item))
+              )
+            : {};
+        return {
+          ...currentState,
+          enabled: persisted.enabled === true,
+          intervalMinutes: isValidInterval(persisted.intervalMinutes)
+            ? persisted.intervalMinutes
+            : DEFAULT_INTERVAL_MINUTES,
+          scopedSnapshots,
+        };
+      },
+    }
+  )
+);
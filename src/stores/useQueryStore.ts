@@ -0,0 +1,284 @@
+/**
+ * 查询缓存（stale-while-revalidate）
+ * 按键缓存只读数据：过期后先返回旧数据再后台刷新，写请求成功后按键失效
+ */
+
+import { create } from 'zustand';
+import { isRequestCanceledError } from '@/services/api/client';
+import type { QueryDefinition, QueryEntry } from '@/types';
+
+type QueryUpdater<T> = T | ((prev: T | undefined) => T);
+
+// 字符串匹配该键及以 `${key}:` 开头的子键，如 models 匹配 models:xxx
+type QueryMatcher = string | ((key: string) => boolean);
+
+interface FetchQueryOptions {
+  force?: boolean;
+  signal?: AbortSignal;
+}
+
+interface SetQueryDataOptions {
+  // 乐观更新：数据仅是本地预期结果，保留进行中的请求（含写请求触发的刷新）并标记为过期
+  optimistic?: boolean;
+}
+
+interface InvalidateOptions {
+  // 是否立即刷新正在使用的查询；乐观更新时写请求尚未完成，应等写请求结束后再刷新
+  refetch?: boolean;
+}
+
+interface QueryState {
+  entries: Record<string, QueryEntry>;
+  scope: string;
+
+  fetchQuery: <T>(definition: QueryDefinition<T>, options?: FetchQueryOptions) => Promise<T>;
+  ensureQuery: <T>(definition: QueryDefinition<T>, options?: FetchQueryOptions) => Promise<T>;
+  getQueryData: <T>(key: string) => T | undefined;
+  setQueryData: <T>(key: string, updater: QueryUpdater<T>, options?: SetQueryDataOptions) => void;
+  isFresh: <T>(definition: QueryDefinition<T>) => boolean;
+  invalidateQueries: (matcher: QueryMatcher, options?: InvalidateOptions) => void;
+  removeQueries: (matcher: QueryMatcher) => void;
+  observeQuery: <T>(definition: QueryDefinition<T>) => () => void;
+  refetchStaleObserved: () => void;
+  switchScope: (scope: string) => void;
+  clearScopes: () => void;
+}
+
+const EMPTY_ENTRY: QueryEntry = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  fetching: false,
+  invalidated: false,
+};
+
+// 失效或切换连接后递增，旧请求的结果不再写入缓存
+let epoch = 0;
+const generations = new Map<string, number>();
+// 未传入 signal 的请求按键合并；带 signal 的请求由 apiClient 负责去重
+const sharedFetches = new Map<
+  string,
+  { epoch: number; generation: number; promise: Promise<unknown> }
+>();
+const fetchCounts = new Map<string, number>();
+// 当前有页面正在使用的查询，失效或窗口重新获得焦点时自动刷新
+const observers = new Map<string, { definition: QueryDefinition<unknown>; count: number }>();
+// 其他连接配置档的缓存，切回时可立即复用（仍受各查询的新鲜期约束）
+const scopedEntries = new Map<string, Record<string, QueryEntry>>();
+
+const matchesKey = (matcher: QueryMatcher, key: string) =>
+  typeof matcher === 'string' ? key === matcher || key.startsWith(`${matcher}:`) : matcher(key);
+
+const bumpGeneration = (key: string) => {
+  generations.set(key, (generations.get(key) ?? 0) + 1);
+  sharedFetches.delete(key);
+};
+
+export const useQueryStore = create<QueryState>((set, get) => {
+  const patchEntry = (key: string, patch: Partial<QueryEntry>) => {
+    set((state) => ({
+      entries: { ...state.entries, [key]: { ...(state.entries[key] ?? EMPTY_ENTRY), ...patch } },
+    }));
+  };
+
+  const runFetch = async <T>(definition: QueryDefinition<T>, signal?: AbortSignal): Promise<T> => {
+    const { key } = definition;
+    const startEpoch = epoch;
+    const generation = generations.get(key) ?? 0;
+    const isCurrent = () => epoch === startEpoch && (generations.get(key) ?? 0) === generation;
+
+    fetchCounts.set(key, (fetchCounts.get(key) ?? 0) + 1);
+    patchEntry(key, { fetching: true });
+
+    try {
+      const data = await definition.fetcher(signal);
+      if (isCurrent()) {
+        patchEntry(key, { data, error: null, updatedAt: Date.now(), invalidated: false });
+      }
+      return data;
+    } catch (error: unknown) {
+      if (!isRequestCanceledError(error) && isCurrent()) {
+        const message =
+          error instanceof Error
+            ? error.message
+            : typeof error === 'string'
+              ? error
+              : 'Request failed';
+        patchEntry(key, { error: message || 'Request failed' });
+      }
+      throw error;
+    } finally {
+      if (epoch === startEpoch) {
+        const remaining = (fetchCounts.get(key) ?? 1) - 1;
+        if (remaining > 0) {
+          fetchCounts.set(key, remaining);
+        } else {
+          fetchCounts.delete(key);
+          patchEntry(key, { fetching: false });
+        }
+      }
+    }
+  };
+
+  const refetchInBackground = (definition: QueryDefinition<unknown>) => {
+    get()
+      .fetchQuery(definition)
+      .catch(() => {});
+  };
+
+  return {
+    entries: {},
+    scope: '',
+
+    fetchQuery: async <T>(definition: QueryDefinition<T>, options: FetchQueryOptions = {}) => {
+      const { key } = definition;
+      if (!options.force && get().isFresh(definition)) {
+        return get().entries[key].data as T;
+      }
+
+      if (options.signal) {
+        return runFetch(definition, options.signal);
+      }
+
+      const generation = generations.get(key) ?? 0;
+      const shared = sharedFetches.get(key);
+      if (shared && shared.epoch === epoch && shared.generation === generation) {
+        return shared.promise as Promise<T>;
+      }
+
+      const promise = runFetch(definition).finally(() => {
+        if (sharedFetches.get(key)?.promise === promise) {
+          sharedFetches.delete(key);
+        }
+      });
+      sharedFetches.set(key, { epoch, generation, promise });
+      return promise;
+    },
+
+    ensureQuery: async <T>(definition: QueryDefinition<T>, options: FetchQueryOptions = {}) => {
+      const entry = get().entries[definition.key];
+      if (options.force || !entry || entry.updatedAt === 0) {
+        return get().fetchQuery(definition, options);
+      }
+
+      // 先返回旧数据，过期时后台刷新
+      if (!get().isFresh(definition)) {
+        get()
+          .fetchQuery(definition, { signal: options.signal })
+          .catch(() => {});
+      }
+      return entry.data as T;
+    },
+
+    getQueryData: <T>(key: string) => get().entries[key]?.data as T | undefined,
+
+    setQueryData: <T>(key: string, updater: QueryUpdater<T>, options: SetQueryDataOptions = {}) => {
+      const prev = get().entries[key]?.data as T | undefined;
+      const data =
+        typeof updater === 'function' ? (updater as (value: T | undefined) => T)(prev) : updater;
+      if (options.optimistic) {
+        // 服务端返回的结果比乐观值更可信，进行中的请求结果照常写入
+        patchEntry(key, { data, error: null, updatedAt: Date.now(), invalidated: true });
+        return;
+      }
+      // 本地写入的数据比进行中的请求更新，旧请求的结果需丢弃
+      bumpGeneration(key);
+      patchEntry(key, { data, error: null, updatedAt: Date.now() });
+    },
+
+    isFresh: (definition) => {
+      const entry = get().entries[definition.key];
+      if (!entry || entry.updatedAt === 0 || entry.invalidated) return false;
+      return Date.now() - entry.updatedAt < definition.staleTime;
+    },
+
+    invalidateQueries: (matcher, options = {}) => {
+      const keys = new Set([...Object.keys(get().entries), ...observers.keys()]);
+      const matched = Array.from(keys).filter((key) => matchesKey(matcher, key));
+      if (matched.length === 0) return;
+
+      matched.forEach(bumpGeneration);
+      set((state) => {
+        const entries = { ...state.entries };
+        matched.forEach((key) => {
+          if (entries[key]) {
+            entries[key] = { ...entries[key], invalidated: true };
+          }
+        });
+        return { entries };
+      });
+
+      if (options.refetch === false) return;
+      matched.forEach((key) => {
+        const observer = observers.get(key);
+        if (observer) refetchInBackground(observer.definition);
+      });
+    },
+
+    removeQueries: (matcher) => {
+      const matched = Object.keys(get().entries).filter((key) => matchesKey(matcher, key));
+      if (matched.length === 0) return;
+
+      matched.forEach(bumpGeneration);
+      set((state) => {
+        const entries = { ...state.entries };
+        matched.forEach((key) => {
+          delete entries[key];
+        });
+        return { entries };
+      });
+    },
+
+    observeQuery: (definition) => {
+      const { key } = definition;
+      const current = observers.get(key);
+      observers.set(key, {
+        definition: definition as QueryDefinition<unknown>,
+        count: (current?.count ?? 0) + 1,
+      });
+
+      return () => {
+        const observer = observers.get(key);
+        if (!observer) return;
+        if (observer.count <= 1) {
+          observers.delete(key);
+        } else {
+          observers.set(key, { ...observer, count: observer.count - 1 });
+        }
+      };
+    },
+
+    refetchStaleObserved: () => {
+      observers.forEach(({ definition }) => {
+        if (!get().isFresh(definition)) refetchInBackground(definition);
+      });
+    },
+
+    switchScope: (scope) => {
+      const { scope: currentScope, entries } = get();
+      if (scope === currentScope) return;
+
+      if (currentScope) {
+        const snapshot: Record<string, QueryEntry> = {};
+        Object.entries(entries).forEach(([key, entry]) => {
+          if (entry.updatedAt > 0) snapshot[key] = { ...entry, fetching: false };
+        });
+        scopedEntries.set(currentScope, snapshot);
+      }
+      const restored = scopedEntries.get(scope);
+      scopedEntries.delete(scope);
+
+      // 切换连接后旧连接的 in-flight 请求必须失效，避免其结果写入新连接的缓存
+      epoch += 1;
+      generations.clear();
+      sharedFetches.clear();
+      fetchCounts.clear();
+
+      set({ scope, entries: restored ?? {} });
+    },
+
+    clearScopes: () => {
+      scopedEntries.clear();
+    },
+  };
+});
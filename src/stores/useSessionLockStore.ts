@@ -0,0 +1,69 @@
+/**
+ * 会话锁定状态管理
+ * 空闲超时后锁定界面：清除 apiClient 中的管理密钥，并暂停定时轮询，直到重新输入密钥
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { apiClient } from '@/services/api/client';
+import {
+  DEFAULT_IDLE_LOCK_TIMEOUT_MINUTES,
+  IDLE_LOCK_TIMEOUT_OPTIONS,
+  STORAGE_KEY_SESSION_LOCK,
+} from '@/utils/constants';
+
+interface SessionLockState {
+  locked: boolean;
+  idleTimeoutMinutes: number;
+  lock: () => void;
+  unlock: () => void;
+  setIdleTimeoutMinutes: (minutes: number) => void;
+}
+
+const isValidTimeout = (minutes: unknown): minutes is number =>
+  typeof minutes === 'number' && (IDLE_LOCK_TIMEOUT_OPTIONS as readonly number[]).includes(minutes);
+
+export const useSessionLockStore = create<SessionLockState>()(
+  persist(
+    (set, get) => ({
+      locked: false,
+      idleTimeoutMinutes: DEFAULT_IDLE_LOCK_TIMEOUT_MINUTES,
+
+      // 解锁失败时会再次调用，确保 apiClient 中不残留输入错误的密钥
+      lock: () => {
+        apiClient.clearManagementKey();
+        if (get().locked) return;
+        set({ locked: true });
+      },
+
+      // 仅重置锁定标记；密钥由重新登录写回 apiClient
+      unlock: () => {
+        if (!get().locked) return;
+        set({ locked: false });
+      },
+
+      setIdleTimeoutMinutes: (minutes) => {
+        if (!isValidTimeout(minutes)) return;
+        set({ idleTimeoutMinutes: minutes });
+      },
+    }),
+    {
+      name: STORAGE_KEY_SESSION_LOCK,
+      // 锁定状态也需持久化，避免刷新页面后绕过锁定自动登录
+      partialize: (state) => ({
+        locked: state.locked,
+        idleTimeoutMinutes: state.idleTimeoutMinutes,
+      }),
+      merge: (persistedState, currentState) => {
+        const persisted = (persistedState ?? {}) as Partial<SessionLockState>;
+        return {
+          ...currentState,
+          locked: persisted.locked === true,
+          idleTimeoutMinutes: isValidTimeout(persisted.idleTimeoutMinutes)
+            ? persisted.idleTimeoutMinutes
+            : currentState.idleTimeoutMinutes,
+        };
+      },
+    }
+  )
+);
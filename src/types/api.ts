@@ -34,3 +34,10 @@ export type ApiError = Error & {
   details?: unknown;
   data?: unknown;
 };
+
+// 只读模式下被客户端拦截的写请求
+export type ReadOnlyModeError = ApiError & {
+  code: 'READ_ONLY_MODE';
+  method: string;
+  url: string;
+};
@@ -0,0 +1,24 @@
+/**
+ * 管理操作审计日志相关类型
+ */
+
+export type AuditMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface AuditEntry {
+  id?: number;
+  timestamp: number;
+  method: AuditMethod | string;
+  // 不含查询参数的接口路径，便于筛选
+  endpoint: string;
+  // 完整请求路径（查询参数已脱敏）
+  url: string;
+  payload: unknown;
+  // 请求前 useConfigStore 中对应配置分段的快照（已脱敏），无缓存时为 null
+  before: unknown;
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+  durationMs: number;
+  apiBase: string;
+  profileName: string | null;
+}
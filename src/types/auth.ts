@@ -8,8 +8,28 @@ export interface LoginCredentials {
   apiBase: string;
   managementKey: string;
   rememberPassword?: boolean;
+  profileId?: string | null;
+  readOnly?: boolean;
+  // 提供时改为口令加密保存密钥
+  passphrase?: string;
 }
 
+// 连接配置档（多服务器快速切换）
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  apiBase: string;
+  managementKey?: string;
+  encryptedManagementKey?: string;
+  rememberPassword: boolean;
+  readOnly?: boolean;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+// 记住密码时管理密钥的保护方式：默认轻度混淆，或使用口令加密（AES-GCM + PBKDF2）
+export type KeyProtectionMode = 'obfuscation' | 'passphrase';
+
 // 认证状态
 export interface AuthState {
   isAuthenticated: boolean;
@@ -18,6 +38,12 @@ export interface AuthState {
   rememberPassword: boolean;
   serverVersion: string | null;
   serverBuildDate: string | null;
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+  keyProtection: KeyProtectionMode;
+  encryptedManagementKey: string | null;
+  // 只读查看模式：客户端拦截所有写请求
+  readOnly: boolean;
 }
 
 // 连接状态
@@ -0,0 +1,16 @@
+/**
+ * 后端能力检测相关类型
+ */
+
+// 并非所有后端版本都提供的管理接口
+export type CapabilityId =
+  | 'oauthExcludedModels'
+  | 'oauthModelAlias'
+  | 'apiCall'
+  | 'requestErrorLogs'
+  | 'agentSettings';
+
+// unknown：尚未检测或检测失败（如网络错误），此时按支持处理
+export type CapabilityStatus = 'unknown' | 'supported' | 'unsupported';
+
+export type CapabilityMap = Record<CapabilityId, CapabilityStatus>;
@@ -0,0 +1,15 @@
+/**
+ * 配置版本历史相关类型
+ */
+
+export interface ConfigSnapshot {
+  id?: number;
+  // 被覆盖前的完整 config.yaml
+  yaml: string;
+  createdAt: number;
+  message: string;
+  // 快照所属的服务地址，不同服务的历史互不影响
+  apiBase: string;
+  // 读取时设置：快照已加密且当前会话无法解密（口令模式未解锁或口令已更换），yaml 为空
+  locked?: boolean;
+}
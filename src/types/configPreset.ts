@@ -0,0 +1,41 @@
+/**
+ * 配置预设相关类型
+ */
+
+export type ConfigPresetParamType = 'integer' | 'string' | 'boolean' | 'select';
+
+export interface ConfigPresetParam {
+  key: string;
+  type: ConfigPresetParamType;
+  // 参数值统一以字符串保存，boolean 为 'true' / 'false'
+  default: string;
+  options?: string[];
+  // 内置预设使用 i18n 键，自定义预设直接保存文本
+  labelKey?: string;
+  label?: string;
+}
+
+// 引用预设参数的值
+export interface ConfigPresetParamRef {
+  param: string;
+}
+
+export type ConfigPresetOperationType = 'boolean' | 'integer' | 'string' | 'json';
+
+export interface ConfigPresetOperation {
+  path: string[];
+  type: ConfigPresetOperationType;
+  value: unknown;
+}
+
+export interface ConfigPreset {
+  id: string;
+  builtin?: boolean;
+  titleKey?: string;
+  descriptionKey?: string;
+  name?: string;
+  description?: string;
+  params: ConfigPresetParam[];
+  operations: ConfigPresetOperation[];
+  createdAt?: number;
+}
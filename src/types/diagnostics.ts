@@ -0,0 +1,35 @@
+/**
+ * 连接诊断相关类型
+ */
+
+export type ConnectionDiagnosticStepId =
+  | 'url'
+  | 'mixed_content'
+  | 'port'
+  | 'reachability'
+  | 'authentication';
+
+export type ConnectionDiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skipped';
+
+// 诊断出的具体问题，界面按问题给出修复建议
+export type ConnectionDiagnosticIssue =
+  | 'invalid_url'
+  | 'unexpected_path'
+  | 'mixed_content'
+  | 'port_mismatch'
+  | 'unreachable'
+  | 'cors_blocked'
+  | 'timeout'
+  | 'management_not_found'
+  | 'missing_key'
+  | 'invalid_key'
+  | 'remote_management_disabled'
+  | 'server_error';
+
+export interface ConnectionDiagnosticStep {
+  id: ConnectionDiagnosticStepId;
+  status: ConnectionDiagnosticStatus;
+  issue?: ConnectionDiagnosticIssue;
+  // 展示用的细节，如解析后的地址、端口或后端返回的错误信息
+  detail?: string;
+}
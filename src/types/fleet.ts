@@ -0,0 +1,44 @@
+/**
+ * 多实例总览相关类型
+ */
+
+export interface FleetInstanceTarget {
+  id: string;
+  name: string;
+  apiBase: string;
+  managementKey: string;
+}
+
+export interface FleetProviderCounts {
+  gemini: number;
+  codex: number;
+  claude: number;
+  vertex: number;
+  openai: number;
+}
+
+export interface FleetAuthFileCounts {
+  total: number;
+  active: number;
+  disabled: number;
+  unavailable: number;
+}
+
+export interface FleetUsageSummary {
+  success: number;
+  failed: number;
+  successRate: number | null;
+}
+
+export interface FleetInstanceSnapshot {
+  reachable: boolean;
+  latencyMs: number | null;
+  version: string | null;
+  buildDate: string | null;
+  error: string | null;
+  errorStatus?: number;
+  providers: FleetProviderCounts | null;
+  authFiles: FleetAuthFileCounts | null;
+  usage: FleetUsageSummary | null;
+  checkedAt: number;
+}
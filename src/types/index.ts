@@ -12,3 +12,13 @@ export * from './authFile';
 export * from './oauth';
 export * from './log';
 export * from './quota';
+export * from './fleet';
+export * from './audit';
+export * from './capabilities';
+export * from './query';
+export * from './diagnostics';
+export * from './configHistory';
+export * from './configPreset';
+export * from './providerHealth';
+export * from './openaiProviderTemplate';
+export * from './modelBenchmark';
@@ -0,0 +1,39 @@
+/**
+ * 跨提供商延迟基准测试相关类型
+ */
+
+export type ModelBenchmarkKind = 'openai' | 'codex' | 'claude' | 'gemini' | 'vertex';
+
+export interface ModelBenchmarkTarget {
+  // 调用顺序候选 ID 加密钥序号，同一提供商的多个密钥分别测试
+  id: string;
+  candidateId: string;
+  kind: ModelBenchmarkKind;
+  providerName: string;
+  apiKey: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  // 发往上游的模型名（已解析别名）
+  model: string;
+}
+
+export interface ModelBenchmarkSample {
+  ok: boolean;
+  // 仅生成 1 个 token 的请求完整耗时（api-call 缓冲整个响应，并非首 token 时间）
+  oneTokenMs?: number;
+  // 生成少量 token 的流式请求完整耗时
+  totalMs?: number;
+  statusCode?: number;
+  message?: string;
+}
+
+export interface ModelBenchmarkSummary {
+  samples: number;
+  failed: number;
+  errorRate: number;
+  oneTokenP50: number | null;
+  oneTokenP95: number | null;
+  totalP50: number | null;
+  totalP95: number | null;
+  lastError?: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * OpenAI 兼容提供商模板相关类型
+ */
+
+import type { ModelAlias } from './provider';
+
+// 内置模板对应的厂商图标
+export type OpenAIProviderTemplateIcon = 'deepseek' | 'glm' | 'kimi' | 'qwen' | 'minimax' | 'grok';
+
+export interface OpenAIProviderTemplate {
+  id: string;
+  builtin?: boolean;
+  icon?: OpenAIProviderTemplateIcon;
+  // 内置模板使用 i18n 键描述，自定义模板直接保存文本
+  descriptionKey?: string;
+  description?: string;
+  name: string;
+  baseUrl: string;
+  models: ModelAlias[];
+  testModel?: string;
+  headers?: Record<string, string>;
+  createdAt?: number;
+}
@@ -0,0 +1,31 @@
+/**
+ * 上游密钥健康检查相关类型
+ */
+
+export type ProviderHealthKind = 'gemini' | 'codex' | 'claude' | 'vertex' | 'openai';
+
+// 配置了测试模型时发送最小的生成请求，否则请求模型列表
+export type ProviderHealthProbeMethod = 'models' | 'test_model';
+
+export interface ProviderHealthTarget {
+  // 由类型、密钥与 Base URL 计算的指纹，本地存储中不保存明文密钥
+  id: string;
+  kind: ProviderHealthKind;
+  // OpenAI 兼容提供商的名称
+  providerName?: string;
+  apiKey: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  testModel?: string;
+  // 用于 Vertex 探测的模型
+  models?: string[];
+}
+
+export interface ProviderHealthResult {
+  ok: boolean;
+  checkedAt: number;
+  latencyMs: number;
+  method: ProviderHealthProbeMethod;
+  statusCode?: number;
+  message?: string;
+}
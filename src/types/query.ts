@@ -0,0 +1,20 @@
+/**
+ * 查询缓存相关类型
+ */
+
+// 一类可缓存的只读数据：缓存键、获取函数与新鲜期
+export interface QueryDefinition<T> {
+  key: string;
+  fetcher: (signal?: AbortSignal) => Promise<T>;
+  // 超过该时长的数据视为过期，读取时仍先返回旧数据并在后台刷新
+  staleTime: number;
+}
+
+export interface QueryEntry<T = unknown> {
+  data: T | undefined;
+  error: string | null;
+  updatedAt: number;
+  fetching: boolean;
+  // 写请求后被标记失效，下次读取时必须刷新
+  invalidated: boolean;
+}
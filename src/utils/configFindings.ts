@@ -0,0 +1,201 @@
+/**
+ * 跨配置段的一致性检查
+ * 检查重复的上游密钥、与真实模型重名的别名、匹配不到模型的 OAuth 排除规则、
+ * ampcode 引用了不存在的客户端密钥，以及开启 force-model-prefix 时冲突的前缀
+ */
+
+import type { Config } from '@/types/config';
+import type { ModelAlias } from '@/types/provider';
+import { maskApiKey } from './format';
+import { matchesModelPattern } from './models';
+
+export type ConfigFindingSeverity = 'warning' | 'info';
+
+export type ConfigFindingCode =
+  | 'duplicate_upstream_key'
+  | 'alias_shadows_model'
+  | 'excluded_pattern_unmatched'
+  | 'ampcode_unknown_client_key'
+  | 'prefix_conflict';
+
+export interface ConfigFinding {
+  code: ConfigFindingCode;
+  severity: ConfigFindingSeverity;
+  params: Record<string, string | number>;
+  // 修复该问题的页面
+  link: string;
+}
+
+export interface ConfigFindingsContext {
+  // 各 OAuth 提供商可用的模型，未知（接口不支持或加载失败）时为 null
+  providerModels?: Record<string, string[] | null>;
+}
+
+type ProviderKind = 'gemini' | 'codex' | 'claude' | 'vertex' | 'openai';
+
+interface ProviderEntryRef {
+  kind: ProviderKind;
+  index: number;
+  label: string;
+  link: string;
+  prefix?: string;
+  models: ModelAlias[];
+  apiKeys: string[];
+}
+
+const KIND_LABELS: Record<Exclude<ProviderKind, 'openai'>, string> = {
+  gemini: 'Gemini',
+  codex: 'Codex',
+  claude: 'Claude',
+  vertex: 'Vertex',
+};
+
+const collectProviderEntries = (config: Config): ProviderEntryRef[] => {
+  const entries: ProviderEntryRef[] = [];
+  const pushKeyed = (
+    kind: Exclude<ProviderKind, 'openai'>,
+    list: Array<{ apiKey: string; prefix?: string; models?: ModelAlias[] }> | undefined
+  ) => {
+    (list ?? []).forEach((item, index) => {
+      entries.push({
+        kind,
+        index,
+        label: `${KIND_LABELS[kind]} #${index + 1}`,
+        link: `/ai-providers/${kind}/${index}`,
+        prefix: item.prefix,
+        models: item.models ?? [],
+        apiKeys: item.apiKey ? [item.apiKey] : [],
+      });
+    });
+  };
+
+  pushKeyed('gemini', config.geminiApiKeys);
+  pushKeyed('codex', config.codexApiKeys);
+  pushKeyed('claude', config.claudeApiKeys);
+  pushKeyed('vertex', config.vertexApiKeys);
+  (config.openaiCompatibility ?? []).forEach((provider, index) => {
+    entries.push({
+      kind: 'openai',
+      index,
+      label: provider.name || `OpenAI #${index + 1}`,
+      link: `/ai-providers/openai/${index}`,
+      prefix: provider.prefix,
+      models: provider.models ?? [],
+      apiKeys: (provider.apiKeyEntries ?? []).map((entry) => entry.apiKey).filter(Boolean),
+    });
+  });
+
+  return entries;
+};
+
+const normalize = (value: string | undefined) => (value ?? '').trim();
+
+export function collectConfigFindings(
+  config: Config,
+  context: ConfigFindingsContext = {}
+): ConfigFinding[] {
+  const findings: ConfigFinding[] = [];
+  const entries = collectProviderEntries(config);
+
+  // 同一上游密钥配置在多个条目中
+  const keyOwners = new Map<string, ProviderEntryRef[]>();
+  entries.forEach((entry) => {
+    new Set(entry.apiKeys.map(normalize).filter(Boolean)).forEach((key) => {
+      keyOwners.set(key, [...(keyOwners.get(key) ?? []), entry]);
+    });
+  });
+  keyOwners.forEach((owners, key) => {
+    if (owners.length < 2) return;
+    findings.push({
+      code: 'duplicate_upstream_key',
+      severity: 'warning',
+      params: { key: maskApiKey(key), locations: owners.map((owner) => owner.label).join(', ') },
+      link: owners[owners.length - 1].link,
+    });
+  });
+
+  // 别名与其他条目中的真实模型名相同，客户端请求该名称时会产生歧义
+  const modelOwners = new Map<string, ProviderEntryRef[]>();
+  entries.forEach((entry) => {
+    entry.models.forEach((model) => {
+      const name = normalize(model.name);
+      if (!name) return;
+      modelOwners.set(name, [...(modelOwners.get(name) ?? []), entry]);
+    });
+  });
+  entries.forEach((entry) => {
+    entry.models.forEach((model) => {
+      const alias = normalize(model.alias);
+      if (!alias || alias === normalize(model.name)) return;
+      const owners = (modelOwners.get(alias) ?? []).filter((owner) => owner !== entry);
+      if (owners.length === 0) return;
+      findings.push({
+        code: 'alias_shadows_model',
+        severity: 'warning',
+        params: {
+          alias,
+          location: entry.label,
+          owners: [...new Set(owners.map((owner) => owner.label))].join(', '),
+        },
+        link: entry.link,
+      });
+    });
+  });
+
+  // OAuth 排除规则匹配不到任何已知模型
+  Object.entries(config.oauthExcludedModels ?? {}).forEach(([provider, patterns]) => {
+    const known = context.providerModels?.[provider];
+    if (!known || known.length === 0) return;
+    const lowered = known.map((model) => model.toLowerCase());
+    patterns.forEach((pattern) => {
+      const normalized = normalize(pattern).toLowerCase();
+      if (!normalized) return;
+      if (lowered.some((model) => matchesModelPattern(normalized, model))) return;
+      findings.push({
+        code: 'excluded_pattern_unmatched',
+        severity: 'info',
+        params: { provider, pattern: normalize(pattern) },
+        link: `/auth-files/oauth-excluded?provider=${encodeURIComponent(provider)}`,
+      });
+    });
+  });
+
+  // ampcode 多上游映射引用了 api-keys 中不存在的客户端密钥
+  const clientKeys = new Set((config.apiKeys ?? []).map((item) => normalize(item.apiKey)));
+  (config.ampcode?.upstreamApiKeys ?? []).forEach((mapping, mappingIndex) => {
+    mapping.apiKeys.forEach((key) => {
+      const normalized = normalize(key);
+      if (!normalized || clientKeys.has(normalized)) return;
+      findings.push({
+        code: 'ampcode_unknown_client_key',
+        severity: 'warning',
+        params: { key: maskApiKey(normalized), index: mappingIndex + 1 },
+        link: '/ai-providers/ampcode',
+      });
+    });
+  });
+
+  // 开启 force-model-prefix 时，不同类型的提供商使用相同前缀会让 前缀/模型 指向不明
+  if (config.forceModelPrefix) {
+    const prefixOwners = new Map<string, ProviderEntryRef[]>();
+    entries.forEach((entry) => {
+      const prefix = normalize(entry.prefix).toLowerCase();
+      if (!prefix) return;
+      prefixOwners.set(prefix, [...(prefixOwners.get(prefix) ?? []), entry]);
+    });
+    prefixOwners.forEach((owners, prefix) => {
+      const kinds = new Set(
+        owners.map((owner) => (owner.kind === 'openai' ? owner.label : owner.kind))
+      );
+      if (kinds.size < 2) return;
+      findings.push({
+        code: 'prefix_conflict',
+        severity: 'warning',
+        params: { prefix, locations: owners.map((owner) => owner.label).join(', ') },
+        link: owners[owners.length - 1].link,
+      });
+    });
+  }
+
+  return findings;
+}
@@ -0,0 +1,245 @@
+/**
+ * config.yaml 校验：按 CONFIG_SCHEMA 检查未知键、类型、端口范围、代理地址与重复的 API Key
+ */
+
+import type { TFunction } from 'i18next';
+import { isMap, isScalar, isSeq, parseDocument, type Node as YamlNode } from 'yaml';
+import { CONFIG_SCHEMA, type ConfigSchemaNode } from './configSchema';
+import { maskApiKey } from './format';
+
+export type ConfigLintSeverity = 'error' | 'warning';
+
+export type ConfigLintCode =
+  | 'syntax'
+  | 'unknown_key'
+  | 'wrong_type'
+  | 'out_of_range'
+  | 'invalid_enum'
+  | 'invalid_url'
+  | 'invalid_proxy_url'
+  | 'duplicate_value';
+
+export interface ConfigLintIssue {
+  from: number;
+  to: number;
+  severity: ConfigLintSeverity;
+  code: ConfigLintCode;
+  // 以点号连接的键路径，数组下标用 [n] 表示
+  path: string;
+  params: Record<string, string | number>;
+}
+
+type SchemaType = ConfigSchemaNode['type'];
+
+const PROXY_PROTOCOLS = new Set(['http:', 'https:', 'socks5:', 'socks5h:']);
+const URL_PROTOCOLS = new Set(['http:', 'https:']);
+
+const formatPath = (path: readonly (string | number)[]) =>
+  path.reduce<string>(
+    (acc, segment) =>
+      typeof segment === 'number' ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment,
+    ''
+  );
+
+const nodeRange = (node: YamlNode | null | undefined): [number, number] => {
+  const range = node?.range;
+  return range ? [range[0], range[1]] : [0, 0];
+};
+
+const scalarValue = (node: unknown): unknown => (isScalar(node) ? node.value : undefined);
+
+const parsesAs = (value: string, protocols: Set<string>) => {
+  try {
+    const url = new URL(value);
+    return protocols.has(url.protocol) && Boolean(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+// 判断节点是否符合某个结构的基本类型，用于 anyOf 选择分支
+const matchesType = (node: unknown, schema: ConfigSchemaNode): boolean => {
+  switch (schema.type) {
+    case 'any':
+      return true;
+    case 'object':
+      return isMap(node);
+    case 'array':
+      return isSeq(node);
+    case 'anyOf':
+      return schema.options.some((option) => matchesType(node, option));
+    case 'string':
+      return isScalar(node) && node.value !== null && typeof node.value !== 'object';
+    case 'integer':
+      return isScalar(node) && typeof node.value === 'number' && Number.isInteger(node.value);
+    case 'number':
+      return isScalar(node) && typeof node.value === 'number';
+    case 'boolean':
+      return isScalar(node) && typeof node.value === 'boolean';
+  }
+};
+
+const describeType = (schema: ConfigSchemaNode): SchemaType[] =>
+  schema.type === 'anyOf' ? schema.options.flatMap(describeType) : [schema.type];
+
+export function lintConfigYaml(
+  content: string,
+  schema: ConfigSchemaNode = CONFIG_SCHEMA
+): ConfigLintIssue[] {
+  const issues: ConfigLintIssue[] = [];
+  const doc = parseDocument(content);
+
+  doc.errors.forEach((error) => {
+    issues.push({
+      from: error.pos[0],
+      to: Math.max(error.pos[1], error.pos[0] + 1),
+      severity: 'error',
+      code: 'syntax',
+      path: '',
+      params: { message: error.message.split('\n')[0] },
+    });
+  });
+  if (doc.errors.length > 0) return issues;
+
+  const report = (
+    node: YamlNode | null | undefined,
+    path: readonly (string | number)[],
+    severity: ConfigLintSeverity,
+    code: ConfigLintCode,
+    params: Record<string, string | number> = {}
+  ) => {
+    const [from, to] = nodeRange(node);
+    issues.push({
+      from,
+      to: Math.max(to, from + 1),
+      severity,
+      code,
+      path: formatPath(path),
+      params,
+    });
+  };
+
+  const checkDuplicates = (seq: YamlNode, field: string, path: readonly (string | number)[]) => {
+    if (!isSeq(seq)) return;
+    const seen = new Set<string>();
+    seq.items.forEach((item, index) => {
+      const target = isMap(item) ? (item.get(field, true) as YamlNode | undefined) : item;
+      const value = scalarValue(target);
+      if (value === undefined || value === null || value === '') return;
+      const key = String(value).trim();
+      if (!key) return;
+      if (seen.has(key)) {
+        const display = field === 'name' ? key : maskApiKey(key);
+        report(target as YamlNode, [...path, index], 'warning', 'duplicate_value', {
+          field,
+          value: display,
+        });
+      }
+      seen.add(key);
+    });
+  };
+
+  const walk = (
+    node: unknown,
+    nodeSchema: ConfigSchemaNode,
+    path: readonly (string | number)[]
+  ) => {
+    // 空值（如 `key:`）视为未设置
+    if (node === null || node === undefined) return;
+    if (isScalar(node) && node.value === null) return;
+    if (nodeSchema.type === 'any') return;
+
+    const yamlNode = node as YamlNode;
+
+    if (nodeSchema.type === 'anyOf') {
+      const option = nodeSchema.options.find((candidate) => matchesType(node, candidate));
+      if (!option) {
+        report(yamlNode, path, 'error', 'wrong_type', {
+          expected: describeType(nodeSchema).join('|'),
+        });
+        return;
+      }
+      walk(node, option, path);
+      return;
+    }
+
+    if (!matchesType(node, nodeSchema)) {
+      report(yamlNode, path, 'error', 'wrong_type', { expected: nodeSchema.type });
+      return;
+    }
+
+    switch (nodeSchema.type) {
+      case 'object': {
+        if (!isMap(node)) return;
+        node.items.forEach((pair) => {
+          const keyNode = pair.key as YamlNode | null;
+          const key = String(scalarValue(keyNode) ?? '');
+          const property = nodeSchema.properties?.[key];
+          const additional = nodeSchema.additionalProperties;
+          if (property) {
+            walk(pair.value, property, [...path, key]);
+          } else if (typeof additional === 'object') {
+            walk(pair.value, additional, [...path, key]);
+          } else if (!additional) {
+            report(keyNode, [...path, key], 'warning', 'unknown_key', { key });
+          }
+        });
+        return;
+      }
+      case 'array': {
+        if (!isSeq(node)) return;
+        node.items.forEach((item, index) => walk(item, nodeSchema.items, [...path, index]));
+        if (nodeSchema.uniqueBy) checkDuplicates(node, nodeSchema.uniqueBy, path);
+        return;
+      }
+      case 'integer':
+      case 'number': {
+        const value = scalarValue(node) as number;
+        const belowMin = nodeSchema.min !== undefined && value < nodeSchema.min;
+        const aboveMax = nodeSchema.max !== undefined && value > nodeSchema.max;
+        if (belowMin || aboveMax) {
+          report(yamlNode, path, 'error', 'out_of_range', {
+            value,
+            min: nodeSchema.min ?? '-∞',
+            max: nodeSchema.max ?? '∞',
+          });
+        }
+        return;
+      }
+      case 'string': {
+        const value = String(scalarValue(node)).trim();
+        if (!value) return;
+        if (nodeSchema.enum && !nodeSchema.enum.includes(value)) {
+          report(yamlNode, path, 'error', 'invalid_enum', {
+            value,
+            allowed: nodeSchema.enum.join(', '),
+          });
+        } else if (nodeSchema.format === 'proxy-url' && !parsesAs(value, PROXY_PROTOCOLS)) {
+          report(yamlNode, path, 'error', 'invalid_proxy_url', { value });
+        } else if (nodeSchema.format === 'url' && !parsesAs(value, URL_PROTOCOLS)) {
+          report(yamlNode, path, 'error', 'invalid_url', { value });
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  };
+
+  walk(doc.contents, schema, []);
+  return issues.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * 生成校验问题的本地化描述
+ */
+export function formatConfigLintIssue(t: TFunction, issue: ConfigLintIssue): string {
+  const params: Record<string, string | number> = { ...issue.params, path: issue.path };
+  if (issue.code === 'wrong_type') {
+    params.expected = String(issue.params.expected)
+      .split('|')
+      .map((type) => t(`config_lint.type_${type}`))
+      .join(' / ');
+  }
+  return t(`config_lint.${issue.code}`, params);
+}
@@ -0,0 +1,264 @@
+/**
+ * 已废弃配置键的迁移
+ * 检测配置中仍在使用的旧写法，全部迁移在一次保存中完成
+ */
+
+import { isMap, isSeq, parseDocument } from 'yaml';
+import { deleteIfMapEmpty, docHas, ensureMapInDoc, type YamlDocument } from './yamlDoc';
+
+export type ConfigMigrationId =
+  | 'gemini_api_key_rename'
+  | 'panel_repo_rename'
+  | 'routing_strategy_move'
+  | 'routing_camel_case_keys'
+  | 'openai_api_keys_entries'
+  | 'config_api_key_provider';
+
+export interface ConfigMigration {
+  id: ConfigMigrationId;
+  // 展示用的旧键与新键
+  from: string;
+  to: string;
+  // 返回说明文案所需的参数，无需迁移时返回 null
+  detect: (doc: YamlDocument) => Record<string, string | number> | null;
+  apply: (doc: YamlDocument) => void;
+}
+
+export interface ConfigMigrationFinding {
+  id: ConfigMigrationId;
+  from: string;
+  to: string;
+  params: Record<string, string | number>;
+}
+
+const nodeToJS = (node: unknown): unknown =>
+  node && typeof node === 'object' && 'toJSON' in node
+    ? (node as { toJSON: () => unknown }).toJSON()
+    : node;
+
+const toJS = (doc: YamlDocument, path: string[]): unknown => nodeToJS(doc.getIn(path, true));
+
+const apiKeyOf = (entry: unknown) => {
+  if (typeof entry === 'string') return entry.trim();
+  if (entry && typeof entry === 'object') {
+    const value = (entry as Record<string, unknown>)['api-key'];
+    return typeof value === 'string' ? value.trim() : '';
+  }
+  return '';
+};
+
+// 旧键中的条目是纯字符串，新键要求 `- api-key: ...` 形式；空字符串直接丢弃
+const toKeyedEntry = (doc: YamlDocument, item: unknown): unknown => {
+  const value = nodeToJS(item);
+  if (typeof value !== 'string') return item;
+  const key = value.trim();
+  return key ? doc.createNode({ 'api-key': key }) : null;
+};
+
+// 新键已存在时，按 api-key 去重后把旧键中的条目追加到新键
+const mergeKeyedList = (doc: YamlDocument, fromPath: string[], toPath: string[]) => {
+  const source = doc.getIn(fromPath, true);
+  const target = doc.getIn(toPath, true);
+  if (isSeq(source) && isSeq(target)) {
+    const existing = new Set(target.items.map((item) => apiKeyOf(nodeToJS(item))));
+    source.items.forEach((item) => {
+      const key = apiKeyOf(nodeToJS(item));
+      if (!key || existing.has(key)) return;
+      existing.add(key);
+      target.items.push(toKeyedEntry(doc, item));
+    });
+  } else if (!docHas(doc, toPath)) {
+    if (isSeq(source)) {
+      source.items = source.items
+        .map((item) => toKeyedEntry(doc, item))
+        .filter((item) => item !== null);
+    }
+    doc.setIn(toPath, source);
+  }
+  doc.deleteIn(fromPath);
+};
+
+// 旧键改名为新键；新键已存在时以新键为准，直接删除旧键
+const renameKey = (doc: YamlDocument, fromPath: string[], toPath: string[]) => {
+  if (!docHas(doc, toPath)) {
+    if (toPath.length > 1) ensureMapInDoc(doc, toPath.slice(0, -1));
+    doc.setIn(toPath, doc.getIn(fromPath, true));
+  }
+  doc.deleteIn(fromPath);
+};
+
+const ROUTING_CAMEL_CASE_KEYS: Array<[string, string]> = [
+  ['sessionAffinity', 'session-affinity'],
+  ['sessionAffinityTTL', 'session-affinity-ttl'],
+];
+
+const countItems = (doc: YamlDocument, path: string[]) => {
+  const node = doc.getIn(path, true);
+  return isSeq(node) ? node.items.length : 0;
+};
+
+const openaiProvidersWithLegacyKeys = (doc: YamlDocument) => {
+  const providers = doc.getIn(['openai-compatibility'], true);
+  if (!isSeq(providers)) return [];
+  return providers.items
+    .map((provider, index) => ({ provider, index }))
+    .filter(({ provider }) => isMap(provider) && provider.has('api-keys'));
+};
+
+const CONFIG_API_KEY_PROVIDER_PATH = ['auth', 'providers', 'config-api-key'];
+const CONFIG_API_KEY_PROVIDER_LISTS = ['api-key-entries', 'api-keys'];
+
+const configApiKeyProviderKeys = (doc: YamlDocument) =>
+  CONFIG_API_KEY_PROVIDER_LISTS.flatMap((list) => {
+    const value = toJS(doc, [...CONFIG_API_KEY_PROVIDER_PATH, list]);
+    return Array.isArray(value) ? value.map(apiKeyOf).filter(Boolean) : [];
+  });
+
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    id: 'gemini_api_key_rename',
+    from: 'generative-language-api-key',
+    to: 'gemini-api-key',
+    detect: (doc) =>
+      docHas(doc, ['generative-language-api-key'])
+        ? { entries: countItems(doc, ['generative-language-api-key']) }
+        : null,
+    apply: (doc) => mergeKeyedList(doc, ['generative-language-api-key'], ['gemini-api-key']),
+  },
+  {
+    id: 'panel_repo_rename',
+    from: 'remote-management.panel-repo',
+    to: 'remote-management.panel-github-repository',
+    detect: (doc) =>
+      docHas(doc, ['remote-management', 'panel-repo'])
+        ? { value: String(toJS(doc, ['remote-management', 'panel-repo']) ?? '') }
+        : null,
+    apply: (doc) =>
+      renameKey(
+        doc,
+        ['remote-management', 'panel-repo'],
+        ['remote-management', 'panel-github-repository']
+      ),
+  },
+  {
+    id: 'routing_strategy_move',
+    from: 'routing-strategy',
+    to: 'routing.strategy',
+    detect: (doc) =>
+      docHas(doc, ['routing-strategy'])
+        ? { value: String(toJS(doc, ['routing-strategy']) ?? '') }
+        : null,
+    apply: (doc) => renameKey(doc, ['routing-strategy'], ['routing', 'strategy']),
+  },
+  {
+    id: 'routing_camel_case_keys',
+    from: 'routing.sessionAffinity / routing.sessionAffinityTTL',
+    to: 'routing.session-affinity / routing.session-affinity-ttl',
+    detect: (doc) => {
+      const keys = ROUTING_CAMEL_CASE_KEYS.filter(([from]) => docHas(doc, ['routing', from]));
+      return keys.length > 0 ? { keys: keys.map(([from]) => from).join(', ') } : null;
+    },
+    apply: (doc) => {
+      ROUTING_CAMEL_CASE_KEYS.forEach(([from, to]) => {
+        if (docHas(doc, ['routing', from])) renameKey(doc, ['routing', from], ['routing', to]);
+      });
+      deleteIfMapEmpty(doc, ['routing']);
+    },
+  },
+  {
+    id: 'openai_api_keys_entries',
+    from: 'openai-compatibility[].api-keys',
+    to: 'openai-compatibility[].api-key-entries',
+    detect: (doc) => {
+      const providers = openaiProvidersWithLegacyKeys(doc);
+      if (providers.length === 0) return null;
+      return {
+        providers: providers
+          .map(({ provider, index }) => {
+            const name = isMap(provider) ? provider.get('name') : null;
+            return typeof name === 'string' && name ? name : `#${index + 1}`;
+          })
+          .join(', '),
+      };
+    },
+    apply: (doc) => {
+      openaiProvidersWithLegacyKeys(doc).forEach(({ index }) => {
+        const base = ['openai-compatibility', String(index)];
+        const legacy = toJS(doc, [...base, 'api-keys']);
+        const entries = Array.isArray(toJS(doc, [...base, 'api-key-entries']))
+          ? (toJS(doc, [...base, 'api-key-entries']) as unknown[])
+          : [];
+        const existing = new Set(entries.map(apiKeyOf));
+        const appended = (Array.isArray(legacy) ? legacy : [])
+          .map(apiKeyOf)
+          .filter((key) => key && !existing.has(key))
+          .map((key) => ({ 'api-key': key }));
+        doc.setIn([...base, 'api-key-entries'], doc.createNode([...entries, ...appended]));
+        doc.deleteIn([...base, 'api-keys']);
+      });
+    },
+  },
+  {
+    // 与可视化编辑保存时删除旧版 config-api-key 提供商的处理一致
+    id: 'config_api_key_provider',
+    from: 'auth.providers.config-api-key',
+    to: 'api-keys',
+    detect: (doc) =>
+      CONFIG_API_KEY_PROVIDER_LISTS.some((list) =>
+        docHas(doc, [...CONFIG_API_KEY_PROVIDER_PATH, list])
+      )
+        ? { entries: new Set(configApiKeyProviderKeys(doc)).size }
+        : null,
+    apply: (doc) => {
+      const current = toJS(doc, ['api-keys']);
+      const entries = Array.isArray(current) ? current : [];
+      const existing = new Set(entries.map(apiKeyOf));
+      // 顶层列表已是对象写法时保持一致，否则写纯字符串
+      const objectMode = entries.some((entry) => entry && typeof entry === 'object');
+      const appended = configApiKeyProviderKeys(doc)
+        .filter((key) => {
+          if (existing.has(key)) return false;
+          existing.add(key);
+          return true;
+        })
+        .map((key) => (objectMode ? { 'api-key': key } : key));
+      if (appended.length > 0) {
+        doc.setIn(['api-keys'], doc.createNode([...entries, ...appended]));
+      }
+      CONFIG_API_KEY_PROVIDER_LISTS.forEach((list) => {
+        doc.deleteIn([...CONFIG_API_KEY_PROVIDER_PATH, list]);
+      });
+      deleteIfMapEmpty(doc, CONFIG_API_KEY_PROVIDER_PATH);
+      deleteIfMapEmpty(doc, ['auth', 'providers']);
+      deleteIfMapEmpty(doc, ['auth']);
+    },
+  },
+];
+
+/**
+ * 检测 YAML 中需要迁移的旧配置键；YAML 无法解析时返回空列表
+ */
+export function detectConfigMigrations(yamlContent: string): ConfigMigrationFinding[] {
+  const doc = parseDocument(yamlContent);
+  if (doc.errors.length > 0 || !isMap(doc.contents)) return [];
+
+  return CONFIG_MIGRATIONS.map((migration) => {
+    const params = migration.detect(doc);
+    return params ? { id: migration.id, from: migration.from, to: migration.to, params } : null;
+  }).filter((finding): finding is ConfigMigrationFinding => finding !== null);
+}
+
+/**
+ * 依次执行全部迁移，输出与可视化编辑保存时相同的序列化格式
+ */
+export function applyConfigMigrations(yamlContent: string): string {
+  const doc = parseDocument(yamlContent);
+  if (doc.errors.length > 0) {
+    throw new Error(doc.errors[0]?.message ?? 'Invalid YAML');
+  }
+  CONFIG_MIGRATIONS.forEach((migration) => {
+    if (!migration.detect(doc)) return;
+    migration.apply(doc);
+  });
+  return doc.toString({ indent: 2, lineWidth: 120, minContentWidth: 0 });
+}
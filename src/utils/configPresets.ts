@@ -0,0 +1,316 @@
+/**
+ * 配置预设
+ * 预设由一组按路径写入的操作组成，参数值在应用时代入，结果交由差异确认后再保存
+ */
+
+import { isMap, parseDocument } from 'yaml';
+import type {
+  ConfigPreset,
+  ConfigPresetOperation,
+  ConfigPresetOperationType,
+  ConfigPresetParam,
+  ConfigPresetParamRef,
+} from '@/types/configPreset';
+import {
+  ensureMapInDoc,
+  setIntFromStringInDoc,
+  setStringInDoc,
+  type YamlDocument,
+} from './yamlDoc';
+
+export const CONFIG_PRESET_FILE_TYPE = 'cli-proxy-config-presets';
+
+const OPERATION_TYPES: ConfigPresetOperationType[] = ['boolean', 'integer', 'string', 'json'];
+const PARAM_TYPES: ConfigPresetParam['type'][] = ['integer', 'string', 'boolean', 'select'];
+
+const param = (key: string): ConfigPresetParamRef => ({ param: key });
+
+export const BUILTIN_CONFIG_PRESETS: ConfigPreset[] = [
+  {
+    id: 'builtin:fill-first-affinity',
+    builtin: true,
+    titleKey: 'config_presets.builtin.fill_first_affinity.title',
+    descriptionKey: 'config_presets.builtin.fill_first_affinity.description',
+    params: [
+      {
+        key: 'ttl',
+        type: 'string',
+        default: '1h',
+        labelKey: 'config_presets.params.session_affinity_ttl',
+      },
+    ],
+    operations: [
+      { path: ['routing', 'strategy'], type: 'string', value: 'fill-first' },
+      { path: ['routing', 'session-affinity'], type: 'boolean', value: true },
+      { path: ['routing', 'session-affinity-ttl'], type: 'string', value: param('ttl') },
+    ],
+  },
+  {
+    id: 'builtin:strict-quota-fallback',
+    builtin: true,
+    titleKey: 'config_presets.builtin.strict_quota_fallback.title',
+    descriptionKey: 'config_presets.builtin.strict_quota_fallback.description',
+    params: [
+      {
+        key: 'preview',
+        type: 'boolean',
+        default: 'false',
+        labelKey: 'config_presets.params.switch_preview_model',
+      },
+      {
+        key: 'retry',
+        type: 'integer',
+        default: '3',
+        labelKey: 'config_presets.params.request_retry',
+      },
+      {
+        key: 'interval',
+        type: 'integer',
+        default: '30',
+        labelKey: 'config_presets.params.max_retry_interval',
+      },
+    ],
+    operations: [
+      { path: ['quota-exceeded', 'switch-project'], type: 'boolean', value: true },
+      {
+        path: ['quota-exceeded', 'switch-preview-model'],
+        type: 'boolean',
+        value: param('preview'),
+      },
+      { path: ['request-retry'], type: 'integer', value: param('retry') },
+      { path: ['max-retry-interval'], type: 'integer', value: param('interval') },
+    ],
+  },
+  {
+    id: 'builtin:debug-logging',
+    builtin: true,
+    titleKey: 'config_presets.builtin.debug_logging.title',
+    descriptionKey: 'config_presets.builtin.debug_logging.description',
+    params: [
+      {
+        key: 'size',
+        type: 'integer',
+        default: '2048',
+        labelKey: 'config_presets.params.logs_max_total_size_mb',
+      },
+    ],
+    operations: [
+      { path: ['debug'], type: 'boolean', value: true },
+      { path: ['logging-to-file'], type: 'boolean', value: true },
+      { path: ['logs-max-total-size-mb'], type: 'integer', value: param('size') },
+    ],
+  },
+  {
+    id: 'builtin:streaming-keepalive',
+    builtin: true,
+    titleKey: 'config_presets.builtin.streaming_keepalive.title',
+    descriptionKey: 'config_presets.builtin.streaming_keepalive.description',
+    params: [
+      {
+        key: 'keepalive',
+        type: 'integer',
+        default: '15',
+        labelKey: 'config_presets.params.keepalive_seconds',
+      },
+      {
+        key: 'retries',
+        type: 'integer',
+        default: '1',
+        labelKey: 'config_presets.params.bootstrap_retries',
+      },
+    ],
+    operations: [
+      { path: ['streaming', 'keepalive-seconds'], type: 'integer', value: param('keepalive') },
+      { path: ['streaming', 'bootstrap-retries'], type: 'integer', value: param('retries') },
+    ],
+  },
+];
+
+const isParamRef = (value: unknown): value is ConfigPresetParamRef =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as ConfigPresetParamRef).param === 'string' &&
+  Object.keys(value).length === 1;
+
+export const getDefaultPresetValues = (preset: ConfigPreset): Record<string, string> =>
+  Object.fromEntries(preset.params.map((item) => [item.key, item.default]));
+
+export type ConfigPresetParamError = 'required' | 'non_negative_integer' | 'invalid_option';
+
+export function validatePresetValues(
+  preset: ConfigPreset,
+  values: Record<string, string>
+): Record<string, ConfigPresetParamError> {
+  const errors: Record<string, ConfigPresetParamError> = {};
+  preset.params.forEach((item) => {
+    const value = (values[item.key] ?? item.default).trim();
+    if (item.type === 'integer') {
+      if (!value) errors[item.key] = 'required';
+      else if (!/^\d+$/.test(value)) errors[item.key] = 'non_negative_integer';
+    } else if (item.type === 'select' && !(item.options ?? []).includes(value)) {
+      errors[item.key] = 'invalid_option';
+    } else if (item.type === 'string' && !value) {
+      errors[item.key] = 'required';
+    }
+  });
+  return errors;
+}
+
+const resolveOperationValue = (
+  operation: ConfigPresetOperation,
+  preset: ConfigPreset,
+  values: Record<string, string>
+): unknown => {
+  if (!isParamRef(operation.value)) return operation.value;
+  const key = operation.value.param;
+  const definition = preset.params.find((item) => item.key === key);
+  return values[key] ?? definition?.default ?? '';
+};
+
+const ensureParentMaps = (doc: YamlDocument, path: string[]) => {
+  for (let i = 1; i < path.length; i += 1) {
+    ensureMapInDoc(doc, path.slice(0, i));
+  }
+};
+
+/**
+ * 将预设应用到 YAML 上，输出与可视化编辑保存时相同的序列化格式
+ */
+export function applyConfigPreset(
+  yamlContent: string,
+  preset: ConfigPreset,
+  values: Record<string, string>
+): string {
+  const doc = parseDocument(yamlContent);
+  if (doc.errors.length > 0) {
+    throw new Error(doc.errors[0]?.message ?? 'Invalid YAML');
+  }
+  if (!isMap(doc.contents)) {
+    doc.contents = doc.createNode({}) as unknown as typeof doc.contents;
+  }
+
+  preset.operations.forEach((operation) => {
+    if (operation.path.length === 0) return;
+    ensureParentMaps(doc, operation.path);
+    const value = resolveOperationValue(operation, preset, values);
+    switch (operation.type) {
+      case 'boolean':
+        // 预设需要显式写入 false，部分字段服务端默认值为 true，不能像可视化编辑那样省略
+        doc.setIn(operation.path, value === true || value === 'true');
+        break;
+      case 'integer':
+        setIntFromStringInDoc(doc, operation.path, String(value ?? ''));
+        break;
+      case 'string':
+        setStringInDoc(doc, operation.path, String(value ?? ''));
+        break;
+      default:
+        doc.setIn(operation.path, doc.createNode(value));
+    }
+  });
+
+  return doc.toString({ indent: 2, lineWidth: 120, minContentWidth: 0 });
+}
+
+const collectOperations = (value: unknown, path: string[], operations: ConfigPresetOperation[]) => {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) =>
+      collectOperations(child, [...path, key], operations)
+    );
+    return;
+  }
+  if (typeof value === 'boolean') {
+    operations.push({ path, type: 'boolean', value });
+  } else if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+    operations.push({ path, type: 'integer', value: String(value) });
+  } else if (typeof value === 'string') {
+    operations.push({ path, type: 'string', value });
+  } else {
+    operations.push({ path, type: 'json', value });
+  }
+};
+
+/**
+ * 将 YAML 片段展开为预设操作，用于保存自定义预设
+ */
+export function buildPresetOperationsFromYaml(snippet: string): ConfigPresetOperation[] {
+  const doc = parseDocument(snippet);
+  if (doc.errors.length > 0) {
+    throw new Error(doc.errors[0]?.message ?? 'Invalid YAML');
+  }
+  const parsed: unknown = doc.toJS();
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Expected a YAML mapping');
+  }
+  const operations: ConfigPresetOperation[] = [];
+  collectOperations(parsed, [], operations);
+  return operations;
+}
+
+const normalizeParam = (raw: unknown): ConfigPresetParam | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const record = raw as Record<string, unknown>;
+  if (typeof record.key !== 'string' || !record.key.trim()) return null;
+  if (!PARAM_TYPES.includes(record.type as ConfigPresetParam['type'])) return null;
+  return {
+    key: record.key,
+    type: record.type as ConfigPresetParam['type'],
+    default: typeof record.default === 'string' ? record.default : '',
+    options: Array.isArray(record.options)
+      ? record.options.filter((option): option is string => typeof option === 'string')
+      : undefined,
+    label: typeof record.label === 'string' ? record.label : undefined,
+  };
+};
+
+const normalizeOperation = (raw: unknown): ConfigPresetOperation | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const record = raw as Record<string, unknown>;
+  if (
+    !Array.isArray(record.path) ||
+    record.path.length === 0 ||
+    !record.path.every((segment) => typeof segment === 'string' && segment)
+  ) {
+    return null;
+  }
+  if (!OPERATION_TYPES.includes(record.type as ConfigPresetOperationType)) return null;
+  return {
+    path: record.path as string[],
+    type: record.type as ConfigPresetOperationType,
+    value: record.value,
+  };
+};
+
+/**
+ * 校验导入或本地保存的自定义预设，丢弃结构不完整的条目
+ */
+export function normalizeConfigPresets(raw: unknown): ConfigPreset[] {
+  const list =
+    typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>).presets
+      : raw;
+  if (!Array.isArray(list)) return [];
+
+  const presets: ConfigPreset[] = [];
+  list.forEach((item) => {
+    if (typeof item !== 'object' || item === null) return;
+    const record = item as Record<string, unknown>;
+    if (typeof record.id !== 'string' || typeof record.name !== 'string') return;
+    const operations = Array.isArray(record.operations)
+      ? record.operations.map(normalizeOperation).filter((op) => op !== null)
+      : [];
+    if (!record.name.trim() || operations.length === 0) return;
+    presets.push({
+      id: record.id,
+      name: record.name.trim(),
+      description: typeof record.description === 'string' ? record.description : '',
+      params: Array.isArray(record.params)
+        ? record.params.map(normalizeParam).filter((entry) => entry !== null)
+        : [],
+      operations,
+      createdAt: typeof record.createdAt === 'number' ? record.createdAt : undefined,
+    });
+  });
+  return presets;
+}
@@ -0,0 +1,274 @@
+/**
+ * CLIProxyAPI config.yaml 结构描述
+ * 覆盖可视化编辑器、RawConfigSection 与各提供商数组已知的键，用于源码编辑器的校验、补全与悬停说明
+ */
+
+export type ConfigSchemaStringFormat = 'url' | 'proxy-url' | 'model';
+
+export type ConfigSchemaPathSegment = string | number;
+
+export type ConfigSchemaNode =
+  // format 为 model 时补全可用模型名，不参与校验
+  | { type: 'string'; format?: ConfigSchemaStringFormat; enum?: readonly string[] }
+  | { type: 'integer'; min?: number; max?: number }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'boolean' }
+  | {
+      type: 'object';
+      properties?: Record<string, ConfigSchemaNode>;
+      // 未列出的键：false 时提示未知键，true 时不校验，或按给定结构校验
+      additionalProperties?: ConfigSchemaNode | boolean;
+    }
+  | {
+      type: 'array';
+      items: ConfigSchemaNode;
+      // 数组元素中该字段（或字符串元素本身）重复时给出提示
+      uniqueBy?: string;
+    }
+  | { type: 'anyOf'; options: readonly ConfigSchemaNode[] }
+  | { type: 'any' };
+
+const string = (format?: ConfigSchemaStringFormat): ConfigSchemaNode =>
+  format ? { type: 'string', format } : { type: 'string' };
+const boolean: ConfigSchemaNode = { type: 'boolean' };
+const nonNegativeInteger: ConfigSchemaNode = { type: 'integer', min: 0 };
+const any: ConfigSchemaNode = { type: 'any' };
+const stringList: ConfigSchemaNode = { type: 'array', items: string() };
+const modelList: ConfigSchemaNode = { type: 'array', items: string('model') };
+
+const object = (
+  properties: Record<string, ConfigSchemaNode>,
+  additionalProperties: ConfigSchemaNode | boolean = false
+): ConfigSchemaNode => ({ type: 'object', properties, additionalProperties });
+
+// 请求头既可写成键值映射，也可写成 { key, value } 列表
+const headers: ConfigSchemaNode = {
+  type: 'anyOf',
+  options: [
+    { type: 'object', additionalProperties: string() },
+    { type: 'array', items: object({ key: string(), value: string() }) },
+  ],
+};
+
+const modelAlias: ConfigSchemaNode = {
+  type: 'anyOf',
+  options: [
+    string('model'),
+    object({
+      name: string('model'),
+      alias: string(),
+      priority: { type: 'number' },
+      'test-model': string('model'),
+    }),
+  ],
+};
+
+const providerKeyEntry = (extra: Record<string, ConfigSchemaNode> = {}) =>
+  object({
+    'api-key': string(),
+    priority: { type: 'number' },
+    prefix: string(),
+    'base-url': string('url'),
+    'proxy-url': string('proxy-url'),
+    headers,
+    models: { type: 'array', items: modelAlias },
+    'excluded-models': modelList,
+    'auth-index': any,
+    ...extra,
+  });
+
+const providerKeyList = (entry: ConfigSchemaNode): ConfigSchemaNode => ({
+  type: 'array',
+  items: entry,
+  uniqueBy: 'api-key',
+});
+
+const apiKeyEntry = object({
+  'api-key': string(),
+  'proxy-url': string('proxy-url'),
+  headers,
+  'auth-index': any,
+});
+
+const clientApiKeys: ConfigSchemaNode = {
+  type: 'array',
+  items: {
+    type: 'anyOf',
+    options: [string(), object({ 'api-key': string(), name: string() }, true)],
+  },
+  uniqueBy: 'api-key',
+};
+
+const payloadRules: ConfigSchemaNode = {
+  type: 'array',
+  items: object({ models: { type: 'array', items: any }, params: any }, true),
+};
+
+export const CONFIG_SCHEMA: ConfigSchemaNode = object({
+  host: string(),
+  port: { type: 'integer', min: 1, max: 65535 },
+  tls: object({ enable: boolean, cert: string(), key: string() }),
+  'remote-management': object({
+    'allow-remote': boolean,
+    'secret-key': string(),
+    'disable-control-panel': boolean,
+    'panel-github-repository': string(),
+    'panel-repo': string(),
+  }),
+  'auth-dir': string(),
+  'api-keys': clientApiKeys,
+  auth: object({}, true),
+  debug: boolean,
+  'commercial-mode': boolean,
+  'logging-to-file': boolean,
+  'logs-max-total-size-mb': nonNegativeInteger,
+  'request-log': boolean,
+  'usage-statistics-enabled': boolean,
+  'proxy-url': string('proxy-url'),
+  'force-model-prefix': boolean,
+  'request-retry': nonNegativeInteger,
+  'max-retry-credentials': nonNegativeInteger,
+  'max-retry-interval': nonNegativeInteger,
+  'ws-auth': boolean,
+  'quota-exceeded': object({
+    'switch-project': boolean,
+    'switch-preview-model': boolean,
+    'antigravity-credits': boolean,
+  }),
+  routing: object({
+    strategy: { type: 'string', enum: ['round-robin', 'fill-first'] },
+    'session-affinity': boolean,
+    'session-affinity-ttl': string(),
+  }),
+  'routing-strategy': { type: 'string', enum: ['round-robin', 'fill-first'] },
+  streaming: object({
+    'keepalive-seconds': nonNegativeInteger,
+    'bootstrap-retries': nonNegativeInteger,
+  }),
+  'nonstream-keepalive-interval': nonNegativeInteger,
+  payload: object({
+    default: payloadRules,
+    'default-raw': payloadRules,
+    override: payloadRules,
+    'override-raw': payloadRules,
+    filter: payloadRules,
+  }),
+  'gemini-api-key': providerKeyList(providerKeyEntry()),
+  'codex-api-key': providerKeyList(providerKeyEntry({ websockets: boolean })),
+  'claude-api-key': providerKeyList(
+    providerKeyEntry({
+      cloak: object({
+        mode: { type: 'string', enum: ['auto', 'always', 'never'] },
+        'strict-mode': boolean,
+        'sensitive-words': stringList,
+      }),
+    })
+  ),
+  'vertex-api-key': providerKeyList(providerKeyEntry()),
+  'openai-compatibility': {
+    type: 'array',
+    items: object({
+      name: string(),
+      'base-url': string('url'),
+      'api-key-entries': { type: 'array', items: apiKeyEntry, uniqueBy: 'api-key' },
+      'api-keys': { type: 'array', items: string(), uniqueBy: 'api-key' },
+      headers,
+      models: { type: 'array', items: modelAlias },
+      priority: { type: 'number' },
+      prefix: string(),
+      disabled: boolean,
+      'test-model': string('model'),
+      'excluded-models': modelList,
+      'auth-index': any,
+    }),
+    uniqueBy: 'name',
+  },
+  ampcode: object(
+    {
+      'upstream-url': string('url'),
+      'upstream-api-key': string(),
+      'upstream-api-keys': {
+        type: 'array',
+        items: object({ 'upstream-api-key': string(), 'api-keys': stringList }),
+        uniqueBy: 'upstream-api-key',
+      },
+      'force-model-mappings': boolean,
+      'model-mappings': {
+        type: 'array',
+        items: object({ from: string(), to: string('model') }),
+      },
+    },
+    true
+  ),
+  'oauth-excluded-models': { type: 'object', additionalProperties: modelList },
+  'oauth-model-alias': { type: 'object', additionalProperties: any },
+});
+
+const childSchema = (
+  node: ConfigSchemaNode,
+  segment: ConfigSchemaPathSegment
+): ConfigSchemaNode | null => {
+  switch (node.type) {
+    case 'any':
+      return node;
+    case 'object': {
+      const property = node.properties?.[String(segment)];
+      if (property) return property;
+      return typeof node.additionalProperties === 'object' ? node.additionalProperties : null;
+    }
+    case 'array':
+      return typeof segment === 'number' ? node.items : null;
+    case 'anyOf':
+      for (const option of node.options) {
+        const child = childSchema(option, segment);
+        if (child) return child;
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * 按键路径查找结构描述，数组下标用数字表示；找不到时返回 null
+ */
+export function resolveSchemaAtPath(
+  schema: ConfigSchemaNode,
+  path: readonly ConfigSchemaPathSegment[]
+): ConfigSchemaNode | null {
+  let node: ConfigSchemaNode | null = schema;
+  for (const segment of path) {
+    if (!node) return null;
+    node = childSchema(node, segment);
+  }
+  return node;
+}
+
+/**
+ * 对象结构中已知的键（anyOf 时合并各分支）
+ */
+export function listSchemaKeys(node: ConfigSchemaNode | null): string[] {
+  if (!node) return [];
+  if (node.type === 'object') return Object.keys(node.properties ?? {});
+  if (node.type === 'anyOf') return [...new Set(node.options.flatMap(listSchemaKeys))];
+  return [];
+}
+
+/**
+ * 标量结构的可选值：枚举与布尔值
+ */
+export function listSchemaValues(node: ConfigSchemaNode | null): string[] {
+  if (!node) return [];
+  if (node.type === 'string') return node.enum ? [...node.enum] : [];
+  if (node.type === 'boolean') return ['true', 'false'];
+  if (node.type === 'anyOf') return [...new Set(node.options.flatMap(listSchemaValues))];
+  return [];
+}
+
+/**
+ * 是否应补全模型名
+ */
+export const acceptsModelName = (node: ConfigSchemaNode | null): boolean =>
+  !!node &&
+  ((node.type === 'string' && node.format === 'model') ||
+    (node.type === 'anyOf' && node.options.some(acceptsModelName)));
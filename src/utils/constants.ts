@@ -14,8 +14,12 @@ export const CACHE_EXPIRY_MS = 30 * 1000; // 与基线保持一致，减少管
 
 // 网络与版本信息
 export const DEFAULT_API_PORT = 8317;
+export const MIN_BACKEND_VERSION = '6.8.0';
+export const RECOMMENDED_BACKEND_VERSION = '6.8.15';
 export const MANAGEMENT_API_PREFIX = '/v0/management';
 export const REQUEST_TIMEOUT_MS = 30 * 1000;
+// 只读模式下仍允许的 POST 接口（仅用于读取数据，如额度查询）
+export const READ_ONLY_ALLOWED_POST_PATHS = ['/api-call'];
 export const VERSION_HEADER_KEYS = ['x-cpa-version', 'x-server-version'];
 export const BUILD_DATE_HEADER_KEYS = ['x-cpa-build-date', 'x-server-build-date'];
 export const STATUS_UPDATE_INTERVAL_MS = 1000;
@@ -38,6 +42,14 @@ export const STORAGE_KEY_THEME = 'cli-proxy-theme';
 export const STORAGE_KEY_LANGUAGE = 'cli-proxy-language';
 export const STORAGE_KEY_SIDEBAR = 'cli-proxy-sidebar-collapsed';
 export const STORAGE_KEY_AUTH_FILES_PAGE_SIZE = 'cli-proxy-auth-files-page-size';
+export const STORAGE_KEY_SESSION_LOCK = 'cli-proxy-session-lock';
+export const STORAGE_KEY_CONFIG_PRESETS = 'cli-proxy-config-presets';
+export const STORAGE_KEY_PROVIDER_HEALTH = 'cli-proxy-provider-health';
+export const STORAGE_KEY_OPENAI_PROVIDER_TEMPLATES = 'cli-proxy-openai-provider-templates';
+
+// 空闲自动锁定（分钟，0 表示关闭）
+export const IDLE_LOCK_TIMEOUT_OPTIONS = [0, 5, 15, 30, 60] as const;
+export const DEFAULT_IDLE_LOCK_TIMEOUT_MINUTES = 0;
 
 // 语言配置
 export const LANGUAGE_ORDER = defineLanguageOrder(['zh-CN', 'zh-TW', 'en', 'ru'] as const);
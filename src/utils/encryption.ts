@@ -2,12 +2,26 @@
  * 本地存储混淆工具函数（可逆）
  * 从原项目 src/utils/secure-storage.js 迁移
  *
- * IMPORTANT: 这不是安全边界。浏览器端长期持久化的密钥仍应视为可被读取。
+ * IMPORTANT: `enc::v1::` 只是混淆，不是安全边界。浏览器端长期持久化的密钥仍应视为可被读取。
+ * 需要真正加密时使用下方的口令模式（`enc::v2::`，AES-GCM + PBKDF2）。
  */
 
 const ENC_PREFIX = 'enc::v1::';
 const SECRET_SALT = 'cli-proxy-api-webui::secure-storage';
 
+const PASSPHRASE_PREFIX = 'enc::v2::';
+const PBKDF2_ITERATIONS = 310000;
+const PBKDF2_SALT_BYTES = 16;
+const AES_GCM_IV_BYTES = 12;
+
+export const PASSPHRASE_INVALID_ERROR = 'PASSPHRASE_INVALID';
+export const PASSPHRASE_UNSUPPORTED_ERROR = 'PASSPHRASE_UNSUPPORTED';
+
+export interface PassphraseKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+}
+
 let cachedKeyBytes: Uint8Array | null = null;
 
 function encodeText(text: string): Uint8Array {
@@ -102,6 +116,108 @@ export function isObfuscated(value: string): boolean {
   return value?.startsWith(ENC_PREFIX) || false;
 }
 
+/**
+ * 当前环境是否支持 WebCrypto（非安全上下文如 http 远程地址下不可用）
+ */
+export function isPassphraseEncryptionSupported(): boolean {
+  return typeof globalThis.crypto?.subtle?.importKey === 'function';
+}
+
+/**
+ * 检查是否为口令加密格式
+ */
+export function isPassphraseEncrypted(value: string | null | undefined): boolean {
+  return value?.startsWith(PASSPHRASE_PREFIX) || false;
+}
+
+/**
+ * 由口令派生 AES-GCM 密钥（PBKDF2-SHA256），不传 salt 时生成新的随机 salt
+ */
+export async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array = crypto.getRandomValues(new Uint8Array(PBKDF2_SALT_BYTES))
+): Promise<PassphraseKey> {
+  if (!isPassphraseEncryptionSupported()) {
+    throw new Error(PASSPHRASE_UNSUPPORTED_ERROR);
+  }
+
+  const material = await crypto.subtle.importKey(
+    'raw',
+    encodeText(passphrase) as BufferSource,
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, salt };
+}
+
+/**
+ * 使用已派生的密钥加密，输出 `enc::v2::<salt>.<iv>.<ciphertext>`
+ */
+export async function encryptWithPassphraseKey(
+  value: string,
+  passphraseKey: PassphraseKey
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(AES_GCM_IV_BYTES));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource },
+    passphraseKey.key,
+    encodeText(value) as BufferSource
+  );
+  return `${PASSPHRASE_PREFIX}${toBase64(passphraseKey.salt)}.${toBase64(iv)}.${toBase64(
+    new Uint8Array(encrypted)
+  )}`;
+}
+
+/**
+ * 读取口令加密载荷中的 salt，便于复用已派生的密钥
+ */
+export function readPassphraseSalt(payload: string): Uint8Array | null {
+  if (!isPassphraseEncrypted(payload)) return null;
+  const [salt] = payload.slice(PASSPHRASE_PREFIX.length).split('.');
+  try {
+    return salt ? fromBase64(salt) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 使用已派生的密钥解密；口令错误或数据损坏时抛出 PASSPHRASE_INVALID
+ */
+export async function decryptWithPassphraseKey(
+  payload: string,
+  passphraseKey: PassphraseKey
+): Promise<string> {
+  if (!isPassphraseEncrypted(payload)) {
+    throw new Error(PASSPHRASE_INVALID_ERROR);
+  }
+
+  const [, iv, body] = payload.slice(PASSPHRASE_PREFIX.length).split('.');
+  if (!iv || !body) {
+    throw new Error(PASSPHRASE_INVALID_ERROR);
+  }
+
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv) as BufferSource },
+      passphraseKey.key,
+      fromBase64(body) as BufferSource
+    );
+    return decodeText(new Uint8Array(decrypted));
+  } catch {
+    // AES-GCM 校验失败即口令错误（或数据被篡改）
+    throw new Error(PASSPHRASE_INVALID_ERROR);
+  }
+}
+
 // Backward-compatible aliases (this module was historically named "encryption").
 export const encryptData = obfuscateData;
 export const decryptData = deobfuscateData;
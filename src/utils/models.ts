@@ -121,3 +121,16 @@ export function classifyModels(models: ModelInfo[] = [], { otherLabel = 'Other'
 
   return populatedGroups;
 }
+
+const escapeRegExp = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 模型名匹配，支持 * 通配符
+ */
+export function matchesModelPattern(pattern: string, model: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return false;
+  if (!trimmed.includes('*')) return trimmed === model;
+  const regex = new RegExp(`^${trimmed.split('*').map(escapeRegExp).join('.*')}$`);
+  return regex.test(model);
+}
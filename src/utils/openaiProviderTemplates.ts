@@ -0,0 +1,165 @@
+/**
+ * OpenAI 兼容提供商模板
+ * 内置常见厂商的 Base URL 与推荐模型，用户也可将当前表单保存为自定义模板
+ */
+
+import type { ModelAlias, OpenAIProviderTemplate, OpenAIProviderTemplateIcon } from '@/types';
+
+const TEMPLATE_ICONS: OpenAIProviderTemplateIcon[] = [
+  'deepseek',
+  'glm',
+  'kimi',
+  'qwen',
+  'minimax',
+  'grok',
+];
+
+export const BUILTIN_OPENAI_PROVIDER_TEMPLATES: OpenAIProviderTemplate[] = [
+  {
+    id: 'builtin:deepseek',
+    builtin: true,
+    icon: 'deepseek',
+    descriptionKey: 'ai_providers.openai_templates.builtin.deepseek',
+    name: 'deepseek',
+    baseUrl: 'https://api.deepseek.com/v1',
+    models: [
+      { name: 'deepseek-chat', alias: 'deepseek-v3' },
+      { name: 'deepseek-reasoner', alias: 'deepseek-r1' },
+    ],
+    testModel: 'deepseek-chat',
+  },
+  {
+    id: 'builtin:glm',
+    builtin: true,
+    icon: 'glm',
+    descriptionKey: 'ai_providers.openai_templates.builtin.glm',
+    name: 'glm',
+    baseUrl: 'https://open.bigmodel.cn/api/paas/v4',
+    models: [{ name: 'glm-4.6' }, { name: 'glm-4.5-air' }],
+    testModel: 'glm-4.5-air',
+  },
+  {
+    id: 'builtin:kimi',
+    builtin: true,
+    icon: 'kimi',
+    descriptionKey: 'ai_providers.openai_templates.builtin.kimi',
+    name: 'kimi',
+    baseUrl: 'https://api.moonshot.cn/v1',
+    models: [
+      { name: 'kimi-k2-0905-preview', alias: 'kimi-k2' },
+      { name: 'kimi-k2-turbo-preview', alias: 'kimi-k2-turbo' },
+    ],
+    testModel: 'kimi-k2-turbo-preview',
+  },
+  {
+    id: 'builtin:qwen',
+    builtin: true,
+    icon: 'qwen',
+    descriptionKey: 'ai_providers.openai_templates.builtin.qwen',
+    name: 'qwen',
+    baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+    models: [
+      { name: 'qwen3-max' },
+      { name: 'qwen-plus' },
+      { name: 'qwen3-coder-plus', alias: 'qwen3-coder' },
+    ],
+    testModel: 'qwen-plus',
+  },
+  {
+    id: 'builtin:minimax',
+    builtin: true,
+    icon: 'minimax',
+    descriptionKey: 'ai_providers.openai_templates.builtin.minimax',
+    name: 'minimax',
+    baseUrl: 'https://api.minimaxi.com/v1',
+    models: [{ name: 'MiniMax-M2', alias: 'minimax-m2' }],
+    testModel: 'MiniMax-M2',
+  },
+  {
+    id: 'builtin:grok',
+    builtin: true,
+    icon: 'grok',
+    descriptionKey: 'ai_providers.openai_templates.builtin.grok',
+    name: 'grok',
+    baseUrl: 'https://api.x.ai/v1',
+    models: [{ name: 'grok-4' }, { name: 'grok-code-fast-1' }],
+    testModel: 'grok-code-fast-1',
+  },
+  {
+    id: 'builtin:openrouter',
+    builtin: true,
+    descriptionKey: 'ai_providers.openai_templates.builtin.openrouter',
+    name: 'openrouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    models: [
+      { name: 'openai/gpt-4o-mini', alias: 'gpt-4o-mini' },
+      { name: 'deepseek/deepseek-chat', alias: 'deepseek-chat' },
+    ],
+    testModel: 'openai/gpt-4o-mini',
+    // OpenRouter 用于识别调用方应用的可选请求头
+    headers: {
+      'HTTP-Referer': 'https://github.com/router-for-me/CLIProxyAPI',
+      'X-Title': 'CLIProxyAPI',
+    },
+  },
+];
+
+const normalizeModels = (raw: unknown): ModelAlias[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const models: ModelAlias[] = [];
+  raw.forEach((item) => {
+    if (typeof item !== 'object' || item === null) return;
+    const record = item as Record<string, unknown>;
+    const name = typeof record.name === 'string' ? record.name.trim() : '';
+    if (!name || seen.has(name)) return;
+    seen.add(name);
+    const alias = typeof record.alias === 'string' ? record.alias.trim() : '';
+    models.push(alias && alias !== name ? { name, alias } : { name });
+  });
+  return models;
+};
+
+const normalizeHeaders = (raw: unknown): Record<string, string> | undefined => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return undefined;
+  const headers: Record<string, string> = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([key, value]) => {
+    const name = key.trim();
+    if (name && typeof value === 'string' && value.trim()) headers[name] = value.trim();
+  });
+  return Object.keys(headers).length ? headers : undefined;
+};
+
+/**
+ * 整理自定义模板；缺少名称或 Base URL 的条目直接丢弃
+ * 模板中不保存任何密钥
+ */
+export function normalizeOpenAIProviderTemplates(raw: unknown): OpenAIProviderTemplate[] {
+  if (!Array.isArray(raw)) return [];
+
+  const templates: OpenAIProviderTemplate[] = [];
+  raw.forEach((item) => {
+    if (typeof item !== 'object' || item === null) return;
+    const record = item as Record<string, unknown>;
+    if (typeof record.id !== 'string' || record.id.startsWith('builtin:')) return;
+    const name = typeof record.name === 'string' ? record.name.trim() : '';
+    const baseUrl = typeof record.baseUrl === 'string' ? record.baseUrl.trim() : '';
+    if (!name || !baseUrl) return;
+    const models = normalizeModels(record.models);
+    const testModel = typeof record.testModel === 'string' ? record.testModel.trim() : '';
+    templates.push({
+      id: record.id,
+      icon: TEMPLATE_ICONS.includes(record.icon as OpenAIProviderTemplateIcon)
+        ? (record.icon as OpenAIProviderTemplateIcon)
+        : undefined,
+      description: typeof record.description === 'string' ? record.description.trim() : '',
+      name,
+      baseUrl,
+      models,
+      testModel: models.some((model) => model.name === testModel) ? testModel : undefined,
+      headers: normalizeHeaders(record.headers),
+      createdAt: typeof record.createdAt === 'number' ? record.createdAt : undefined,
+    });
+  });
+  return templates;
+}
@@ -0,0 +1,287 @@
+/**
+ * payload 规则模拟器
+ * 按服务端的处理顺序（default → default-raw → override → override-raw → filter）
+ * 在示例请求体上执行规则，并记录每处改动来自哪条规则
+ */
+
+import type { PayloadFilterRule, PayloadModelEntry, PayloadRule } from '@/types/visualConfig';
+import { matchesModelPattern } from './models';
+
+export type PayloadRuleGroup = 'default' | 'defaultRaw' | 'override' | 'overrideRaw' | 'filter';
+
+export type PayloadSimulationAction = 'add' | 'replace' | 'remove';
+
+export interface PayloadSimulationChange {
+  group: PayloadRuleGroup;
+  // 规则在所属分组中的下标（从 0 开始）
+  ruleIndex: number;
+  path: string;
+  action: PayloadSimulationAction;
+  // 路径原本不存在时为 undefined
+  before?: unknown;
+  after?: unknown;
+}
+
+export type PayloadSimulationSkipReason = 'exists' | 'already_set' | 'invalid_value' | 'not_found';
+
+export interface PayloadSimulationSkip {
+  group: PayloadRuleGroup;
+  ruleIndex: number;
+  path: string;
+  reason: PayloadSimulationSkipReason;
+}
+
+export interface PayloadSimulationInput {
+  body: unknown;
+  model: string;
+  protocol: string;
+  defaultRules: PayloadRule[];
+  defaultRawRules: PayloadRule[];
+  overrideRules: PayloadRule[];
+  overrideRawRules: PayloadRule[];
+  filterRules: PayloadFilterRule[];
+}
+
+export interface PayloadSimulationResult {
+  body: unknown;
+  // 命中的规则，按分组记录下标
+  matched: Record<PayloadRuleGroup, number[]>;
+  changes: PayloadSimulationChange[];
+  skipped: PayloadSimulationSkip[];
+}
+
+type JsonContainer = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is JsonContainer =>
+  typeof value === 'object' && value !== null;
+
+const matchesRule = (models: PayloadModelEntry[], model: string, protocol: string) =>
+  models.some((entry) => {
+    const entryProtocol = entry.protocol?.trim().toLowerCase() ?? '';
+    if (entryProtocol && protocol && entryProtocol !== protocol.toLowerCase()) return false;
+    return matchesModelPattern(entry.name, model);
+  });
+
+/**
+ * 拆分 gjson/sjson 风格的路径，支持以 \. 转义键名中的点号
+ */
+export const splitPayloadPath = (path: string): string[] => {
+  const segments: string[] = [];
+  let current = '';
+  for (let i = 0; i < path.length; i += 1) {
+    const char = path[i];
+    if (char === '\\' && i + 1 < path.length) {
+      current += path[i + 1];
+      i += 1;
+    } else if (char === '.') {
+      segments.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments;
+};
+
+const isIndex = (segment: string) => /^(0|[1-9]\d*)$/.test(segment);
+
+const getAt = (root: unknown, segments: string[]): { found: boolean; value?: unknown } => {
+  let node = root;
+  for (const segment of segments) {
+    if (Array.isArray(node)) {
+      if (!isIndex(segment) || Number(segment) >= node.length) return { found: false };
+      node = node[Number(segment)];
+    } else if (isContainer(node) && Object.prototype.hasOwnProperty.call(node, segment)) {
+      node = (node as Record<string, unknown>)[segment];
+    } else {
+      return { found: false };
+    }
+  }
+  return { found: true, value: node };
+};
+
+const readChild = (node: JsonContainer, segment: string) =>
+  Array.isArray(node) ? node[Number(segment)] : node[segment];
+
+const writeChild = (node: JsonContainer, segment: string, value: unknown) => {
+  if (!Array.isArray(node)) {
+    node[segment] = value;
+    return;
+  }
+  // 与 sjson 一致：-1 表示追加，越界下标以 null 补齐
+  const index = segment === '-1' ? node.length : Number(segment);
+  while (node.length < index) node.push(null);
+  node[index] = value;
+};
+
+const canWriteChild = (node: JsonContainer, segment: string) =>
+  !Array.isArray(node) || segment === '-1' || isIndex(segment);
+
+// 写入路径，缺失的中间层按下一段是否为下标创建数组或对象；无法写入时返回 false
+const setAt = (root: JsonContainer, segments: string[], value: unknown): boolean => {
+  let node = root;
+  for (let i = 0; i < segments.length - 1; i += 1) {
+    const segment = segments[i];
+    if (!canWriteChild(node, segment)) return false;
+    let child = segment === '-1' ? undefined : readChild(node, segment);
+    if (!isContainer(child)) {
+      const next = segments[i + 1];
+      child = isIndex(next) || next === '-1' ? [] : {};
+      writeChild(node, segment, child);
+    }
+    node = child as JsonContainer;
+  }
+  const last = segments[segments.length - 1];
+  if (!canWriteChild(node, last)) return false;
+  writeChild(node, last, value);
+  return true;
+};
+
+const deleteAt = (root: unknown, segments: string[]): boolean => {
+  const parent = getAt(root, segments.slice(0, -1));
+  if (!parent.found || !isContainer(parent.value)) return false;
+  const last = segments[segments.length - 1];
+  if (Array.isArray(parent.value)) {
+    if (!isIndex(last) || Number(last) >= parent.value.length) return false;
+    parent.value.splice(Number(last), 1);
+    return true;
+  }
+  if (!Object.prototype.hasOwnProperty.call(parent.value, last)) return false;
+  delete parent.value[last];
+  return true;
+};
+
+const cloneJson = <T>(value: T): T =>
+  value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+
+/**
+ * 将参数值转换为写入请求体的 JSON 值，无法解析时返回 undefined
+ */
+const resolveParamValue = (param: PayloadRule['params'][number]): unknown => {
+  const trimmed = param.value.trim();
+  switch (param.valueType) {
+    case 'number': {
+      const parsed = Number(trimmed);
+      return trimmed && Number.isFinite(parsed) ? parsed : undefined;
+    }
+    case 'boolean': {
+      const normalized = trimmed.toLowerCase();
+      if (normalized === 'true') return true;
+      if (normalized === 'false') return false;
+      return undefined;
+    }
+    case 'json':
+      try {
+        return JSON.parse(param.value);
+      } catch {
+        return undefined;
+      }
+    default:
+      return param.value;
+  }
+};
+
+export function simulatePayloadRules(input: PayloadSimulationInput): PayloadSimulationResult {
+  const source = input.body;
+  const body = cloneJson(source);
+  const model = input.model.trim();
+  const matched: Record<PayloadRuleGroup, number[]> = {
+    default: [],
+    defaultRaw: [],
+    override: [],
+    overrideRaw: [],
+    filter: [],
+  };
+  const changes: PayloadSimulationChange[] = [];
+  const skipped: PayloadSimulationSkip[] = [];
+
+  const eachMatchedRule = <T extends { models: PayloadModelEntry[] }>(
+    group: PayloadRuleGroup,
+    rules: T[],
+    apply: (rule: T, ruleIndex: number) => void
+  ) => {
+    rules.forEach((rule, ruleIndex) => {
+      if (!matchesRule(rule.models, model, input.protocol)) return;
+      matched[group].push(ruleIndex);
+      apply(rule, ruleIndex);
+    });
+  };
+
+  const write = (group: PayloadRuleGroup, ruleIndex: number, path: string, value: unknown) => {
+    if (!isContainer(body)) return false;
+    const segments = splitPayloadPath(path);
+    const previous = getAt(body, segments);
+    if (!setAt(body, segments, cloneJson(value))) return false;
+    changes.push({
+      group,
+      ruleIndex,
+      path,
+      action: previous.found ? 'replace' : 'add',
+      before: cloneJson(previous.value),
+      after: value,
+    });
+    return true;
+  };
+
+  // default：仅在原始请求体中不存在时写入，多条规则命中同一路径时先写入者生效
+  const appliedDefaults = new Set<string>();
+  const applyDefaults = (group: PayloadRuleGroup) => (rule: PayloadRule, ruleIndex: number) => {
+    rule.params.forEach((param) => {
+      const path = param.path.trim();
+      if (!path) return;
+      if (getAt(source, splitPayloadPath(path)).found) {
+        skipped.push({ group, ruleIndex, path, reason: 'exists' });
+        return;
+      }
+      if (appliedDefaults.has(path)) {
+        skipped.push({ group, ruleIndex, path, reason: 'already_set' });
+        return;
+      }
+      const value = resolveParamValue(param);
+      if (value === undefined || !write(group, ruleIndex, path, value)) {
+        skipped.push({ group, ruleIndex, path, reason: 'invalid_value' });
+        return;
+      }
+      appliedDefaults.add(path);
+    });
+  };
+
+  // override：总是覆盖，多条规则命中同一路径时后写入者生效
+  const applyOverrides = (group: PayloadRuleGroup) => (rule: PayloadRule, ruleIndex: number) => {
+    rule.params.forEach((param) => {
+      const path = param.path.trim();
+      if (!path) return;
+      const value = resolveParamValue(param);
+      if (value === undefined || !write(group, ruleIndex, path, value)) {
+        skipped.push({ group, ruleIndex, path, reason: 'invalid_value' });
+      }
+    });
+  };
+
+  eachMatchedRule('default', input.defaultRules, applyDefaults('default'));
+  eachMatchedRule('defaultRaw', input.defaultRawRules, applyDefaults('defaultRaw'));
+  eachMatchedRule('override', input.overrideRules, applyOverrides('override'));
+  eachMatchedRule('overrideRaw', input.overrideRawRules, applyOverrides('overrideRaw'));
+  eachMatchedRule('filter', input.filterRules, (rule, ruleIndex) => {
+    rule.params.forEach((rawPath) => {
+      const path = rawPath.trim();
+      if (!path) return;
+      const segments = splitPayloadPath(path);
+      const previous = getAt(body, segments);
+      if (!previous.found || !deleteAt(body, segments)) {
+        skipped.push({ group: 'filter', ruleIndex, path, reason: 'not_found' });
+        return;
+      }
+      changes.push({
+        group: 'filter',
+        ruleIndex,
+        path,
+        action: 'remove',
+        before: cloneJson(previous.value),
+      });
+    });
+  });
+
+  return { body, matched, changes, skipped };
+}
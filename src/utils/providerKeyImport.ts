@@ -0,0 +1,352 @@
+/**
+ * 上游提供商密钥批量导入
+ * 支持 CSV、JSON 与 .env 三种格式，解析后按 api-key + base-url 与已有配置去重
+ */
+
+import type { ProviderKeyConfig } from '@/types';
+import { buildHeaderObject } from './headers';
+
+export type ProviderKeyImportTarget = 'gemini' | 'codex' | 'claude';
+
+export type ProviderKeyImportFormat = 'csv' | 'json' | 'env';
+
+export type ProviderKeyImportEntry = Pick<
+  ProviderKeyConfig,
+  'apiKey' | 'baseUrl' | 'proxyUrl' | 'prefix' | 'priority' | 'headers'
+>;
+
+export type ProviderKeyImportErrorCode =
+  | 'invalid_json'
+  | 'unsupported_json'
+  | 'missing_key'
+  | 'invalid_priority'
+  | 'invalid_headers'
+  | 'not_a_key';
+
+export interface ProviderKeyImportError {
+  // 源文本中的行号（JSON 为数组下标 + 1），0 表示整体解析失败
+  line: number;
+  code: ProviderKeyImportErrorCode;
+}
+
+export interface ProviderKeyImportParsedEntry {
+  line: number;
+  entry: ProviderKeyImportEntry;
+}
+
+export interface ProviderKeyImportParseResult {
+  entries: ProviderKeyImportParsedEntry[];
+  errors: ProviderKeyImportError[];
+}
+
+export type ProviderKeyImportStatus = 'add' | 'existing' | 'duplicate' | 'missing_base_url';
+
+export interface ProviderKeyImportRow extends ProviderKeyImportParsedEntry {
+  status: ProviderKeyImportStatus;
+}
+
+// 未在导入数据中指定时使用的默认值
+export interface ProviderKeyImportDefaults {
+  baseUrl?: string;
+  proxyUrl?: string;
+  prefix?: string;
+  priority?: number;
+}
+
+type ImportField = keyof ProviderKeyImportEntry;
+
+// 列名与 JSON 字段名统一转小写并去掉分隔符后匹配，兼容 api-key / apiKey / api_key 等写法
+const FIELD_ALIASES: Record<string, ImportField> = {
+  apikey: 'apiKey',
+  key: 'apiKey',
+  baseurl: 'baseUrl',
+  url: 'baseUrl',
+  proxyurl: 'proxyUrl',
+  proxy: 'proxyUrl',
+  prefix: 'prefix',
+  priority: 'priority',
+  headers: 'headers',
+};
+
+// CSV 没有表头时按此顺序读取各列
+const POSITIONAL_FIELDS: ImportField[] = [
+  'apiKey',
+  'baseUrl',
+  'proxyUrl',
+  'prefix',
+  'priority',
+  'headers',
+];
+
+const normalizeFieldName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const resolveField = (name: string): ImportField | undefined =>
+  FIELD_ALIASES[normalizeFieldName(name)];
+
+const normalizeBaseUrlForCompare = (value?: string) => (value ?? '').trim().replace(/\/+$/, '');
+
+const entryIdentity = (entry: { apiKey: string; baseUrl?: string }) =>
+  `${entry.apiKey.trim()}\n${normalizeBaseUrlForCompare(entry.baseUrl)}`;
+
+export function detectProviderKeyImportFormat(
+  text: string,
+  fileName?: string
+): ProviderKeyImportFormat {
+  const extension = fileName?.toLowerCase().split('.').pop();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (extension === 'env' || fileName?.toLowerCase().startsWith('.env')) return 'env';
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  const lines = trimmed
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.trim().startsWith('#'));
+  if (lines.length > 0 && lines.every((line) => /^\s*(export\s+)?[A-Za-z_][\w.]*\s*=/.test(line))) {
+    return 'env';
+  }
+  return 'csv';
+}
+
+// 请求头支持 JSON 对象或 "Name: value; Name2: value" 两种写法
+const parseHeaders = (value: unknown): Record<string, string> | null => {
+  if (value === undefined || value === null || value === '') return {};
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return buildHeaderObject(value as Record<string, string>);
+  }
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  if (text.startsWith('{')) {
+    try {
+      return parseHeaders(JSON.parse(text));
+    } catch {
+      return null;
+    }
+  }
+  const headers: Record<string, string> = {};
+  for (const part of text.split(';')) {
+    if (!part.trim()) continue;
+    const separator = part.indexOf(':');
+    if (separator <= 0) return null;
+    headers[part.slice(0, separator).trim()] = part.slice(separator + 1).trim();
+  }
+  return buildHeaderObject(headers);
+};
+
+const parsePriority = (value: unknown): number | undefined | null => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isInteger(parsed) ? parsed : null;
+};
+
+const buildEntry = (
+  fields: Partial<Record<ImportField, unknown>>
+): ProviderKeyImportEntry | ProviderKeyImportErrorCode => {
+  const apiKey = typeof fields.apiKey === 'string' ? fields.apiKey.trim() : '';
+  if (!apiKey) return 'missing_key';
+  const priority = parsePriority(fields.priority);
+  if (priority === null) return 'invalid_priority';
+  const headers = parseHeaders(fields.headers);
+  if (headers === null) return 'invalid_headers';
+
+  const text = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  return {
+    apiKey,
+    baseUrl: text(fields.baseUrl),
+    proxyUrl: text(fields.proxyUrl),
+    prefix: text(fields.prefix),
+    priority,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+  };
+};
+
+const pushResult = (
+  result: ProviderKeyImportParseResult,
+  line: number,
+  built: ProviderKeyImportEntry | ProviderKeyImportErrorCode
+) => {
+  if (typeof built === 'string') {
+    result.errors.push({ line, code: built });
+  } else {
+    result.entries.push({ line, entry: built });
+  }
+};
+
+// 按行拆分 CSV，支持双引号包裹的字段与转义的双引号，返回每行的单元格与起始行号
+const splitCsvRows = (text: string, delimiter: string) => {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim())) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line += 1;
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+      line += 1;
+      rowLine = line;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+const parseCsv = (text: string): ProviderKeyImportParseResult => {
+  const result: ProviderKeyImportParseResult = { entries: [], errors: [] };
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+  const rows = splitCsvRows(text, delimiter).filter((row) => !row.cells[0]?.trim().startsWith('#'));
+  if (rows.length === 0) return result;
+
+  // 第一行任一列能识别为字段名时视为表头，否则按固定列顺序读取
+  const hasHeader = rows[0].cells.some((cell) => resolveField(cell) !== undefined);
+  const columns = hasHeader ? rows[0].cells.map(resolveField) : POSITIONAL_FIELDS;
+
+  rows.slice(hasHeader ? 1 : 0).forEach(({ line, cells }) => {
+    const fields: Partial<Record<ImportField, unknown>> = {};
+    cells.forEach((value, index) => {
+      const field = columns[index];
+      if (field) fields[field] = value;
+    });
+    pushResult(result, line, buildEntry(fields));
+  });
+  return result;
+};
+
+const parseJson = (text: string): ProviderKeyImportParseResult => {
+  const result: ProviderKeyImportParseResult = { entries: [], errors: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    result.errors.push({ line: 0, code: 'invalid_json' });
+    return result;
+  }
+
+  // 支持顶层数组，或包含数组字段的对象（如 { "gemini-api-key": [...] }）
+  const list = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object' && parsed !== null
+      ? Object.values(parsed as Record<string, unknown>).find(Array.isArray)
+      : undefined;
+  if (!Array.isArray(list)) {
+    result.errors.push({ line: 0, code: 'unsupported_json' });
+    return result;
+  }
+
+  list.forEach((item, index) => {
+    if (typeof item === 'string') {
+      pushResult(result, index + 1, buildEntry({ apiKey: item }));
+      return;
+    }
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      result.errors.push({ line: index + 1, code: 'missing_key' });
+      return;
+    }
+    const fields: Partial<Record<ImportField, unknown>> = {};
+    Object.entries(item as Record<string, unknown>).forEach(([name, value]) => {
+      const field = resolveField(name);
+      if (field) fields[field] = value;
+    });
+    pushResult(result, index + 1, buildEntry(fields));
+  });
+  return result;
+};
+
+// .env 中只读取变量名包含 KEY 的变量，其余变量（如 BASE_URL）记为跳过
+const parseEnv = (text: string): ProviderKeyImportParseResult => {
+  const result: ProviderKeyImportParseResult = { entries: [], errors: [] };
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const match = /^(?:export\s+)?([A-Za-z_][\w.]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) {
+      result.errors.push({ line: index + 1, code: 'missing_key' });
+      return;
+    }
+    const [, name, rawValue] = match;
+    if (!/key/i.test(name)) {
+      result.errors.push({ line: index + 1, code: 'not_a_key' });
+      return;
+    }
+    const quote = rawValue[0];
+    const value =
+      (quote === '"' || quote === "'") && rawValue.lastIndexOf(quote) > 0
+        ? rawValue.slice(1, rawValue.lastIndexOf(quote))
+        : rawValue.replace(/\s+#.*$/, '');
+    pushResult(result, index + 1, buildEntry({ apiKey: value }));
+  });
+  return result;
+};
+
+export function parseProviderKeyImport(
+  text: string,
+  format: ProviderKeyImportFormat
+): ProviderKeyImportParseResult {
+  if (!text.trim()) return { entries: [], errors: [] };
+  if (format === 'json') return parseJson(text);
+  if (format === 'env') return parseEnv(text);
+  return parseCsv(text);
+}
+
+/**
+ * 为导入条目补全默认值，并标记与已有配置或导入数据内部重复的条目
+ */
+export function planProviderKeyImport(
+  entries: ProviderKeyImportParsedEntry[],
+  existing: Array<{ apiKey: string; baseUrl?: string }>,
+  target: ProviderKeyImportTarget,
+  defaults: ProviderKeyImportDefaults = {}
+): ProviderKeyImportRow[] {
+  const existingIds = new Set(existing.map(entryIdentity));
+  const seen = new Set<string>();
+
+  return entries.map(({ line, entry }) => {
+    const resolved: ProviderKeyImportEntry = {
+      ...entry,
+      baseUrl: entry.baseUrl ?? (defaults.baseUrl?.trim() || undefined),
+      proxyUrl: entry.proxyUrl ?? (defaults.proxyUrl?.trim() || undefined),
+      prefix: entry.prefix ?? (defaults.prefix?.trim() || undefined),
+      priority: entry.priority ?? defaults.priority,
+    };
+    const id = entryIdentity(resolved);
+    let status: ProviderKeyImportStatus = 'add';
+    if (target === 'codex' && !resolved.baseUrl) {
+      status = 'missing_base_url';
+    } else if (existingIds.has(id)) {
+      status = 'existing';
+    } else if (seen.has(id)) {
+      status = 'duplicate';
+    }
+    seen.add(id);
+    return { line, entry: resolved, status };
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * 上游密钥轮换
+ * 新密钥先与旧密钥并存，验证可用后降低旧密钥优先级，最后再移除旧密钥，整个过程不中断请求
+ */
+
+import { stringify } from 'yaml';
+import type { ProviderKeyConfig } from '@/types';
+
+export type ProviderKeyRotationKind = 'gemini' | 'codex' | 'claude' | 'vertex';
+
+export type ProviderKeyRotationStep = 'add' | 'test' | 'demote' | 'remove';
+
+export const PROVIDER_KEY_ROTATION_STEPS: ProviderKeyRotationStep[] = [
+  'add',
+  'test',
+  'demote',
+  'remove',
+];
+
+export const PROVIDER_KEY_ROTATION_SECTIONS: Record<ProviderKeyRotationKind, string> = {
+  gemini: 'gemini-api-key',
+  codex: 'codex-api-key',
+  claude: 'claude-api-key',
+  vertex: 'vertex-api-key',
+};
+
+const normalizeBaseUrl = (value?: string) => (value ?? '').trim().replace(/\/+$/, '');
+
+/**
+ * 按 api-key + base-url 定位条目；列表可能在轮换过程中被刷新，不能依赖下标
+ */
+export function findProviderKeyIndex<T extends ProviderKeyConfig>(
+  list: T[],
+  apiKey: string,
+  baseUrl?: string
+): number {
+  const key = apiKey.trim();
+  const url = normalizeBaseUrl(baseUrl);
+  return list.findIndex(
+    (item) => item.apiKey.trim() === key && normalizeBaseUrl(item.baseUrl) === url
+  );
+}
+
+/**
+ * 复制旧密钥的前缀、请求头、模型与排除模型等设置，插入到旧密钥之后
+ */
+export function buildRotationAddList<T extends ProviderKeyConfig>(
+  list: T[],
+  oldIndex: number,
+  newApiKey: string
+): T[] {
+  const source = list[oldIndex];
+  if (!source) return list;
+  // auth-index 由后端按密钥生成，新条目不能沿用旧值
+  const created: T = { ...source, apiKey: newApiKey.trim(), authIndex: undefined };
+  return [...list.slice(0, oldIndex + 1), created, ...list.slice(oldIndex + 1)];
+}
+
+/**
+ * 将旧密钥的优先级调到新密钥之下，使请求优先走新密钥
+ */
+export function buildRotationDemoteList<T extends ProviderKeyConfig>(
+  list: T[],
+  oldIndex: number,
+  newIndex: number
+): T[] {
+  const created = list[newIndex];
+  if (!list[oldIndex] || !created) return list;
+  const priority = (created.priority ?? 0) - 1;
+  return list.map((item, index) => (index === oldIndex ? { ...item, priority } : item));
+}
+
+export function buildRotationRemoveList<T extends ProviderKeyConfig>(
+  list: T[],
+  oldIndex: number
+): T[] {
+  return list.filter((_, index) => index !== oldIndex);
+}
+
+/**
+ * 生成用于差异预览的 YAML 片段；密钥经 maskKey 处理，不在页面上出现明文
+ */
+export function buildRotationPreviewYaml(
+  kind: ProviderKeyRotationKind,
+  list: Record<string, unknown>[],
+  maskKey: (apiKey: string) => string
+): string {
+  const masked = list.map((item) => ({
+    ...item,
+    'api-key': maskKey(String(item['api-key'] ?? '')),
+  }));
+  return stringify(
+    { [PROVIDER_KEY_ROTATION_SECTIONS[kind]]: masked },
+    { indent: 2, lineWidth: 120, minContentWidth: 0 }
+  );
+}
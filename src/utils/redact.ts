@@ -0,0 +1,137 @@
+/**
+ * 敏感信息脱敏（用于审计日志等本地记录）
+ */
+
+import { maskApiKey } from './format';
+
+const SENSITIVE_KEY_PATTERN =
+  /(api[-_]?key|secret|token|password|authorization|cookie|credential|private[-_]?key|^key$|^keys$)/i;
+const SENSITIVE_QUERY_PATTERN = /([?&](?:api[-_]?key|key|token|secret)=)([^&#]*)/gi;
+const YAML_SENSITIVE_LINE_PATTERN =
+  /^(\s*-?\s*[\w-]*(?:api[-_]?key|secret|token|password|authorization)[\w-]*\s*:\s*)(["']?)([^"'\n#]+)\2/i;
+const YAML_SECRET_LIST_HEADER_PATTERN =
+  /^(\s*)(?:-\s+)?[\w-]*(?:api[-_]?keys?|secrets?|tokens?)[\w-]*\s*:\s*(?:#.*)?$/i;
+const YAML_LIST_ITEM_PATTERN = /^(\s*-\s+)(["']?)([^"'#\s][^"'#]*?)\2(\s*(?:#.*)?)$/;
+// 没有值、开启嵌套块的 `key:` 行
+const YAML_BLOCK_KEY_PATTERN = /^\s*(?:-\s+)?[\w.-]+\s*:\s*(?:#.*)?$/;
+const MAX_STRING_LENGTH = 20_000;
+const MAX_DEPTH = 8;
+
+/**
+ * 脱敏 YAML / 文本：隐藏形如 `api-key: xxx` 的字段，以及 `api-keys:` 等列表下的每一项
+ */
+export function redactText(text: string): string {
+  let secretListIndent: number | null = null;
+
+  const redacted = text
+    .split('\n')
+    .map((line) => {
+      const indent = line.length - line.trimStart().length;
+
+      if (secretListIndent !== null && line.trim()) {
+        const item = line.match(YAML_LIST_ITEM_PATTERN);
+        if (indent > secretListIndent && YAML_BLOCK_KEY_PATTERN.test(line)) {
+          // 段内嵌套的 `key:` 开启了新的子列表（如 excluded-models），其中的条目不再视为密钥
+          secretListIndent = null;
+        } else if (item && indent >= secretListIndent && !/:(\s|$)/.test(item[3])) {
+          const [, prefix, quote, secret, suffix] = item;
+          return `${prefix}${quote}${maskApiKey(secret)}${quote}${suffix}`;
+        } else if (!item && indent <= secretListIndent) {
+          secretListIndent = null;
+        }
+      }
+
+      const header = line.match(YAML_SECRET_LIST_HEADER_PATTERN);
+      if (header) {
+        secretListIndent = header[1].length;
+        return line;
+      }
+
+      return line.replace(
+        YAML_SENSITIVE_LINE_PATTERN,
+        (_match, prefix: string, quote: string, secret: string) => {
+          const trailing = secret.slice(secret.trimEnd().length);
+          return `${prefix}${quote}${maskApiKey(secret.trim())}${quote}${trailing}`;
+        }
+      );
+    })
+    .join('\n');
+
+  return redacted.length > MAX_STRING_LENGTH
+    ? `${redacted.slice(0, MAX_STRING_LENGTH)}\n… (${redacted.length - MAX_STRING_LENGTH} more chars)`
+    : redacted;
+}
+
+/**
+ * 脱敏 URL 查询参数中的密钥
+ */
+export function redactUrl(url: string): string {
+  return url.replace(SENSITIVE_QUERY_PATTERN, (_match, prefix: string, value: string) => {
+    let decoded = value;
+    try {
+      decoded = decodeURIComponent(value);
+    } catch {
+      // 保留原始值
+    }
+    return `${prefix}${encodeURIComponent(maskApiKey(decoded))}`;
+  });
+}
+
+export interface RedactOptions {
+  // 接口本身用于管理密钥（如 /api-keys）时，没有字段名或位于 value 下的字符串也视为密钥
+  secretEndpoint?: boolean;
+}
+
+const SECRET_ENDPOINT_PATTERN = /(^|\/)(api-keys|upstream-api-keys?)(\/|$)/;
+const BARE_VALUE_KEYS = new Set(['value', 'old', 'new']);
+
+/**
+ * 判断接口路径是否直接管理密钥
+ */
+export function isSecretEndpoint(path: string): boolean {
+  return SECRET_ENDPOINT_PATTERN.test(path.split(/[?#]/)[0]);
+}
+
+/**
+ * 递归脱敏请求载荷：字段名疑似密钥的值会被掩码，FormData 仅保留文件名
+ */
+export function redactPayload(
+  value: unknown,
+  options: RedactOptions = {},
+  depth = 0,
+  key?: string
+): unknown {
+  if (value === null || value === undefined) return null;
+
+  if (typeof value === 'string') {
+    if (key !== undefined && SENSITIVE_KEY_PATTERN.test(key)) return maskApiKey(value);
+    if (options.secretEndpoint && (key === undefined || BARE_VALUE_KEYS.has(key))) {
+      return maskApiKey(value);
+    }
+    return redactText(value);
+  }
+  if (typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[…]';
+
+  if (typeof FormData !== 'undefined' && value instanceof FormData) {
+    const files: string[] = [];
+    value.forEach((entry) => {
+      if (typeof File !== 'undefined' && entry instanceof File) {
+        files.push(entry.name);
+      }
+    });
+    return { formData: true, files };
+  }
+
+  // 数组元素沿用父字段名，如 api-keys: [...] 中的每一项
+  if (Array.isArray(value)) {
+    return value.map((item) => redactPayload(item, options, depth + 1, key));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([entryKey, entry]) => [
+      entryKey,
+      redactPayload(entry, options, depth + 1, entryKey),
+    ])
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * 基于行的三方合并工具
+ * 以共同基准版本分别计算双方的改动，互不重叠的改动自动合并，重叠且内容不同的改动标记为冲突
+ */
+
+import { Text } from '@codemirror/state';
+import { Chunk } from '@codemirror/merge';
+
+export type MergeChoice = 'ours' | 'theirs' | 'both';
+
+export type MergeRegion =
+  | { type: 'resolved'; lines: string[] }
+  | {
+      type: 'conflict';
+      // 冲突在基准版本中的起始行（从 1 开始）
+      baseLine: number;
+      base: string[];
+      ours: string[];
+      theirs: string[];
+    };
+
+export interface ThreeWayMergeResult {
+  regions: MergeRegion[];
+  // 自动合并的改动块数量（仅一方修改，或双方修改内容相同）
+  autoMerged: number;
+  conflicts: number;
+}
+
+// 改动块的行区间，结束位置不包含
+interface LineHunk {
+  side: 'ours' | 'theirs';
+  baseStart: number;
+  baseEnd: number;
+  otherStart: number;
+  otherEnd: number;
+}
+
+const toText = (content: string) => Text.of(content.split('\n'));
+
+const toLines = (doc: Text) => doc.toString().split('\n');
+
+// Chunk 的 to 可能指向文档末尾之后，此时视为最后一行之后
+const lineIndexAt = (doc: Text, pos: number) =>
+  pos > doc.length ? doc.lines : doc.lineAt(pos).number - 1;
+
+const buildHunks = (base: Text, other: Text, side: LineHunk['side']): LineHunk[] =>
+  Chunk.build(base, other).map((chunk) => ({
+    side,
+    baseStart: lineIndexAt(base, chunk.fromA),
+    baseEnd: lineIndexAt(base, chunk.toA),
+    otherStart: lineIndexAt(other, chunk.fromB),
+    otherEnd: lineIndexAt(other, chunk.toB),
+  }));
+
+const sameLines = (a: readonly string[], b: readonly string[]) =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * 取某一方在基准区间 [start, end) 上的内容：区间内无改动时即为基准内容
+ */
+const sliceSide = (
+  hunks: LineHunk[],
+  baseLines: string[],
+  otherLines: string[],
+  start: number,
+  end: number
+) => {
+  if (hunks.length === 0) return baseLines.slice(start, end);
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  const from = first.otherStart - (first.baseStart - start);
+  const to = last.otherEnd + (end - last.baseEnd);
+  return otherLines.slice(from, to);
+};
+
+export function computeThreeWayMerge(
+  base: string,
+  ours: string,
+  theirs: string
+): ThreeWayMergeResult {
+  const baseDoc = toText(base);
+  const oursDoc = toText(ours);
+  const theirsDoc = toText(theirs);
+  const baseLines = toLines(baseDoc);
+  const oursLines = toLines(oursDoc);
+  const theirsLines = toLines(theirsDoc);
+
+  const hunks = [
+    ...buildHunks(baseDoc, oursDoc, 'ours'),
+    ...buildHunks(baseDoc, theirsDoc, 'theirs'),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const regions: MergeRegion[] = [];
+  let autoMerged = 0;
+  let conflicts = 0;
+  let cursor = 0;
+
+  const pushResolved = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = regions[regions.length - 1];
+    if (last?.type === 'resolved') {
+      last.lines.push(...lines);
+    } else {
+      regions.push({ type: 'resolved', lines: [...lines] });
+    }
+  };
+
+  let index = 0;
+  while (index < hunks.length) {
+    // 相互重叠或相邻的改动块归为一组，与 git 的处理方式一致
+    const group = [hunks[index]];
+    let groupStart = hunks[index].baseStart;
+    let groupEnd = hunks[index].baseEnd;
+    index += 1;
+    while (index < hunks.length && hunks[index].baseStart <= groupEnd) {
+      groupStart = Math.min(groupStart, hunks[index].baseStart);
+      groupEnd = Math.max(groupEnd, hunks[index].baseEnd);
+      group.push(hunks[index]);
+      index += 1;
+    }
+
+    pushResolved(baseLines.slice(cursor, groupStart));
+    cursor = groupEnd;
+
+    const oursHunks = group.filter((hunk) => hunk.side === 'ours');
+    const theirsHunks = group.filter((hunk) => hunk.side === 'theirs');
+    const oursSlice = sliceSide(oursHunks, baseLines, oursLines, groupStart, groupEnd);
+    const theirsSlice = sliceSide(theirsHunks, baseLines, theirsLines, groupStart, groupEnd);
+
+    if (theirsHunks.length === 0 || sameLines(oursSlice, theirsSlice)) {
+      pushResolved(oursSlice);
+      autoMerged += 1;
+    } else if (oursHunks.length === 0) {
+      pushResolved(theirsSlice);
+      autoMerged += 1;
+    } else {
+      regions.push({
+        type: 'conflict',
+        baseLine: groupStart + 1,
+        base: baseLines.slice(groupStart, groupEnd),
+        ours: oursSlice,
+        theirs: theirsSlice,
+      });
+      conflicts += 1;
+    }
+  }
+
+  pushResolved(baseLines.slice(cursor));
+
+  return { regions, autoMerged, conflicts };
+}
+
+export const CONFLICT_MARKER_START = '<<<<<<< ';
+export const CONFLICT_MARKER_SEPARATOR = '=======';
+export const CONFLICT_MARKER_END = '>>>>>>> ';
+
+/**
+ * 按冲突的选择拼出合并结果；未选择的冲突以 git 风格的冲突标记保留
+ */
+export function buildMergedText(
+  merge: ThreeWayMergeResult,
+  choices: Record<number, MergeChoice> = {},
+  labels: { ours: string; theirs: string } = { ours: 'local', theirs: 'server' }
+): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  merge.regions.forEach((region) => {
+    if (region.type === 'resolved') {
+      lines.push(...region.lines);
+      return;
+    }
+
+    const choice = choices[conflictIndex];
+    conflictIndex += 1;
+    if (choice === 'ours') {
+      lines.push(...region.ours);
+    } else if (choice === 'theirs') {
+      lines.push(...region.theirs);
+    } else if (choice === 'both') {
+      lines.push(...region.ours, ...region.theirs);
+    } else {
+      lines.push(
+        `${CONFLICT_MARKER_START}${labels.ours}`,
+        ...region.ours,
+        CONFLICT_MARKER_SEPARATOR,
+        ...region.theirs,
+        `${CONFLICT_MARKER_END}${labels.theirs}`
+      );
+    }
+  });
+
+  return lines.join('\n');
+}
+
+export const hasConflictMarkers = (content: string) =>
+  content
+    .split('\n')
+    .some(
+      (line) =>
+        line.startsWith(CONFLICT_MARKER_START) ||
+        line === CONFLICT_MARKER_SEPARATOR ||
+        line.startsWith(CONFLICT_MARKER_END)
+    );
@@ -0,0 +1,42 @@
+/**
+ * 版本号解析与比较
+ */
+
+import { MIN_BACKEND_VERSION } from './constants';
+
+export const parseVersionSegments = (version?: string | null) => {
+  if (!version) return null;
+  const cleaned = version.trim().replace(/^v/i, '');
+  if (!cleaned) return null;
+  const parts = cleaned
+    .split(/[^0-9]+/)
+    .filter(Boolean)
+    .map((segment) => Number.parseInt(segment, 10))
+    .filter(Number.isFinite);
+  return parts.length ? parts : null;
+};
+
+/**
+ * 比较两个版本号：latest 更新返回 1，更旧返回 -1，相同返回 0，无法解析返回 null
+ */
+export const compareVersions = (latest?: string | null, current?: string | null) => {
+  const latestParts = parseVersionSegments(latest);
+  const currentParts = parseVersionSegments(current);
+  if (!latestParts || !currentParts) return null;
+  const length = Math.max(latestParts.length, currentParts.length);
+  for (let i = 0; i < length; i++) {
+    const l = latestParts[i] || 0;
+    const c = currentParts[i] || 0;
+    if (l > c) return 1;
+    if (l < c) return -1;
+  }
+  return 0;
+};
+
+/**
+ * 后端版本是否低于 UI 支持的最低版本（版本未知时返回 false）
+ */
+export const isBelowMinimumVersion = (version?: string | null, minimum = MIN_BACKEND_VERSION) => {
+  const comparison = compareVersions(minimum, version);
+  return comparison !== null && comparison > 0;
+};
@@ -0,0 +1,66 @@
+/**
+ * YAML 文档读写辅助函数，供可视化编辑与配置预设按路径修改 config.yaml
+ */
+
+import { isMap, type parseDocument } from 'yaml';
+
+export type YamlDocument = ReturnType<typeof parseDocument>;
+export type YamlPath = string[];
+
+export function docHas(doc: YamlDocument, path: YamlPath): boolean {
+  return doc.hasIn(path);
+}
+
+export function ensureMapInDoc(doc: YamlDocument, path: YamlPath): void {
+  const existing = doc.getIn(path, true);
+  if (isMap(existing)) return;
+  // Use a YAML node here; plain objects are not treated as collections by subsequent `setIn`.
+  doc.setIn(path, doc.createNode({}));
+}
+
+export function deleteIfMapEmpty(doc: YamlDocument, path: YamlPath): void {
+  const value = doc.getIn(path, true);
+  if (!isMap(value)) return;
+  if (value.items.length === 0) doc.deleteIn(path);
+}
+
+export function setBooleanInDoc(doc: YamlDocument, path: YamlPath, value: boolean): void {
+  if (value) {
+    doc.setIn(path, true);
+    return;
+  }
+  if (docHas(doc, path)) doc.setIn(path, false);
+}
+
+export function setStringInDoc(doc: YamlDocument, path: YamlPath, value: unknown): void {
+  const safe = typeof value === 'string' ? value : '';
+  const trimmed = safe.trim();
+  if (trimmed !== '') {
+    doc.setIn(path, safe);
+    return;
+  }
+  // Preserve existing empty-string keys to avoid dropping template blocks/comments.
+  // Only keep the key when it already exists in the YAML.
+  if (docHas(doc, path)) {
+    doc.setIn(path, '');
+  }
+}
+
+export function setIntFromStringInDoc(doc: YamlDocument, path: YamlPath, value: unknown): void {
+  const safe = typeof value === 'string' ? value : '';
+  const trimmed = safe.trim();
+  if (trimmed === '') {
+    if (docHas(doc, path)) doc.deleteIn(path);
+    return;
+  }
+
+  if (!/^-?\d+$/.test(trimmed)) {
+    return;
+  }
+
+  const parsed = Number(trimmed);
+  if (Number.isFinite(parsed)) {
+    doc.setIn(path, parsed);
+    return;
+  }
+}